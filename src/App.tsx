@@ -8,7 +8,7 @@ import ProcessingPage from "./pages/ProcessingPage";
 import ResultsPage from "./pages/ResultsPage";
 import ProductListPage from "./pages/ProductListPage";
 import { CompetitiveIntelligencePage } from "./pages/CompetitiveIntelligencePage";
-import DebugZenrowsPage from "./pages/DebugZenrowsPage";
+import DebugScrapePage from "./pages/DebugScrapePage";
 import NotFound from "./pages/NotFound";
 import AuthPage from "./pages/AuthPage";
 import AdminPage from "./pages/AdminPage";
@@ -27,7 +27,7 @@ const App = () => (
           <Route path="/" element={<Index />} />
           <Route path="/products" element={<ProductListPage />} />
           <Route path="/competitive-intelligence" element={<CompetitiveIntelligencePage />} />
-          <Route path="/debug-zenrows" element={<DebugZenrowsPage />} />
+          <Route path="/debug-scrape" element={<DebugScrapePage />} />
           <Route path="/processing/:baselineId" element={<ProcessingPage />} />
           <Route path="/results/:baselineId" element={<ResultsPage />} />
           <Route path="/admin" element={<AdminRoute><AdminPage /></AdminRoute>} />
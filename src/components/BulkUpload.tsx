@@ -0,0 +1,388 @@
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Download, Upload, Trash2, Loader2, AlertCircle, CheckCircle2, XCircle, ExternalLink } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ProgressBar } from '@/components/ui/progress-bar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { CATEGORY_ELASTICITY, ALLOWED_CATEGORIES, ALLOWED_CURRENCIES } from '@/utils/categoryElasticity';
+import {
+  parseExcelFile,
+  generateExcelTemplate,
+  validateProductRow,
+  ProductField,
+  ProductRow,
+  ValidationError,
+} from '@/utils/excelParser';
+
+interface StatusRow {
+  baseline_id: string | null;
+  status: string | null;
+  current_step: string | null;
+  error_message: string | null;
+}
+
+interface BatchItem {
+  row: number;
+  baseline_id: string;
+  product_name: string;
+  status: string;
+  current_step: string | null;
+  error_message: string | null;
+}
+
+const COLUMNS: { field: ProductField; label: string; type: 'text' | 'number' }[] = [
+  { field: 'product_name', label: 'Product Name', type: 'text' },
+  { field: 'category', label: 'Category', type: 'text' },
+  { field: 'current_price', label: 'Price', type: 'number' },
+  { field: 'current_quantity', label: 'Monthly Qty', type: 'number' },
+  { field: 'cost_per_unit', label: 'Cost', type: 'number' },
+  { field: 'currency', label: 'Currency', type: 'text' },
+];
+
+const POLL_INTERVAL_MS = 2000;
+const STATUS_CHUNK_SIZE = 100;
+
+export const BulkUpload = () => {
+  const [rows, setRows] = useState<ProductRow[]>([]);
+  const [fileErrors, setFileErrors] = useState<ValidationError[]>([]);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [batch, setBatch] = useState<BatchItem[]>([]);
+  const [batchIds, setBatchIds] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const rowErrors = new Map<number, ValidationError[]>(
+    rows.map(r => [r.row, validateProductRow(r).errors])
+  );
+  const invalidCount = rows.filter(r => (rowErrors.get(r.row)?.length || 0) > 0).length;
+
+  const finishedCount = batch.filter(b => b.status === 'completed' || b.status === 'failed').length;
+  const batchDone = batch.length > 0 && finishedCount === batch.length;
+
+  // Poll processing_status for every baseline in the submitted batch
+  useEffect(() => {
+    if (batchIds.length === 0 || batchDone) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const statuses: StatusRow[] = [];
+        for (let i = 0; i < batchIds.length; i += STATUS_CHUNK_SIZE) {
+          const { data, error } = await supabase
+            .from('processing_status')
+            .select('baseline_id, status, current_step, error_message, updated_at')
+            .in('baseline_id', batchIds.slice(i, i + STATUS_CHUNK_SIZE))
+            .order('updated_at', { ascending: false });
+
+          if (error) throw error;
+          statuses.push(...(data || []));
+        }
+
+        setBatch(prev => prev.map(item => {
+          // Rows are ordered newest first, so the first match is the latest status
+          const latest = statuses.find(s => s.baseline_id === item.baseline_id);
+          return latest
+            ? { ...item, status: latest.status || item.status, current_step: latest.current_step, error_message: latest.error_message }
+            : item;
+        }));
+      } catch (error) {
+        console.error('Error polling batch status:', error);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [batchIds, batchDone]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setIsParsing(true);
+    setFileName(file.name);
+    setBatch([]);
+    setBatchIds([]);
+
+    try {
+      const { rows: parsedRows, errors } = await parseExcelFile(file);
+      setRows(parsedRows);
+      setFileErrors(errors.filter(err => err.row === 0));
+
+      const invalidRows = new Set(errors.filter(err => err.row > 0).map(err => err.row)).size;
+      toast({
+        title: `${parsedRows.length} products loaded`,
+        description: invalidRows > 0
+          ? `${invalidRows} rows need fixing before you can submit`
+          : 'All rows are valid',
+        variant: invalidRows > 0 ? 'destructive' : 'default',
+      });
+    } finally {
+      setIsParsing(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const updateCell = (rowNum: number, field: ProductField, value: string) => {
+    setRows(prev => prev.map(r => r.row === rowNum ? { ...r, values: { ...r.values, [field]: value } } : r));
+  };
+
+  const removeRow = (rowNum: number) => {
+    setRows(prev => prev.filter(r => r.row !== rowNum));
+  };
+
+  const handleSubmit = async () => {
+    if (rows.length === 0 || invalidCount > 0) return;
+    setIsSubmitting(true);
+
+    try {
+      const products = rows.map(r => {
+        const { product } = validateProductRow(r);
+        return {
+          row: r.row,
+          ...product!,
+          base_elasticity: CATEGORY_ELASTICITY[product!.category],
+        };
+      });
+
+      // Use submit-batch edge function (works for both guests and authenticated users)
+      const { data, error } = await supabase.functions.invoke('submit-batch', {
+        body: { products }
+      });
+
+      if (error) throw error;
+
+      setBatch(data.baselines.map((b: { row: number; baseline_id: string }) => ({
+        row: b.row,
+        baseline_id: b.baseline_id,
+        product_name: products.find(p => p.row === b.row)?.product_name || '',
+        status: 'pending',
+        current_step: 'queued',
+        error_message: null,
+      })));
+      setBatchIds(data.baselines.map((b: { baseline_id: string }) => b.baseline_id));
+      setRows([]);
+
+      toast({
+        title: 'Success!',
+        description: `${data.baselines.length} products uploaded and processing started`,
+      });
+    } catch (error) {
+      console.error('Error submitting batch:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to submit products. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const getStatusBadge = (item: BatchItem) => {
+    switch (item.status) {
+      case 'completed':
+        return <Badge variant="success"><CheckCircle2 className="w-3 h-3 mr-1" />Done</Badge>;
+      case 'failed':
+        return <Badge variant="destructive"><XCircle className="w-3 h-3 mr-1" />Failed</Badge>;
+      case 'processing':
+        return <Badge variant="warning"><Loader2 className="w-3 h-3 mr-1 animate-spin" />{item.current_step || 'Processing'}</Badge>;
+      default:
+        return <Badge variant="muted">Queued</Badge>;
+    }
+  };
+
+  // Submitted batch: show per-baseline progress
+  if (batch.length > 0) {
+    return (
+      <div className="space-y-6 animate-fade-in">
+        <ProgressBar current={finishedCount} total={batch.length} label="Products analyzed" />
+
+        <div className="border rounded-2xl overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">Row</TableHead>
+                <TableHead>Product</TableHead>
+                <TableHead className="w-40">Status</TableHead>
+                <TableHead className="w-20" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {batch.map(item => (
+                <TableRow key={item.baseline_id}>
+                  <TableCell className="text-muted-foreground">{item.row}</TableCell>
+                  <TableCell>
+                    <p className="font-medium">{item.product_name}</p>
+                    {item.error_message && (
+                      <p className="text-xs text-destructive mt-1">{item.error_message}</p>
+                    )}
+                  </TableCell>
+                  <TableCell>{getStatusBadge(item)}</TableCell>
+                  <TableCell>
+                    {item.status === 'completed' && (
+                      <Button variant="ghost" size="sm" onClick={() => navigate(`/results/${item.baseline_id}`)}>
+                        <ExternalLink className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {batchDone && (
+          <div className="flex justify-center gap-3">
+            <Button variant="outline" onClick={() => { setBatch([]); setBatchIds([]); }}>Import Another File</Button>
+            <Button onClick={() => navigate('/products')}>View All Products</Button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* File actions */}
+      <div className="flex flex-col sm:flex-row gap-3">
+        <Button variant="outline" onClick={generateExcelTemplate} className="flex-1 rounded-2xl py-6">
+          <Download className="w-4 h-4 mr-2" />
+          Download Template
+        </Button>
+        <Button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isParsing}
+          className="flex-1 rounded-2xl py-6"
+        >
+          {isParsing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+          {fileName ? 'Choose Another File' : 'Upload Excel or CSV'}
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".xlsx,.xls,.csv"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+
+      {fileErrors.map((err, index) => (
+        <Alert key={index} className="border-destructive/50 bg-destructive/10">
+          <AlertCircle className="h-4 w-4 !text-destructive" />
+          <AlertDescription>{err.message}</AlertDescription>
+        </Alert>
+      ))}
+
+      {/* Preview */}
+      {rows.length > 0 && (
+        <>
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">{fileName} • {rows.length} products</span>
+            {invalidCount > 0 ? (
+              <Badge variant="destructive">{invalidCount} rows need fixing</Badge>
+            ) : (
+              <Badge variant="success">All rows valid</Badge>
+            )}
+          </div>
+
+          <div className="border rounded-2xl overflow-x-auto max-h-[60vh] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">Row</TableHead>
+                  {COLUMNS.map(col => (
+                    <TableHead key={col.field} className="min-w-[110px]">{col.label}</TableHead>
+                  ))}
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(r => {
+                  const errors = rowErrors.get(r.row) || [];
+                  const errorFields = new Set(errors.map(err => err.field));
+                  const cellClass = (field: ProductField) =>
+                    errorFields.has(field) ? 'border-destructive focus-visible:ring-destructive' : '';
+
+                  return (
+                    <TableRow key={r.row} className={errors.length > 0 ? 'bg-destructive/5' : ''}>
+                      <TableCell className="text-muted-foreground align-top pt-5">{r.row}</TableCell>
+                      {COLUMNS.map(col => (
+                        <TableCell key={col.field} className="align-top">
+                          {col.field === 'category' ? (
+                            <Select value={r.values.category} onValueChange={(value) => updateCell(r.row, 'category', value)}>
+                              <SelectTrigger className={`min-w-[180px] ${cellClass('category')}`}>
+                                <SelectValue placeholder="Select a category" />
+                              </SelectTrigger>
+                              <SelectContent className="bg-background max-h-[60vh] z-[100]">
+                                {ALLOWED_CATEGORIES.map(cat => (
+                                  <SelectItem key={cat} value={cat}>{cat}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : col.field === 'currency' ? (
+                            <Select value={r.values.currency.toUpperCase()} onValueChange={(value) => updateCell(r.row, 'currency', value)}>
+                              <SelectTrigger className={cellClass('currency')}>
+                                <SelectValue placeholder="-" />
+                              </SelectTrigger>
+                              <SelectContent className="bg-background z-[100]">
+                                {ALLOWED_CURRENCIES.map(cur => (
+                                  <SelectItem key={cur} value={cur}>{cur}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <Input
+                              type={col.type}
+                              value={r.values[col.field]}
+                              onChange={(e) => updateCell(r.row, col.field, e.target.value)}
+                              className={cellClass(col.field)}
+                            />
+                          )}
+                          {errors.filter(err => err.field === col.field).map(err => (
+                            <p key={err.field} className="text-xs text-destructive mt-1 max-w-[220px]">
+                              {err.field === 'category' ? 'Pick a category from the list' : err.message}
+                            </p>
+                          ))}
+                        </TableCell>
+                      ))}
+                      <TableCell className="align-top">
+                        <Button variant="ghost" size="sm" onClick={() => removeRow(r.row)}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex justify-center pt-4">
+            <Button
+              onClick={handleSubmit}
+              disabled={isSubmitting || invalidCount > 0}
+              size="lg"
+              className="px-12 py-6 rounded-2xl text-lg shadow-lg hover:shadow-xl transition-all"
+            >
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                  Uploading...
+                </>
+              ) : (
+                `Analyze ${rows.length} Products`
+              )}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
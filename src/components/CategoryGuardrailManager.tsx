@@ -0,0 +1,246 @@
+import { useState } from 'react';
+import { Loader2, Pencil, Plus, Save, ShieldCheck, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useCategoryTaxonomy } from '@/hooks/use-category-taxonomy';
+import { StoredGuardrailRow, usePriceGuardrails } from '@/hooks/use-price-guardrails';
+import { GuardrailFields } from '@/components/GuardrailFields';
+import { categoryOptions } from '@shared/pricing/categories';
+import {
+  describeGuardrails,
+  guardrailsFromRow,
+  guardrailsToRow,
+  hasGuardrails,
+  NO_GUARDRAILS,
+  validateGuardrails,
+} from '@shared/pricing/guardrails';
+import { CATEGORY_GUARDRAILS, fromGuardrailForm, GuardrailForm, toGuardrailForm } from '@/utils/guardrails';
+
+interface CategoryForm {
+  id: string | null;
+  category: string;
+  values: GuardrailForm;
+}
+
+interface CategoryGuardrailManagerProps {
+  // Called after category guardrails change
+  onChange?: () => void;
+}
+
+export function CategoryGuardrailManager({ onChange }: CategoryGuardrailManagerProps) {
+  const { toast } = useToast();
+  const taxonomy = useCategoryTaxonomy();
+  const { rows, loading, reload } = usePriceGuardrails();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<CategoryForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const categoryRows = rows.filter(row => row.category !== null);
+  const options = categoryOptions(taxonomy);
+
+  const refresh = async () => {
+    await reload();
+    onChange?.();
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    // Absolute prices are product-only
+    const guardrails = { ...fromGuardrailForm(form.values), minPrice: null, maxPrice: null };
+    const errors = validateGuardrails(guardrails);
+    if (!form.category) errors.unshift('Choose a category');
+    if (!hasGuardrails(guardrails)) errors.push('Set at least one guardrail');
+    if (errors.length > 0) {
+      toast({
+        title: 'Invalid guardrails',
+        description: errors.join('. '),
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not signed in');
+
+      const { error } = form.id
+        ? await supabase
+            .from('price_guardrails')
+            .update({ ...guardrailsToRow(guardrails), updated_at: new Date().toISOString() })
+            .eq('id', form.id)
+        : await supabase
+            .from('price_guardrails')
+            .insert({ ...guardrailsToRow(guardrails), merchant_id: user.id, category: form.category });
+
+      if (error) {
+        // Unique (merchant_id, category)
+        if (error.code === '23505') {
+          toast({
+            title: 'Category already has guardrails',
+            description: 'Edit the existing entry instead',
+            variant: 'destructive',
+          });
+          return;
+        }
+        throw error;
+      }
+
+      setForm(null);
+      await refresh();
+      toast({
+        title: 'Guardrails saved',
+        description: `They apply from the next pricing run of ${form.category} products`,
+      });
+    } catch (error) {
+      console.error('Error saving category guardrails:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save guardrails',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (row: StoredGuardrailRow) => {
+    try {
+      const { error } = await supabase
+        .from('price_guardrails')
+        .delete()
+        .eq('id', row.id);
+
+      if (error) throw error;
+      await refresh();
+      toast({
+        title: 'Guardrails removed',
+        description: `${row.category} products fall back to their parent category's guardrails, if any`,
+      });
+    } catch (error) {
+      console.error('Error deleting category guardrails:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to remove guardrails',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const renderForm = () => form && (
+    <div className="border rounded-lg p-4 space-y-4">
+      {form.id ? (
+        <p className="font-semibold text-foreground">{form.category}</p>
+      ) : (
+        <div className="space-y-2">
+          <Label htmlFor="guardrail-category">Category</Label>
+          <Select value={form.category} onValueChange={(category) => setForm({ ...form, category })}>
+            <SelectTrigger id="guardrail-category" className="w-full">
+              <SelectValue placeholder="Select a category" />
+            </SelectTrigger>
+            <SelectContent className="max-h-[50vh]">
+              {options.map(option => (
+                <SelectItem
+                  key={option.name}
+                  value={option.name}
+                  disabled={categoryRows.some(row => row.category === option.name)}
+                  className={option.depth > 0 ? 'pl-10 text-muted-foreground' : 'font-medium'}
+                >
+                  {option.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      <GuardrailFields
+        idPrefix="category-guardrail"
+        settings={CATEGORY_GUARDRAILS}
+        form={form.values}
+        onChange={(values) => setForm({ ...form, values })}
+      />
+      <div className="flex gap-2 justify-end">
+        <Button variant="outline" size="sm" onClick={() => setForm(null)} disabled={saving}>
+          <X className="h-4 w-4 mr-2" />
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={saving}>
+          {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => { setOpen(nextOpen); if (!nextOpen) setForm(null); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2" size="sm">
+          <ShieldCheck className="w-4 h-4" />
+          <span className="hidden sm:inline">Category Guardrails</span>
+          <span className="sm:hidden">Guardrails</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Category Guardrails</DialogTitle>
+          <DialogDescription>
+            Limits on what pricing may suggest for every product in a category and its subcategories. A product's
+            own guardrails, set on its results page, take precedence setting by setting.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {form && !form.id ? renderForm() : (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setForm({ id: null, category: '', values: toGuardrailForm(NO_GUARDRAILS) })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add category
+              </Button>
+            )}
+            {categoryRows.length === 0 && !form && (
+              <p className="text-sm text-muted-foreground">No category guardrails yet</p>
+            )}
+            {categoryRows.map(row => (
+              form?.id === row.id ? (
+                <div key={row.id}>{renderForm()}</div>
+              ) : (
+                <div key={row.id} className="p-4 rounded-lg border border-border flex items-start justify-between gap-3 flex-wrap">
+                  <div className="space-y-1">
+                    <p className="font-semibold text-foreground">{row.category}</p>
+                    <p className="text-xs text-muted-foreground">{describeGuardrails(guardrailsFromRow(row))}</p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setForm({ id: row.id, category: row.category || '', values: toGuardrailForm(guardrailsFromRow(row)) })}
+                      title="Edit"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(row)} title="Delete">
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              )
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,399 @@
+import { useEffect, useState } from 'react';
+import { Ban, ExternalLink, Link2, Loader2, Pin, Plus, Undo2 } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { formatPrice } from '@/lib/utils';
+import { formatTimeAgo } from '@/utils/refreshSchedule';
+import { CurationAction, curationListingKey } from '@shared/pricing/curation';
+
+interface CompetitorListing {
+  id: string;
+  marketplace: string;
+  product_name: string;
+  product_url: string | null;
+  price: number;
+  similarity_score: number;
+  ai_decision: string | null;
+  ai_reasoning: string | null;
+}
+
+interface CurationRow {
+  id: string;
+  action: CurationAction;
+  marketplace: string;
+  product_name: string;
+  product_url: string | null;
+  listing_key: string;
+  last_price: number | null;
+  last_scraped_at: string | null;
+}
+
+interface ScrapedUrl {
+  url: string;
+  marketplace: string;
+  product_name: string;
+  price: number;
+  similarity_score: number;
+  price_ratio: number;
+}
+
+const AI_DECISION_LABELS: Record<string, string> = {
+  match: 'AI verified match',
+  accessory: 'AI: accessory',
+  different_product: 'AI: different product',
+};
+
+interface CompetitorCurationProps {
+  baselineId: string;
+  currency: string;
+}
+
+export function CompetitorCuration({ baselineId, currency }: CompetitorCurationProps) {
+  const { toast } = useToast();
+  const [listings, setListings] = useState<CompetitorListing[]>([]);
+  const [curations, setCurations] = useState<CurationRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const [newUrl, setNewUrl] = useState('');
+  const [adding, setAdding] = useState(false);
+
+  useEffect(() => {
+    const loadCompetitors = async () => {
+      try {
+        const [listingsResult, curationsResult] = await Promise.all([
+          supabase
+            .from('competitor_products')
+            .select('id, marketplace, product_name, product_url, price, similarity_score, ai_decision, ai_reasoning')
+            .eq('baseline_id', baselineId)
+            .order('similarity_score', { ascending: false }),
+          supabase
+            .from('competitor_curations')
+            .select('id, action, marketplace, product_name, product_url, listing_key, last_price, last_scraped_at')
+            .eq('baseline_id', baselineId)
+            .order('created_at', { ascending: true }),
+        ]);
+
+        if (listingsResult.error) throw listingsResult.error;
+        if (curationsResult.error) throw curationsResult.error;
+        setListings((listingsResult.data || []) as CompetitorListing[]);
+        setCurations((curationsResult.data || []) as CurationRow[]);
+      } catch (error) {
+        console.error('Failed to load competitor listings:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadCompetitors();
+  }, [baselineId]);
+
+  const curationFor = (listing: CompetitorListing) =>
+    curations.find(curation => curation.listing_key === curationListingKey(listing));
+
+  const saveCuration = async (
+    listing: Pick<CompetitorListing, 'marketplace' | 'product_name' | 'product_url'>,
+    action: CurationAction,
+    lastPrice: number | null = null
+  ) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not signed in');
+
+    const { data, error } = await supabase
+      .from('competitor_curations')
+      .upsert({
+        baseline_id: baselineId,
+        merchant_id: user.id,
+        action,
+        marketplace: listing.marketplace,
+        product_name: listing.product_name,
+        product_url: listing.product_url,
+        last_price: lastPrice,
+        last_scraped_at: lastPrice !== null ? new Date().toISOString() : null,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'baseline_id,listing_key' })
+      .select('id, action, marketplace, product_name, product_url, listing_key, last_price, last_scraped_at')
+      .single();
+
+    if (error) throw error;
+    const saved = data as CurationRow;
+    setCurations(prev => [...prev.filter(curation => curation.listing_key !== saved.listing_key), saved]);
+  };
+
+  const handleToggle = async (listing: CompetitorListing, action: CurationAction) => {
+    const key = curationListingKey(listing);
+    const existing = curationFor(listing);
+
+    setSavingKey(key);
+    try {
+      if (existing?.action === action) {
+        await removeCuration(existing);
+      } else {
+        await saveCuration(listing, action, action === 'pin' ? listing.price : null);
+        toast({
+          title: action === 'pin' ? 'Listing pinned' : 'Listing excluded',
+          description: action === 'pin'
+            ? 'This listing will be re-checked on every refresh and always counted'
+            : 'This listing will be left out of refreshes and price recommendations',
+        });
+      }
+    } catch (error) {
+      console.error('Failed to update competitor curation:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update competitor listing',
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const removeCuration = async (curation: CurationRow) => {
+    const { error } = await supabase
+      .from('competitor_curations')
+      .delete()
+      .eq('id', curation.id);
+
+    if (error) throw error;
+    setCurations(prev => prev.filter(c => c.id !== curation.id));
+  };
+
+  const handleUndo = async (curation: CurationRow) => {
+    setSavingKey(curation.listing_key);
+    try {
+      await removeCuration(curation);
+    } catch (error) {
+      console.error('Failed to remove competitor curation:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update competitor listing',
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const handleAddUrl = async () => {
+    const url = newUrl.trim();
+    try {
+      new URL(url);
+    } catch {
+      toast({
+        title: 'Invalid URL',
+        description: 'Paste the full address of a competitor product page',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setAdding(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('refresh-competitors', {
+        body: { baseline_id: baselineId, urls: [url] }
+      });
+
+      if (error) throw error;
+      const scraped = (data?.products || [])[0] as ScrapedUrl | undefined;
+      if (!scraped) {
+        toast({
+          title: 'No price found',
+          description: 'We could not read a price from that page',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not signed in');
+
+      const listing = {
+        marketplace: scraped.marketplace,
+        product_name: scraped.product_name,
+        product_url: scraped.url,
+      };
+      await saveCuration(listing, 'pin', scraped.price);
+
+      // Add it to the current competitor set too, so it counts before the next refresh
+      const { data: inserted, error: insertError } = await supabase
+        .from('competitor_products')
+        .insert({
+          ...listing,
+          baseline_id: baselineId,
+          merchant_id: user.id,
+          price: scraped.price,
+          similarity_score: 1,
+          price_ratio: scraped.price_ratio,
+          currency,
+          rank: listings.length + 1,
+        })
+        .select('id, marketplace, product_name, product_url, price, similarity_score, ai_decision, ai_reasoning')
+        .single();
+
+      if (insertError) throw insertError;
+      setListings(prev => [inserted as CompetitorListing, ...prev]);
+      setNewUrl('');
+
+      toast({
+        title: 'Competitor added',
+        description: `${scraped.product_name} at ${formatPrice(scraped.price, currency)}`,
+      });
+    } catch (error) {
+      console.error('Failed to add competitor URL:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to add competitor URL',
+        variant: 'destructive',
+      });
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const listedKeys = new Set(listings.map(listing => curationListingKey(listing)));
+  const unlistedCurations = curations.filter(curation => !listedKeys.has(curation.listing_key));
+
+  return (
+    <Card className="p-6 md:p-8 mb-6 shadow-elegant hover:shadow-glow transition-all animate-scale-in">
+      <h2 className="text-2xl font-bold mb-2 flex items-center gap-2 text-foreground">
+        <div className="p-2 bg-primary rounded-lg shadow-md">
+          <span className="text-lg">🎯</span>
+        </div>
+        Competitor Listings
+      </h2>
+      <p className="text-sm text-muted-foreground mb-6">
+        Pin listings you trust and exclude ones that are not the same product. Your choices apply to every refresh and price recommendation.
+      </p>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="space-y-3 mb-6">
+          {listings.length === 0 && unlistedCurations.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No competitor listings yet. Refresh competitors or add a URL below.
+            </p>
+          )}
+          {listings.map(listing => {
+            const curation = curationFor(listing);
+            const key = curationListingKey(listing);
+
+            return (
+              <div
+                key={listing.id}
+                className={`flex items-center justify-between gap-3 p-4 bg-gradient-card rounded-lg border border-border flex-wrap ${curation?.action === 'exclude' ? 'opacity-60' : ''}`}
+              >
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <Badge variant="outline" className="capitalize">{listing.marketplace}</Badge>
+                    {curation?.action === 'pin' && <Badge>Pinned</Badge>}
+                    {curation?.action === 'exclude' && <Badge variant="destructive">Excluded</Badge>}
+                    <span className="text-xs text-muted-foreground">
+                      {Math.round(listing.similarity_score * 100)}% match
+                    </span>
+                    {listing.ai_decision && (
+                      <Badge variant={listing.ai_decision === 'match' ? 'secondary' : 'destructive'}>
+                        {AI_DECISION_LABELS[listing.ai_decision] || listing.ai_decision}
+                      </Badge>
+                    )}
+                  </div>
+                  <p className={`text-sm font-medium mt-1 truncate ${curation?.action === 'exclude' ? 'line-through text-muted-foreground' : 'text-foreground'}`}>
+                    {listing.product_name}
+                  </p>
+                  {listing.ai_reasoning && (
+                    <p className="text-xs text-muted-foreground mt-1">{listing.ai_reasoning}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-semibold text-foreground">{formatPrice(listing.price, currency)}</span>
+                  {listing.product_url && (
+                    <Button variant="ghost" size="sm" asChild title="Open listing">
+                      <a href={listing.product_url} target="_blank" rel="noopener noreferrer">
+                        <ExternalLink className="w-4 h-4" />
+                      </a>
+                    </Button>
+                  )}
+                  {listing.product_url && (
+                    <Button
+                      variant={curation?.action === 'pin' ? 'secondary' : 'ghost'}
+                      size="sm"
+                      onClick={() => handleToggle(listing, 'pin')}
+                      disabled={savingKey === key}
+                      title={curation?.action === 'pin' ? 'Unpin' : 'Pin as trusted'}
+                    >
+                      <Pin className="w-4 h-4" />
+                    </Button>
+                  )}
+                  <Button
+                    variant={curation?.action === 'exclude' ? 'secondary' : 'ghost'}
+                    size="sm"
+                    onClick={() => handleToggle(listing, 'exclude')}
+                    disabled={savingKey === key}
+                    title={curation?.action === 'exclude' ? 'Include again' : 'Exclude'}
+                  >
+                    <Ban className="w-4 h-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+
+          {/* Excluded listings are skipped by refreshes, so they no longer appear above */}
+          {unlistedCurations.map(curation => (
+            <div key={curation.id} className="flex items-center justify-between gap-3 p-4 rounded-lg border border-dashed border-border flex-wrap">
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <Badge variant="outline" className="capitalize">{curation.marketplace}</Badge>
+                  {curation.action === 'pin'
+                    ? <Badge>Pinned</Badge>
+                    : <Badge variant="destructive">Excluded</Badge>}
+                  {curation.last_scraped_at && (
+                    <span className="text-xs text-muted-foreground">
+                      Checked {formatTimeAgo(curation.last_scraped_at)}
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm font-medium mt-1 truncate text-muted-foreground">{curation.product_name}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                {curation.last_price !== null && (
+                  <span className="text-sm font-semibold text-foreground">{formatPrice(curation.last_price, currency)}</span>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleUndo(curation)}
+                  disabled={savingKey === curation.listing_key}
+                  title={curation.action === 'pin' ? 'Unpin' : 'Include again'}
+                >
+                  <Undo2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 flex-wrap">
+        <Link2 className="w-4 h-4 text-muted-foreground" />
+        <Input
+          type="url"
+          value={newUrl}
+          onChange={(e) => setNewUrl(e.target.value)}
+          className="flex-1 min-w-64"
+          placeholder="https://competitor.com/product-page"
+        />
+        <Button onClick={handleAddUrl} disabled={adding || !newUrl.trim()} size="sm">
+          {adding ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+          Add Competitor
+        </Button>
+      </div>
+    </Card>
+  );
+}
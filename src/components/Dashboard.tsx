@@ -9,6 +9,7 @@ import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContai
 import { useToast } from '@/hooks/use-toast';
 import { formatNumber, formatPrice } from '@/lib/utils';
 import { User } from '@supabase/supabase-js';
+import { AlertListingChange, describeListingChange } from '@/utils/priceAlerts';
 interface DashboardProps {
   onNavigateToUpload: () => void;
 }
@@ -117,6 +118,27 @@ const Dashboard = ({
         };
       });
 
+      // Competitor price alerts raised by the merchant's alert rules
+      const {
+        data: priceAlerts
+      } = await supabase.from('price_alerts').select('*').eq('merchant_id', user.id).is('acknowledged_at', null).in('baseline_id', activeBaselineIds.length > 0 ? activeBaselineIds : ['00000000-0000-0000-0000-000000000000']).order('created_at', {
+        ascending: false
+      }).limit(10);
+      const competitorAlerts = (priceAlerts || []).map(alert => {
+        const baseline = baselines?.find(b => b.id === alert.baseline_id);
+        return {
+          id: alert.id,
+          type: 'competitor',
+          product: baseline?.product_name || 'Unknown Product',
+          message: alert.message,
+          action: 'Review competitor prices',
+          baselineId: alert.baseline_id,
+          currency: baseline?.currency || currency,
+          digest: (alert.digest || []) as unknown as AlertListingChange[]
+        };
+      });
+      const allAlerts = [...competitorAlerts, ...newAlerts];
+
       // Generate chart data (last 7 days of profit)
       const chartDataPoints = [];
       for (let i = 6; i >= 0; i--) {
@@ -134,10 +156,10 @@ const Dashboard = ({
         profitIncrease: avgProfitIncrease,
         revenue: totalProfit,
         productsOptimized: optimizedProducts,
-        activeAlerts: newAlerts.length,
+        activeAlerts: allAlerts.length,
         currency: currency
       });
-      setAlerts(newAlerts);
+      setAlerts(allAlerts);
       setOpportunities(topOpportunities);
       setChartData(chartDataPoints);
       setBaselines(baselines || []);
@@ -148,6 +170,27 @@ const Dashboard = ({
       setLoading(false);
     }
   };
+  const handleDismissAlert = async (alertId: string) => {
+    const {
+      error
+    } = await supabase.from('price_alerts').update({
+      acknowledged_at: new Date().toISOString()
+    }).eq('id', alertId);
+    if (error) {
+      console.error('Failed to dismiss alert:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to dismiss alert',
+        variant: 'destructive'
+      });
+      return;
+    }
+    setAlerts(prev => prev.filter(alert => alert.id !== alertId));
+    setMetrics(prev => ({
+      ...prev,
+      activeAlerts: Math.max(0, prev.activeAlerts - 1)
+    }));
+  };
   const handleLogout = async () => {
     await supabase.auth.signOut();
     setUser(null);
@@ -336,8 +379,26 @@ const Dashboard = ({
                       <div>
                         <p className="font-semibold text-destructive mb-1">{alert.product}</p>
                         <p className="text-sm text-foreground">{alert.message}</p>
+                        {alert.type === 'competitor' && alert.digest.length > 0 && <ul className="mt-2 space-y-0.5">
+                            {alert.digest.slice(0, 5).map((change: AlertListingChange) => <li key={change.listing_key} className="text-xs text-foreground">
+                                <span className="font-medium capitalize">{change.marketplace}</span>
+                                {' · '}
+                                <span className="text-muted-foreground">{change.product_name.slice(0, 60)}</span>
+                                {' · '}
+                                {describeListingChange(change, alert.currency)}
+                              </li>)}
+                            {alert.digest.length > 5 && <li className="text-xs text-muted-foreground">+{alert.digest.length - 5} more listings changed</li>}
+                          </ul>}
                         <p className="text-xs text-muted-foreground mt-1">{alert.action}</p>
                       </div>
+                      {alert.type === 'competitor' && <div className="flex items-center gap-2 shrink-0 ml-3">
+                          <Button size="sm" variant="outline" onClick={() => navigate(`/results/${alert.baselineId}`)}>
+                            View
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => handleDismissAlert(alert.id)}>
+                            Dismiss
+                          </Button>
+                        </div>}
                     </div>
                   </AlertDescription>
                 </Alert>)}
@@ -0,0 +1,44 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { GUARDRAIL_LIMITS } from '@shared/pricing/guardrails';
+import { GUARDRAIL_HELP, GuardrailForm, GuardrailSetting, PERCENT_GUARDRAILS } from '@/utils/guardrails';
+
+interface GuardrailFieldsProps {
+  idPrefix: string;
+  settings: GuardrailSetting[];
+  form: GuardrailForm;
+  onChange: (form: GuardrailForm) => void;
+  // Shown in empty fields, e.g. the value inherited from a category
+  placeholders?: Partial<Record<GuardrailSetting, string>>;
+  currency?: string;
+}
+
+export function GuardrailFields({ idPrefix, settings, form, onChange, placeholders = {}, currency }: GuardrailFieldsProps) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {settings.map(setting => {
+        const { label, min, max } = GUARDRAIL_LIMITS[setting];
+        const percent = PERCENT_GUARDRAILS.includes(setting);
+        const unit = percent ? '%' : setting === 'cooldownHours' ? 'hours' : currency;
+        return (
+          <div key={setting} className="space-y-1">
+            <Label htmlFor={`${idPrefix}-${setting}`}>
+              {label}{unit ? ` (${unit})` : ''}
+            </Label>
+            <Input
+              id={`${idPrefix}-${setting}`}
+              type="number"
+              step={percent ? '0.5' : setting === 'cooldownHours' ? '1' : '0.01'}
+              min={percent ? min * 100 : min}
+              max={percent ? max * 100 : max}
+              value={form[setting]}
+              placeholder={placeholders[setting] ?? 'Not set'}
+              onChange={(e) => onChange({ ...form, [setting]: e.target.value })}
+            />
+            <p className="text-xs text-muted-foreground">{GUARDRAIL_HELP[setting]}</p>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
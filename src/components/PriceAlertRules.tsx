@@ -0,0 +1,230 @@
+import { useEffect, useState } from 'react';
+import { Bell, Mail, Plus, Trash2, Loader2 } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { formatTimeAgo } from '@/utils/refreshSchedule';
+import {
+  ALERT_RULE_LABELS,
+  AlertRuleType,
+  PriceAlertRule,
+  describeAlertRule,
+  ruleThresholdKind,
+} from '@/utils/priceAlerts';
+
+interface PriceAlertRulesProps {
+  baselineId: string;
+  currency: string;
+}
+
+export function PriceAlertRules({ baselineId, currency }: PriceAlertRulesProps) {
+  const { toast } = useToast();
+  const [rules, setRules] = useState<PriceAlertRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [ruleType, setRuleType] = useState<AlertRuleType>('competitor_below');
+  const [threshold, setThreshold] = useState('');
+
+  useEffect(() => {
+    const loadRules = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('price_alert_rules')
+          .select('*')
+          .eq('baseline_id', baselineId)
+          .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        setRules((data || []) as PriceAlertRule[]);
+      } catch (error) {
+        console.error('Failed to load alert rules:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRules();
+  }, [baselineId]);
+
+  const handleAdd = async () => {
+    const kind = ruleThresholdKind(ruleType);
+    const value = Number(threshold);
+
+    if (kind && (!threshold || !Number.isFinite(value) || value <= 0)) {
+      toast({
+        title: 'Invalid threshold',
+        description: kind === 'price' ? 'Enter a price greater than zero' : 'Enter a percentage greater than zero',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not signed in');
+
+      const { data, error } = await supabase
+        .from('price_alert_rules')
+        .insert({
+          baseline_id: baselineId,
+          merchant_id: user.id,
+          rule_type: ruleType,
+          threshold: kind ? value : null,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      setRules(prev => [...prev, data as PriceAlertRule]);
+      setThreshold('');
+
+      toast({
+        title: 'Alert added',
+        description: 'You will be notified after the next competitor refresh that matches',
+      });
+    } catch (error) {
+      console.error('Failed to add alert rule:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to add alert rule',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpdate = async (rule: PriceAlertRule, changes: Partial<Pick<PriceAlertRule, 'enabled' | 'email_enabled'>>) => {
+    try {
+      const { error } = await supabase
+        .from('price_alert_rules')
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      setRules(prev => prev.map(r => r.id === rule.id ? { ...r, ...changes } : r));
+    } catch (error) {
+      console.error('Failed to update alert rule:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update alert rule',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (rule: PriceAlertRule) => {
+    try {
+      const { error } = await supabase
+        .from('price_alert_rules')
+        .delete()
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      setRules(prev => prev.filter(r => r.id !== rule.id));
+    } catch (error) {
+      console.error('Failed to delete alert rule:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete alert rule',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const thresholdKind = ruleThresholdKind(ruleType);
+
+  return (
+    <Card className="p-6 md:p-8 mb-6 shadow-elegant hover:shadow-glow transition-all animate-scale-in">
+      <h2 className="text-2xl font-bold mb-6 flex items-center gap-2 text-foreground">
+        <div className="p-2 bg-warning rounded-lg shadow-md">
+          <span className="text-lg">🔔</span>
+        </div>
+        Price Alerts
+      </h2>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="space-y-3 mb-6">
+          {rules.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No alerts yet. Add a rule to be notified when competitor prices change.
+            </p>
+          )}
+          {rules.map(rule => (
+            <div key={rule.id} className="flex items-center justify-between gap-3 p-4 bg-gradient-card rounded-lg border border-border flex-wrap">
+              <div className="flex items-center gap-3">
+                <Switch
+                  checked={rule.enabled}
+                  onCheckedChange={(checked) => handleUpdate(rule, { enabled: checked })}
+                  aria-label="Enable alert"
+                />
+                <div>
+                  <p className={`text-sm font-medium ${rule.enabled ? 'text-foreground' : 'text-muted-foreground'}`}>
+                    {describeAlertRule(rule, currency)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {rule.last_triggered_at ? `Last triggered ${formatTimeAgo(rule.last_triggered_at)}` : 'Not triggered yet'}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant={rule.email_enabled ? 'secondary' : 'ghost'}
+                  size="sm"
+                  onClick={() => handleUpdate(rule, { email_enabled: !rule.email_enabled })}
+                  title={rule.email_enabled ? 'Email on' : 'Email off'}
+                >
+                  <Mail className={`w-4 h-4 ${rule.email_enabled ? '' : 'opacity-40'}`} />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(rule)} title="Delete alert">
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 flex-wrap">
+        <Bell className="w-4 h-4 text-muted-foreground" />
+        <Select value={ruleType} onValueChange={(value) => setRuleType(value as AlertRuleType)}>
+          <SelectTrigger className="w-72">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-background z-[100]">
+            {(Object.keys(ALERT_RULE_LABELS) as AlertRuleType[]).map(type => (
+              <SelectItem key={type} value={type}>{ALERT_RULE_LABELS[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {thresholdKind && (
+          <div className="flex items-center gap-1">
+            <Input
+              type="number"
+              min={0}
+              step={thresholdKind === 'price' ? '0.01' : '0.1'}
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              className="w-32"
+              placeholder={thresholdKind === 'price' ? 'Price' : 'Percent'}
+            />
+            <span className="text-sm text-muted-foreground">{thresholdKind === 'price' ? currency : '%'}</span>
+          </div>
+        )}
+        <Button onClick={handleAdd} disabled={saving} size="sm">
+          {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+          Add Alert
+        </Button>
+      </div>
+    </Card>
+  );
+}
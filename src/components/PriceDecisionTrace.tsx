@@ -0,0 +1,91 @@
+import { Card } from '@/components/ui/card';
+import { formatNumber, formatPrice } from '@/lib/utils';
+import { DecisionTrace, TraceFigure, TraceStage } from '@shared/pricing/trace';
+
+interface PriceDecisionTraceProps {
+  // pricing_results.decision_trace
+  trace: DecisionTrace;
+  currency: string;
+}
+
+const STAGES: { stage: TraceStage; title: string }[] = [
+  { stage: 'market', title: 'Market data' },
+  { stage: 'price', title: 'Price decision' },
+  { stage: 'projection', title: 'Projection' },
+];
+
+const formatFigure = (figure: TraceFigure, currency: string): string => {
+  const { value, format } = figure;
+  if (value === null) return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'string') return value;
+
+  switch (format) {
+    case 'price':
+      return formatPrice(value, currency);
+    case 'percent':
+      return `${+(value * 100).toFixed(2)}%`;
+    case 'multiplier':
+      return `×${+value.toFixed(2)}`;
+    case 'count':
+      return formatNumber(value, 0);
+    default:
+      return String(+value.toFixed(3));
+  }
+};
+
+export function PriceDecisionTrace({ trace, currency }: PriceDecisionTraceProps) {
+  return (
+    <Card className="p-6 md:p-8 mb-6 shadow-elegant hover:shadow-glow transition-all animate-scale-in">
+      <h2 className="text-2xl font-bold mb-2 flex items-center gap-2 text-foreground">
+        <div className="p-2 bg-primary rounded-lg shadow-md">
+          <span className="text-lg">🔎</span>
+        </div>
+        Why this price?
+      </h2>
+      <p className="text-sm text-muted-foreground mb-6">
+        Every step of this pricing run, in order, with the numbers it used.
+      </p>
+
+      <div className="space-y-6">
+        {STAGES.map(({ stage, title }) => {
+          const steps = trace.steps.filter(step => step.stage === stage);
+          if (steps.length === 0) return null;
+
+          return (
+            <div key={stage}>
+              <p className="text-xs font-semibold text-muted-foreground mb-3 uppercase tracking-wide">{title}</p>
+              <ol className="space-y-3">
+                {steps.map(step => (
+                  <li key={`${stage}-${step.key}`} className="p-4 bg-gradient-card rounded-lg border border-border">
+                    <div className="flex gap-3">
+                      <span className="flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-primary/10 text-xs font-bold text-primary">
+                        {trace.steps.indexOf(step) + 1}
+                      </span>
+                      <div className="space-y-2 min-w-0 flex-1">
+                        <div>
+                          <p className="font-semibold text-foreground">{step.title}</p>
+                          <p className="text-sm text-muted-foreground">{step.detail}</p>
+                        </div>
+                        {step.figures.length > 0 && (
+                          <dl className="grid grid-cols-2 md:grid-cols-4 gap-x-4 gap-y-1 text-sm">
+                            {step.figures.map(figure => (
+                              <div key={figure.key}>
+                                <dt className="text-xs text-muted-foreground">{figure.label}</dt>
+                                <dd className="font-medium text-foreground">{formatFigure(figure, currency)}</dd>
+                              </div>
+                            ))}
+                          </dl>
+                        )}
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
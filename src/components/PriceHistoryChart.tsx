@@ -0,0 +1,85 @@
+import { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { Card } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatPrice } from '@/lib/utils';
+import {
+  ALL_MARKETPLACES,
+  PriceObservation,
+  buildPriceHistorySeries,
+  listHistoryMarketplaces,
+} from '@/utils/priceHistory';
+
+interface PriceHistoryChartProps {
+  observations: PriceObservation[];
+  currency: string;
+  currentPrice: number;
+}
+
+const formatRunDate = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+export function PriceHistoryChart({ observations, currency, currentPrice }: PriceHistoryChartProps) {
+  const [marketplace, setMarketplace] = useState<string>(ALL_MARKETPLACES);
+
+  const marketplaces = useMemo(() => listHistoryMarketplaces(observations), [observations]);
+  const series = useMemo(() => buildPriceHistorySeries(observations, marketplace), [observations, marketplace]);
+
+  return (
+    <Card className="p-6 md:p-8 mb-6 shadow-elegant hover:shadow-glow transition-all animate-scale-in">
+      <div className="flex items-center justify-between flex-wrap gap-4 mb-6">
+        <h2 className="text-2xl font-bold flex items-center gap-2 text-foreground">
+          <div className="p-2 bg-primary rounded-lg shadow-md">
+            <span className="text-lg">📈</span>
+          </div>
+          Price History
+        </h2>
+        <Select value={marketplace} onValueChange={setMarketplace}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-background z-[100]">
+            <SelectItem value={ALL_MARKETPLACES}>All marketplaces</SelectItem>
+            {marketplaces.map((key) => (
+              <SelectItem key={key} value={key} className="capitalize">{key}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="h-72">
+        {series.length > 1 ? (
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={series}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+              <XAxis dataKey="observed_at" tickFormatter={formatRunDate} className="text-xs" />
+              <YAxis className="text-xs" domain={['auto', 'auto']} />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: 'hsl(var(--card))',
+                  border: '1px solid hsl(var(--border))',
+                  borderRadius: '8px'
+                }}
+                labelFormatter={(label: string) => new Date(label).toLocaleString()}
+                formatter={(value: number) => formatPrice(value, currency)}
+              />
+              <Legend />
+              <ReferenceLine y={currentPrice} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" label="Your price" />
+              <Line type="monotone" dataKey="lowest" name="Lowest" stroke="hsl(var(--success))" strokeWidth={2} dot={{ fill: 'hsl(var(--success))' }} />
+              <Line type="monotone" dataKey="average" name="Average" stroke="hsl(var(--primary))" strokeWidth={2} dot={{ fill: 'hsl(var(--primary))' }} />
+              <Line type="monotone" dataKey="highest" name="Highest" stroke="hsl(var(--destructive))" strokeWidth={2} dot={{ fill: 'hsl(var(--destructive))' }} />
+            </LineChart>
+          </ResponsiveContainer>
+        ) : (
+          <div className="h-full flex items-center justify-center bg-muted/30 rounded-lg">
+            <p className="text-muted-foreground text-center px-4">
+              {series.length === 1
+                ? 'Only one refresh recorded so far. The trend appears after the next competitor refresh.'
+                : 'No price history for this marketplace yet'}
+            </p>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,243 @@
+import { useEffect, useMemo, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { supabase } from '@/integrations/supabase/client';
+import { useCategoryTaxonomy } from '@/hooks/use-category-taxonomy';
+import { formatNumber, formatPrice } from '@/lib/utils';
+import { BALANCED_STRATEGY, PricingStrategy, strategyFromRow } from '@shared/pricing/strategy';
+import { bestProfitPoint, profitCurve, simulatePrice, SimulationInputs, simulationRange } from '@shared/pricing/simulator';
+
+interface PriceSimulatorProps {
+  currency: string;
+  category: string;
+  currentPrice: number;
+  currentQuantity: number;
+  costPerUnit: number;
+  // Elasticity the engine used for this result
+  elasticity: number;
+  suggestedPrice: number;
+  marketLowest: number;
+  marketAverage: number;
+  marketHighest: number;
+  inflationRate: number;
+  // Strategy recorded on the result; balanced when null
+  strategyId: string | null;
+}
+
+const ZONE_LABELS: Record<'A' | 'B' | 'C', string> = {
+  A: 'Zone A · near lowest',
+  B: 'Zone B · below average',
+  C: 'Zone C · above average',
+};
+
+export function PriceSimulator({
+  currency,
+  category,
+  currentPrice,
+  currentQuantity,
+  costPerUnit,
+  elasticity,
+  suggestedPrice,
+  marketLowest,
+  marketAverage,
+  marketHighest,
+  inflationRate,
+  strategyId,
+}: PriceSimulatorProps) {
+  const taxonomy = useCategoryTaxonomy();
+  const [strategy, setStrategy] = useState<PricingStrategy>(BALANCED_STRATEGY);
+  const [price, setPrice] = useState(suggestedPrice);
+  const [cost, setCost] = useState(String(costPerUnit));
+  const [quantity, setQuantity] = useState(String(currentQuantity));
+  const [elasticityInput, setElasticityInput] = useState(elasticity.toFixed(3));
+
+  useEffect(() => {
+    if (!strategyId) return;
+    let cancelled = false;
+
+    supabase
+      .from('pricing_strategies')
+      .select('key, name, floor_margin, ceiling_ratio, market_position, blend_weight, risk_tolerance, zone_multiplier_scale, zone_a_band')
+      .eq('id', strategyId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching pricing strategy:', error);
+          return;
+        }
+        if (!cancelled && data) setStrategy(strategyFromRow(data));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [strategyId]);
+
+  // Invalid entries fall back to the values the result was calculated with
+  const parsedCost = Number(cost);
+  const parsedQuantity = Number(quantity);
+  const parsedElasticity = Number(elasticityInput);
+
+  const inputs: SimulationInputs = useMemo(() => ({
+    cost: cost.trim() !== '' && Number.isFinite(parsedCost) && parsedCost >= 0 ? parsedCost : costPerUnit,
+    currentPrice,
+    currentQuantity: quantity.trim() !== '' && Number.isFinite(parsedQuantity) && parsedQuantity >= 0 ? parsedQuantity : currentQuantity,
+    elasticity: elasticityInput.trim() !== '' && Number.isFinite(parsedElasticity) && parsedElasticity < 0 ? parsedElasticity : elasticity,
+    marketLowest,
+    marketAverage,
+    marketHighest,
+    inflationRate,
+    category,
+    taxonomy,
+    strategy,
+  }), [cost, parsedCost, costPerUnit, currentPrice, quantity, parsedQuantity, currentQuantity, elasticityInput, parsedElasticity, elasticity,
+    marketLowest, marketAverage, marketHighest, inflationRate, category, taxonomy, strategy]);
+
+  const range = useMemo(() => simulationRange(inputs), [inputs]);
+  const curve = useMemo(() => profitCurve(inputs), [inputs]);
+  const best = useMemo(() => bestProfitPoint(curve), [curve]);
+
+  const clampedPrice = Math.min(Math.max(price, range.min), range.max);
+  const point = simulatePrice(inputs, clampedPrice);
+  const current = simulatePrice(inputs, currentPrice);
+  const profitChange = point.profit - current.profit;
+  // The engine's volume case: does the zone's expected gain cover the margin change?
+  const volumeCovers = point.marketPotential >= point.breakEvenMultiplier;
+
+  const handleReset = () => {
+    setPrice(suggestedPrice);
+    setCost(String(costPerUnit));
+    setQuantity(String(currentQuantity));
+    setElasticityInput(elasticity.toFixed(3));
+  };
+
+  return (
+    <Card className="p-6 md:p-8 mb-6 shadow-elegant hover:shadow-glow transition-all animate-scale-in">
+      <div className="flex items-start justify-between gap-3 flex-wrap mb-2">
+        <h2 className="text-2xl font-bold flex items-center gap-2 text-foreground">
+          <div className="p-2 bg-primary rounded-lg shadow-md">
+            <span className="text-lg">🧪</span>
+          </div>
+          What-If Simulator
+        </h2>
+        <Button variant="outline" size="sm" onClick={handleReset}>
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Reset
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground mb-6">
+        Drag the price to see projected monthly demand, revenue and profit with the same demand model and market zones as
+        the suggested price ({strategy.name} strategy). Nothing here is saved.
+      </p>
+
+      <div className="space-y-3 mb-6">
+        <div className="flex items-center justify-between">
+          <Label>Price</Label>
+          <span className="text-2xl font-bold text-primary">{formatPrice(clampedPrice, currency)}</span>
+        </div>
+        <Slider
+          value={[clampedPrice]}
+          min={range.min}
+          max={range.max}
+          step={(range.max - range.min) / 200}
+          onValueChange={([value]) => setPrice(value)}
+        />
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>{formatPrice(range.min, currency)}</span>
+          <span>{formatPrice(range.max, currency)}</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="space-y-1">
+          <Label htmlFor="simulator-cost">Cost per unit</Label>
+          <Input id="simulator-cost" type="number" step="0.01" min="0" value={cost} onChange={(e) => setCost(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="simulator-quantity">Monthly units at current price</Label>
+          <Input id="simulator-quantity" type="number" step="1" min="0" value={quantity} onChange={(e) => setQuantity(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="simulator-elasticity">Elasticity</Label>
+          <Input id="simulator-elasticity" type="number" step="0.05" max="0" value={elasticityInput} onChange={(e) => setElasticityInput(e.target.value)} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-4">
+        <div className="p-4 bg-gradient-card rounded-lg border border-border">
+          <p className="text-xs font-semibold text-muted-foreground mb-1 uppercase tracking-wide">Demand</p>
+          <p className="text-2xl font-bold text-foreground">{formatNumber(point.quantity, 0)}</p>
+          <p className="text-xs text-muted-foreground mt-1">units / month</p>
+        </div>
+        <div className="p-4 bg-gradient-card rounded-lg border border-border">
+          <p className="text-xs font-semibold text-muted-foreground mb-1 uppercase tracking-wide">Revenue</p>
+          <p className="text-2xl font-bold text-foreground">{formatPrice(point.revenue, currency)}</p>
+          <p className="text-xs text-muted-foreground mt-1">Margin {(point.margin * 100).toFixed(1)}%</p>
+        </div>
+        <div className="p-4 bg-gradient-card rounded-lg border border-border">
+          <p className="text-xs font-semibold text-muted-foreground mb-1 uppercase tracking-wide">Profit</p>
+          <p className={`text-2xl font-bold ${point.profit >= 0 ? 'text-success' : 'text-destructive'}`}>{formatPrice(point.profit, currency)}</p>
+          <p className="text-xs text-muted-foreground mt-1">
+            {profitChange >= 0 ? '+' : ''}{formatPrice(profitChange, currency)} vs current price
+          </p>
+        </div>
+        <div className="p-4 bg-gradient-card rounded-lg border border-border">
+          <p className="text-xs font-semibold text-muted-foreground mb-1 uppercase tracking-wide">Market Zone</p>
+          <Badge variant={point.zone === 'C' ? 'secondary' : 'default'} className="mt-1">{ZONE_LABELS[point.zone]}</Badge>
+          <p className="text-xs text-muted-foreground mt-2">Expected volume ×{point.marketPotential}</p>
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground mb-6">
+        {point.breakEvenMultiplier === Infinity
+          ? 'This price is at or below cost, so no volume gain can keep today\'s profit.'
+          : `To keep today's profit at this price you need ×${point.breakEvenMultiplier.toFixed(2)} your current volume; `
+            + `zone ${point.zone} expects ×${point.marketPotential}, so ${volumeCovers ? 'the volume case holds' : 'the volume case is weak'}.`}
+      </p>
+
+      <div className="h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={curve}>
+            <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+            <XAxis
+              dataKey="price"
+              type="number"
+              domain={[range.min, range.max]}
+              tickFormatter={(value: number) => value.toFixed(0)}
+              className="text-xs"
+            />
+            <YAxis className="text-xs" domain={['auto', 'auto']} tickFormatter={(value: number) => formatNumber(value, 0)} />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: 'hsl(var(--card))',
+                border: '1px solid hsl(var(--border))',
+                borderRadius: '8px'
+              }}
+              labelFormatter={(label: number) => `Price ${formatPrice(label, currency)}`}
+              formatter={(value: number) => formatPrice(value, currency)}
+            />
+            <ReferenceLine x={marketLowest} stroke="hsl(var(--success))" strokeDasharray="4 4" label="Lowest" />
+            <ReferenceLine x={marketAverage} stroke="hsl(var(--primary))" strokeDasharray="4 4" label="Average" />
+            <ReferenceLine x={marketHighest} stroke="hsl(var(--destructive))" strokeDasharray="4 4" label="Highest" />
+            <ReferenceLine x={clampedPrice} stroke="hsl(var(--foreground))" strokeWidth={2} />
+            <Line type="monotone" dataKey="profit" name="Monthly profit" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="flex justify-between flex-wrap gap-2 text-xs text-muted-foreground mt-2">
+        <span>Market lines show scraped prices; zones use them adjusted for {(inflationRate * 100).toFixed(2)}% inflation.</span>
+        {best && (
+          <button type="button" className="underline hover:text-foreground" onClick={() => setPrice(best.price)}>
+            Highest profit on this curve: {formatPrice(best.price, currency)} ({formatPrice(best.profit, currency)})
+          </button>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,315 @@
+import { useState } from 'react';
+import { Compass, Copy, Loader2, Pencil, Save, Star, Trash2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { StrategyProfile, usePricingStrategies } from '@/hooks/use-pricing-strategies';
+import { describeStrategy, PricingStrategy, STRATEGY_LIMITS, strategyToRow, validateStrategy } from '@shared/pricing/strategy';
+
+type Setting = keyof typeof STRATEGY_LIMITS;
+
+// Every setting but the zone scale is edited as a percentage
+const PERCENT_SETTINGS: Setting[] = ['floorMargin', 'ceilingRatio', 'marketPosition', 'blendWeight', 'riskTolerance', 'zoneABand'];
+
+const SETTING_HELP: Record<Setting, string> = {
+  floorMargin: 'Minimum margin over cost',
+  ceilingRatio: 'Highest price, as % of the market highest',
+  marketPosition: 'Start point: 0% is the market average, 100% the highest',
+  blendWeight: 'Pull toward the elasticity optimum',
+  riskTolerance: 'How far to move when volume may not cover the change (50% is midway)',
+  zoneMultiplierScale: 'Multiplies the category\'s expected volume gain',
+  zoneABand: 'Zone A covers prices this close to the market lowest',
+};
+
+interface StrategyForm {
+  id: string | null;
+  name: string;
+  description: string;
+  values: Record<Setting, string>;
+}
+
+const toForm = (strategy: StrategyProfile, copy: boolean): StrategyForm => ({
+  id: copy ? null : strategy.id,
+  name: copy ? `${strategy.name} (custom)` : strategy.name,
+  description: strategy.description || '',
+  values: Object.keys(STRATEGY_LIMITS).reduce((acc, setting) => {
+    const value = strategy[setting as Setting];
+    acc[setting as Setting] = PERCENT_SETTINGS.includes(setting as Setting) ? String(+(value * 100).toFixed(2)) : String(value);
+    return acc;
+  }, {} as Record<Setting, string>),
+});
+
+const fromForm = (form: StrategyForm): PricingStrategy => {
+  const settings = Object.keys(STRATEGY_LIMITS).reduce((acc, setting) => {
+    const raw = form.values[setting as Setting].trim() === '' ? NaN : Number(form.values[setting as Setting]);
+    acc[setting as Setting] = PERCENT_SETTINGS.includes(setting as Setting) ? raw / 100 : raw;
+    return acc;
+  }, {} as Record<Setting, number>);
+  const slug = form.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+  return { key: `custom_${slug || 'strategy'}`, name: form.name.trim(), ...settings };
+};
+
+interface PricingStrategyManagerProps {
+  // Called after profiles or the account default change
+  onChange?: () => void;
+}
+
+export function PricingStrategyManager({ onChange }: PricingStrategyManagerProps) {
+  const { toast } = useToast();
+  const { strategies, defaultStrategyId, loading, reload } = usePricingStrategies();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<StrategyForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const effectiveDefaultId = defaultStrategyId ?? strategies.find(s => s.merchant_id === null && s.key === 'balanced')?.id;
+
+  const refresh = async () => {
+    await reload();
+    onChange?.();
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    const strategy = fromForm(form);
+    const errors = validateStrategy(strategy);
+    if (errors.length > 0) {
+      toast({
+        title: 'Invalid strategy',
+        description: errors.join('. '),
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not signed in');
+
+      const row = { ...strategyToRow(strategy), description: form.description.trim() || null };
+      const { error } = form.id
+        ? await supabase
+            .from('pricing_strategies')
+            .update({ ...row, updated_at: new Date().toISOString() })
+            .eq('id', form.id)
+        : await supabase
+            .from('pricing_strategies')
+            .insert({ ...row, merchant_id: user.id });
+
+      if (error) {
+        // Unique (merchant_id, key)
+        if (error.code === '23505') {
+          toast({
+            title: 'Name already used',
+            description: 'You already have a strategy with that name',
+            variant: 'destructive',
+          });
+          return;
+        }
+        throw error;
+      }
+
+      setForm(null);
+      await refresh();
+      toast({
+        title: 'Strategy saved',
+        description: `${strategy.name} applies from the next pricing run of products that use it`,
+      });
+    } catch (error) {
+      console.error('Error saving pricing strategy:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save strategy',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (strategy: StrategyProfile) => {
+    try {
+      const { error } = await supabase
+        .from('pricing_strategies')
+        .delete()
+        .eq('id', strategy.id);
+
+      if (error) throw error;
+      await refresh();
+      toast({
+        title: 'Strategy deleted',
+        description: 'Products that used it fall back to your account default',
+      });
+    } catch (error) {
+      console.error('Error deleting pricing strategy:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete strategy',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleMakeDefault = async (strategy: StrategyProfile) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not signed in');
+
+      const { error } = await supabase
+        .from('profiles')
+        .update({ default_strategy_id: strategy.id })
+        .eq('id', user.id);
+
+      if (error) throw error;
+      await refresh();
+      toast({
+        title: 'Account default updated',
+        description: `Products without their own strategy now use ${strategy.name}`,
+      });
+    } catch (error) {
+      console.error('Error setting default strategy:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to set the default strategy',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const renderForm = () => form && (
+    <div className="border rounded-lg p-4 space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="strategy-name">Name</Label>
+          <Input
+            id="strategy-name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            maxLength={60}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="strategy-description">Description</Label>
+          <Input
+            id="strategy-description"
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            maxLength={200}
+          />
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {(Object.keys(STRATEGY_LIMITS) as Setting[]).map(setting => {
+          const { label, min, max } = STRATEGY_LIMITS[setting];
+          const percent = PERCENT_SETTINGS.includes(setting);
+          return (
+            <div key={setting} className="space-y-1">
+              <Label htmlFor={`strategy-${setting}`}>
+                {label} {percent ? '(%)' : '(×)'}
+              </Label>
+              <Input
+                id={`strategy-${setting}`}
+                type="number"
+                step={percent ? '1' : '0.05'}
+                min={percent ? min * 100 : min}
+                max={percent ? max * 100 : max}
+                value={form.values[setting]}
+                onChange={(e) => setForm({ ...form, values: { ...form.values, [setting]: e.target.value } })}
+              />
+              <p className="text-xs text-muted-foreground">{SETTING_HELP[setting]}</p>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex gap-2 justify-end">
+        <Button variant="outline" size="sm" onClick={() => setForm(null)} disabled={saving}>
+          <X className="h-4 w-4 mr-2" />
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={saving}>
+          {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => { setOpen(nextOpen); if (!nextOpen) setForm(null); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2" size="sm">
+          <Compass className="w-4 h-4" />
+          <span className="hidden sm:inline">Pricing Strategies</span>
+          <span className="sm:hidden">Strategies</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Pricing Strategies</DialogTitle>
+          <DialogDescription>
+            A strategy sets how far pricing may move and how much risk it takes. Your account default applies to
+            every product that doesn't have its own strategy; choose one per product on its results page.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {form && !form.id && renderForm()}
+            {strategies.map(strategy => (
+              form?.id === strategy.id ? (
+                <div key={strategy.id}>{renderForm()}</div>
+              ) : (
+                <div key={strategy.id} className="p-4 rounded-lg border border-border space-y-2">
+                  <div className="flex items-start justify-between gap-3 flex-wrap">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <p className="font-semibold text-foreground">{strategy.name}</p>
+                        <Badge variant={strategy.merchant_id ? 'secondary' : 'outline'}>
+                          {strategy.merchant_id ? 'Custom' : 'Built-in'}
+                        </Badge>
+                        {strategy.id === effectiveDefaultId && <Badge>Account default</Badge>}
+                      </div>
+                      {strategy.description && <p className="text-sm text-muted-foreground">{strategy.description}</p>}
+                      <p className="text-xs text-muted-foreground">{describeStrategy(strategy)}</p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {strategy.id !== effectiveDefaultId && (
+                        <Button variant="ghost" size="sm" onClick={() => handleMakeDefault(strategy)} title="Make account default">
+                          <Star className="w-4 h-4" />
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="sm" onClick={() => setForm(toForm(strategy, true))} title="Copy as custom strategy">
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                      {strategy.merchant_id && (
+                        <>
+                          <Button variant="ghost" size="sm" onClick={() => setForm(toForm(strategy, false))} title="Edit">
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDelete(strategy)} title="Delete">
+                            <Trash2 className="w-4 h-4 text-destructive" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              )
+            ))}
+            <p className="text-xs text-muted-foreground">
+              To create a custom strategy, copy the closest one and adjust it.
+            </p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
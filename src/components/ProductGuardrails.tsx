@@ -0,0 +1,148 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Save, X } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useCategoryTaxonomy } from '@/hooks/use-category-taxonomy';
+import { usePriceGuardrails } from '@/hooks/use-price-guardrails';
+import { CategoryGuardrailManager } from '@/components/CategoryGuardrailManager';
+import { GuardrailFields } from '@/components/GuardrailFields';
+import {
+  describeGuardrails,
+  GUARDRAIL_LIMITS,
+  guardrailsFromRow,
+  guardrailsToRow,
+  hasGuardrails,
+  NO_GUARDRAILS,
+  PriceGuardrails,
+  resolveGuardrails,
+  validateGuardrails,
+} from '@shared/pricing/guardrails';
+import { fromGuardrailForm, GuardrailForm, GuardrailSetting, toGuardrailForm } from '@/utils/guardrails';
+
+interface ProductGuardrailsProps {
+  baselineId: string;
+  category: string;
+  currency: string;
+}
+
+export function ProductGuardrails({ baselineId, category, currency }: ProductGuardrailsProps) {
+  const { toast } = useToast();
+  const taxonomy = useCategoryTaxonomy();
+  const { rows, loading, reload } = usePriceGuardrails();
+  const [form, setForm] = useState<GuardrailForm>(toGuardrailForm(NO_GUARDRAILS));
+  const [saving, setSaving] = useState(false);
+
+  const ownRow = rows.find(row => row.baseline_id === baselineId);
+  const fromCategories = resolveGuardrails(rows.filter(row => row.category !== null), baselineId, category, taxonomy);
+  const effective = resolveGuardrails(rows, baselineId, category, taxonomy);
+  const inherited = toGuardrailForm(fromCategories);
+  const placeholders = (Object.keys(GUARDRAIL_LIMITS) as GuardrailSetting[]).reduce((acc, setting) => {
+    if (inherited[setting]) acc[setting] = `${inherited[setting]} from category`;
+    return acc;
+  }, {} as Partial<Record<GuardrailSetting, string>>);
+
+  useEffect(() => {
+    setForm(toGuardrailForm(ownRow ? guardrailsFromRow(ownRow) : NO_GUARDRAILS));
+  }, [ownRow]);
+
+  const save = async (guardrails: PriceGuardrails) => {
+    const errors = validateGuardrails(guardrails);
+    if (errors.length > 0) {
+      toast({
+        title: 'Invalid guardrails',
+        description: errors.join('. '),
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not signed in');
+
+      // Clearing every setting removes the row, so only category guardrails apply
+      const { error } = !hasGuardrails(guardrails)
+        ? ownRow
+          ? await supabase.from('price_guardrails').delete().eq('id', ownRow.id)
+          : { error: null }
+        : ownRow
+        ? await supabase
+            .from('price_guardrails')
+            .update({ ...guardrailsToRow(guardrails), updated_at: new Date().toISOString() })
+            .eq('id', ownRow.id)
+        : await supabase
+            .from('price_guardrails')
+            .insert({ ...guardrailsToRow(guardrails), merchant_id: user.id, baseline_id: baselineId });
+
+      if (error) throw error;
+      await reload();
+      toast({
+        title: 'Guardrails saved',
+        description: 'The next pricing run for this product will respect them',
+      });
+    } catch (error) {
+      console.error('Error saving product guardrails:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save guardrails',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="p-6 md:p-8 mb-6 shadow-elegant hover:shadow-glow transition-all animate-scale-in">
+      <div className="flex items-start justify-between gap-3 flex-wrap mb-2">
+        <h2 className="text-2xl font-bold flex items-center gap-2 text-foreground">
+          <div className="p-2 bg-primary rounded-lg shadow-md">
+            <span className="text-lg">🛡️</span>
+          </div>
+          Price Guardrails
+        </h2>
+        <CategoryGuardrailManager onChange={reload} />
+      </div>
+      <p className="text-sm text-muted-foreground mb-6">
+        Limits every pricing run must respect. Settings left blank here come from the {category} category
+        guardrails, if any.
+      </p>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm">
+            <span className="font-semibold text-foreground">In effect: </span>
+            <span className="text-muted-foreground">{describeGuardrails(effective, currency)}</span>
+          </p>
+          <GuardrailFields
+            idPrefix="product-guardrail"
+            settings={Object.keys(GUARDRAIL_LIMITS) as GuardrailSetting[]}
+            form={form}
+            onChange={setForm}
+            placeholders={placeholders}
+            currency={currency}
+          />
+          <div className="flex gap-2 justify-end">
+            {ownRow && (
+              <Button variant="outline" size="sm" onClick={() => save(NO_GUARDRAILS)} disabled={saving}>
+                <X className="h-4 w-4 mr-2" />
+                Clear
+              </Button>
+            )}
+            <Button size="sm" onClick={() => save(fromGuardrailForm(form))} disabled={saving}>
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              Save
+            </Button>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { usePricingStrategies } from '@/hooks/use-pricing-strategies';
+import { PricingStrategyManager } from '@/components/PricingStrategyManager';
+import { describeStrategy } from '@shared/pricing/strategy';
+
+interface ProductStrategyProps {
+  baselineId: string;
+  strategyId: string | null;
+  // Profile recorded on the latest pricing result
+  appliedStrategyName: string | null;
+}
+
+const ACCOUNT_DEFAULT = 'account-default';
+
+export function ProductStrategy({ baselineId, strategyId, appliedStrategyName }: ProductStrategyProps) {
+  const { toast } = useToast();
+  const { strategies, defaultStrategyId, loading, reload } = usePricingStrategies();
+  const [selected, setSelected] = useState<string>(strategyId ?? ACCOUNT_DEFAULT);
+  const [saving, setSaving] = useState(false);
+
+  const accountDefault = strategies.find(s => s.id === defaultStrategyId)
+    ?? strategies.find(s => s.merchant_id === null && s.key === 'balanced');
+  const active = selected === ACCOUNT_DEFAULT ? accountDefault : strategies.find(s => s.id === selected);
+
+  const handleChange = async (value: string) => {
+    const previous = selected;
+    setSelected(value);
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('product_baselines')
+        .update({ strategy_id: value === ACCOUNT_DEFAULT ? null : value })
+        .eq('id', baselineId);
+
+      if (error) throw error;
+      toast({
+        title: 'Strategy updated',
+        description: 'The next pricing run for this product will use it',
+      });
+    } catch (error) {
+      console.error('Error updating product strategy:', error);
+      setSelected(previous);
+      toast({
+        title: 'Error',
+        description: 'Failed to update strategy',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="p-6 md:p-8 mb-6 shadow-elegant hover:shadow-glow transition-all animate-scale-in">
+      <div className="flex items-start justify-between gap-3 flex-wrap mb-2">
+        <h2 className="text-2xl font-bold flex items-center gap-2 text-foreground">
+          <div className="p-2 bg-primary rounded-lg shadow-md">
+            <span className="text-lg">🧭</span>
+          </div>
+          Pricing Strategy
+        </h2>
+        <PricingStrategyManager onChange={reload} />
+      </div>
+      <p className="text-sm text-muted-foreground mb-6">
+        {appliedStrategyName
+          ? <>This price was calculated with the <span className="font-semibold text-foreground">{appliedStrategyName}</span> strategy.</>
+          : 'This price was calculated before strategies were available, with the original balanced settings.'}
+      </p>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 flex-wrap">
+            <Select value={selected} onValueChange={handleChange} disabled={saving}>
+              <SelectTrigger className="w-72">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ACCOUNT_DEFAULT}>
+                  Account default{accountDefault ? ` (${accountDefault.name})` : ''}
+                </SelectItem>
+                {strategies.map(strategy => (
+                  <SelectItem key={strategy.id} value={strategy.id}>
+                    {strategy.name}{strategy.merchant_id ? ' (custom)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {saving && <Loader2 className="w-4 h-4 animate-spin text-primary" />}
+          </div>
+          {active && <p className="text-xs text-muted-foreground">{describeStrategy(active)}</p>}
+        </div>
+      )}
+    </Card>
+  );
+}
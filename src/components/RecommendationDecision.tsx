@@ -0,0 +1,229 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Check, Loader2, Pencil, X } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { formatPrice } from '@/lib/utils';
+import { formatTimeAgo } from '@/utils/refreshSchedule';
+import {
+  MAX_DECISION_REASON_LENGTH,
+  PricingDecision,
+  RECOMMENDATION_ACTION_LABELS,
+  RECOMMENDATION_STATUS_LABELS,
+  RecommendationAction,
+  RecommendationStatus,
+} from '@/utils/recommendations';
+
+interface RecommendationDecisionProps {
+  resultId: string;
+  status: RecommendationStatus;
+  suggestedPrice: number;
+  appliedPrice: number | null;
+  currency: string;
+  // Called after a decision is saved, to reload the result
+  onDecided: () => void;
+}
+
+const STATUS_VARIANTS: Record<RecommendationStatus, 'muted' | 'success' | 'destructive'> = {
+  pending: 'muted',
+  applied: 'success',
+  rejected: 'destructive',
+};
+
+export function RecommendationDecision({
+  resultId,
+  status,
+  suggestedPrice,
+  appliedPrice,
+  currency,
+  onDecided,
+}: RecommendationDecisionProps) {
+  const { toast } = useToast();
+  const [decisions, setDecisions] = useState<PricingDecision[]>([]);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<RecommendationAction | null>(null);
+  const [modifying, setModifying] = useState(false);
+  const [ownPrice, setOwnPrice] = useState(String(suggestedPrice));
+  const [reason, setReason] = useState('');
+
+  const loadDecisions = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      setUserId(user?.id ?? null);
+
+      const { data, error } = await supabase
+        .from('pricing_decisions')
+        .select('*')
+        .eq('pricing_result_id', resultId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setDecisions((data || []) as PricingDecision[]);
+    } catch (error) {
+      console.error('Failed to load pricing decisions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [resultId]);
+
+  useEffect(() => {
+    loadDecisions();
+  }, [loadDecisions]);
+
+  const handleDecision = async (action: RecommendationAction) => {
+    const price = Number(ownPrice);
+    if (action === 'modified' && (!ownPrice || !Number.isFinite(price) || price <= 0)) {
+      toast({
+        title: 'Invalid price',
+        description: 'Enter a price greater than zero',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(action);
+    try {
+      const { error } = await supabase.rpc('decide_pricing_result', {
+        _result_id: resultId,
+        _action: action,
+        _applied_price: action === 'modified' ? price : undefined,
+        _reason: reason.trim() || undefined,
+      });
+
+      if (error) throw error;
+
+      setModifying(false);
+      setReason('');
+      loadDecisions();
+      toast({
+        title: action === 'rejected' ? 'Recommendation rejected' : 'Price applied',
+        description: action === 'rejected'
+          ? 'Your current price stays as it is'
+          : `${formatPrice(action === 'modified' ? price : suggestedPrice, currency)} is recorded as your live price`,
+      });
+      onDecided();
+    } catch (error) {
+      console.error('Error saving pricing decision:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save your decision',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <Card className="p-6 md:p-8 mb-6 shadow-elegant hover:shadow-glow transition-all animate-scale-in">
+      <div className="flex items-start justify-between gap-3 flex-wrap mb-2">
+        <h2 className="text-2xl font-bold flex items-center gap-2 text-foreground">
+          <div className="p-2 bg-primary rounded-lg shadow-md">
+            <span className="text-lg">✍️</span>
+          </div>
+          Your Decision
+        </h2>
+        <Badge variant={STATUS_VARIANTS[status]}>{RECOMMENDATION_STATUS_LABELS[status]}</Badge>
+      </div>
+      <p className="text-sm text-muted-foreground mb-6">
+        {status === 'applied' && appliedPrice !== null
+          ? <>You applied <span className="font-semibold text-foreground">{formatPrice(appliedPrice, currency)}</span>. Record sales at this price to measure the recommendation.</>
+          : status === 'rejected'
+          ? 'You rejected this recommendation. You can still apply it or your own price.'
+          : `Accept the suggested ${formatPrice(suggestedPrice, currency)}, apply your own price, or reject it.`}
+      </p>
+
+      <div className="space-y-4">
+        <div className="space-y-1">
+          <Label htmlFor="decision-reason">Reason (optional)</Label>
+          <Textarea
+            id="decision-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            maxLength={MAX_DECISION_REASON_LENGTH}
+            rows={2}
+            placeholder="e.g. Matching a supplier promotion"
+          />
+        </div>
+
+        {modifying && (
+          <div className="flex items-end gap-2 flex-wrap">
+            <div className="space-y-1">
+              <Label htmlFor="decision-price">Your price ({currency})</Label>
+              <Input
+                id="decision-price"
+                type="number"
+                step="0.01"
+                min="0"
+                value={ownPrice}
+                onChange={(e) => setOwnPrice(e.target.value)}
+                className="w-40"
+              />
+            </div>
+            <Button onClick={() => handleDecision('modified')} disabled={saving !== null}>
+              {saving === 'modified' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Check className="h-4 w-4 mr-2" />}
+              Apply
+            </Button>
+            <Button variant="ghost" onClick={() => setModifying(false)} disabled={saving !== null}>
+              Cancel
+            </Button>
+          </div>
+        )}
+
+        {!modifying && (
+          <div className="flex gap-2 flex-wrap">
+            <Button onClick={() => handleDecision('accepted')} disabled={saving !== null}>
+              {saving === 'accepted' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Check className="h-4 w-4 mr-2" />}
+              Accept {formatPrice(suggestedPrice, currency)}
+            </Button>
+            <Button variant="outline" onClick={() => setModifying(true)} disabled={saving !== null}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Modify
+            </Button>
+            {status !== 'rejected' && (
+              <Button variant="outline" onClick={() => handleDecision('rejected')} disabled={saving !== null}>
+                {saving === 'rejected' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <X className="h-4 w-4 mr-2" />}
+                Reject
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Audit trail */}
+      <div className="mt-6">
+        <p className="text-xs font-semibold text-muted-foreground mb-2 uppercase tracking-wide">History</p>
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-primary" />
+          </div>
+        ) : decisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No decisions yet</p>
+        ) : (
+          <ul className="space-y-2">
+            {decisions.map(decision => (
+              <li key={decision.id} className="p-3 rounded-lg border border-border text-sm">
+                <div className="flex items-center justify-between gap-2 flex-wrap">
+                  <span className="font-medium text-foreground">
+                    {RECOMMENDATION_ACTION_LABELS[decision.action]}
+                    {decision.applied_price !== null && ` · ${formatPrice(decision.applied_price, currency)}`}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {decision.decided_by === userId ? 'You' : 'Another user'} · {formatTimeAgo(decision.created_at)}
+                  </span>
+                </div>
+                {decision.reason && <p className="text-muted-foreground mt-1">{decision.reason}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { Clock, AlertTriangle, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  FREQUENCY_HOURS,
+  MAX_CUSTOM_INTERVAL_HOURS,
+  MIN_CUSTOM_INTERVAL_HOURS,
+  RefreshFrequency,
+  RefreshSchedule,
+  formatScheduleInterval,
+  formatTimeAgo,
+  isScheduleStale,
+} from '@/utils/refreshSchedule';
+
+interface RefreshScheduleControlProps {
+  baselineId: string;
+  schedule?: RefreshSchedule;
+  onChange: (schedule: RefreshSchedule) => void;
+}
+
+type FrequencyOption = RefreshFrequency | 'off';
+
+export function RefreshScheduleControl({ baselineId, schedule, onChange }: RefreshScheduleControlProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [frequency, setFrequency] = useState<FrequencyOption>(schedule?.enabled ? schedule.frequency : 'off');
+  const [customHours, setCustomHours] = useState(String(schedule?.frequency === 'custom' ? schedule.interval_hours : 12));
+
+  const stale = schedule ? isScheduleStale(schedule) : false;
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    // Start from the saved schedule each time the editor opens
+    if (nextOpen) {
+      setFrequency(schedule?.enabled ? schedule.frequency : 'off');
+      setCustomHours(String(schedule?.frequency === 'custom' ? schedule.interval_hours : 12));
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      if (frequency === 'off') {
+        if (schedule) {
+          const { error } = await supabase
+            .from('refresh_schedules')
+            .update({ enabled: false, updated_at: new Date().toISOString() })
+            .eq('id', schedule.id);
+          if (error) throw error;
+          onChange({ ...schedule, enabled: false });
+        }
+      } else {
+        const intervalHours = frequency === 'custom' ? Number(customHours) : FREQUENCY_HOURS[frequency];
+        if (!Number.isInteger(intervalHours) || intervalHours < MIN_CUSTOM_INTERVAL_HOURS || intervalHours > MAX_CUSTOM_INTERVAL_HOURS) {
+          toast({
+            title: 'Invalid interval',
+            description: `Enter a whole number of hours between ${MIN_CUSTOM_INTERVAL_HOURS} and ${MAX_CUSTOM_INTERVAL_HOURS}`,
+            variant: 'destructive',
+          });
+          return;
+        }
+
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) throw new Error('Not signed in');
+
+        const { data, error } = await supabase
+          .from('refresh_schedules')
+          .upsert({
+            baseline_id: baselineId,
+            merchant_id: user.id,
+            frequency,
+            interval_hours: intervalHours,
+            enabled: true,
+            // First run happens one interval from now; the current data is fresh enough
+            next_run_at: new Date(Date.now() + intervalHours * 60 * 60 * 1000).toISOString(),
+            updated_at: new Date().toISOString(),
+          }, { onConflict: 'baseline_id' })
+          .select()
+          .single();
+
+        if (error) throw error;
+        onChange(data as RefreshSchedule);
+      }
+
+      toast({
+        title: 'Schedule saved',
+        description: frequency === 'off' ? 'Automatic refresh turned off' : 'Competitor prices will refresh automatically',
+      });
+      setOpen(false);
+    } catch (error) {
+      console.error('Failed to save refresh schedule:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save refresh schedule',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div onClick={(e) => e.stopPropagation()}>
+      <Popover open={open} onOpenChange={handleOpenChange}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-auto py-1 px-2 flex flex-col items-center gap-0.5">
+            <span className="flex items-center gap-1 text-xs font-medium">
+              {stale ? <AlertTriangle className="w-3 h-3 text-destructive" /> : <Clock className="w-3 h-3" />}
+              {schedule?.enabled ? formatScheduleInterval(schedule) : 'Off'}
+            </span>
+            {schedule?.enabled && (
+              <span className={`text-[10px] ${stale ? 'text-destructive' : 'text-muted-foreground'}`}>
+                {stale
+                  ? 'Stale'
+                  : schedule.last_success_at
+                  ? `Updated ${formatTimeAgo(schedule.last_success_at)}`
+                  : 'Not run yet'}
+              </span>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 space-y-3" align="center">
+          <div className="space-y-2">
+            <Label>Auto-refresh competitors</Label>
+            <Select value={frequency} onValueChange={(value) => setFrequency(value as FrequencyOption)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-background z-[100]">
+                <SelectItem value="off">Off</SelectItem>
+                <SelectItem value="daily">Daily</SelectItem>
+                <SelectItem value="weekly">Weekly</SelectItem>
+                <SelectItem value="custom">Custom</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {frequency === 'custom' && (
+            <div className="space-y-2">
+              <Label htmlFor={`interval-${baselineId}`}>Every (hours)</Label>
+              <Input
+                id={`interval-${baselineId}`}
+                type="number"
+                min={MIN_CUSTOM_INTERVAL_HOURS}
+                max={MAX_CUSTOM_INTERVAL_HOURS}
+                value={customHours}
+                onChange={(e) => setCustomHours(e.target.value)}
+              />
+            </div>
+          )}
+
+          {schedule?.enabled && schedule.last_status === 'failed' && (
+            <p className="text-xs text-destructive">
+              Last refresh failed{schedule.consecutive_failures > 1 ? ` ${schedule.consecutive_failures} times in a row` : ''}
+              {schedule.last_error ? `: ${schedule.last_error}` : ''}
+            </p>
+          )}
+
+          {schedule?.enabled && (
+            <p className="text-xs text-muted-foreground">
+              Next run {new Date(schedule.next_run_at).toLocaleString()}
+            </p>
+          )}
+
+          <Button onClick={handleSave} disabled={saving} size="sm" className="w-full">
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
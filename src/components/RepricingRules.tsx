@@ -0,0 +1,387 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useCategoryTaxonomy } from '@/hooks/use-category-taxonomy';
+import { useRepricingRules } from '@/hooks/use-repricing-rules';
+import { formatPrice } from '@/lib/utils';
+import { formatTimeAgo } from '@/utils/refreshSchedule';
+import { GUARDRAIL_LABELS } from '@shared/pricing/guardrails';
+import {
+  orderRepricingRules,
+  REPRICING_OFFSET_LIMITS,
+  REPRICING_PRIORITY_LIMITS,
+  REPRICING_RULE_LABELS,
+  RepricingRuleType,
+  RuleOutcome,
+} from '@shared/pricing/repricing';
+import {
+  DEFAULT_RULE_OFFSETS,
+  describeRepricingRule,
+  RepricingCandidate,
+  RULE_OUTCOME_LABELS,
+  StoredRepricingRule,
+} from '@/utils/repricing';
+
+interface RepricingRulesProps {
+  baselineId: string;
+  category: string;
+  currency: string;
+  // The engine's suggestion from the latest pricing run
+  suggestedPrice: number;
+}
+
+type RuleScope = 'product' | 'category';
+
+const OUTCOME_VARIANTS: Record<RuleOutcome, 'success' | 'warning' | 'muted' | 'destructive'> = {
+  set: 'success',
+  bound: 'warning',
+  satisfied: 'muted',
+  overridden: 'muted',
+  conflict: 'destructive',
+  no_data: 'muted',
+};
+
+export function RepricingRules({ baselineId, category, currency, suggestedPrice }: RepricingRulesProps) {
+  const { toast } = useToast();
+  const taxonomy = useCategoryTaxonomy();
+  const { rules, loading, reload } = useRepricingRules();
+  const [candidate, setCandidate] = useState<RepricingCandidate | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [ruleType, setRuleType] = useState<RepricingRuleType>('beat_lowest');
+  const [marketplaces, setMarketplaces] = useState('');
+  const [offset, setOffset] = useState(String(DEFAULT_RULE_OFFSETS.beat_lowest));
+  const [priority, setPriority] = useState('100');
+  const [scope, setScope] = useState<RuleScope>('product');
+
+  const applicable = orderRepricingRules(rules, baselineId, category, taxonomy);
+
+  const loadCandidate = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('repricing_candidates')
+        .select('*')
+        .eq('baseline_id', baselineId)
+        .order('observed_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      setCandidate(data as unknown as RepricingCandidate | null);
+    } catch (error) {
+      console.error('Failed to load repricing candidate:', error);
+    }
+  }, [baselineId]);
+
+  useEffect(() => {
+    loadCandidate();
+  }, [loadCandidate]);
+
+  const handleTypeChange = (value: RepricingRuleType) => {
+    setRuleType(value);
+    setOffset(String(DEFAULT_RULE_OFFSETS[value]));
+  };
+
+  const handleAdd = async () => {
+    const offsetValue = Number(offset) / 100;
+    const priorityValue = Number(priority);
+    const errors: string[] = [];
+    if (!name.trim() || name.trim().length > 80) errors.push('Name the rule (up to 80 characters)');
+    if (offset.trim() === '' || !Number.isFinite(offsetValue) || offsetValue < REPRICING_OFFSET_LIMITS.min || offsetValue > REPRICING_OFFSET_LIMITS.max) {
+      errors.push(`Adjustment must be between ${REPRICING_OFFSET_LIMITS.min * 100}% and ${REPRICING_OFFSET_LIMITS.max * 100}%`);
+    }
+    if (!Number.isInteger(priorityValue) || priorityValue < REPRICING_PRIORITY_LIMITS.min || priorityValue > REPRICING_PRIORITY_LIMITS.max) {
+      errors.push(`Priority must be a whole number from ${REPRICING_PRIORITY_LIMITS.min} to ${REPRICING_PRIORITY_LIMITS.max}`);
+    }
+    if (errors.length > 0) {
+      toast({
+        title: 'Invalid rule',
+        description: errors.join('. '),
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not signed in');
+
+      const { error } = await supabase
+        .from('repricing_rules')
+        .insert({
+          merchant_id: user.id,
+          baseline_id: scope === 'product' ? baselineId : null,
+          category: scope === 'category' ? category : null,
+          name: name.trim(),
+          rule_type: ruleType,
+          marketplaces: marketplaces.split(',').map(m => m.trim()).filter(Boolean),
+          offset_percent: offsetValue,
+          priority: priorityValue,
+        });
+
+      if (error) throw error;
+      await reload();
+      setName('');
+      setMarketplaces('');
+
+      toast({
+        title: 'Rule added',
+        description: 'It is evaluated after the next competitor refresh',
+      });
+    } catch (error) {
+      console.error('Failed to add repricing rule:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to add repricing rule',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: StoredRepricingRule, enabled: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('repricing_rules')
+        .update({ enabled, updated_at: new Date().toISOString() })
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      await reload();
+    } catch (error) {
+      console.error('Failed to update repricing rule:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update repricing rule',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (rule: StoredRepricingRule) => {
+    try {
+      const { error } = await supabase
+        .from('repricing_rules')
+        .delete()
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      await reload();
+    } catch (error) {
+      console.error('Failed to delete repricing rule:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete repricing rule',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const candidatePrice = candidate?.candidate_price ?? null;
+  const difference = candidatePrice !== null ? candidatePrice - suggestedPrice : null;
+
+  return (
+    <Card className="p-6 md:p-8 mb-6 shadow-elegant hover:shadow-glow transition-all animate-scale-in">
+      <h2 className="text-2xl font-bold mb-2 flex items-center gap-2 text-foreground">
+        <div className="p-2 bg-primary rounded-lg shadow-md">
+          <span className="text-lg">📏</span>
+        </div>
+        Rule-Based Price
+      </h2>
+      <p className="text-sm text-muted-foreground mb-6">
+        Your repricing rules are evaluated after each competitor refresh. When rules conflict, the lower priority
+        number wins.
+      </p>
+
+      {/* Side by side with the engine */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div className="p-4 bg-gradient-card rounded-lg border border-border">
+          <p className="text-xs font-semibold text-muted-foreground mb-1 uppercase tracking-wide">Engine suggestion</p>
+          <p className="text-2xl font-bold text-foreground">{formatPrice(suggestedPrice, currency)}</p>
+          <p className="text-xs text-muted-foreground mt-1">Elasticity and market model</p>
+        </div>
+        <div className="p-4 bg-gradient-card rounded-lg border border-border">
+          <p className="text-xs font-semibold text-muted-foreground mb-1 uppercase tracking-wide">Rule-based price</p>
+          <p className="text-2xl font-bold text-primary">
+            {candidatePrice !== null ? formatPrice(candidatePrice, currency) : '—'}
+          </p>
+          <p className="text-xs text-muted-foreground mt-1">
+            {!candidate
+              ? 'Not evaluated yet'
+              : candidatePrice === null
+              ? 'No rule matched a competitor listing'
+              : candidate.rule_name
+              ? `Decided by "${candidate.rule_name}"`
+              : 'Your current price is within your rules'}
+          </p>
+        </div>
+        <div className="p-4 bg-gradient-card rounded-lg border border-border">
+          <p className="text-xs font-semibold text-muted-foreground mb-1 uppercase tracking-wide">Difference</p>
+          <p className={`text-2xl font-bold ${difference === null || Math.abs(difference) < 0.005 ? 'text-foreground' : difference > 0 ? 'text-success' : 'text-destructive'}`}>
+            {difference === null ? '—' : `${difference > 0 ? '+' : ''}${formatPrice(difference, currency)}`}
+          </p>
+          <p className="text-xs text-muted-foreground mt-1">
+            {difference === null ? 'Rules vs engine' : `${((difference / suggestedPrice) * 100).toFixed(1)}% vs engine`}
+          </p>
+        </div>
+      </div>
+
+      {candidate && (
+        <div className="mb-6 space-y-2">
+          <p className="text-xs text-muted-foreground">
+            Evaluated {formatTimeAgo(candidate.observed_at)}
+            {candidate.guardrails_applied.length > 0 &&
+              ` · Limited by your ${candidate.guardrails_applied.map(key => GUARDRAIL_LABELS[key].toLowerCase()).join(', ')} guardrail${candidate.guardrails_applied.length > 1 ? 's' : ''} (rules gave ${formatPrice(Number(candidate.rules_price), currency)})`}
+          </p>
+          {candidate.evaluations.length > 0 && (
+            <ul className="space-y-2">
+              {candidate.evaluations.map(evaluation => (
+                <li key={evaluation.rule_id} className="flex items-center justify-between gap-2 flex-wrap p-3 rounded-lg border border-border text-sm">
+                  <span className="text-foreground">
+                    <span className="font-medium">{evaluation.name}</span>
+                    {evaluation.reference !== null && evaluation.price !== null && (
+                      <span className="text-muted-foreground">
+                        {' '}· {formatPrice(evaluation.reference, currency)} → {formatPrice(evaluation.price, currency)} ({evaluation.listings} listing{evaluation.listings === 1 ? '' : 's'})
+                      </span>
+                    )}
+                  </span>
+                  <Badge variant={OUTCOME_VARIANTS[evaluation.outcome]}>{RULE_OUTCOME_LABELS[evaluation.outcome]}</Badge>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Rules that apply to this product, in evaluation order */}
+      <p className="text-xs font-semibold text-muted-foreground mb-2 uppercase tracking-wide">Rules</p>
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="space-y-3 mb-6">
+          {applicable.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No rules yet. Add one, for example "beat the lowest Amazon and Noon price by 1%".
+            </p>
+          )}
+          {applicable.map(rule => (
+            <div key={rule.id} className="flex items-center justify-between gap-3 p-4 bg-gradient-card rounded-lg border border-border flex-wrap">
+              <div className="flex items-center gap-3">
+                <Switch
+                  checked={rule.enabled}
+                  onCheckedChange={(checked) => handleToggle(rule, checked)}
+                  aria-label="Enable rule"
+                />
+                <div>
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <p className={`text-sm font-medium ${rule.enabled ? 'text-foreground' : 'text-muted-foreground'}`}>{rule.name}</p>
+                    <Badge variant="outline">#{rule.priority}</Badge>
+                    <Badge variant="secondary">{rule.baseline_id ? 'This product' : rule.category}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">{describeRepricingRule(rule)}</p>
+                </div>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => handleDelete(rule)} title="Delete rule">
+                <Trash2 className="w-4 h-4 text-destructive" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="border rounded-lg p-4 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="repricing-name">Name</Label>
+            <Input
+              id="repricing-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={80}
+              placeholder="e.g. Beat Amazon and Noon"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="repricing-type">Rule</Label>
+            <Select value={ruleType} onValueChange={(value) => handleTypeChange(value as RepricingRuleType)}>
+              <SelectTrigger id="repricing-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-background z-[100]">
+                {(Object.keys(REPRICING_RULE_LABELS) as RepricingRuleType[]).map(type => (
+                  <SelectItem key={type} value={type}>{REPRICING_RULE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="repricing-marketplaces">Marketplaces</Label>
+            <Input
+              id="repricing-marketplaces"
+              value={marketplaces}
+              onChange={(e) => setMarketplaces(e.target.value)}
+              placeholder="All marketplaces"
+            />
+            <p className="text-xs text-muted-foreground">Comma-separated, e.g. Amazon, Noon</p>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="repricing-offset">Adjustment (%)</Label>
+            <Input
+              id="repricing-offset"
+              type="number"
+              step="0.5"
+              min={REPRICING_OFFSET_LIMITS.min * 100}
+              max={REPRICING_OFFSET_LIMITS.max * 100}
+              value={offset}
+              onChange={(e) => setOffset(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">Negative is below the competitor price: -1 beats it by 1%</p>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="repricing-priority">Priority</Label>
+            <Input
+              id="repricing-priority"
+              type="number"
+              step="1"
+              min={REPRICING_PRIORITY_LIMITS.min}
+              max={REPRICING_PRIORITY_LIMITS.max}
+              value={priority}
+              onChange={(e) => setPriority(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">Lower numbers win when rules conflict</p>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="repricing-scope">Applies to</Label>
+            <Select value={scope} onValueChange={(value) => setScope(value as RuleScope)}>
+              <SelectTrigger id="repricing-scope">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-background z-[100]">
+                <SelectItem value="product">This product</SelectItem>
+                <SelectItem value="category">All {category} products</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button onClick={handleAdd} disabled={saving} size="sm">
+            {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+            Add Rule
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+}
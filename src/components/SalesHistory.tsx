@@ -0,0 +1,284 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { formatNumber, formatPrice } from '@/lib/utils';
+import { ElasticityEstimate, learnElasticity, periodDays, SalesObservation } from '@shared/pricing/elasticity';
+
+interface SalesRecord extends SalesObservation {
+  id: string;
+}
+
+interface SalesHistoryProps {
+  baselineId: string;
+  category: string;
+  currency: string;
+  costPerUnit: number;
+  // Category default used until enough sales are recorded
+  defaultElasticity: number;
+  suggestedPrice: number;
+}
+
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const defaultPeriod = () => {
+  const end = new Date();
+  const start = new Date(end.getTime() - 29 * 24 * 60 * 60 * 1000);
+  return { start: isoDate(start), end: isoDate(end) };
+};
+
+function EstimateSummary({ label, estimate }: { label: string; estimate: ElasticityEstimate | null }) {
+  return (
+    <div className="p-4 bg-gradient-card rounded-lg border border-border">
+      <p className="text-xs font-semibold text-muted-foreground mb-1 uppercase tracking-wide">{label}</p>
+      {estimate && estimate.elasticity !== 0 ? (
+        <>
+          <p className="text-2xl font-bold text-foreground">{estimate.elasticity.toFixed(2)}</p>
+          <p className="text-xs text-muted-foreground mt-1">
+            95% CI {estimate.ciLow.toFixed(2)} to {estimate.ciHigh.toFixed(2)} · {estimate.observations} records
+          </p>
+        </>
+      ) : (
+        <p className="text-2xl font-bold text-muted-foreground">—</p>
+      )}
+      <p className={`text-xs mt-1 ${estimate?.usable ? 'text-success' : 'text-muted-foreground'}`}>
+        {estimate ? estimate.reason : 'No sales recorded yet'}
+      </p>
+    </div>
+  );
+}
+
+export function SalesHistory({ baselineId, category, currency, costPerUnit, defaultElasticity, suggestedPrice }: SalesHistoryProps) {
+  const { toast } = useToast();
+  const [records, setRecords] = useState<SalesRecord[]>([]);
+  const [categorySales, setCategorySales] = useState<SalesObservation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [price, setPrice] = useState(String(suggestedPrice));
+  const [unitsSold, setUnitsSold] = useState('');
+  const [period, setPeriod] = useState(defaultPeriod);
+
+  const loadSales = useCallback(async () => {
+    try {
+      // RLS limits this to the merchant's own products
+      const { data, error } = await supabase
+        .from('sales_observations')
+        .select('id, baseline_id, price, units_sold, period_start, period_end, product_baselines!inner(category)')
+        .eq('product_baselines.category', category)
+        .order('period_start', { ascending: false });
+
+      if (error) throw error;
+      const sales = (data || []).map(({ product_baselines, ...sale }) => ({ ...sale, price: Number(sale.price) }));
+      setCategorySales(sales);
+      setRecords(sales.filter(sale => sale.baseline_id === baselineId));
+    } catch (error) {
+      console.error('Failed to load sales history:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [baselineId, category]);
+
+  useEffect(() => {
+    loadSales();
+  }, [loadSales]);
+
+  // Same estimate process-pricing makes on the next run
+  const learned = useMemo(
+    () => learnElasticity(baselineId, defaultElasticity, categorySales),
+    [baselineId, defaultElasticity, categorySales]
+  );
+
+  const handleAdd = async () => {
+    const priceValue = Number(price);
+    const units = Number(unitsSold);
+    const days = periodDays({ period_start: period.start, period_end: period.end });
+
+    if (!Number.isFinite(priceValue) || priceValue <= 0 || unitsSold === '' || !Number.isInteger(units) || units < 0) {
+      toast({
+        title: 'Invalid sales record',
+        description: 'Enter the price you charged and a whole number of units sold',
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (days === 0) {
+      toast({
+        title: 'Invalid period',
+        description: 'The end date must be on or after the start date',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not signed in');
+
+      // Record the outcome against the latest suggestion so predicted and actual sales sit side by side
+      const { data: performance } = await supabase
+        .from('pricing_performance')
+        .select('id')
+        .eq('baseline_id', baselineId)
+        .lte('created_at', `${period.end}T23:59:59Z`)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      const { error } = await supabase
+        .from('sales_observations')
+        .insert({
+          baseline_id: baselineId,
+          merchant_id: user.id,
+          pricing_performance_id: performance?.id ?? null,
+          price: priceValue,
+          units_sold: units,
+          period_start: period.start,
+          period_end: period.end,
+        });
+
+      if (error) throw error;
+
+      if (performance) {
+        // predicted_sales is monthly, so actual sales are scaled to 30 days
+        const monthlySales = Math.round(units * 30 / days);
+        const { error: performanceError } = await supabase
+          .from('pricing_performance')
+          .update({
+            applied_price: priceValue,
+            applied_at: `${period.start}T00:00:00Z`,
+            actual_sales: monthlySales,
+            actual_profit: (priceValue - costPerUnit) * monthlySales,
+            // Rescored by score-pricing-performance
+            scored_at: null,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', performance.id);
+        if (performanceError) console.error('Failed to update pricing performance:', performanceError);
+      }
+
+      await loadSales();
+      setUnitsSold('');
+      toast({
+        title: 'Sales recorded',
+        description: 'The next pricing run will include this period',
+      });
+    } catch (error) {
+      console.error('Failed to record sales:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to record sales',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (record: SalesRecord) => {
+    try {
+      const { error } = await supabase
+        .from('sales_observations')
+        .delete()
+        .eq('id', record.id);
+
+      if (error) throw error;
+      setRecords(prev => prev.filter(r => r.id !== record.id));
+      setCategorySales(prev => prev.filter(sale => (sale as SalesRecord).id !== record.id));
+    } catch (error) {
+      console.error('Failed to delete sales record:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete sales record',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card className="p-6 md:p-8 mb-6 shadow-elegant hover:shadow-glow transition-all animate-scale-in">
+      <h2 className="text-2xl font-bold mb-2 flex items-center gap-2 text-foreground">
+        <div className="p-2 bg-primary rounded-lg shadow-md">
+          <span className="text-lg">🧾</span>
+        </div>
+        Sales History
+      </h2>
+      <p className="text-sm text-muted-foreground mb-6">
+        Record the price you charged and how many units sold. Once sales at different prices show a clear
+        pattern, pricing uses your own elasticity instead of the {category} default ({defaultElasticity.toFixed(2)}).
+      </p>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+            <EstimateSummary label="This product" estimate={learned.productEstimate} />
+            <EstimateSummary label={`Your ${category} products`} estimate={learned.categoryEstimate} />
+            <div className="p-4 bg-primary/10 rounded-lg border-2 border-primary">
+              <p className="text-xs font-bold text-primary mb-1 uppercase tracking-wide">Next pricing run uses</p>
+              <p className="text-2xl font-bold text-primary">{learned.elasticity.toFixed(2)}</p>
+              <p className="text-xs text-primary mt-1">
+                {learned.source === 'product'
+                  ? 'Learned from this product'
+                  : learned.source === 'category'
+                  ? 'Learned from your category sales'
+                  : 'Category default'}
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-3 mb-6">
+            {records.map(record => (
+              <div key={record.id} className="flex items-center justify-between gap-3 p-4 bg-gradient-card rounded-lg border border-border flex-wrap">
+                <div>
+                  <p className="text-sm font-medium text-foreground">
+                    {formatNumber(record.units_sold, 0)} units at {formatPrice(record.price, currency)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {record.period_start} to {record.period_end} · {formatNumber(record.units_sold / periodDays(record), 1)} per day
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {record.units_sold === 0 && <Badge variant="outline">Not used (no sales)</Badge>}
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(record)} title="Delete record">
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      <div className="flex items-end gap-2 flex-wrap">
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Price ({currency})</p>
+          <Input type="number" min={0} step="0.01" value={price} onChange={(e) => setPrice(e.target.value)} className="w-32" />
+        </div>
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Units sold</p>
+          <Input type="number" min={0} step="1" value={unitsSold} onChange={(e) => setUnitsSold(e.target.value)} className="w-28" />
+        </div>
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">From</p>
+          <Input type="date" value={period.start} onChange={(e) => setPeriod(prev => ({ ...prev, start: e.target.value }))} className="w-40" />
+        </div>
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">To</p>
+          <Input type="date" value={period.end} onChange={(e) => setPeriod(prev => ({ ...prev, end: e.target.value }))} className="w-40" />
+        </div>
+        <Button onClick={handleAdd} disabled={saving} size="sm">
+          {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+          Record Sales
+        </Button>
+      </div>
+    </Card>
+  );
+}
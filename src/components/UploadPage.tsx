@@ -1,30 +1,24 @@
 import { useState, useEffect, useRef } from 'react';
-import { Check, LogOut, Loader2, Edit2 } from 'lucide-react';
+import { Check, LogOut, Loader2, Edit2, FileSpreadsheet, MessageSquare, Sparkles } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { CATEGORY_ELASTICITY } from '@/utils/categoryElasticity';
+import { categoryOptions, resolveCategory } from '@shared/pricing/categories';
+import { useCategoryTaxonomy } from '@/hooks/use-category-taxonomy';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useNavigate } from 'react-router-dom';
 import { User } from '@supabase/supabase-js';
+import { BulkUpload } from '@/components/BulkUpload';
 
-const CATEGORIES = [
-  'Electronics & Technology',
-  'Fashion & Apparel',
-  'Luxury Goods',
-  'Food & Beverages',
-  'Health & Beauty',
-  'Home & Furniture',
-  'Sports & Outdoors',
-  'Toys & Games',
-  'Books & Media',
-  'Automotive Parts',
-  'Pharmaceuticals',
-  'Groceries (Staples)',
-  'Office Supplies',
-  'Pet Supplies'
-];
+type UploadMode = 'single' | 'bulk';
+
+interface CategorySuggestion {
+  productName: string;
+  category: string;
+  path: string[];
+}
 
 type Step = 'product_name' | 'category' | 'current_price' | 'current_quantity' | 'cost_per_unit' | 'currency';
 
@@ -38,6 +32,7 @@ interface FormData {
 }
 
 export const UploadPage = () => {
+  const [mode, setMode] = useState<UploadMode>('single');
   const [currentStep, setCurrentStep] = useState<Step>('product_name');
   const [formData, setFormData] = useState<FormData>({
     product_name: '',
@@ -49,7 +44,12 @@ export const UploadPage = () => {
   });
   const [isProcessing, setIsProcessing] = useState(false);
   const [user, setUser] = useState<User | null>(null);
+  const [suggestion, setSuggestion] = useState<CategorySuggestion | null>(null);
+  const [isSuggesting, setIsSuggesting] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
+  const suggestedForRef = useRef<string | null>(null);
+  const taxonomy = useCategoryTaxonomy();
+  const options = categoryOptions(taxonomy);
   const { toast } = useToast();
   const navigate = useNavigate();
 
@@ -80,6 +80,41 @@ export const UploadPage = () => {
     return labels[step];
   };
 
+  // Ask suggest-category for the product's category; the merchant confirms it in the category step
+  const suggestCategory = async (productName: string) => {
+    if (suggestedForRef.current === productName) return;
+    suggestedForRef.current = productName;
+    setSuggestion(null);
+    setIsSuggesting(true);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('suggest-category', {
+        body: { product_name: productName }
+      });
+
+      if (error) throw error;
+      // The name may have been edited while the request was in flight
+      if (suggestedForRef.current === productName && data?.suggested_category) {
+        setSuggestion({
+          productName,
+          category: data.suggested_category,
+          path: data.category_path || [data.suggested_category],
+        });
+      }
+    } catch (error) {
+      // The picker still works without a suggestion
+      console.error('Error suggesting category:', error);
+    } finally {
+      if (suggestedForRef.current === productName) setIsSuggesting(false);
+    }
+  };
+
+  const selectCategory = (category: string) => {
+    setFormData(prev => ({ ...prev, category }));
+    setCompletedSteps(prev => new Set([...prev, 'category']));
+    setCurrentStep('current_price');
+  };
+
   const handleNext = async () => {
     const currentIndex = steps.indexOf(currentStep);
     
@@ -105,6 +140,10 @@ export const UploadPage = () => {
       return;
     }
 
+    if (currentStep === 'product_name') {
+      suggestCategory(formData.product_name.trim());
+    }
+
     // Mark current step as completed
     setCompletedSteps(prev => new Set([...prev, currentStep]));
 
@@ -156,7 +195,7 @@ export const UploadPage = () => {
         current_quantity: Number(formData.current_quantity),
         cost_per_unit: Number(formData.cost_per_unit),
         currency: formData.currency,
-        base_elasticity: CATEGORY_ELASTICITY[formData.category],
+        base_elasticity: resolveCategory(formData.category, taxonomy)?.elasticity ?? CATEGORY_ELASTICITY[formData.category],
       };
 
       // Use submit-product edge function (works for both guests and authenticated users)
@@ -194,7 +233,7 @@ export const UploadPage = () => {
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 p-4 md:p-8 animate-fade-in">
-      <div className="max-w-3xl mx-auto">
+      <div className={`${mode === 'bulk' ? 'max-w-6xl' : 'max-w-3xl'} mx-auto`}>
         {/* Header */}
         <div className="flex items-center justify-between mb-8">
           <div className="flex items-center gap-3">
@@ -225,6 +264,29 @@ export const UploadPage = () => {
           )}
         </div>
 
+        {/* Mode Toggle */}
+        <div className="flex justify-center gap-2 mb-8">
+          <Button
+            onClick={() => setMode('single')}
+            variant={mode === 'single' ? 'default' : 'outline'}
+            size="sm"
+            className="rounded-full"
+          >
+            <MessageSquare className="w-4 h-4 mr-2" />
+            Single Product
+          </Button>
+          <Button
+            onClick={() => setMode('bulk')}
+            variant={mode === 'bulk' ? 'default' : 'outline'}
+            size="sm"
+            className="rounded-full"
+          >
+            <FileSpreadsheet className="w-4 h-4 mr-2" />
+            Bulk Import
+          </Button>
+        </div>
+
+        {mode === 'bulk' ? <BulkUpload /> : <>
         {/* Progress Dots */}
         <div className="flex justify-center gap-2 mb-12">
           {steps.map((step) => (
@@ -301,21 +363,35 @@ export const UploadPage = () => {
                   
                   {currentStep === 'category' ? (
                     <div className="space-y-3">
-                      <Select
-                        value={formData.category}
-                        onValueChange={(value) => {
-                          setFormData(prev => ({ ...prev, category: value }));
-                          setCompletedSteps(prev => new Set([...prev, 'category']));
-                          setCurrentStep('current_price');
-                        }}
-                      >
+                      {isSuggesting ? (
+                        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                          Finding the best category...
+                        </p>
+                      ) : suggestion && suggestion.productName === formData.product_name.trim() && (
+                        <Button
+                          onClick={() => selectCategory(suggestion.category)}
+                          variant="outline"
+                          className="w-full justify-start rounded-2xl py-6 border-primary/40"
+                        >
+                          <Sparkles className="w-4 h-4 mr-2 text-primary" />
+                          <span className="truncate">
+                            Suggested: <span className="font-semibold">{suggestion.path.join(' › ')}</span>
+                          </span>
+                        </Button>
+                      )}
+                      <Select value={formData.category} onValueChange={selectCategory}>
                         <SelectTrigger className="w-full bg-background border-2 border-primary/20 focus:border-primary rounded-2xl px-4 py-6 text-left shadow-sm">
-                          <SelectValue placeholder="Select a category" />
+                          <SelectValue placeholder={suggestion ? 'Or choose another category' : 'Select a category'} />
                         </SelectTrigger>
                         <SelectContent className="bg-background max-h-[60vh] overflow-y-auto z-[100]" position="popper" sideOffset={8}>
-                          {CATEGORIES.map((cat) => (
-                            <SelectItem key={cat} value={cat}>
-                              {cat}
+                          {options.map((option) => (
+                            <SelectItem
+                              key={option.name}
+                              value={option.name}
+                              className={option.depth > 0 ? 'pl-10 text-muted-foreground' : 'font-medium'}
+                            >
+                              {option.name}
                             </SelectItem>
                           ))}
                         </SelectContent>
@@ -406,6 +482,7 @@ export const UploadPage = () => {
             </div>
           )}
         </div>
+        </>}
 
         {/* Footer */}
         <footer className="text-center pt-16 pb-8">
@@ -4,6 +4,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { Badge } from '@/components/ui/badge';
 import { formatNumber, formatPrice } from '@/lib/utils';
 import { TrendingUp, Target, AlertCircle } from 'lucide-react';
+import CalibrationReport from './CalibrationReport';
 
 interface PerformanceMetric {
   id: string;
@@ -13,6 +14,7 @@ interface PerformanceMetric {
   predicted_sales: number;
   actual_sales: number | null;
   sales_accuracy_score: number | null;
+  profit_accuracy_score: number | null;
   created_at: string;
   currency: string;
 }
@@ -36,6 +38,7 @@ export default function AdminPerformance() {
           predicted_sales,
           actual_sales,
           sales_accuracy_score,
+          profit_accuracy_score,
           created_at,
           baseline_id,
           product_baselines!inner(product_name, currency)
@@ -53,7 +56,8 @@ export default function AdminPerformance() {
         applied_price: d.applied_price,
         predicted_sales: d.predicted_sales,
         actual_sales: d.actual_sales,
-        sales_accuracy_score: d.sales_accuracy_score,
+        sales_accuracy_score: d.sales_accuracy_score === null ? null : Number(d.sales_accuracy_score),
+        profit_accuracy_score: d.profit_accuracy_score === null ? null : Number(d.profit_accuracy_score),
         created_at: d.created_at
       })) || [];
       
@@ -66,7 +70,8 @@ export default function AdminPerformance() {
   };
   
   const calculateOverallAccuracy = () => {
-    const withActuals = metrics.filter(m => m.actual_sales && m.sales_accuracy_score);
+    // A score of 0 is an exact prediction
+    const withActuals = metrics.filter(m => m.actual_sales !== null && m.sales_accuracy_score !== null);
     if (withActuals.length === 0) return null;
     
     const avgAccuracy = withActuals.reduce((sum, m) => sum + (m.sales_accuracy_score || 0), 0) / withActuals.length;
@@ -99,14 +104,14 @@ export default function AdminPerformance() {
             <div className="p-4 bg-success/5 rounded-lg border border-success/20">
               <p className="text-sm text-muted-foreground mb-1">With Actual Data</p>
               <p className="text-3xl font-bold text-success">
-                {formatNumber(metrics.filter(m => m.actual_sales).length, 0)}
+                {formatNumber(metrics.filter(m => m.actual_sales !== null).length, 0)}
               </p>
               <p className="text-xs text-muted-foreground mt-1">User-reported outcomes</p>
             </div>
             <div className="p-4 bg-accent/5 rounded-lg border border-accent/20">
               <p className="text-sm text-muted-foreground mb-1">Average Accuracy</p>
               <p className="text-3xl font-bold text-foreground">
-                {overallAccuracy ? `${overallAccuracy.toFixed(1)}%` : 'N/A'}
+                {overallAccuracy !== null ? `${overallAccuracy.toFixed(1)}%` : 'N/A'}
               </p>
               <p className="text-xs text-muted-foreground mt-1">Prediction accuracy score</p>
             </div>
@@ -114,6 +119,8 @@ export default function AdminPerformance() {
         </CardContent>
       </Card>
       
+      <CalibrationReport onScored={fetchPerformanceMetrics} />
+      
       {/* Detailed Table */}
       <Card>
         <CardHeader>
@@ -140,7 +147,8 @@ export default function AdminPerformance() {
                     <th className="text-right p-3 font-semibold">Suggested Price</th>
                     <th className="text-right p-3 font-semibold">Predicted Sales</th>
                     <th className="text-right p-3 font-semibold">Actual Sales</th>
-                    <th className="text-right p-3 font-semibold">Accuracy</th>
+                    <th className="text-right p-3 font-semibold">Sales Accuracy</th>
+                    <th className="text-right p-3 font-semibold">Profit Accuracy</th>
                     <th className="text-left p-3 font-semibold">Date</th>
                   </tr>
                 </thead>
@@ -153,12 +161,12 @@ export default function AdminPerformance() {
                       </td>
                       <td className="text-right p-3">{formatNumber(metric.predicted_sales, 0)}</td>
                       <td className="text-right p-3">
-                        {metric.actual_sales ? formatNumber(metric.actual_sales, 0) : (
+                        {metric.actual_sales !== null ? formatNumber(metric.actual_sales, 0) : (
                           <span className="text-muted-foreground">-</span>
                         )}
                       </td>
                       <td className="text-right p-3">
-                        {metric.sales_accuracy_score ? (
+                        {metric.sales_accuracy_score !== null ? (
                           <Badge 
                             variant={metric.sales_accuracy_score < 0.2 ? 'default' : 'destructive'}
                             className="font-semibold"
@@ -169,6 +177,18 @@ export default function AdminPerformance() {
                           <span className="text-muted-foreground">-</span>
                         )}
                       </td>
+                      <td className="text-right p-3">
+                        {metric.profit_accuracy_score !== null ? (
+                          <Badge 
+                            variant={metric.profit_accuracy_score < 0.2 ? 'default' : 'destructive'}
+                            className="font-semibold"
+                          >
+                            {((1 - metric.profit_accuracy_score) * 100).toFixed(0)}%
+                          </Badge>
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </td>
                       <td className="p-3 text-sm text-muted-foreground">
                         {new Date(metric.created_at).toLocaleDateString()}
                       </td>
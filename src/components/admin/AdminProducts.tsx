@@ -69,15 +69,16 @@ const AdminProducts = () => {
   const handleForceRefresh = async (baselineId: string) => {
     setRefreshingId(baselineId);
     try {
-      const { error } = await supabase.functions.invoke('refresh-competitors', {
-        body: { baselineId }
+      // Queue the refresh so it respects the scraping concurrency limits
+      const { error } = await supabase.functions.invoke('process-pricing', {
+        body: { baseline_id: baselineId, job_type: 'refresh_competitors' }
       });
 
       if (error) throw error;
 
       toast({
         title: "Success",
-        description: "Competitor refresh started",
+        description: "Competitor refresh queued",
       });
     } catch (error) {
       console.error('Error refreshing competitors:', error);
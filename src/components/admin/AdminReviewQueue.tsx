@@ -0,0 +1,481 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Check, EyeOff, Link2, Loader2, Plus, RefreshCw, Search, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { formatPrice } from '@/lib/utils';
+import { formatTimeAgo } from '@/utils/refreshSchedule';
+
+type ReviewStatus = 'pending' | 'reviewed' | 'ignored';
+
+interface ReviewItem {
+  id: string;
+  baseline_id: string | null;
+  product_name: string;
+  attempted_marketplaces: string[];
+  google_fallback_attempted: boolean;
+  status: ReviewStatus;
+  admin_notes: string | null;
+  created_at: string;
+  reviewed_at: string | null;
+  merchant_email: string;
+  competitor_count: number;
+  baseline: {
+    current_price: number;
+    cost_per_unit: number | null;
+    currency: string;
+    category: string;
+  } | null;
+}
+
+// A competitor price ready to save, either scraped from a pasted URL or typed in
+interface CompetitorPriceEntry {
+  marketplace: string;
+  product_name: string;
+  price: number;
+  product_url: string | null;
+  similarity_score?: number;
+}
+
+interface ManualPriceForm {
+  marketplace: string;
+  product_name: string;
+  price: string;
+  product_url: string;
+}
+
+const EMPTY_MANUAL_FORM: ManualPriceForm = { marketplace: '', product_name: '', price: '', product_url: '' };
+
+// Matches the limit in refresh-competitors
+const MAX_URLS = 10;
+
+const STATUS_VARIANTS: Record<ReviewStatus, 'default' | 'secondary' | 'outline'> = {
+  pending: 'default',
+  reviewed: 'secondary',
+  ignored: 'outline',
+};
+
+const AdminReviewQueue = () => {
+  const [items, setItems] = useState<ReviewItem[]>([]);
+  const [statusFilter, setStatusFilter] = useState<ReviewStatus | 'all'>('pending');
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [urlText, setUrlText] = useState('');
+  const [scraping, setScraping] = useState(false);
+  const [scraped, setScraped] = useState<CompetitorPriceEntry[]>([]);
+  const [failedUrls, setFailedUrls] = useState<string[]>([]);
+  const [manualForm, setManualForm] = useState<ManualPriceForm>(EMPTY_MANUAL_FORM);
+  const [saving, setSaving] = useState(false);
+  const [notes, setNotes] = useState('');
+  const [rerunning, setRerunning] = useState(false);
+  const { toast } = useToast();
+
+  const fetchItems = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('admin', {
+        body: { action: 'list-review-queue', status: statusFilter }
+      });
+
+      if (error) throw error;
+
+      setItems(data.items || []);
+    } catch (error) {
+      console.error('Error fetching review queue:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch the manual review queue",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, toast]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  const openWorkbench = (item: ReviewItem) => {
+    setSelectedId(item.id);
+    setUrlText('');
+    setScraped([]);
+    setFailedUrls([]);
+    setManualForm(EMPTY_MANUAL_FORM);
+    setNotes(item.admin_notes || '');
+  };
+
+  const handleScrapeUrls = async (item: ReviewItem) => {
+    const urls = urlText.split('\n').map(line => line.trim()).filter(Boolean);
+    const invalid = urls.filter(url => !/^https?:\/\/\S+$/i.test(url));
+
+    if (urls.length === 0 || invalid.length > 0 || urls.length > MAX_URLS) {
+      toast({
+        title: "Invalid URLs",
+        description: invalid.length > 0
+          ? `Not a URL: ${invalid[0]}`
+          : `Paste between 1 and ${MAX_URLS} product URLs, one per line`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setScraping(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('admin', {
+        body: { action: 'scrape-review-urls', reviewId: item.id, urls }
+      });
+
+      if (error) throw error;
+
+      setScraped((data.products || []).map((product: CompetitorPriceEntry & { url: string }) => ({
+        marketplace: product.marketplace,
+        product_name: product.product_name,
+        price: product.price,
+        product_url: product.url,
+        similarity_score: product.similarity_score,
+      })));
+      setFailedUrls(data.failedUrls || []);
+    } catch (error) {
+      console.error('Error scraping URLs:', error);
+      toast({
+        title: "Error",
+        description: "Failed to scrape the pasted URLs",
+        variant: "destructive",
+      });
+    } finally {
+      setScraping(false);
+    }
+  };
+
+  const savePrices = async (item: ReviewItem, prices: CompetitorPriceEntry[]) => {
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('admin', {
+        body: { action: 'add-review-prices', reviewId: item.id, prices }
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Prices added",
+        description: `${data.added} competitor price(s) saved. Re-run pricing to use them.`,
+      });
+      setItems(prev => prev.map(existing => existing.id === item.id
+        ? { ...existing, competitor_count: existing.competitor_count + data.added }
+        : existing
+      ));
+      return true;
+    } catch (error) {
+      console.error('Error adding competitor prices:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save competitor prices",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddScraped = async (item: ReviewItem, entry: CompetitorPriceEntry) => {
+    if (await savePrices(item, [entry])) {
+      setScraped(prev => prev.filter(product => product !== entry));
+    }
+  };
+
+  const handleAddManual = async (item: ReviewItem) => {
+    const price = Number(manualForm.price);
+    if (!manualForm.marketplace.trim() || !manualForm.product_name.trim() || !(price > 0)) {
+      toast({
+        title: "Missing details",
+        description: "Enter the store, the competitor's product name and a price above zero",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const saved = await savePrices(item, [{
+      marketplace: manualForm.marketplace.trim(),
+      product_name: manualForm.product_name.trim(),
+      price,
+      product_url: manualForm.product_url.trim() || null,
+    }]);
+    if (saved) {
+      setManualForm(EMPTY_MANUAL_FORM);
+    }
+  };
+
+  const handleResolve = async (item: ReviewItem, status: ReviewStatus) => {
+    try {
+      const { error } = await supabase.functions.invoke('admin', {
+        body: { action: 'resolve-review-item', reviewId: item.id, status, adminNotes: notes }
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: status === 'pending' ? 'Item reopened' : `Item marked ${status}`,
+      });
+      setSelectedId(null);
+      fetchItems();
+    } catch (error) {
+      console.error('Error updating review item:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update the review item",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRerunPricing = async (item: ReviewItem) => {
+    setRerunning(true);
+    try {
+      const { error } = await supabase.functions.invoke('admin', {
+        body: { action: 'rerun-review-pricing', reviewId: item.id }
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Pricing job queued",
+      });
+    } catch (error) {
+      console.error('Error re-running pricing:', error);
+      toast({
+        title: "Error",
+        description: "Failed to queue pricing",
+        variant: "destructive",
+      });
+    } finally {
+      setRerunning(false);
+    }
+  };
+
+  const renderWorkbench = (item: ReviewItem) => {
+    const currency = item.baseline?.currency || 'SAR';
+
+    return (
+      <div className="mt-4 pt-4 border-t space-y-6">
+        {/* Pasted URLs */}
+        <div className="space-y-2">
+          <Label htmlFor={`urls-${item.id}`}>Competitor product URLs (one per line)</Label>
+          <Textarea
+            id={`urls-${item.id}`}
+            value={urlText}
+            onChange={(e) => setUrlText(e.target.value)}
+            placeholder="https://www.noon.com/saudi-en/..."
+            rows={3}
+            className="font-mono text-xs"
+          />
+          <Button size="sm" onClick={() => handleScrapeUrls(item)} disabled={scraping}>
+            {scraping ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Link2 className="h-4 w-4 mr-2" />}
+            Scrape URLs
+          </Button>
+
+          {scraped.length > 0 && (
+            <div className="space-y-2">
+              {scraped.map((product) => (
+                <div key={`${product.product_url}-${product.product_name}`} className="flex items-center justify-between gap-4 rounded-md border p-3 text-sm">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{product.product_name}</p>
+                    <p className="text-muted-foreground">
+                      {product.marketplace} · {formatPrice(product.price, currency)}
+                      {product.similarity_score != null && ` · ${(product.similarity_score * 100).toFixed(0)}% match`}
+                    </p>
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => handleAddScraped(item, product)} disabled={saving}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+          {failedUrls.length > 0 && (
+            <div className="text-sm text-destructive">
+              <p>No usable price found on:</p>
+              <ul className="list-disc pl-5">
+                {failedUrls.map(url => <li key={url} className="truncate">{url}</li>)}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        {/* Hand-entered price */}
+        <div className="space-y-2">
+          <Label>Add a competitor price by hand</Label>
+          <div className="grid gap-2 md:grid-cols-4">
+            <Input
+              placeholder="Store (e.g. Noon)"
+              value={manualForm.marketplace}
+              onChange={(e) => setManualForm({ ...manualForm, marketplace: e.target.value })}
+            />
+            <Input
+              placeholder="Competitor product name"
+              value={manualForm.product_name}
+              onChange={(e) => setManualForm({ ...manualForm, product_name: e.target.value })}
+              className="md:col-span-2"
+            />
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder={`Price (${currency})`}
+              value={manualForm.price}
+              onChange={(e) => setManualForm({ ...manualForm, price: e.target.value })}
+            />
+            <Input
+              placeholder="Product URL (optional)"
+              value={manualForm.product_url}
+              onChange={(e) => setManualForm({ ...manualForm, product_url: e.target.value })}
+              className="md:col-span-3"
+            />
+            <Button variant="outline" onClick={() => handleAddManual(item)} disabled={saving}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add price
+            </Button>
+          </div>
+        </div>
+
+        {/* Resolution */}
+        <div className="space-y-2">
+          <Label htmlFor={`notes-${item.id}`}>Admin notes</Label>
+          <Textarea
+            id={`notes-${item.id}`}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="What was found, or why this item was ignored"
+            rows={2}
+          />
+          <div className="flex flex-wrap gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => handleRerunPricing(item)}
+              disabled={rerunning || item.competitor_count === 0}
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${rerunning ? 'animate-spin' : ''}`} />
+              Re-run pricing
+            </Button>
+            {item.status !== 'reviewed' && (
+              <Button size="sm" onClick={() => handleResolve(item, 'reviewed')}>
+                <Check className="h-4 w-4 mr-2" />
+                Mark reviewed
+              </Button>
+            )}
+            {item.status !== 'ignored' && (
+              <Button size="sm" variant="secondary" onClick={() => handleResolve(item, 'ignored')}>
+                <EyeOff className="h-4 w-4 mr-2" />
+                Ignore
+              </Button>
+            )}
+            {item.status !== 'pending' && (
+              <Button size="sm" variant="ghost" onClick={() => handleResolve(item, 'pending')}>
+                Reopen
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle>Manual Review Queue</CardTitle>
+            <CardDescription>
+              Products where no marketplace or Google fallback returned competitor prices
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as ReviewStatus | 'all')}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="reviewed">Reviewed</SelectItem>
+                <SelectItem value="ignored">Ignored</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="icon" onClick={fetchItems} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {loading ? (
+            <p className="text-center text-muted-foreground py-8">Loading review queue...</p>
+          ) : items.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No items to review</p>
+          ) : (
+            items.map((item) => (
+              <div key={item.id} className="border rounded-lg p-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <h3 className="font-semibold truncate">{item.product_name}</h3>
+                      <Badge variant={STATUS_VARIANTS[item.status]}>{item.status}</Badge>
+                    </div>
+                    <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+                      <span>User: {item.merchant_email}</span>
+                      {item.baseline && (
+                        <span>Price: {formatPrice(item.baseline.current_price, item.baseline.currency)}</span>
+                      )}
+                      {item.baseline && <span>Category: {item.baseline.category}</span>}
+                      <span>Queued {formatTimeAgo(item.created_at)}</span>
+                      <span>Competitor prices: {item.competitor_count}</span>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-1 mt-2">
+                      <span className="text-xs text-muted-foreground mr-1">Tried:</span>
+                      {item.attempted_marketplaces.map(marketplace => (
+                        <Badge key={marketplace} variant="outline" className="text-xs">{marketplace}</Badge>
+                      ))}
+                    </div>
+                    {item.admin_notes && selectedId !== item.id && (
+                      <p className="text-sm mt-2 italic text-muted-foreground">Notes: {item.admin_notes}</p>
+                    )}
+                  </div>
+
+                  {item.baseline_id && (
+                    selectedId === item.id ? (
+                      <Button variant="ghost" size="sm" onClick={() => setSelectedId(null)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    ) : (
+                      <Button variant="outline" size="sm" onClick={() => openWorkbench(item)}>
+                        <Search className="h-4 w-4 mr-2" />
+                        Review
+                      </Button>
+                    )
+                  )}
+                </div>
+
+                {selectedId === item.id && renderWorkbench(item)}
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AdminReviewQueue;
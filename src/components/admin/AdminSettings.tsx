@@ -3,7 +3,9 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
-import { Settings, Key, Globe, Zap } from 'lucide-react';
+import { Settings, Key, Zap } from 'lucide-react';
+import MarketplaceSettings from './MarketplaceSettings';
+import InflationRates from './InflationRates';
 
 const AdminSettings = () => {
   return (
@@ -59,37 +61,10 @@ const AdminSettings = () => {
       </Card>
 
       {/* Marketplace Configurations */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Globe className="h-5 w-5" />
-            Marketplace Configurations
-          </CardTitle>
-          <CardDescription>Configure scraping parameters for each marketplace</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-4">
-            {['Amazon', 'eBay', 'Google Shopping'].map((marketplace) => (
-              <div key={marketplace} className="border rounded-lg p-4">
-                <div className="flex items-center justify-between mb-3">
-                  <h4 className="font-medium">{marketplace}</h4>
-                  <Badge variant="outline">Active</Badge>
-                </div>
-                <div className="grid grid-cols-2 gap-4 text-sm">
-                  <div>
-                    <p className="text-muted-foreground">Wait Time</p>
-                    <p className="font-medium">2000ms</p>
-                  </div>
-                  <div>
-                    <p className="text-muted-foreground">Block Resources</p>
-                    <p className="font-medium">Yes</p>
-                  </div>
-                </div>
-              </div>
-            ))}
-          </div>
-        </CardContent>
-      </Card>
+      <MarketplaceSettings />
+
+      {/* Inflation Rates */}
+      <InflationRates />
 
       {/* System Settings */}
       <Card>
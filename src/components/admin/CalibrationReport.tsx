@@ -0,0 +1,166 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Gauge, Loader2, RefreshCw } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { formatNumber } from '@/lib/utils';
+import type { CalibrationGroup, CalibrationReport as Report, CalibrationVerdict } from '@shared/pricing/calibration';
+
+interface CalibrationReportProps {
+  // Called after a scoring run so the prediction history can reload
+  onScored?: () => void;
+}
+
+const VERDICTS: Record<CalibrationVerdict, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  over_optimistic: { label: 'Over-optimistic', variant: 'destructive' },
+  under_optimistic: { label: 'Under-optimistic', variant: 'secondary' },
+  calibrated: { label: 'Calibrated', variant: 'default' },
+  insufficient_data: { label: 'Not enough data', variant: 'outline' },
+};
+
+const percent = (value: number | null, signed = false) =>
+  value === null ? '-' : `${signed && value > 0 ? '+' : ''}${(value * 100).toFixed(0)}%`;
+
+const accuracy = (error: number | null) => (error === null ? '-' : `${((1 - error) * 100).toFixed(0)}%`);
+
+const multiplier = (value: number | null) => (value === null ? '-' : `${formatNumber(value, 2)}x`);
+
+function GroupTable({ title, groups }: { title: string; groups: CalibrationGroup[] }) {
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold">{title}</h3>
+      <div className="rounded-md border overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Group</TableHead>
+              <TableHead className="text-right">Records</TableHead>
+              <TableHead className="text-right">Sales Accuracy</TableHead>
+              <TableHead className="text-right">Profit Accuracy</TableHead>
+              <TableHead className="text-right">Sales Bias</TableHead>
+              <TableHead className="text-right">Volume Assumed</TableHead>
+              <TableHead className="text-right">Volume Realized</TableHead>
+              <TableHead>Verdict</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {groups.map(group => (
+              <TableRow key={group.key}>
+                <TableCell className="font-medium">{group.key}</TableCell>
+                <TableCell className="text-right">{formatNumber(group.records, 0)}</TableCell>
+                <TableCell className="text-right">{accuracy(group.meanSalesError)}</TableCell>
+                <TableCell className="text-right">{accuracy(group.meanProfitError)}</TableCell>
+                <TableCell className="text-right">{percent(group.salesBias, true)}</TableCell>
+                <TableCell className="text-right">{multiplier(group.assumedMultiplier)}</TableCell>
+                <TableCell className="text-right">{multiplier(group.realizedMultiplier)}</TableCell>
+                <TableCell>
+                  <Badge variant={VERDICTS[group.verdict].variant}>{VERDICTS[group.verdict].label}</Badge>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
+
+export default function CalibrationReport({ onScored }: CalibrationReportProps) {
+  const { toast } = useToast();
+  const [report, setReport] = useState<Report | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [scoring, setScoring] = useState(false);
+
+  useEffect(() => {
+    fetchReport();
+  }, []);
+
+  const fetchReport = async () => {
+    try {
+      const { data, error } = await supabase.functions.invoke('admin', {
+        body: { action: 'calibration-report' }
+      });
+
+      if (error) throw error;
+      setReport(data);
+    } catch (error) {
+      console.error('Failed to fetch calibration report:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleScore = async () => {
+    setScoring(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('score-pricing-performance', { body: {} });
+
+      if (error) throw error;
+      await fetchReport();
+      onScored?.();
+
+      toast({
+        title: `${data.scored || 0} prediction${data.scored === 1 ? '' : 's'} scored`,
+        description: data.failed ? `${data.failed} could not be saved` : 'Accuracy scores are up to date',
+      });
+    } catch (error) {
+      console.error('Error scoring predictions:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to score predictions',
+        variant: 'destructive',
+      });
+    } finally {
+      setScoring(false);
+    }
+  };
+
+  const zoneVerdicts = (report?.byZone || []).filter(group => group.verdict === 'over_optimistic' || group.verdict === 'under_optimistic');
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-3 flex-wrap">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Gauge className="h-5 w-5 text-primary" />
+              Model Calibration
+            </CardTitle>
+            <CardDescription>
+              Predictions compared with the sales merchants reported. Volume columns compare the zone multiplier
+              each suggestion assumed with the change in monthly sales that followed.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleScore} disabled={scoring}>
+            {scoring ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+            Score Now
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <p className="text-center text-muted-foreground py-8">Loading calibration report...</p>
+        ) : !report || report.scored === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            No predictions have actual sales yet. Merchants record them under Sales History on the results page.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {formatNumber(report.scored, 0)} predictions with actual sales.
+              {zoneVerdicts.length > 0
+                ? ` ${zoneVerdicts.map(group => `${group.key} is ${VERDICTS[group.verdict].label.toLowerCase()} (assumed ${multiplier(group.assumedMultiplier)}, realized ${multiplier(group.realizedMultiplier)})`).join('; ')}.`
+                : ' No zone is clearly over- or under-optimistic.'}
+            </p>
+            <GroupTable title="By Zone" groups={report.byZone} />
+            <GroupTable title="By Category" groups={report.byCategory} />
+            <GroupTable title="By Market Data Confidence" groups={report.byConfidence} />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
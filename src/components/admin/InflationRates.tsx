@@ -0,0 +1,419 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, Pencil, Plus, RefreshCw, Save, Trash2, TrendingUp, Upload, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { formatTimeAgo } from '@/utils/refreshSchedule';
+import { CPI_CSV_COLUMNS, CpiRow, parseCpiCsv, validateCpiRow } from '@/utils/cpiImport';
+
+interface InflationSnapshot {
+  id: string;
+  currency: string;
+  period: string;
+  effective_from: string;
+  inflation_rate: number;
+  source: string | null;
+  provider: string;
+  updated_at: string;
+}
+
+// Raw form values keyed like the CSV columns, so both go through validateCpiRow
+type CpiForm = Record<string, string>;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptyForm = (): CpiForm => ({
+  currency: 'SAR',
+  period: String(new Date().getFullYear()),
+  rate_percent: '',
+  source: '',
+  effective_from: today(),
+});
+
+const toForm = (snapshot: InflationSnapshot): CpiForm => ({
+  currency: snapshot.currency,
+  period: snapshot.period,
+  rate_percent: String(Math.round(snapshot.inflation_rate * 1000000) / 10000),
+  source: snapshot.source || '',
+  effective_from: snapshot.effective_from,
+});
+
+// Snapshots are append-only, so editing a rate adds a row. Only the newest row per currency,
+// period and effective date is shown; the ones it replaced stay linked to past pricing results.
+const latestVersions = (snapshots: InflationSnapshot[]): InflationSnapshot[] => {
+  const seen = new Set<string>();
+  return snapshots.filter(snapshot => {
+    const key = `${snapshot.currency}|${snapshot.period}|${snapshot.effective_from}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Same rule as loadInflationSnapshot in supabase/functions/_shared/inflation/snapshots.ts,
+// applied to latestVersions so newer rows have already replaced the ones they correct
+const findActiveSnapshotIds = (snapshots: InflationSnapshot[]): Set<string> => {
+  const active = new Map<string, InflationSnapshot>();
+  for (const snapshot of snapshots) {
+    if (snapshot.effective_from > today()) continue;
+    const current = active.get(snapshot.currency);
+    if (
+      !current ||
+      snapshot.effective_from > current.effective_from ||
+      (snapshot.effective_from === current.effective_from && snapshot.period > current.period)
+    ) {
+      active.set(snapshot.currency, snapshot);
+    }
+  }
+  return new Set([...active.values()].map(snapshot => snapshot.id));
+};
+
+const InflationRates = () => {
+  const { toast } = useToast();
+  const [snapshots, setSnapshots] = useState<InflationSnapshot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<CpiForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchSnapshots = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('inflation_snapshots')
+        .select('id, currency, period, effective_from, inflation_rate, source, provider, updated_at')
+        .order('currency', { ascending: true })
+        .order('period', { ascending: false })
+        .order('effective_from', { ascending: false })
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+      setSnapshots(latestVersions(data || []));
+    } catch (error) {
+      console.error('Error fetching inflation snapshots:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSnapshots();
+  }, []);
+
+  const activeIds = useMemo(() => findActiveSnapshotIds(snapshots), [snapshots]);
+
+  const saveRows = async (rows: CpiRow[], provider: 'manual' | 'csv'): Promise<boolean> => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from('inflation_snapshots')
+        .insert(
+          rows.map(({ effective_from, ...row }) => ({
+            ...row,
+            // Left out so the column default (today) applies
+            ...(effective_from ? { effective_from } : {}),
+            provider,
+            updated_by: user?.id ?? null,
+          }))
+        );
+
+      if (error) throw error;
+      await fetchSnapshots();
+      return true;
+    } catch (error) {
+      console.error('Error saving inflation snapshots:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save inflation rates',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const startEditing = (snapshot: InflationSnapshot | null) => {
+    setEditingId(snapshot ? snapshot.id : 'new');
+    setForm(snapshot ? toForm(snapshot) : emptyForm());
+  };
+
+  const stopEditing = () => {
+    setEditingId(null);
+    setForm(null);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    const { cpi, errors } = validateCpiRow(1, form);
+    if (!cpi) {
+      toast({
+        title: 'Invalid inflation rate',
+        description: errors.map(error => error.message).join('. '),
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    // An edit is saved as a new row; the edited one stays for the pricing results that used it
+    const existing = editingId !== 'new' ? snapshots.find(snapshot => snapshot.id === editingId) : null;
+    const effectiveFrom = cpi.effective_from || existing?.effective_from || null;
+    const saved = await saveRows([{ ...cpi, effective_from: effectiveFrom }], 'manual');
+    setSaving(false);
+
+    if (saved) {
+      stopEditing();
+      toast({
+        title: 'Inflation rate saved',
+        description: `Pricing runs from ${effectiveFrom || today()} will use ${cpi.currency} ${(cpi.inflation_rate * 100).toFixed(2)}%`,
+      });
+    }
+  };
+
+  const handleDelete = async (snapshot: InflationSnapshot) => {
+    if (!confirm(`Delete the ${snapshot.currency} rate for ${snapshot.period}? Any rate it replaced applies again. Past pricing results keep their rate but lose the link to it.`)) return;
+
+    const { error } = await supabase.from('inflation_snapshots').delete().eq('id', snapshot.id);
+    if (error) {
+      console.error('Error deleting inflation snapshot:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete inflation rate',
+        variant: 'destructive',
+      });
+      return;
+    }
+    // Reload rather than filter: an earlier row for the same period may now be the latest
+    await fetchSnapshots();
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setImporting(true);
+    const { rows, errors } = parseCpiCsv(await file.text());
+
+    if (errors.length > 0) {
+      toast({
+        title: `${errors.length} problem${errors.length === 1 ? '' : 's'} in ${file.name}`,
+        description: errors.slice(0, 3).map(error => error.row ? `Row ${error.row}: ${error.message}` : error.message).join('. '),
+        variant: 'destructive',
+      });
+    } else if (await saveRows(rows, 'csv')) {
+      toast({
+        title: 'Inflation rates imported',
+        description: `${rows.length} rate${rows.length === 1 ? '' : 's'} saved from ${file.name}`,
+      });
+    }
+    setImporting(false);
+  };
+
+  const handleSync = async () => {
+    setSyncing(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('admin', {
+        body: { action: 'sync-inflation-rates' }
+      });
+
+      if (error) throw error;
+      await fetchSnapshots();
+
+      const notes = [
+        data.skipped?.length ? `${data.skipped.length} kept (entered by an admin)` : '',
+        data.missing?.length ? `no data for ${data.missing.join(', ')}` : '',
+      ].filter(Boolean);
+      toast({
+        title: `${data.saved?.length || 0} rate${data.saved?.length === 1 ? '' : 's'} synced`,
+        description: notes.join('; ') || 'Rates are up to date',
+      });
+    } catch (error) {
+      console.error('Error syncing inflation rates:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to sync inflation rates',
+        variant: 'destructive',
+      });
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const updateForm = (changes: CpiForm) => {
+    setForm(prev => prev ? { ...prev, ...changes } : prev);
+  };
+
+  const renderForm = () => form && (
+    <div className="border rounded-lg p-4 space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="cpi-currency">Currency</Label>
+          <Input
+            id="cpi-currency"
+            value={form.currency}
+            onChange={(e) => updateForm({ currency: e.target.value.toUpperCase() })}
+            maxLength={3}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="cpi-period">Period</Label>
+          <Input
+            id="cpi-period"
+            value={form.period}
+            onChange={(e) => updateForm({ period: e.target.value })}
+            placeholder="2025 or 2025-03"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="cpi-rate">Rate (%)</Label>
+          <Input
+            id="cpi-rate"
+            type="number"
+            step={0.01}
+            value={form.rate_percent}
+            onChange={(e) => updateForm({ rate_percent: e.target.value })}
+            placeholder="2.3"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="cpi-effective">Effective from</Label>
+          <Input
+            id="cpi-effective"
+            type="date"
+            value={form.effective_from}
+            onChange={(e) => updateForm({ effective_from: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2 col-span-2 md:col-span-1">
+          <Label htmlFor="cpi-source">Source</Label>
+          <Input
+            id="cpi-source"
+            value={form.source}
+            onChange={(e) => updateForm({ source: e.target.value })}
+            placeholder="e.g. GASTAT CPI"
+          />
+        </div>
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={stopEditing} disabled={saving}>
+          <X className="h-4 w-4 mr-2" />
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={saving}>
+          {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-3 flex-wrap">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <TrendingUp className="h-5 w-5" />
+              Inflation Rates (CPI)
+            </CardTitle>
+            <CardDescription>
+              Each pricing run uses the latest rate for its currency that is in effect on the run date.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleSync} disabled={syncing}>
+              {syncing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+              Sync from provider
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={importing}>
+              {importing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+              Import CSV
+            </Button>
+            <input ref={fileInputRef} type="file" accept=".csv" className="hidden" onChange={handleImport} />
+            <Button size="sm" onClick={() => startEditing(null)} disabled={editingId !== null}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Rate
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          CSV columns: {CPI_CSV_COLUMNS.join(', ')}. Rates are percentages; rows for an existing currency and period are added as newer rates, and past pricing results keep the rate they used.
+        </p>
+
+        {editingId === 'new' && renderForm()}
+
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : snapshots.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No inflation rates yet. Pricing falls back to a 2.5% global estimate.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Currency</TableHead>
+                <TableHead>Period</TableHead>
+                <TableHead>Rate</TableHead>
+                <TableHead>Effective From</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>Updated</TableHead>
+                <TableHead className="w-24" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {snapshots.map((snapshot) => editingId === snapshot.id ? (
+                <TableRow key={snapshot.id}>
+                  <TableCell colSpan={7}>{renderForm()}</TableCell>
+                </TableRow>
+              ) : (
+                <TableRow key={snapshot.id}>
+                  <TableCell className="font-medium">
+                    <div className="flex items-center gap-2">
+                      {snapshot.currency}
+                      {activeIds.has(snapshot.id) && <Badge>In use</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell>{snapshot.period}</TableCell>
+                  <TableCell>{(snapshot.inflation_rate * 100).toFixed(2)}%</TableCell>
+                  <TableCell>{snapshot.effective_from}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm">{snapshot.source || '—'}</span>
+                      <Badge variant="outline">{snapshot.provider}</Badge>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{formatTimeAgo(snapshot.updated_at)}</TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => startEditing(snapshot)} disabled={editingId !== null} aria-label="Edit rate">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(snapshot)} disabled={editingId !== null} aria-label="Delete rate">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default InflationRates;
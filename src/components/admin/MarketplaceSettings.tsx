@@ -0,0 +1,396 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Globe, Loader2, Pencil, Save, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { formatTimeAgo } from '@/utils/refreshSchedule';
+
+interface MarketplaceConfig {
+  key: string;
+  name: string;
+  country_code: string;
+  currency: string;
+  enabled: boolean;
+  google_first: boolean;
+  use_stealth_proxy: boolean;
+  wait_ms: number | null;
+  wait_for_selector: string | null;
+  container_selectors: string[] | null;
+  name_selectors: string[] | null;
+  price_selectors: string[] | null;
+  product_page_wait_for: string | null;
+  product_page_price_selectors: string[] | null;
+  scrape_providers: string[] | null;
+  updated_at: string;
+  updated_by: string | null;
+}
+
+// Editable fields as form strings; selector lists are one selector per line
+interface MarketplaceForm {
+  country_code: string;
+  google_first: boolean;
+  use_stealth_proxy: boolean;
+  wait_ms: string;
+  wait_for_selector: string;
+  container_selectors: string;
+  name_selectors: string;
+  price_selectors: string;
+  product_page_wait_for: string;
+  product_page_price_selectors: string;
+  scrape_providers: string;
+}
+
+const SELECTOR_FIELDS: { field: keyof MarketplaceForm; label: string }[] = [
+  { field: 'container_selectors', label: 'Result containers' },
+  { field: 'name_selectors', label: 'Product name' },
+  { field: 'price_selectors', label: 'Price' },
+  { field: 'product_page_price_selectors', label: 'Product page price' },
+];
+
+// Must match the providers registered in supabase/functions/_shared/scraping
+const SCRAPE_PROVIDERS = ['scrapingbee', 'zenrows', 'fixture'];
+
+const ALL_REGIONS = '*';
+const MAX_WAIT_MS = 20000;
+
+const toLines = (selectors: string[] | null) => (selectors || []).join('\n');
+
+const fromLines = (text: string): string[] | null => {
+  const selectors = text.split('\n').map(line => line.trim()).filter(Boolean);
+  return selectors.length > 0 ? selectors : null;
+};
+
+const toForm = (config: MarketplaceConfig): MarketplaceForm => ({
+  country_code: config.country_code,
+  google_first: config.google_first,
+  use_stealth_proxy: config.use_stealth_proxy,
+  wait_ms: config.wait_ms != null ? String(config.wait_ms) : '',
+  wait_for_selector: config.wait_for_selector || '',
+  container_selectors: toLines(config.container_selectors),
+  name_selectors: toLines(config.name_selectors),
+  price_selectors: toLines(config.price_selectors),
+  product_page_wait_for: config.product_page_wait_for || '',
+  product_page_price_selectors: toLines(config.product_page_price_selectors),
+  scrape_providers: (config.scrape_providers || []).join(', '),
+});
+
+const MarketplaceSettings = () => {
+  const { toast } = useToast();
+  const [configs, setConfigs] = useState<MarketplaceConfig[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [form, setForm] = useState<MarketplaceForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchConfigs = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('marketplace_configs')
+          .select('*')
+          .order('sort_order', { ascending: true });
+
+        if (error) throw error;
+        setConfigs(data || []);
+      } catch (error) {
+        console.error('Error fetching marketplace configs:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchConfigs();
+  }, []);
+
+  const saveConfig = async (key: string, changes: Partial<MarketplaceConfig>): Promise<boolean> => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const update = { ...changes, updated_at: new Date().toISOString(), updated_by: user?.id ?? null };
+
+      const { error } = await supabase
+        .from('marketplace_configs')
+        .update(update)
+        .eq('key', key);
+
+      if (error) throw error;
+      setConfigs(prev => prev.map(c => c.key === key ? { ...c, ...update } : c));
+      return true;
+    } catch (error) {
+      console.error('Error updating marketplace config:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update marketplace settings',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const startEditing = (config: MarketplaceConfig) => {
+    setEditingKey(config.key);
+    setForm(toForm(config));
+  };
+
+  const stopEditing = () => {
+    setEditingKey(null);
+    setForm(null);
+  };
+
+  const handleSave = async () => {
+    if (!editingKey || !form) return;
+
+    const waitMs = form.wait_ms.trim() === '' ? null : Number(form.wait_ms);
+    if (waitMs !== null && (!Number.isInteger(waitMs) || waitMs < 0 || waitMs > MAX_WAIT_MS)) {
+      toast({
+        title: 'Invalid wait time',
+        description: `Enter a whole number of milliseconds up to ${MAX_WAIT_MS}`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const countryCode = form.country_code.trim().toLowerCase();
+    if (!/^[a-z]{2}$/.test(countryCode)) {
+      toast({
+        title: 'Invalid country code',
+        description: 'Use a two-letter country code such as sa or us',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const providers = form.scrape_providers.split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+    const unknownProvider = providers.find(name => !SCRAPE_PROVIDERS.includes(name));
+    if (unknownProvider) {
+      toast({
+        title: 'Unknown scrape provider',
+        description: `"${unknownProvider}" is not one of ${SCRAPE_PROVIDERS.join(', ')}`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    const saved = await saveConfig(editingKey, {
+      country_code: countryCode,
+      google_first: form.google_first,
+      use_stealth_proxy: form.use_stealth_proxy,
+      wait_ms: waitMs,
+      wait_for_selector: form.wait_for_selector.trim() || null,
+      container_selectors: fromLines(form.container_selectors),
+      name_selectors: fromLines(form.name_selectors),
+      price_selectors: fromLines(form.price_selectors),
+      product_page_wait_for: form.product_page_wait_for.trim() || null,
+      product_page_price_selectors: fromLines(form.product_page_price_selectors),
+      scrape_providers: providers.length > 0 ? providers : null,
+    });
+    setSaving(false);
+
+    if (saved) {
+      stopEditing();
+      toast({
+        title: 'Marketplace updated',
+        description: 'The next competitor refresh will use these settings',
+      });
+    }
+  };
+
+  const updateForm = (changes: Partial<MarketplaceForm>) => {
+    setForm(prev => prev ? { ...prev, ...changes } : prev);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Globe className="h-5 w-5" />
+          Marketplace Configurations
+        </CardTitle>
+        <CardDescription>
+          Configure scraping parameters for each marketplace. Empty fields use the built-in defaults.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : configs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No marketplace configurations found.</p>
+        ) : (
+          <div className="space-y-4">
+            {configs.map((config) => {
+              const isGoogleShopping = config.country_code === ALL_REGIONS;
+              const isEditing = editingKey === config.key && form !== null;
+
+              return (
+                <div key={config.key} className="border rounded-lg p-4">
+                  <div className="flex items-center justify-between gap-3 mb-3 flex-wrap">
+                    <div className="flex items-center gap-3">
+                      <Switch
+                        checked={config.enabled}
+                        onCheckedChange={(checked) => saveConfig(config.key, { enabled: checked })}
+                        aria-label={`Enable ${config.name}`}
+                      />
+                      <h4 className="font-medium">{config.name}</h4>
+                      <Badge variant="outline">
+                        {isGoogleShopping ? 'All regions' : `${config.country_code.toUpperCase()} · ${config.currency}`}
+                      </Badge>
+                      {!config.enabled && <Badge variant="secondary">Disabled</Badge>}
+                    </div>
+                    {!isGoogleShopping && !isEditing && (
+                      <Button variant="outline" size="sm" onClick={() => startEditing(config)}>
+                        <Pencil className="h-4 w-4 mr-2" />
+                        Edit
+                      </Button>
+                    )}
+                  </div>
+
+                  {isGoogleShopping ? (
+                    <p className="text-sm text-muted-foreground">
+                      Uses the built-in Google Shopping scraper; only the enabled flag applies.
+                    </p>
+                  ) : isEditing ? (
+                    <div className="space-y-4">
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div className="space-y-2">
+                          <Label htmlFor={`${config.key}-country`}>Country Code</Label>
+                          <Input
+                            id={`${config.key}-country`}
+                            value={form.country_code}
+                            onChange={(e) => updateForm({ country_code: e.target.value })}
+                            maxLength={2}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor={`${config.key}-wait`}>Wait Time (ms)</Label>
+                          <Input
+                            id={`${config.key}-wait`}
+                            type="number"
+                            min={0}
+                            max={MAX_WAIT_MS}
+                            step={500}
+                            value={form.wait_ms}
+                            onChange={(e) => updateForm({ wait_ms: e.target.value })}
+                          />
+                        </div>
+                        <div className="space-y-3 pt-1">
+                          <div className="flex items-center justify-between gap-2">
+                            <Label htmlFor={`${config.key}-google-first`}>Google-first discovery</Label>
+                            <Switch
+                              id={`${config.key}-google-first`}
+                              checked={form.google_first}
+                              onCheckedChange={(checked) => updateForm({ google_first: checked })}
+                            />
+                          </div>
+                          <div className="flex items-center justify-between gap-2">
+                            <Label htmlFor={`${config.key}-stealth`}>Stealth proxy</Label>
+                            <Switch
+                              id={`${config.key}-stealth`}
+                              checked={form.use_stealth_proxy}
+                              onCheckedChange={(checked) => updateForm({ use_stealth_proxy: checked })}
+                            />
+                          </div>
+                        </div>
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor={`${config.key}-providers`}>Scrape providers</Label>
+                        <Input
+                          id={`${config.key}-providers`}
+                          value={form.scrape_providers}
+                          onChange={(e) => updateForm({ scrape_providers: e.target.value })}
+                          placeholder={`Default order, or e.g. ${SCRAPE_PROVIDERS.slice(0, 2).join(', ')}`}
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          Tried in order; the next provider is used when one fails.
+                        </p>
+                      </div>
+
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label htmlFor={`${config.key}-wait-for`}>Search page wait-for selector</Label>
+                          <Input
+                            id={`${config.key}-wait-for`}
+                            value={form.wait_for_selector}
+                            onChange={(e) => updateForm({ wait_for_selector: e.target.value })}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor={`${config.key}-page-wait-for`}>Product page wait-for selector</Label>
+                          <Input
+                            id={`${config.key}-page-wait-for`}
+                            value={form.product_page_wait_for}
+                            onChange={(e) => updateForm({ product_page_wait_for: e.target.value })}
+                          />
+                        </div>
+                      </div>
+
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {SELECTOR_FIELDS.map(({ field, label }) => (
+                          <div key={field} className="space-y-2">
+                            <Label htmlFor={`${config.key}-${field}`}>{label} selectors</Label>
+                            <Textarea
+                              id={`${config.key}-${field}`}
+                              value={form[field] as string}
+                              onChange={(e) => updateForm({ [field]: e.target.value })}
+                              rows={6}
+                              className="font-mono text-xs"
+                              placeholder="One selector per line"
+                            />
+                          </div>
+                        ))}
+                      </div>
+
+                      <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={stopEditing} disabled={saving}>
+                          <X className="h-4 w-4 mr-2" />
+                          Cancel
+                        </Button>
+                        <Button size="sm" onClick={handleSave} disabled={saving}>
+                          {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                          Save
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+                      <div>
+                        <p className="text-muted-foreground">Wait Time</p>
+                        <p className="font-medium">{config.wait_ms != null ? `${config.wait_ms}ms` : 'Default'}</p>
+                      </div>
+                      <div>
+                        <p className="text-muted-foreground">Discovery</p>
+                        <p className="font-medium">{config.google_first ? 'Google-first' : 'Search page'}</p>
+                      </div>
+                      <div>
+                        <p className="text-muted-foreground">Stealth Proxy</p>
+                        <p className="font-medium">{config.use_stealth_proxy ? 'Yes' : 'No'}</p>
+                      </div>
+                      <div>
+                        <p className="text-muted-foreground">Providers</p>
+                        <p className="font-medium">{config.scrape_providers?.join(', ') || 'Default'}</p>
+                      </div>
+                      <div>
+                        <p className="text-muted-foreground">Last Updated</p>
+                        <p className="font-medium">{formatTimeAgo(config.updated_at)}</p>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MarketplaceSettings;
@@ -0,0 +1,32 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { CATEGORY_TAXONOMY, CategoryNode } from "@shared/pricing/categories";
+
+/**
+ * The category taxonomy from the categories table. Starts with the built-in
+ * taxonomy so pickers render at once, and keeps it if the table can't be read.
+ */
+export function useCategoryTaxonomy(): CategoryNode[] {
+  const [taxonomy, setTaxonomy] = useState<CategoryNode[]>(CATEGORY_TAXONOMY);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    supabase
+      .from("categories")
+      .select("slug, name, parent_slug, elasticity, zone_a_multiplier, zone_b_multiplier, unit_priced, description, sort_order")
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error fetching categories:", error);
+          return;
+        }
+        if (!cancelled && data && data.length > 0) setTaxonomy(data);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return taxonomy;
+}
@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { PriceGuardrailRow } from "@shared/pricing/guardrails";
+
+export type StoredGuardrailRow = PriceGuardrailRow & { id: string };
+
+/**
+ * The signed-in merchant's product and category guardrails
+ */
+export function usePriceGuardrails() {
+  const [rows, setRows] = useState<StoredGuardrailRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("price_guardrails")
+        .select("id, baseline_id, category, max_change_percent, min_price, max_price, min_margin, cooldown_hours")
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      setRows(data || []);
+    } catch (error) {
+      console.error("Error fetching price guardrails:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { rows, loading, reload };
+}
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { PricingStrategy, strategyFromRow } from "@shared/pricing/strategy";
+
+export interface StrategyProfile extends PricingStrategy {
+  id: string;
+  // null for the built-in profiles
+  merchant_id: string | null;
+  description: string | null;
+}
+
+/**
+ * Built-in and the signed-in merchant's own strategy profiles, plus their account default
+ */
+export function usePricingStrategies() {
+  const [strategies, setStrategies] = useState<StrategyProfile[]>([]);
+  const [defaultStrategyId, setDefaultStrategyId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { data, error } = await supabase
+        .from("pricing_strategies")
+        .select("id, merchant_id, key, name, description, floor_margin, ceiling_ratio, market_position, blend_weight, risk_tolerance, zone_multiplier_scale, zone_a_band")
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+
+      // Built-in profiles first
+      setStrategies(
+        (data || [])
+          .map(row => ({ ...strategyFromRow(row), id: row.id, merchant_id: row.merchant_id, description: row.description }))
+          .sort((a, b) => Number(a.merchant_id !== null) - Number(b.merchant_id !== null))
+      );
+
+      if (user) {
+        const { data: profile } = await supabase
+          .from("profiles")
+          .select("default_strategy_id")
+          .eq("id", user.id)
+          .maybeSingle();
+        setDefaultStrategyId(profile?.default_strategy_id ?? null);
+      }
+    } catch (error) {
+      console.error("Error fetching pricing strategies:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { strategies, defaultStrategyId, loading, reload };
+}
@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { ruleFromRow } from "@shared/pricing/repricing";
+import { StoredRepricingRule } from "@/utils/repricing";
+
+/**
+ * The signed-in merchant's product and category repricing rules
+ */
+export function useRepricingRules() {
+  const [rules, setRules] = useState<StoredRepricingRule[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("repricing_rules")
+        .select("id, name, rule_type, baseline_id, category, marketplaces, offset_percent, priority, enabled")
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      setRules((data || []).map(row => ({ ...ruleFromRow(row), enabled: row.enabled })));
+    } catch (error) {
+      console.error("Error fetching repricing rules:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { rules, loading, reload };
+}
@@ -91,6 +91,159 @@ export type Database = {
           },
         ]
       }
+      categories: {
+        Row: {
+          created_at: string
+          description: string | null
+          elasticity: number | null
+          name: string
+          parent_slug: string | null
+          slug: string
+          sort_order: number
+          unit_priced: boolean | null
+          updated_at: string
+          zone_a_multiplier: number | null
+          zone_b_multiplier: number | null
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          elasticity?: number | null
+          name: string
+          parent_slug?: string | null
+          slug: string
+          sort_order?: number
+          unit_priced?: boolean | null
+          updated_at?: string
+          zone_a_multiplier?: number | null
+          zone_b_multiplier?: number | null
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          elasticity?: number | null
+          name?: string
+          parent_slug?: string | null
+          slug?: string
+          sort_order?: number
+          unit_priced?: boolean | null
+          updated_at?: string
+          zone_a_multiplier?: number | null
+          zone_b_multiplier?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_slug_fkey"
+            columns: ["parent_slug"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["slug"]
+          },
+        ]
+      }
+      competitor_curations: {
+        Row: {
+          action: string
+          baseline_id: string
+          created_at: string
+          id: string
+          last_price: number | null
+          last_scraped_at: string | null
+          listing_key: string | null
+          marketplace: string
+          merchant_id: string
+          product_name: string
+          product_url: string | null
+          updated_at: string
+        }
+        Insert: {
+          action: string
+          baseline_id: string
+          created_at?: string
+          id?: string
+          last_price?: number | null
+          last_scraped_at?: string | null
+          listing_key?: string | null
+          marketplace: string
+          merchant_id: string
+          product_name: string
+          product_url?: string | null
+          updated_at?: string
+        }
+        Update: {
+          action?: string
+          baseline_id?: string
+          created_at?: string
+          id?: string
+          last_price?: number | null
+          last_scraped_at?: string | null
+          listing_key?: string | null
+          marketplace?: string
+          merchant_id?: string
+          product_name?: string
+          product_url?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "competitor_curations_baseline_id_fkey"
+            columns: ["baseline_id"]
+            isOneToOne: false
+            referencedRelation: "product_baselines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      competitor_price_observations: {
+        Row: {
+          baseline_id: string
+          currency: string
+          id: string
+          listing_key: string
+          marketplace: string
+          merchant_id: string | null
+          observed_at: string
+          price: number
+          product_name: string
+          product_url: string | null
+          similarity_score: number | null
+        }
+        Insert: {
+          baseline_id: string
+          currency: string
+          id?: string
+          listing_key?: never
+          marketplace: string
+          merchant_id?: string | null
+          observed_at?: string
+          price: number
+          product_name: string
+          product_url?: string | null
+          similarity_score?: number | null
+        }
+        Update: {
+          baseline_id?: string
+          currency?: string
+          id?: string
+          listing_key?: never
+          marketplace?: string
+          merchant_id?: string | null
+          observed_at?: string
+          price?: number
+          product_name?: string
+          product_url?: string | null
+          similarity_score?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "competitor_price_observations_baseline_id_fkey"
+            columns: ["baseline_id"]
+            isOneToOne: false
+            referencedRelation: "product_baselines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       competitor_prices: {
         Row: {
           average_price: number | null
@@ -143,6 +296,9 @@ export type Database = {
       }
       competitor_products: {
         Row: {
+          ai_confidence: number | null
+          ai_decision: string | null
+          ai_reasoning: string | null
           baseline_id: string
           cached_from_baseline_id: string | null
           created_at: string | null
@@ -159,6 +315,9 @@ export type Database = {
           similarity_score: number
         }
         Insert: {
+          ai_confidence?: number | null
+          ai_decision?: string | null
+          ai_reasoning?: string | null
           baseline_id: string
           cached_from_baseline_id?: string | null
           created_at?: string | null
@@ -175,6 +334,9 @@ export type Database = {
           similarity_score: number
         }
         Update: {
+          ai_confidence?: number | null
+          ai_decision?: string | null
+          ai_reasoning?: string | null
           baseline_id?: string
           cached_from_baseline_id?: string | null
           created_at?: string | null
@@ -241,22 +403,40 @@ export type Database = {
       }
       inflation_snapshots: {
         Row: {
+          currency: string
+          effective_from: string
           fetched_at: string | null
           id: string
           inflation_rate: number
+          period: string
+          provider: string
           source: string | null
+          updated_at: string
+          updated_by: string | null
         }
         Insert: {
+          currency: string
+          effective_from?: string
           fetched_at?: string | null
           id?: string
           inflation_rate: number
+          period: string
+          provider?: string
           source?: string | null
+          updated_at?: string
+          updated_by?: string | null
         }
         Update: {
+          currency?: string
+          effective_from?: string
           fetched_at?: string | null
           id?: string
           inflation_rate?: number
+          period?: string
+          provider?: string
           source?: string | null
+          updated_at?: string
+          updated_by?: string | null
         }
         Relationships: []
       }
@@ -310,6 +490,310 @@ export type Database = {
           },
         ]
       }
+      marketplace_backoff: {
+        Row: {
+          backoff_until: string | null
+          consecutive_failures: number
+          last_error: string | null
+          marketplace: string
+          updated_at: string
+        }
+        Insert: {
+          backoff_until?: string | null
+          consecutive_failures?: number
+          last_error?: string | null
+          marketplace: string
+          updated_at?: string
+        }
+        Update: {
+          backoff_until?: string | null
+          consecutive_failures?: number
+          last_error?: string | null
+          marketplace?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      marketplace_configs: {
+        Row: {
+          container_selectors: string[] | null
+          country_code: string
+          currency: string
+          enabled: boolean
+          google_first: boolean
+          key: string
+          name: string
+          name_selectors: string[] | null
+          price_selectors: string[] | null
+          product_page_price_selectors: string[] | null
+          product_page_wait_for: string | null
+          scrape_providers: string[] | null
+          sort_order: number
+          updated_at: string
+          updated_by: string | null
+          use_stealth_proxy: boolean
+          wait_for_selector: string | null
+          wait_ms: number | null
+        }
+        Insert: {
+          container_selectors?: string[] | null
+          country_code: string
+          currency: string
+          enabled?: boolean
+          google_first?: boolean
+          key: string
+          name: string
+          name_selectors?: string[] | null
+          price_selectors?: string[] | null
+          product_page_price_selectors?: string[] | null
+          product_page_wait_for?: string | null
+          scrape_providers?: string[] | null
+          sort_order?: number
+          updated_at?: string
+          updated_by?: string | null
+          use_stealth_proxy?: boolean
+          wait_for_selector?: string | null
+          wait_ms?: number | null
+        }
+        Update: {
+          container_selectors?: string[] | null
+          country_code?: string
+          currency?: string
+          enabled?: boolean
+          google_first?: boolean
+          key?: string
+          name?: string
+          name_selectors?: string[] | null
+          price_selectors?: string[] | null
+          product_page_price_selectors?: string[] | null
+          product_page_wait_for?: string | null
+          scrape_providers?: string[] | null
+          sort_order?: number
+          updated_at?: string
+          updated_by?: string | null
+          use_stealth_proxy?: boolean
+          wait_for_selector?: string | null
+          wait_ms?: number | null
+        }
+        Relationships: []
+      }
+      price_alert_rules: {
+        Row: {
+          baseline_id: string
+          created_at: string
+          email_enabled: boolean
+          enabled: boolean
+          id: string
+          last_triggered_at: string | null
+          merchant_id: string
+          rule_type: string
+          threshold: number | null
+          updated_at: string
+        }
+        Insert: {
+          baseline_id: string
+          created_at?: string
+          email_enabled?: boolean
+          enabled?: boolean
+          id?: string
+          last_triggered_at?: string | null
+          merchant_id: string
+          rule_type: string
+          threshold?: number | null
+          updated_at?: string
+        }
+        Update: {
+          baseline_id?: string
+          created_at?: string
+          email_enabled?: boolean
+          enabled?: boolean
+          id?: string
+          last_triggered_at?: string | null
+          merchant_id?: string
+          rule_type?: string
+          threshold?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_alert_rules_baseline_id_fkey"
+            columns: ["baseline_id"]
+            isOneToOne: false
+            referencedRelation: "product_baselines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      price_alerts: {
+        Row: {
+          acknowledged_at: string | null
+          baseline_id: string
+          created_at: string
+          digest: Json
+          email_error: string | null
+          email_status: string
+          emailed_at: string | null
+          id: string
+          merchant_id: string
+          message: string
+          observed_at: string
+          rule_id: string
+          rule_type: string
+        }
+        Insert: {
+          acknowledged_at?: string | null
+          baseline_id: string
+          created_at?: string
+          digest?: Json
+          email_error?: string | null
+          email_status?: string
+          emailed_at?: string | null
+          id?: string
+          merchant_id: string
+          message: string
+          observed_at: string
+          rule_id: string
+          rule_type: string
+        }
+        Update: {
+          acknowledged_at?: string | null
+          baseline_id?: string
+          created_at?: string
+          digest?: Json
+          email_error?: string | null
+          email_status?: string
+          emailed_at?: string | null
+          id?: string
+          merchant_id?: string
+          message?: string
+          observed_at?: string
+          rule_id?: string
+          rule_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_alerts_baseline_id_fkey"
+            columns: ["baseline_id"]
+            isOneToOne: false
+            referencedRelation: "product_baselines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "price_alerts_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "price_alert_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      price_guardrails: {
+        Row: {
+          baseline_id: string | null
+          category: string | null
+          cooldown_hours: number | null
+          created_at: string
+          id: string
+          max_change_percent: number | null
+          max_price: number | null
+          merchant_id: string
+          min_margin: number | null
+          min_price: number | null
+          updated_at: string
+        }
+        Insert: {
+          baseline_id?: string | null
+          category?: string | null
+          cooldown_hours?: number | null
+          created_at?: string
+          id?: string
+          max_change_percent?: number | null
+          max_price?: number | null
+          merchant_id: string
+          min_margin?: number | null
+          min_price?: number | null
+          updated_at?: string
+        }
+        Update: {
+          baseline_id?: string | null
+          category?: string | null
+          cooldown_hours?: number | null
+          created_at?: string
+          id?: string
+          max_change_percent?: number | null
+          max_price?: number | null
+          merchant_id?: string
+          min_margin?: number | null
+          min_price?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_guardrails_baseline_id_fkey"
+            columns: ["baseline_id"]
+            isOneToOne: false
+            referencedRelation: "product_baselines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pricing_decisions: {
+        Row: {
+          action: string
+          applied_price: number | null
+          baseline_id: string
+          created_at: string
+          decided_by: string
+          id: string
+          merchant_id: string
+          previous_status: string
+          pricing_result_id: string
+          reason: string | null
+          suggested_price: number
+        }
+        Insert: {
+          action: string
+          applied_price?: number | null
+          baseline_id: string
+          created_at?: string
+          decided_by: string
+          id?: string
+          merchant_id: string
+          previous_status: string
+          pricing_result_id: string
+          reason?: string | null
+          suggested_price: number
+        }
+        Update: {
+          action?: string
+          applied_price?: number | null
+          baseline_id?: string
+          created_at?: string
+          decided_by?: string
+          id?: string
+          merchant_id?: string
+          previous_status?: string
+          pricing_result_id?: string
+          reason?: string | null
+          suggested_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pricing_decisions_baseline_id_fkey"
+            columns: ["baseline_id"]
+            isOneToOne: false
+            referencedRelation: "product_baselines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pricing_decisions_pricing_result_id_fkey"
+            columns: ["pricing_result_id"]
+            isOneToOne: false
+            referencedRelation: "pricing_results"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       pricing_performance: {
         Row: {
           actual_profit: number | null
@@ -317,17 +801,25 @@ export type Database = {
           applied_at: string | null
           applied_price: number | null
           baseline_id: string | null
+          baseline_quantity: number | null
+          category: string | null
           created_at: string | null
+          expected_monthly_profit: number | null
           id: string
           market_average: number | null
+          market_confidence: string | null
           market_highest: number | null
           market_lowest: number | null
+          market_potential: number | null
           merchant_id: string | null
           predicted_sales: number
+          pricing_result_id: string | null
           profit_accuracy_score: number | null
           sales_accuracy_score: number | null
+          scored_at: string | null
           suggested_price: number
           updated_at: string | null
+          zone: string | null
         }
         Insert: {
           actual_profit?: number | null
@@ -335,17 +827,25 @@ export type Database = {
           applied_at?: string | null
           applied_price?: number | null
           baseline_id?: string | null
+          baseline_quantity?: number | null
+          category?: string | null
           created_at?: string | null
+          expected_monthly_profit?: number | null
           id?: string
           market_average?: number | null
+          market_confidence?: string | null
           market_highest?: number | null
           market_lowest?: number | null
+          market_potential?: number | null
           merchant_id?: string | null
           predicted_sales: number
+          pricing_result_id?: string | null
           profit_accuracy_score?: number | null
           sales_accuracy_score?: number | null
+          scored_at?: string | null
           suggested_price: number
           updated_at?: string | null
+          zone?: string | null
         }
         Update: {
           actual_profit?: number | null
@@ -353,19 +853,34 @@ export type Database = {
           applied_at?: string | null
           applied_price?: number | null
           baseline_id?: string | null
+          baseline_quantity?: number | null
+          category?: string | null
           created_at?: string | null
+          expected_monthly_profit?: number | null
           id?: string
           market_average?: number | null
+          market_confidence?: string | null
           market_highest?: number | null
           market_lowest?: number | null
+          market_potential?: number | null
           merchant_id?: string | null
           predicted_sales?: number
+          pricing_result_id?: string | null
           profit_accuracy_score?: number | null
           sales_accuracy_score?: number | null
+          scored_at?: string | null
           suggested_price?: number
           updated_at?: string | null
+          zone?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "pricing_performance_pricing_result_id_fkey"
+            columns: ["pricing_result_id"]
+            isOneToOne: false
+            referencedRelation: "pricing_results"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "pricing_performance_baseline_id_fkey"
             columns: ["baseline_id"]
@@ -377,19 +892,28 @@ export type Database = {
       }
       pricing_results: {
         Row: {
+          applied_price: number | null
           base_elasticity: number
           baseline_id: string | null
           calibrated_elasticity: number
           competitor_factor: number
           created_at: string | null
           currency: string
+          decided_at: string | null
+          decision_trace: Json | null
+          elasticity_ci_high: number | null
+          elasticity_ci_low: number | null
+          elasticity_observations: number | null
+          elasticity_source: string
           expected_monthly_profit: number | null
           expected_quantity: number | null
           expected_revenue: number | null
+          guardrails_applied: string[]
           has_warning: boolean | null
           id: string
           inflation_adjustment: number
           inflation_rate: number
+          inflation_snapshot_id: string | null
           market_average: number | null
           market_highest: number | null
           market_lowest: number | null
@@ -398,23 +922,38 @@ export type Database = {
           position_vs_market: number | null
           profit_increase_amount: number | null
           profit_increase_percent: number | null
+          status: string
+          strategy_id: string | null
+          strategy_name: string | null
           suggested_price: number
+          unit_basis: string | null
+          unit_normalized_count: number | null
+          unit_quantity: number | null
           warning_message: string | null
         }
         Insert: {
+          applied_price?: number | null
           base_elasticity: number
           baseline_id?: string | null
           calibrated_elasticity: number
           competitor_factor: number
           created_at?: string | null
           currency: string
+          decided_at?: string | null
+          decision_trace?: Json | null
+          elasticity_ci_high?: number | null
+          elasticity_ci_low?: number | null
+          elasticity_observations?: number | null
+          elasticity_source?: string
           expected_monthly_profit?: number | null
           expected_quantity?: number | null
           expected_revenue?: number | null
+          guardrails_applied?: string[]
           has_warning?: boolean | null
           id?: string
           inflation_adjustment: number
           inflation_rate: number
+          inflation_snapshot_id?: string | null
           market_average?: number | null
           market_highest?: number | null
           market_lowest?: number | null
@@ -423,23 +962,38 @@ export type Database = {
           position_vs_market?: number | null
           profit_increase_amount?: number | null
           profit_increase_percent?: number | null
+          status?: string
+          strategy_id?: string | null
+          strategy_name?: string | null
           suggested_price: number
+          unit_basis?: string | null
+          unit_normalized_count?: number | null
+          unit_quantity?: number | null
           warning_message?: string | null
         }
         Update: {
+          applied_price?: number | null
           base_elasticity?: number
           baseline_id?: string | null
           calibrated_elasticity?: number
           competitor_factor?: number
           created_at?: string | null
           currency?: string
+          decided_at?: string | null
+          decision_trace?: Json | null
+          elasticity_ci_high?: number | null
+          elasticity_ci_low?: number | null
+          elasticity_observations?: number | null
+          elasticity_source?: string
           expected_monthly_profit?: number | null
           expected_quantity?: number | null
           expected_revenue?: number | null
+          guardrails_applied?: string[]
           has_warning?: boolean | null
           id?: string
           inflation_adjustment?: number
           inflation_rate?: number
+          inflation_snapshot_id?: string | null
           market_average?: number | null
           market_highest?: number | null
           market_lowest?: number | null
@@ -448,10 +1002,30 @@ export type Database = {
           position_vs_market?: number | null
           profit_increase_amount?: number | null
           profit_increase_percent?: number | null
+          status?: string
+          strategy_id?: string | null
+          strategy_name?: string | null
           suggested_price?: number
+          unit_basis?: string | null
+          unit_normalized_count?: number | null
+          unit_quantity?: number | null
           warning_message?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "pricing_results_strategy_id_fkey"
+            columns: ["strategy_id"]
+            isOneToOne: false
+            referencedRelation: "pricing_strategies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pricing_results_inflation_snapshot_id_fkey"
+            columns: ["inflation_snapshot_id"]
+            isOneToOne: false
+            referencedRelation: "inflation_snapshots"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "pricing_results_baseline_id_fkey"
             columns: ["baseline_id"]
@@ -461,29 +1035,110 @@ export type Database = {
           },
         ]
       }
+      pricing_strategies: {
+        Row: {
+          blend_weight: number
+          ceiling_ratio: number
+          created_at: string
+          description: string | null
+          floor_margin: number
+          id: string
+          key: string
+          market_position: number
+          merchant_id: string | null
+          name: string
+          risk_tolerance: number
+          updated_at: string
+          zone_a_band: number
+          zone_multiplier_scale: number
+        }
+        Insert: {
+          blend_weight: number
+          ceiling_ratio: number
+          created_at?: string
+          description?: string | null
+          floor_margin: number
+          id?: string
+          key: string
+          market_position?: number
+          merchant_id?: string | null
+          name: string
+          risk_tolerance: number
+          updated_at?: string
+          zone_a_band?: number
+          zone_multiplier_scale?: number
+        }
+        Update: {
+          blend_weight?: number
+          ceiling_ratio?: number
+          created_at?: string
+          description?: string | null
+          floor_margin?: number
+          id?: string
+          key?: string
+          market_position?: number
+          merchant_id?: string | null
+          name?: string
+          risk_tolerance?: number
+          updated_at?: string
+          zone_a_band?: number
+          zone_multiplier_scale?: number
+        }
+        Relationships: []
+      }
       processing_status: {
         Row: {
+          attempts: number
           baseline_id: string | null
+          created_at: string
           current_step: string | null
           error_message: string | null
+          finished_at: string | null
           id: string
+          job_type: string
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          run_after: string
+          started_at: string | null
           status: string | null
+          triggered_by: string
           updated_at: string | null
         }
         Insert: {
+          attempts?: number
           baseline_id?: string | null
+          created_at?: string
           current_step?: string | null
           error_message?: string | null
+          finished_at?: string | null
           id?: string
+          job_type?: string
+          locked_at?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          run_after?: string
+          started_at?: string | null
           status?: string | null
+          triggered_by?: string
           updated_at?: string | null
         }
         Update: {
+          attempts?: number
           baseline_id?: string | null
+          created_at?: string
           current_step?: string | null
           error_message?: string | null
+          finished_at?: string | null
           id?: string
+          job_type?: string
+          locked_at?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          run_after?: string
+          started_at?: string | null
           status?: string | null
+          triggered_by?: string
           updated_at?: string | null
         }
         Relationships: [
@@ -509,6 +1164,7 @@ export type Database = {
           id: string
           merchant_id: string | null
           product_name: string
+          strategy_id: string | null
         }
         Insert: {
           base_elasticity: number
@@ -522,6 +1178,7 @@ export type Database = {
           id?: string
           merchant_id?: string | null
           product_name: string
+          strategy_id?: string | null
         }
         Update: {
           base_elasticity?: number
@@ -535,13 +1192,30 @@ export type Database = {
           id?: string
           merchant_id?: string | null
           product_name?: string
+          strategy_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "product_baselines_strategy_id_fkey"
+            columns: ["strategy_id"]
+            isOneToOne: false
+            referencedRelation: "pricing_strategies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_baselines_category_fkey"
+            columns: ["category"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["name"]
+          },
+        ]
       }
       profiles: {
         Row: {
           business_name: string | null
           created_at: string | null
+          default_strategy_id: string | null
           email_verified: boolean | null
           email_verified_at: string | null
           id: string
@@ -550,6 +1224,7 @@ export type Database = {
         Insert: {
           business_name?: string | null
           created_at?: string | null
+          default_strategy_id?: string | null
           email_verified?: boolean | null
           email_verified_at?: string | null
           id: string
@@ -558,11 +1233,267 @@ export type Database = {
         Update: {
           business_name?: string | null
           created_at?: string | null
+          default_strategy_id?: string | null
           email_verified?: boolean | null
           email_verified_at?: string | null
           id?: string
           phone?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_default_strategy_id_fkey"
+            columns: ["default_strategy_id"]
+            isOneToOne: false
+            referencedRelation: "pricing_strategies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      refresh_schedules: {
+        Row: {
+          baseline_id: string
+          consecutive_failures: number
+          created_at: string
+          enabled: boolean
+          frequency: string
+          id: string
+          interval_hours: number
+          last_error: string | null
+          last_run_at: string | null
+          last_status: string | null
+          last_success_at: string | null
+          merchant_id: string
+          next_run_at: string
+          updated_at: string
+        }
+        Insert: {
+          baseline_id: string
+          consecutive_failures?: number
+          created_at?: string
+          enabled?: boolean
+          frequency: string
+          id?: string
+          interval_hours: number
+          last_error?: string | null
+          last_run_at?: string | null
+          last_status?: string | null
+          last_success_at?: string | null
+          merchant_id: string
+          next_run_at?: string
+          updated_at?: string
+        }
+        Update: {
+          baseline_id?: string
+          consecutive_failures?: number
+          created_at?: string
+          enabled?: boolean
+          frequency?: string
+          id?: string
+          interval_hours?: number
+          last_error?: string | null
+          last_run_at?: string | null
+          last_status?: string | null
+          last_success_at?: string | null
+          merchant_id?: string
+          next_run_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "refresh_schedules_baseline_id_fkey"
+            columns: ["baseline_id"]
+            isOneToOne: true
+            referencedRelation: "product_baselines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      repricing_candidates: {
+        Row: {
+          baseline_id: string
+          candidate_price: number | null
+          created_at: string
+          currency: string
+          evaluations: Json
+          guardrails_applied: string[]
+          id: string
+          merchant_id: string
+          observed_at: string
+          rule_id: string | null
+          rule_name: string | null
+          rules_price: number | null
+        }
+        Insert: {
+          baseline_id: string
+          candidate_price?: number | null
+          created_at?: string
+          currency: string
+          evaluations?: Json
+          guardrails_applied?: string[]
+          id?: string
+          merchant_id: string
+          observed_at: string
+          rule_id?: string | null
+          rule_name?: string | null
+          rules_price?: number | null
+        }
+        Update: {
+          baseline_id?: string
+          candidate_price?: number | null
+          created_at?: string
+          currency?: string
+          evaluations?: Json
+          guardrails_applied?: string[]
+          id?: string
+          merchant_id?: string
+          observed_at?: string
+          rule_id?: string | null
+          rule_name?: string | null
+          rules_price?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "repricing_candidates_baseline_id_fkey"
+            columns: ["baseline_id"]
+            isOneToOne: false
+            referencedRelation: "product_baselines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "repricing_candidates_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "repricing_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      repricing_rules: {
+        Row: {
+          baseline_id: string | null
+          category: string | null
+          created_at: string
+          enabled: boolean
+          id: string
+          marketplaces: string[]
+          merchant_id: string
+          name: string
+          offset_percent: number
+          priority: number
+          rule_type: string
+          updated_at: string
+        }
+        Insert: {
+          baseline_id?: string | null
+          category?: string | null
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          marketplaces?: string[]
+          merchant_id: string
+          name: string
+          offset_percent?: number
+          priority?: number
+          rule_type: string
+          updated_at?: string
+        }
+        Update: {
+          baseline_id?: string | null
+          category?: string | null
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          marketplaces?: string[]
+          merchant_id?: string
+          name?: string
+          offset_percent?: number
+          priority?: number
+          rule_type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "repricing_rules_baseline_id_fkey"
+            columns: ["baseline_id"]
+            isOneToOne: false
+            referencedRelation: "product_baselines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales_observations: {
+        Row: {
+          baseline_id: string
+          created_at: string
+          id: string
+          merchant_id: string
+          period_end: string
+          period_start: string
+          price: number
+          pricing_performance_id: string | null
+          units_sold: number
+        }
+        Insert: {
+          baseline_id: string
+          created_at?: string
+          id?: string
+          merchant_id: string
+          period_end: string
+          period_start: string
+          price: number
+          pricing_performance_id?: string | null
+          units_sold: number
+        }
+        Update: {
+          baseline_id?: string
+          created_at?: string
+          id?: string
+          merchant_id?: string
+          period_end?: string
+          period_start?: string
+          price?: number
+          pricing_performance_id?: string | null
+          units_sold?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_observations_baseline_id_fkey"
+            columns: ["baseline_id"]
+            isOneToOne: false
+            referencedRelation: "product_baselines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_observations_pricing_performance_id_fkey"
+            columns: ["pricing_performance_id"]
+            isOneToOne: false
+            referencedRelation: "pricing_performance"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scrape_slots: {
+        Row: {
+          acquired_at: string
+          expires_at: string
+          holder: string
+          id: string
+          marketplace: string
+        }
+        Insert: {
+          acquired_at?: string
+          expires_at: string
+          holder: string
+          id?: string
+          marketplace: string
+        }
+        Update: {
+          acquired_at?: string
+          expires_at?: string
+          holder?: string
+          id?: string
+          marketplace?: string
+        }
         Relationships: []
       }
       user_roles: {
@@ -591,7 +1522,49 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      acquire_scrape_slot: {
+        Args: {
+          _holder: string
+          _limit: number
+          _marketplace: string
+          _ttl_seconds?: number
+        }
+        Returns: string
+      }
+      claim_processing_job: {
+        Args: {
+          _lock_timeout_seconds?: number
+          _max_running?: number
+          _worker_id: string
+        }
+        Returns: {
+          attempts: number
+          baseline_id: string | null
+          created_at: string
+          current_step: string | null
+          error_message: string | null
+          finished_at: string | null
+          id: string
+          job_type: string
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          run_after: string
+          started_at: string | null
+          status: string | null
+          updated_at: string | null
+        }[]
+      }
       clean_expired_cache: { Args: never; Returns: number }
+      decide_pricing_result: {
+        Args: {
+          _action: string
+          _applied_price?: number
+          _reason?: string
+          _result_id: string
+        }
+        Returns: string
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -600,6 +1573,17 @@ export type Database = {
         Returns: boolean
       }
       is_admin: { Args: { _user_id: string }; Returns: boolean }
+      record_marketplace_result: {
+        Args: {
+          _base_seconds?: number
+          _error?: string
+          _marketplace: string
+          _max_seconds?: number
+          _success: boolean
+        }
+        Returns: undefined
+      }
+      release_scrape_slot: { Args: { _slot_id: string }; Returns: undefined }
     }
     Enums: {
       app_role: "admin" | "user"
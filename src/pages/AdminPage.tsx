@@ -1,13 +1,14 @@
 import { useState } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Shield, Users, Package, Activity, Settings, BarChart3 } from 'lucide-react';
+import { Shield, Users, Package, Activity, Settings, BarChart3, ClipboardList } from 'lucide-react';
 import AdminOverview from '@/components/admin/AdminOverview';
 import AdminUsers from '@/components/admin/AdminUsers';
 import AdminProducts from '@/components/admin/AdminProducts';
 import AdminCompetitors from '@/components/admin/AdminCompetitors';
 import AdminSettings from '@/components/admin/AdminSettings';
 import AdminPerformance from '@/components/admin/AdminPerformance';
+import AdminReviewQueue from '@/components/admin/AdminReviewQueue';
 
 const AdminPage = () => {
   const [activeTab, setActiveTab] = useState('overview');
@@ -28,7 +29,7 @@ const AdminPage = () => {
 
         {/* Tabs */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-6 lg:w-auto lg:inline-grid">
+          <TabsList className="grid w-full grid-cols-7 lg:w-auto lg:inline-grid">
             <TabsTrigger value="overview" className="gap-2">
               <Activity className="h-4 w-4" />
               <span className="hidden sm:inline">Overview</span>
@@ -45,6 +46,10 @@ const AdminPage = () => {
               <Activity className="h-4 w-4" />
               <span className="hidden sm:inline">Competitors</span>
             </TabsTrigger>
+            <TabsTrigger value="review" className="gap-2">
+              <ClipboardList className="h-4 w-4" />
+              <span className="hidden sm:inline">Review</span>
+            </TabsTrigger>
             <TabsTrigger value="performance" className="gap-2">
               <BarChart3 className="h-4 w-4" />
               <span className="hidden sm:inline">Performance</span>
@@ -71,6 +76,10 @@ const AdminPage = () => {
             <AdminCompetitors />
           </TabsContent>
 
+          <TabsContent value="review" className="space-y-6">
+            <AdminReviewQueue />
+          </TabsContent>
+
           <TabsContent value="performance" className="space-y-6">
             <AdminPerformance />
           </TabsContent>
@@ -7,8 +7,19 @@ import { supabase } from "@/integrations/supabase/client";
 import { Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
-const DebugZenrowsPage = () => {
+// "default" uses the server's SCRAPE_PROVIDERS order with failover
+const PROVIDER_OPTIONS = [
+  { value: "default", label: "Default (with failover)" },
+  { value: "scrapingbee", label: "ScrapingBee" },
+  { value: "zenrows", label: "ZenRows" },
+  { value: "fixture", label: "Saved fixture" },
+];
+
+const DebugScrapePage = () => {
   const [marketplace, setMarketplace] = useState("amazon");
+  const [provider, setProvider] = useState("default");
+  const [usedProvider, setUsedProvider] = useState("");
+  const [fixtureName, setFixtureName] = useState("");
   const [loading, setLoading] = useState(false);
   const [html, setHtml] = useState("");
   const [preview, setPreview] = useState("");
@@ -25,12 +36,15 @@ const DebugZenrowsPage = () => {
     setLoading(true);
     setHtml("");
     setPreview("");
+    setUsedProvider("");
+    setFixtureName("");
 
     try {
-      const { data, error } = await supabase.functions.invoke('debug-zenrows', {
+      const { data, error } = await supabase.functions.invoke('debug-scrape', {
         body: { 
           url: marketplaceUrls[marketplace],
-          marketplace 
+          marketplace,
+          provider: provider === "default" ? undefined : provider
         }
       });
 
@@ -39,9 +53,11 @@ const DebugZenrowsPage = () => {
       if (data.success) {
         setHtml(data.html);
         setPreview(data.preview);
+        setUsedProvider(data.provider);
+        setFixtureName(data.fixtureName);
         toast({
           title: "HTML Fetched",
-          description: `Retrieved ${data.htmlLength.toLocaleString()} characters from ${marketplace}`,
+          description: `Retrieved ${data.htmlLength.toLocaleString()} characters from ${marketplace} via ${data.provider}`,
         });
       } else {
         throw new Error(data.error);
@@ -62,9 +78,9 @@ const DebugZenrowsPage = () => {
     <div className="container mx-auto p-8">
       <div className="max-w-6xl mx-auto space-y-6">
         <div>
-          <h1 className="text-3xl font-bold mb-2">ScrapingBee HTML Debug</h1>
+          <h1 className="text-3xl font-bold mb-2">Scrape HTML Debug</h1>
           <p className="text-muted-foreground">
-            Inspect raw HTML returned by ScrapingBee for different marketplaces
+            Inspect raw HTML returned by each scrape provider for different marketplaces
           </p>
         </div>
 
@@ -85,6 +101,19 @@ const DebugZenrowsPage = () => {
                   </SelectContent>
                 </Select>
               </div>
+              <div className="flex-1">
+                <label className="text-sm font-medium mb-2 block">Provider</label>
+                <Select value={provider} onValueChange={setProvider}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PROVIDER_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               <div className="flex items-end">
                 <Button onClick={fetchHtml} disabled={loading}>
                   {loading ? (
@@ -113,7 +142,9 @@ const DebugZenrowsPage = () => {
             {html && (
               <div>
                 <div className="flex justify-between items-center mb-2">
-                  <label className="text-sm font-medium">Full HTML ({html.length.toLocaleString()} chars)</label>
+                  <label className="text-sm font-medium">
+                    Full HTML ({html.length.toLocaleString()} chars{usedProvider && ` via ${usedProvider}`})
+                  </label>
                   <Button
                     variant="outline"
                     size="sm"
@@ -138,10 +169,16 @@ const DebugZenrowsPage = () => {
         <Card className="p-6 bg-muted">
           <h3 className="font-semibold mb-2">URL being fetched:</h3>
           <code className="text-xs break-all">{marketplaceUrls[marketplace]}</code>
+          {fixtureName && (
+            <>
+              <h3 className="font-semibold mt-4 mb-2">Fixture file name:</h3>
+              <code className="text-xs break-all">{fixtureName}</code>
+            </>
+          )}
         </Card>
       </div>
     </div>
   );
 };
 
-export default DebugZenrowsPage;
+export default DebugScrapePage;
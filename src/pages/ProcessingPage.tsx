@@ -18,6 +18,7 @@ export default function ProcessingPage() {
   const { toast } = useToast();
   const [currentStep, setCurrentStep] = useState(0);
   const [hasStartedProcessing, setHasStartedProcessing] = useState(false);
+  const [queueNote, setQueueNote] = useState<string | null>(null);
 
   useEffect(() => {
     if (!baselineId) {
@@ -89,12 +90,21 @@ export default function ProcessingPage() {
         .from('processing_status')
         .select('*')
         .eq('baseline_id', baselineId)
+        .in('job_type', ['process_pricing', 'price_only'])
         .order('updated_at', { ascending: false })
         .limit(1)
         .maybeSingle();
 
       if (error && error.code !== 'PGRST116') throw error;
 
+      if (data?.status === 'pending' && data.current_step === 'retry_scheduled') {
+        setQueueNote(`Retrying shortly (attempt ${data.attempts + 1} of ${data.max_attempts})`);
+      } else if (data?.status === 'pending') {
+        setQueueNote('Waiting in queue...');
+      } else {
+        setQueueNote(null);
+      }
+
       if (data?.status === 'completed') {
         setCurrentStep(SIMPLE_STEPS.length - 1);
         setTimeout(() => navigate(`/results/${baselineId}`), 500);
@@ -153,6 +163,9 @@ export default function ProcessingPage() {
             <p className="text-muted-foreground">
               This typically takes 30-60 seconds
             </p>
+            {queueNote && (
+              <p className="text-sm text-muted-foreground mt-2">{queueNote}</p>
+            )}
           </div>
 
           <div className="space-y-4">
@@ -1,14 +1,20 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, TrendingUp, TrendingDown, Search, Filter, Download, Trash2 } from 'lucide-react';
+import { ArrowLeft, TrendingUp, TrendingDown, Search, Download, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { ConfirmDialog } from '@/components/ui/confirm-dialog';
 import { formatNumber, formatPrice } from '@/lib/utils';
+import { RefreshScheduleControl } from '@/components/RefreshScheduleControl';
+import { RefreshSchedule } from '@/utils/refreshSchedule';
+import { PricingStrategyManager } from '@/components/PricingStrategyManager';
+import { CategoryGuardrailManager } from '@/components/CategoryGuardrailManager';
+import { RECOMMENDATION_STATUS_LABELS, RecommendationStatus } from '@/utils/recommendations';
 
 interface ProductWithResults {
   id: string;
@@ -19,14 +25,20 @@ interface ProductWithResults {
   optimal_price?: number;
   profit_increase?: number;
   status: 'optimized' | 'action' | 'processing';
+  // Latest recommendation; null until the first pricing run finishes
+  recommendation_status: RecommendationStatus | null;
 }
 
+const ALL_STATUSES = 'all';
+
 export default function ProductListPage() {
   const navigate = useNavigate();
   const { toast } = useToast();
   const [products, setProducts] = useState<ProductWithResults[]>([]);
+  const [schedules, setSchedules] = useState<Record<string, RefreshSchedule>>({});
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState<RecommendationStatus | typeof ALL_STATUSES>(ALL_STATUSES);
   const [deleteDialog, setDeleteDialog] = useState<{ open: boolean; productId: string | null; productName: string }>({
     open: false,
     productId: null,
@@ -60,9 +72,11 @@ export default function ProductListPage() {
         (baselines || []).map(async (baseline) => {
           const { data: result } = await supabase
             .from('pricing_results')
-            .select('optimal_price, profit_increase_amount')
+            .select('optimal_price, profit_increase_amount, status')
             .eq('baseline_id', baseline.id)
-            .single();
+            .order('created_at', { ascending: false })
+            .limit(1)
+            .maybeSingle();
 
           const priceChange = result?.optimal_price 
             ? ((result.optimal_price - baseline.current_price) / baseline.current_price) * 100 
@@ -78,12 +92,26 @@ export default function ProductListPage() {
             profit_increase: result?.profit_increase_amount,
             status: result?.optimal_price 
               ? (Math.abs(priceChange) > 3 ? 'action' : 'optimized')
-              : 'processing'
+              : 'processing',
+            recommendation_status: (result?.status as RecommendationStatus) ?? null
           } as ProductWithResults;
         })
       );
 
       setProducts(productsWithResults);
+
+      // Load automatic refresh schedules for all listed products
+      const baselineIds = (baselines || []).map(b => b.id);
+      if (baselineIds.length > 0) {
+        const { data: scheduleRows, error: schedulesError } = await supabase
+          .from('refresh_schedules')
+          .select('*')
+          .in('baseline_id', baselineIds);
+
+        if (schedulesError) throw schedulesError;
+
+        setSchedules(Object.fromEntries((scheduleRows || []).map(row => [row.baseline_id, row as RefreshSchedule])));
+      }
     } catch (error) {
       console.error('Failed to load products:', error);
       toast({
@@ -97,10 +125,15 @@ export default function ProductListPage() {
   };
 
   const filteredProducts = products.filter(p => 
-    p.product_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    p.category.toLowerCase().includes(searchQuery.toLowerCase())
+    (p.product_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      p.category.toLowerCase().includes(searchQuery.toLowerCase())) &&
+    (statusFilter === ALL_STATUSES || p.recommendation_status === statusFilter)
   );
 
+  const handleScheduleChange = (baselineId: string, schedule: RefreshSchedule) => {
+    setSchedules(prev => ({ ...prev, [baselineId]: schedule }));
+  };
+
   const handleDeleteClick = (e: React.MouseEvent, productId: string, productName: string) => {
     e.stopPropagation();
     setDeleteDialog({ open: true, productId, productName });
@@ -175,11 +208,15 @@ export default function ProductListPage() {
               <h1 className="text-2xl md:text-3xl lg:text-4xl font-bold text-foreground mb-1 md:mb-2">📦 My Products</h1>
               <p className="text-sm md:text-base text-muted-foreground">Manage and optimize your product pricing</p>
             </div>
-            <Button onClick={() => navigate('/?view=upload')} className="gap-2" size="sm">
-              <Download className="w-4 h-4" />
-              <span className="hidden sm:inline">Upload New Products</span>
-              <span className="sm:hidden">Upload</span>
-            </Button>
+            <div className="flex items-center gap-2">
+              <PricingStrategyManager />
+              <CategoryGuardrailManager />
+              <Button onClick={() => navigate('/?view=upload')} className="gap-2" size="sm">
+                <Download className="w-4 h-4" />
+                <span className="hidden sm:inline">Upload New Products</span>
+                <span className="sm:hidden">Upload</span>
+              </Button>
+            </div>
           </div>
         </div>
 
@@ -197,10 +234,17 @@ export default function ProductListPage() {
                 />
               </div>
             </div>
-            <Button variant="outline" size="sm" className="gap-2">
-              <Filter className="w-4 h-4" />
-              <span className="hidden sm:inline">Filter</span>
-            </Button>
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as RecommendationStatus | typeof ALL_STATUSES)}>
+              <SelectTrigger className="w-44 h-9 md:h-10">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_STATUSES}>All recommendations</SelectItem>
+                {(Object.keys(RECOMMENDATION_STATUS_LABELS) as RecommendationStatus[]).map(status => (
+                  <SelectItem key={status} value={status}>{RECOMMENDATION_STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
         </Card>
 
@@ -209,10 +253,11 @@ export default function ProductListPage() {
           <Card className="overflow-hidden">
             <div className="bg-muted/50 px-4 lg:px-6 py-3 lg:py-4 font-semibold text-xs lg:text-sm grid grid-cols-12 gap-2 lg:gap-4">
               <div className="col-span-3 lg:col-span-3">Product Name</div>
-              <div className="col-span-2 text-center">Current</div>
+              <div className="col-span-1 text-center">Current</div>
               <div className="col-span-2 text-center">Optimal</div>
               <div className="col-span-2 text-center">Potential</div>
-              <div className="col-span-2 text-center">Status</div>
+              <div className="col-span-2 text-center">Auto-Refresh</div>
+              <div className="col-span-1 text-center">Status</div>
               <div className="col-span-1 text-center">Actions</div>
             </div>
 
@@ -233,7 +278,7 @@ export default function ProductListPage() {
                       <p className="font-semibold text-foreground text-sm lg:text-base truncate">{product.product_name}</p>
                       <p className="text-xs lg:text-sm text-muted-foreground truncate">{product.category}</p>
                     </div>
-                    <div className="col-span-2 text-center">
+                    <div className="col-span-1 text-center">
                       <p className="font-semibold text-xs lg:text-sm">{formatPrice(product.current_price, product.currency)}</p>
                     </div>
                     <div className="col-span-2 text-center">
@@ -263,7 +308,19 @@ export default function ProductListPage() {
                       )}
                     </div>
                     <div className="col-span-2 text-center flex justify-center">
+                      <RefreshScheduleControl
+                        baselineId={product.id}
+                        schedule={schedules[product.id]}
+                        onChange={(schedule) => handleScheduleChange(product.id, schedule)}
+                      />
+                    </div>
+                    <div className="col-span-1 text-center flex flex-col items-center gap-1">
                       {getStatusBadge(product.status)}
+                      {product.recommendation_status && product.recommendation_status !== 'pending' && (
+                        <span className="text-[10px] lg:text-xs text-muted-foreground">
+                          {RECOMMENDATION_STATUS_LABELS[product.recommendation_status]}
+                        </span>
+                      )}
                     </div>
                     <div className="col-span-1 text-center">
                       <Button
@@ -338,13 +395,38 @@ export default function ProductListPage() {
                       )}
                     </>
                   )}
+                  {product.recommendation_status && product.recommendation_status !== 'pending' && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-xs sm:text-sm text-muted-foreground">Recommendation:</span>
+                      <span className="text-xs sm:text-sm">{RECOMMENDATION_STATUS_LABELS[product.recommendation_status]}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between items-center">
+                    <span className="text-xs sm:text-sm text-muted-foreground">Auto-refresh:</span>
+                    <RefreshScheduleControl
+                      baselineId={product.id}
+                      schedule={schedules[product.id]}
+                      onChange={(schedule) => handleScheduleChange(product.id, schedule)}
+                    />
+                  </div>
                 </div>
               </Card>
             );
           })}
         </div>
 
-        {filteredProducts.length === 0 && (
+        {filteredProducts.length === 0 && statusFilter !== ALL_STATUSES && products.length > 0 && (
+          <Card className="p-8 md:p-12 text-center">
+            <p className="text-sm md:text-base text-muted-foreground mb-4">
+              No products with {RECOMMENDATION_STATUS_LABELS[statusFilter].toLowerCase()} recommendations
+            </p>
+            <Button variant="outline" onClick={() => setStatusFilter(ALL_STATUSES)} size="sm">
+              Show all products
+            </Button>
+          </Card>
+        )}
+
+        {filteredProducts.length === 0 && (statusFilter === ALL_STATUSES || products.length === 0) && (
           <Card className="p-8 md:p-12 text-center">
             <p className="text-sm md:text-base text-muted-foreground mb-4">No products found</p>
             <Button onClick={() => navigate('/?view=upload')} size="sm">
@@ -9,6 +9,18 @@ import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine, ResponsiveContainer } from 'recharts';
 import { formatNumber, formatPrice } from '@/lib/utils';
+import { PriceHistoryChart } from '@/components/PriceHistoryChart';
+import { PriceAlertRules } from '@/components/PriceAlertRules';
+import { SalesHistory } from '@/components/SalesHistory';
+import { ProductStrategy } from '@/components/ProductStrategy';
+import { PriceSimulator } from '@/components/PriceSimulator';
+import { PriceDecisionTrace } from '@/components/PriceDecisionTrace';
+import { RecommendationDecision } from '@/components/RecommendationDecision';
+import { CompetitorCuration } from '@/components/CompetitorCuration';
+import { ProductGuardrails } from '@/components/ProductGuardrails';
+import { RepricingRules } from '@/components/RepricingRules';
+import { unitPrice, unitPriceDisplay } from '@shared/pricing/unitPrice';
+import { GUARDRAIL_LABELS, GuardrailKey } from '@shared/pricing/guardrails';
 
 export default function ResultsPage() {
   const { baselineId } = useParams();
@@ -73,7 +85,7 @@ export default function ResultsPage() {
       // Get pricing results (most recent)
       const { data: results, error: resultsError } = await supabase
         .from('pricing_results')
-        .select('*')
+        .select('*, inflation_snapshot:inflation_snapshots(source, period)')
         .eq('baseline_id', baselineId)
         .order('created_at', { ascending: false })
         .limit(1)
@@ -89,17 +101,28 @@ export default function ResultsPage() {
 
       if (compError) throw compError;
 
-      // Get individual competitor products
+      // Get individual competitor products; AI-rejected ones only show in the curation list
       const { data: competitorProducts, error: prodError } = await supabase
         .from('competitor_products')
         .select('*')
         .eq('baseline_id', baselineId)
+        .or('ai_decision.is.null,ai_decision.eq.match')
         .order('marketplace', { ascending: true })
         .order('price', { ascending: true });
 
       if (prodError) console.error('Failed to load competitor products:', prodError);
 
-      setData({ baseline, results, competitors, competitorProducts: competitorProducts || [] });
+      // Get price history across refreshes (most recent first; the chart sorts by date)
+      const { data: priceHistory, error: historyError } = await supabase
+        .from('competitor_price_observations')
+        .select('marketplace, listing_key, price, observed_at')
+        .eq('baseline_id', baselineId)
+        .order('observed_at', { ascending: false })
+        .limit(5000);
+
+      if (historyError) console.error('Failed to load price history:', historyError);
+
+      setData({ baseline, results, competitors, competitorProducts: competitorProducts || [], priceHistory: priceHistory || [] });
     } catch (error) {
       console.error('Failed to load results:', error);
       toast({
@@ -164,6 +187,9 @@ Currency,${baseline.currency}
 PRICING RECOMMENDATION
 Current Price,${baseline.current_price}
 Suggested Price,${results.suggested_price}
+Strategy,${results.strategy_name || 'Balanced'}
+Recommendation Status,${results.status}${results.applied_price ? ` (applied ${results.applied_price})` : ''}
+Guardrails Applied,${(results.guardrails_applied || []).map((key: GuardrailKey) => GUARDRAIL_LABELS[key]).join('; ') || 'None'}
 Price Change,${(((results.suggested_price - baseline.current_price) / baseline.current_price) * 100).toFixed(2)}%
 
 REVENUE & DEMAND ANALYSIS
@@ -180,7 +206,9 @@ Profit Increase %,${results.profit_increase_percent || 0}%
 
 ELASTICITY CALCULATION
 Base Elasticity,${results.base_elasticity}
-SAMA Inflation Rate,${(results.inflation_rate * 100).toFixed(2)}%
+Elasticity Source,${results.elasticity_source}
+Inflation Rate,${(results.inflation_rate * 100).toFixed(2)}%
+Inflation Source,${results.inflation_snapshot?.source || 'Default estimate'}
 Inflation Adjustment,${results.inflation_adjustment}
 Competitor Factor,${results.competitor_factor}
 Calibrated Elasticity,${results.calibrated_elasticity}
@@ -227,7 +255,7 @@ Position vs Market,${results.position_vs_market ? results.position_vs_market.toF
     );
   }
 
-  const { baseline, results, competitors, competitorProducts } = data;
+  const { baseline, results, competitors, competitorProducts, priceHistory } = data;
   
   // Group competitor products by marketplace
   const productsByMarketplace: Record<string, any[]> = {};
@@ -536,8 +564,35 @@ Position vs Market,${results.position_vs_market ? results.position_vs_market.toF
               </AlertDescription>
             </Alert>
           )}
+
+          {/* Guardrails that changed the engine's price */}
+          {results.guardrails_applied?.length > 0 && (
+            <Alert className="mt-6">
+              <AlertDescription>
+                <strong>🛡️ Guardrails:</strong> This price was limited by your {results.guardrails_applied.map((key: GuardrailKey) => GUARDRAIL_LABELS[key].toLowerCase()).join(', ')} guardrail{results.guardrails_applied.length > 1 ? 's' : ''}.
+                {results.guardrails_applied.includes('cooldown') && ' Your last applied price change is still in its cooldown, so the price is held.'}
+              </AlertDescription>
+            </Alert>
+          )}
         </Card>
 
+        {/* Accept, modify or reject (signed-in merchants only) */}
+        {baseline.merchant_id && (
+          <RecommendationDecision
+            resultId={results.id}
+            status={results.status}
+            suggestedPrice={results.suggested_price}
+            appliedPrice={results.applied_price}
+            currency={baseline.currency}
+            onDecided={loadResults}
+          />
+        )}
+
+        {/* Decision trace (results from before traces were recorded have none) */}
+        {results.decision_trace && (
+          <PriceDecisionTrace trace={results.decision_trace} currency={baseline.currency} />
+        )}
+
         {/* Elasticity Details */}
         <Card className="p-6 md:p-8 mb-6 shadow-elegant hover:shadow-glow transition-all animate-scale-in">
           <h2 className="text-2xl font-bold mb-6 flex items-center gap-2 text-foreground">
@@ -551,16 +606,22 @@ Position vs Market,${results.position_vs_market ? results.position_vs_market.toF
             <div className="p-4 bg-gradient-card rounded-lg border border-border hover:border-primary/30 transition-all">
               <p className="text-xs font-semibold text-muted-foreground mb-1 uppercase tracking-wide">Base Elasticity</p>
               <p className="text-2xl font-bold text-foreground">{results.base_elasticity.toFixed(3)}</p>
-              <p className="text-xs text-muted-foreground mt-1">({baseline.category})</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                {results.elasticity_source === 'product'
+                  ? `Learned from your sales (95% CI ${results.elasticity_ci_low} to ${results.elasticity_ci_high}, ${results.elasticity_observations} records)`
+                  : results.elasticity_source === 'category'
+                  ? `Learned from your ${baseline.category} sales (95% CI ${results.elasticity_ci_low} to ${results.elasticity_ci_high})`
+                  : `(${baseline.category})`}
+              </p>
             </div>
             
             <div className="p-4 bg-gradient-card rounded-lg border border-border hover:border-primary/30 transition-all">
               <p className="text-xs font-semibold text-muted-foreground mb-1 uppercase tracking-wide">
-                {baseline.currency === 'SAR' ? 'SAMA' : 'US Federal'} Inflation
+                {baseline.currency} Inflation
               </p>
               <p className="text-2xl font-bold text-warning">{(results.inflation_rate * 100).toFixed(2)}%</p>
               <p className="text-xs text-muted-foreground mt-1">
-                {baseline.currency === 'SAR' ? '🇸🇦 Saudi Arabia' : '🇺🇸 United States'}
+                {results.inflation_snapshot?.source || 'Default estimate (no CPI data)'}
               </p>
             </div>
             
@@ -602,6 +663,24 @@ Position vs Market,${results.position_vs_market ? results.position_vs_market.toF
           </div>
         </Card>
 
+        {/* What-if simulator */}
+        {results.market_average && (
+          <PriceSimulator
+            currency={baseline.currency}
+            category={baseline.category}
+            currentPrice={baseline.current_price}
+            currentQuantity={baseline.current_quantity}
+            costPerUnit={baseline.cost_per_unit}
+            elasticity={results.calibrated_elasticity}
+            suggestedPrice={results.suggested_price}
+            marketLowest={results.market_lowest}
+            marketAverage={results.market_average}
+            marketHighest={results.market_highest}
+            inflationRate={results.inflation_rate}
+            strategyId={results.strategy_id}
+          />
+        )}
+
         {/* Competitor Intelligence */}
         {competitors && competitors.length > 0 && (
           <>
@@ -718,6 +797,61 @@ Position vs Market,${results.position_vs_market ? results.position_vs_market.toF
           </>
         )}
 
+        {/* Price History */}
+        {priceHistory.length > 0 && (
+          <PriceHistoryChart
+            observations={priceHistory}
+            currency={baseline.currency}
+            currentPrice={baseline.current_price}
+          />
+        )}
+
+        {/* Strategy profile (signed-in merchants only) */}
+        {baseline.merchant_id && (
+          <ProductStrategy
+            baselineId={baseline.id}
+            strategyId={baseline.strategy_id}
+            appliedStrategyName={results.strategy_name}
+          />
+        )}
+
+        {/* Repricing rules beside the engine's suggestion (signed-in merchants only) */}
+        {baseline.merchant_id && (
+          <RepricingRules
+            baselineId={baseline.id}
+            category={baseline.category}
+            currency={baseline.currency}
+            suggestedPrice={results.suggested_price}
+          />
+        )}
+
+        {/* Guardrails (signed-in merchants only) */}
+        {baseline.merchant_id && (
+          <ProductGuardrails baselineId={baseline.id} category={baseline.category} currency={baseline.currency} />
+        )}
+
+        {/* Competitor curation (signed-in merchants only) */}
+        {baseline.merchant_id && (
+          <CompetitorCuration baselineId={baseline.id} currency={baseline.currency} />
+        )}
+
+        {/* Price Alerts (signed-in merchants only) */}
+        {baseline.merchant_id && (
+          <PriceAlertRules baselineId={baseline.id} currency={baseline.currency} />
+        )}
+
+        {/* Sales history for learned elasticity (signed-in merchants only) */}
+        {baseline.merchant_id && (
+          <SalesHistory
+            baselineId={baseline.id}
+            category={baseline.category}
+            currency={baseline.currency}
+            costPerUnit={baseline.cost_per_unit}
+            defaultElasticity={baseline.base_elasticity}
+            suggestedPrice={results.suggested_price}
+          />
+        )}
+
         {/* Market Positioning */}
         {results.market_average && (
           <Card className="p-6 md:p-8 mb-6 shadow-elegant hover:shadow-glow transition-all animate-scale-in">
@@ -762,14 +896,47 @@ Position vs Market,${results.position_vs_market ? results.position_vs_market.toF
                 </div>
               </div>
               
-              <div className="p-4 bg-gradient-card rounded-lg border border-success/30 shadow-md flex items-start gap-2">
-                <span className="text-lg">✅</span>
-                <div>
-                  <p className="font-bold text-sm text-success mb-1">Position</p>
-                  <p className="text-sm text-foreground leading-relaxed">
-                    {results.position_vs_market < 0 ? 'Below market average - competitive advantage' : 'Above market average - premium positioning'}
-                  </p>
+              <div className="space-y-3">
+                <div className="p-4 bg-gradient-card rounded-lg border border-success/30 shadow-md flex items-start gap-2">
+                  <span className="text-lg">✅</span>
+                  <div>
+                    <p className="font-bold text-sm text-success mb-1">Position</p>
+                    <p className="text-sm text-foreground leading-relaxed">
+                      {results.position_vs_market < 0 ? 'Below market average - competitive advantage' : 'Above market average - premium positioning'}
+                    </p>
+                  </div>
                 </div>
+
+                {/* Unit pricing (size-variable categories) */}
+                {results.unit_basis && results.unit_quantity && (
+                  <div className="p-4 bg-gradient-card rounded-lg border border-border shadow-md flex items-start gap-2">
+                    <span className="text-lg">📏</span>
+                    <div className="flex-1">
+                      <p className="font-bold text-sm text-foreground mb-2">
+                        Unit Price (per {unitPriceDisplay(results.unit_basis).label})
+                      </p>
+                      <div className="space-y-1 text-sm">
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Your Price</span>
+                          <span className="font-semibold text-foreground">
+                            {formatPrice(unitPrice(results.suggested_price, results.unit_quantity, results.unit_basis), baseline.currency)}
+                          </span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Market Average</span>
+                          <span className="font-semibold text-foreground">
+                            {formatPrice(unitPrice(results.market_average, results.unit_quantity, results.unit_basis), baseline.currency)}
+                          </span>
+                        </div>
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-2 leading-relaxed">
+                        {results.unit_normalized_count > 0
+                          ? `${results.unit_normalized_count} competitor price${results.unit_normalized_count === 1 ? ' was' : 's were'} for a different size or pack and ${results.unit_normalized_count === 1 ? 'was' : 'were'} converted to your ${formatNumber(results.unit_quantity, 0)} ${results.unit_basis === 'unit' ? 'unit' : results.unit_basis} size before comparing.`
+                          : `All competitor prices are for your ${formatNumber(results.unit_quantity, 0)} ${results.unit_basis === 'unit' ? 'unit' : results.unit_basis} size.`}
+                      </p>
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
           </Card>
@@ -0,0 +1,141 @@
+import * as XLSX from 'xlsx';
+import type { ValidationError } from './excelParser';
+
+/**
+ * One inflation_snapshots row as entered by an admin; the rate is a fraction (0.023 for 2.3%)
+ */
+export interface CpiRow {
+  currency: string;
+  period: string;
+  inflation_rate: number;
+  source: string;
+  effective_from: string | null;
+}
+
+export const CPI_CSV_COLUMNS = ['currency', 'period', 'rate_percent', 'source', 'effective_from'];
+
+// Keeps a fraction typed as a percentage (0.023) or a percentage typed as basis points out;
+// matches inflation_snapshots_rate_check
+const MIN_RATE_PERCENT = -50;
+const MAX_RATE_PERCENT = 100;
+
+/**
+ * First day of the period: "2025" → 2025-01-01, "2025-03" → 2025-03-01.
+ * Returns null when the text isn't a year, month or date.
+ */
+export const normalizeCpiPeriod = (text: string): string | null => {
+  const match = text.trim().match(/^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?$/);
+  if (!match) return null;
+
+  const month = match[2] ? Number(match[2]) : 1;
+  if (month < 1 || month > 12) return null;
+  return `${match[1]}-${String(month).padStart(2, '0')}-01`;
+};
+
+const isIsoDate = (text: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(text) && !isNaN(new Date(`${text}T00:00:00Z`).getTime());
+
+/**
+ * Validate one CPI row from the form or a CSV line
+ * @param rowNum - Line number shown in error messages
+ * @param values - Raw values keyed by CPI_CSV_COLUMNS
+ */
+export const validateCpiRow = (rowNum: number, values: Record<string, string>): {
+  cpi: CpiRow | null;
+  errors: ValidationError[];
+} => {
+  const errors: ValidationError[] = [];
+
+  const currency = (values.currency || '').trim().toUpperCase();
+  if (!/^[A-Z]{3}$/.test(currency)) {
+    errors.push({ row: rowNum, field: 'currency', message: 'Currency must be a three-letter code such as SAR' });
+  }
+
+  const period = normalizeCpiPeriod(values.period || '');
+  if (!period) {
+    errors.push({ row: rowNum, field: 'period', message: 'Period must be a year (2025), month (2025-03) or date' });
+  }
+
+  const ratePercent = (values.rate_percent || '').trim() === '' ? NaN : Number(values.rate_percent);
+  if (isNaN(ratePercent) || ratePercent <= MIN_RATE_PERCENT || ratePercent >= MAX_RATE_PERCENT) {
+    errors.push({
+      row: rowNum,
+      field: 'rate_percent',
+      message: `Rate must be a percentage between ${MIN_RATE_PERCENT} and ${MAX_RATE_PERCENT}, e.g. 2.3`
+    });
+  }
+
+  const effectiveFrom = (values.effective_from || '').trim();
+  if (effectiveFrom && !isIsoDate(effectiveFrom)) {
+    errors.push({ row: rowNum, field: 'effective_from', message: 'Effective date must be YYYY-MM-DD' });
+  }
+
+  if (errors.length > 0) return { cpi: null, errors };
+
+  return {
+    cpi: {
+      currency,
+      period: period as string,
+      inflation_rate: Math.round(ratePercent * 10000) / 1000000,
+      source: (values.source || '').trim() || 'Manual entry',
+      effective_from: effectiveFrom || null,
+    },
+    errors,
+  };
+};
+
+/**
+ * Parse a CPI CSV with a header row naming CPI_CSV_COLUMNS (effective_from and source optional)
+ */
+export const parseCpiCsv = (text: string): { rows: CpiRow[]; errors: ValidationError[] } => {
+  const errors: ValidationError[] = [];
+  const rows: CpiRow[] = [];
+
+  let lines: string[][];
+  try {
+    const workbook = XLSX.read(text, { type: 'string', raw: true });
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+    lines = XLSX.utils.sheet_to_json(worksheet, { header: 1, raw: false, defval: '' }) as string[][];
+  } catch (error) {
+    return { rows, errors: [{ row: 0, field: 'file', message: 'Failed to parse CSV file' }] };
+  }
+
+  const header = (lines[0] || []).map(cell => String(cell).trim().toLowerCase());
+  const missing = ['currency', 'period', 'rate_percent'].filter(column => !header.includes(column));
+  if (missing.length > 0) {
+    errors.push({ row: 1, field: 'file', message: `Missing columns: ${missing.join(', ')}` });
+    return { rows, errors };
+  }
+
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line || line.every(cell => String(cell).trim() === '')) continue;
+
+    const values = CPI_CSV_COLUMNS.reduce((acc, column) => {
+      const col = header.indexOf(column);
+      acc[column] = col >= 0 && line[col] !== undefined ? String(line[col]) : '';
+      return acc;
+    }, {} as Record<string, string>);
+
+    const result = validateCpiRow(i + 1, values);
+    errors.push(...result.errors);
+    if (result.cpi) rows.push(result.cpi);
+  }
+
+  // The table holds one rate per currency and period; a file repeating one would
+  // silently keep only the last
+  const seen = new Set<string>();
+  for (const row of rows) {
+    const key = `${row.currency}|${row.period}`;
+    if (seen.has(key)) {
+      errors.push({ row: 0, field: 'period', message: `${row.currency} ${row.period} appears more than once` });
+    }
+    seen.add(key);
+  }
+
+  if (rows.length === 0 && errors.length === 0) {
+    errors.push({ row: 0, field: 'file', message: 'File is empty or missing data rows' });
+  }
+
+  return { rows, errors };
+};
@@ -16,9 +16,92 @@ export interface ValidationError {
   message: string;
 }
 
+export type ProductField = 'product_name' | 'category' | 'current_price' | 'current_quantity' | 'cost_per_unit' | 'currency';
+
+/**
+ * Raw cell values of a single spreadsheet row, kept as strings so the
+ * preview table can edit them before they are validated again.
+ */
+export interface ProductRow {
+  row: number;
+  values: Record<ProductField, string>;
+}
+
+export const PRODUCT_FIELDS: ProductField[] = ['product_name', 'category', 'current_price', 'current_quantity', 'cost_per_unit', 'currency'];
+
+/**
+ * Validate one row against the template rules
+ * @param row - Row number and raw cell values
+ * @returns The parsed product (null when invalid) and any validation errors
+ */
+export const validateProductRow = (row: ProductRow): {
+  product: ProductData | null;
+  errors: ValidationError[];
+} => {
+  const { values } = row;
+  const rowNum = row.row;
+  const errors: ValidationError[] = [];
+  const product: any = {};
+
+  // Product name (Column A)
+  if (!values.product_name || values.product_name.trim() === '') {
+    errors.push({ row: rowNum, field: 'product_name', message: 'Product name is required and must be text' });
+  } else {
+    product.product_name = values.product_name.trim();
+  }
+
+  // Category (Column B)
+  if (!values.category || !ALLOWED_CATEGORIES.includes(values.category.trim())) {
+    errors.push({
+      row: rowNum,
+      field: 'category',
+      message: `Category must be one of: ${ALLOWED_CATEGORIES.join(', ')}`
+    });
+  } else {
+    product.category = values.category.trim();
+  }
+
+  // Current price (Column C)
+  const currentPrice = values.current_price === '' ? NaN : Number(values.current_price);
+  if (isNaN(currentPrice) || currentPrice <= 0) {
+    errors.push({ row: rowNum, field: 'current_price', message: 'Current price must be a positive number' });
+  } else {
+    product.current_price = currentPrice;
+  }
+
+  // Current quantity (Column D)
+  const currentQuantity = values.current_quantity === '' ? NaN : Number(values.current_quantity);
+  if (isNaN(currentQuantity) || currentQuantity <= 0 || !Number.isInteger(currentQuantity)) {
+    errors.push({ row: rowNum, field: 'current_quantity', message: 'Current quantity must be a positive integer' });
+  } else {
+    product.current_quantity = currentQuantity;
+  }
+
+  // Cost per unit (Column E)
+  const costPerUnit = values.cost_per_unit === '' ? NaN : Number(values.cost_per_unit);
+  if (isNaN(costPerUnit) || costPerUnit <= 0) {
+    errors.push({ row: rowNum, field: 'cost_per_unit', message: 'Cost per unit must be a positive number' });
+  } else if (product.current_price && costPerUnit >= product.current_price) {
+    errors.push({ row: rowNum, field: 'cost_per_unit', message: 'Cost per unit must be less than current price' });
+  } else {
+    product.cost_per_unit = costPerUnit;
+  }
+
+  // Currency (Column F)
+  const currency = values.currency?.trim().toUpperCase();
+  if (!currency || !ALLOWED_CURRENCIES.includes(currency as any)) {
+    errors.push({ row: rowNum, field: 'currency', message: 'Currency must be either SAR or USD' });
+  } else {
+    product.currency = currency;
+  }
+
+  return { product: errors.length === 0 ? (product as ProductData) : null, errors };
+};
+
 export const parseExcelFile = async (file: File): Promise<{
   data: ProductData[];
   errors: ValidationError[];
+  rows: ProductRow[];
 }> => {
   return new Promise((resolve) => {
     const reader = new FileReader();
@@ -42,107 +125,48 @@ export const parseExcelFile = async (file: File): Promise<{
         
         const errors: ValidationError[] = [];
         const products: ProductData[] = [];
+        const rows: ProductRow[] = [];
         
         // Check for required columns (skip header row)
         if (jsonData.length < 2) {
           errors.push({ row: 0, field: 'file', message: 'File is empty or missing data rows' });
-          resolve({ data: [], errors });
+          resolve({ data: [], errors, rows });
           return;
         }
         
-        // Expected columns
-        const expectedColumns = ['product_name', 'category', 'current_price', 'current_quantity', 'cost_per_unit', 'currency'];
-        
-        // Process data rows (skip header) - Maximum 10 products
-        const maxProducts = 10;
-        const dataRowsToProcess = Math.min(jsonData.length - 1, maxProducts);
-        
-        if (jsonData.length - 1 > maxProducts) {
-          errors.push({ 
-            row: 0, 
-            field: 'file', 
-            message: `Maximum ${maxProducts} products allowed. Only the first ${maxProducts} products will be processed.` 
-          });
-        }
-        
-        for (let i = 1; i <= dataRowsToProcess; i++) {
+        // Process every data row (skip header); invalid rows are kept so they can be fixed in the preview
+        for (let i = 1; i < jsonData.length; i++) {
           const row = jsonData[i];
-          const rowNum = i + 1;
           
           // Skip empty rows
-          if (!row || row.length === 0 || !row[0]) continue;
+          if (!row || row.length === 0 || row.every(cell => cell === undefined || cell === null || String(cell).trim() === '')) continue;
           
-          const product: any = {};
-          let hasError = false;
+          const productRow: ProductRow = {
+            row: i + 1,
+            values: PRODUCT_FIELDS.reduce((acc, field, col) => {
+              acc[field] = row[col] === undefined || row[col] === null ? '' : String(row[col]).trim();
+              return acc;
+            }, {} as Record<ProductField, string>),
+          };
+          rows.push(productRow);
           
-          // Product name (Column A)
-          if (!row[0] || typeof row[0] !== 'string' || row[0].trim() === '') {
-            errors.push({ row: rowNum, field: 'product_name', message: 'Product name is required and must be text' });
-            hasError = true;
-          } else {
-            product.product_name = row[0].trim();
-          }
-          
-          // Category (Column B)
-          if (!row[1] || !ALLOWED_CATEGORIES.includes(row[1])) {
-            errors.push({ 
-              row: rowNum, 
-              field: 'category', 
-              message: `Category must be one of: ${ALLOWED_CATEGORIES.join(', ')}` 
-            });
-            hasError = true;
-          } else {
-            product.category = row[1];
-          }
-          
-          // Current price (Column C)
-          const currentPrice = Number(row[2]);
-          if (isNaN(currentPrice) || currentPrice <= 0) {
-            errors.push({ row: rowNum, field: 'current_price', message: 'Current price must be a positive number' });
-            hasError = true;
-          } else {
-            product.current_price = currentPrice;
-          }
-          
-          // Current quantity (Column D)
-          const currentQuantity = Number(row[3]);
-          if (isNaN(currentQuantity) || currentQuantity <= 0 || !Number.isInteger(currentQuantity)) {
-            errors.push({ row: rowNum, field: 'current_quantity', message: 'Current quantity must be a positive integer' });
-            hasError = true;
-          } else {
-            product.current_quantity = currentQuantity;
-          }
-          
-          // Cost per unit (Column E)
-          const costPerUnit = Number(row[4]);
-          if (isNaN(costPerUnit) || costPerUnit <= 0) {
-            errors.push({ row: rowNum, field: 'cost_per_unit', message: 'Cost per unit must be a positive number' });
-            hasError = true;
-          } else if (product.current_price && costPerUnit >= product.current_price) {
-            errors.push({ row: rowNum, field: 'cost_per_unit', message: 'Cost per unit must be less than current price' });
-            hasError = true;
-          } else {
-            product.cost_per_unit = costPerUnit;
-          }
-          
-          // Currency (Column F)
-          if (!row[5] || !ALLOWED_CURRENCIES.includes(row[5] as any)) {
-            errors.push({ row: rowNum, field: 'currency', message: 'Currency must be either SAR or USD' });
-            hasError = true;
-          } else {
-            product.currency = row[5];
-          }
-          
-          if (!hasError) {
-            products.push(product as ProductData);
+          const result = validateProductRow(productRow);
+          errors.push(...result.errors);
+          if (result.product) {
+            products.push(result.product);
           }
         }
         
-        resolve({ data: products, errors });
+        if (rows.length === 0) {
+          errors.push({ row: 0, field: 'file', message: 'File is empty or missing data rows' });
+        }
+        
+        resolve({ data: products, errors, rows });
       } catch (error) {
         resolve({ 
           data: [], 
-          errors: [{ row: 0, field: 'file', message: 'Failed to parse file. Please ensure it follows the template format.' }]
+          errors: [{ row: 0, field: 'file', message: 'Failed to parse file. Please ensure it follows the template format.' }],
+          rows: []
         });
       }
     };
@@ -0,0 +1,36 @@
+import { GUARDRAIL_LIMITS, PriceGuardrails } from '@shared/pricing/guardrails';
+
+export type GuardrailSetting = keyof PriceGuardrails;
+
+// Form values as typed; blank means "not set"
+export type GuardrailForm = Record<GuardrailSetting, string>;
+
+// Edited as percentages
+export const PERCENT_GUARDRAILS: GuardrailSetting[] = ['maxChangePercent', 'minMargin'];
+
+// Absolute prices are per product only, since a category mixes currencies
+export const CATEGORY_GUARDRAILS: GuardrailSetting[] = ['maxChangePercent', 'minMargin', 'cooldownHours'];
+
+export const GUARDRAIL_HELP: Record<GuardrailSetting, string> = {
+  maxChangePercent: 'Largest move from your current price in one run',
+  minPrice: 'Never suggest below this price',
+  maxPrice: 'Never suggest above this price',
+  minMargin: 'Keep the price at least this far above cost',
+  cooldownHours: 'Hold the price for this long after you apply a change',
+};
+
+export const toGuardrailForm = (guardrails: PriceGuardrails): GuardrailForm =>
+  (Object.keys(GUARDRAIL_LIMITS) as GuardrailSetting[]).reduce((acc, setting) => {
+    const value = guardrails[setting];
+    acc[setting] = value === null ? '' : PERCENT_GUARDRAILS.includes(setting) ? String(+(value * 100).toFixed(2)) : String(value);
+    return acc;
+  }, {} as GuardrailForm);
+
+// Invalid entries become NaN, which validateGuardrails reports
+export const fromGuardrailForm = (form: GuardrailForm): PriceGuardrails =>
+  (Object.keys(GUARDRAIL_LIMITS) as GuardrailSetting[]).reduce((acc, setting) => {
+    const raw = form[setting].trim();
+    const value = raw === '' ? null : Number(raw);
+    acc[setting] = value !== null && PERCENT_GUARDRAILS.includes(setting) ? value / 100 : value;
+    return acc;
+  }, {} as PriceGuardrails);
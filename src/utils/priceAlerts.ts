@@ -0,0 +1,81 @@
+// Competitor price alert rules (price_alert_rules / price_alerts tables)
+import { formatPrice } from '@/lib/utils';
+
+export type AlertRuleType = 'competitor_below' | 'market_average_change' | 'above_market_highest';
+
+export interface PriceAlertRule {
+  id: string;
+  baseline_id: string;
+  rule_type: AlertRuleType;
+  threshold: number | null;
+  enabled: boolean;
+  email_enabled: boolean;
+  last_triggered_at: string | null;
+  created_at: string;
+}
+
+export interface AlertListingChange {
+  listing_key: string;
+  marketplace: string;
+  product_name: string;
+  product_url: string | null;
+  previous_price: number | null;
+  current_price: number | null;
+  change_percent: number | null;
+  change: 'new' | 'removed' | 'up' | 'down';
+}
+
+export interface PriceAlert {
+  id: string;
+  baseline_id: string;
+  rule_type: AlertRuleType;
+  message: string;
+  digest: AlertListingChange[];
+  observed_at: string;
+  email_status: 'pending' | 'sent' | 'failed' | 'skipped';
+  acknowledged_at: string | null;
+  created_at: string;
+}
+
+export const ALERT_RULE_LABELS: Record<AlertRuleType, string> = {
+  competitor_below: 'Any competitor drops below',
+  market_average_change: 'Market average moves more than',
+  above_market_highest: 'My price is above the market highest',
+};
+
+/**
+ * Whether a rule type takes a threshold (a price or a percentage)
+ * @param ruleType - Alert rule type
+ * @returns 'price', 'percent' or null when the rule has no threshold
+ */
+export const ruleThresholdKind = (ruleType: AlertRuleType): 'price' | 'percent' | null => {
+  if (ruleType === 'competitor_below') return 'price';
+  if (ruleType === 'market_average_change') return 'percent';
+  return null;
+};
+
+/**
+ * Describe a rule for display
+ * @param rule - Alert rule
+ * @param currency - Baseline currency
+ * @returns Label such as "Any competitor drops below SAR 249.00"
+ */
+export const describeAlertRule = (rule: Pick<PriceAlertRule, 'rule_type' | 'threshold'>, currency: string): string => {
+  const kind = ruleThresholdKind(rule.rule_type);
+  if (kind === 'price') return `${ALERT_RULE_LABELS[rule.rule_type]} ${formatPrice(Number(rule.threshold), currency)}`;
+  if (kind === 'percent') return `${ALERT_RULE_LABELS[rule.rule_type]} ${Number(rule.threshold)}%`;
+  return ALERT_RULE_LABELS[rule.rule_type];
+};
+
+/**
+ * Describe one listing change from an alert digest
+ * @param change - Digest entry
+ * @param currency - Baseline currency
+ * @returns Label such as "SAR 250.00 → SAR 235.00 (-6.0%)"
+ */
+export const describeListingChange = (change: AlertListingChange, currency: string): string => {
+  if (change.change === 'new') return `New at ${formatPrice(Number(change.current_price), currency)}`;
+  if (change.change === 'removed') return `No longer listed (was ${formatPrice(Number(change.previous_price), currency)})`;
+  const percent = Number(change.change_percent);
+  return `${formatPrice(Number(change.previous_price), currency)} → ${formatPrice(Number(change.current_price), currency)} (${percent > 0 ? '+' : ''}${percent.toFixed(1)}%)`;
+};
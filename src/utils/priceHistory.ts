@@ -0,0 +1,78 @@
+// Competitor price history (competitor_price_observations table)
+export interface PriceObservation {
+  marketplace: string;
+  listing_key: string;
+  price: number;
+  observed_at: string;
+}
+
+export interface PriceHistoryPoint {
+  observed_at: string;
+  lowest: number;
+  average: number;
+  highest: number;
+  listings: number;
+}
+
+export const ALL_MARKETPLACES = 'all';
+
+/**
+ * Normalize a marketplace name so "Noon" and "noon" chart as one series
+ * @param marketplace - Marketplace or store name as scraped
+ * @returns Lowercased, trimmed key
+ */
+export const marketplaceKey = (marketplace: string): string => marketplace.trim().toLowerCase();
+
+/**
+ * List marketplaces that have history, most observed first
+ * @param observations - Price observations for one baseline
+ * @returns Marketplace keys
+ */
+export const listHistoryMarketplaces = (observations: PriceObservation[]): string[] => {
+  const counts = new Map<string, number>();
+  for (const observation of observations) {
+    const key = marketplaceKey(observation.marketplace);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([key]) => key);
+};
+
+/**
+ * Build the lowest/average/highest series for a marketplace.
+ * Observations from the same refresh run share observed_at, so each run becomes one point.
+ * @param observations - Price observations for one baseline
+ * @param marketplace - Marketplace key, or ALL_MARKETPLACES for the whole market
+ * @returns Points in chronological order
+ */
+export const buildPriceHistorySeries = (
+  observations: PriceObservation[],
+  marketplace: string = ALL_MARKETPLACES
+): PriceHistoryPoint[] => {
+  const runs = new Map<string, Map<string, number>>();
+
+  for (const observation of observations) {
+    if (marketplace !== ALL_MARKETPLACES && marketplaceKey(observation.marketplace) !== marketplace) continue;
+    const price = Number(observation.price);
+    if (!Number.isFinite(price) || price <= 0) continue;
+
+    const run = runs.get(observation.observed_at) || new Map<string, number>();
+    // A listing seen twice in one run counts once, at its latest price
+    run.set(observation.listing_key, price);
+    runs.set(observation.observed_at, run);
+  }
+
+  return [...runs.entries()]
+    .sort((a, b) => new Date(a[0]).getTime() - new Date(b[0]).getTime())
+    .map(([observedAt, run]) => {
+      const prices = [...run.values()];
+      return {
+        observed_at: observedAt,
+        lowest: Math.min(...prices),
+        average: prices.reduce((sum, p) => sum + p, 0) / prices.length,
+        highest: Math.max(...prices),
+        listings: prices.length,
+      };
+    });
+};
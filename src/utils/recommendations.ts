@@ -0,0 +1,31 @@
+// Recommendation lifecycle (pricing_results.status, pricing_decisions audit trail)
+export type RecommendationStatus = 'pending' | 'applied' | 'rejected';
+
+export type RecommendationAction = 'accepted' | 'modified' | 'rejected';
+
+export const RECOMMENDATION_STATUS_LABELS: Record<RecommendationStatus, string> = {
+  pending: 'Pending',
+  applied: 'Applied',
+  rejected: 'Rejected',
+};
+
+export const RECOMMENDATION_ACTION_LABELS: Record<RecommendationAction, string> = {
+  accepted: 'Accepted',
+  modified: 'Applied own price',
+  rejected: 'Rejected',
+};
+
+// Matches the pricing_decisions_reason_length check
+export const MAX_DECISION_REASON_LENGTH = 500;
+
+export interface PricingDecision {
+  id: string;
+  pricing_result_id: string;
+  decided_by: string;
+  action: RecommendationAction;
+  previous_status: RecommendationStatus;
+  suggested_price: number;
+  applied_price: number | null;
+  reason: string | null;
+  created_at: string;
+}
@@ -0,0 +1,64 @@
+// Automatic competitor refresh schedules (refresh_schedules table)
+export type RefreshFrequency = 'daily' | 'weekly' | 'custom';
+
+export const FREQUENCY_HOURS: Record<Exclude<RefreshFrequency, 'custom'>, number> = {
+  daily: 24,
+  weekly: 168,
+};
+
+export const MIN_CUSTOM_INTERVAL_HOURS = 1;
+export const MAX_CUSTOM_INTERVAL_HOURS = 720;
+
+export interface RefreshSchedule {
+  id: string;
+  baseline_id: string;
+  frequency: RefreshFrequency;
+  interval_hours: number;
+  enabled: boolean;
+  next_run_at: string;
+  last_run_at: string | null;
+  last_success_at: string | null;
+  last_status: 'success' | 'failed' | null;
+  last_error: string | null;
+  consecutive_failures: number;
+  created_at: string;
+}
+
+/**
+ * A scheduled product is stale when its last run failed or when it has
+ * gone two full intervals without a successful refresh.
+ * @param schedule - Refresh schedule row
+ * @param now - Reference time (defaults to the current time)
+ * @returns True if competitor data should be considered out of date
+ */
+export const isScheduleStale = (schedule: RefreshSchedule, now: Date = new Date()): boolean => {
+  if (!schedule.enabled) return false;
+  if (schedule.last_status === 'failed') return true;
+
+  const lastGood = new Date(schedule.last_success_at || schedule.created_at).getTime();
+  return now.getTime() - lastGood > schedule.interval_hours * 2 * 60 * 60 * 1000;
+};
+
+/**
+ * Describe a schedule's interval for display
+ * @param schedule - Refresh schedule row
+ * @returns Label such as "Daily", "Weekly" or "Every 6h"
+ */
+export const formatScheduleInterval = (schedule: Pick<RefreshSchedule, 'frequency' | 'interval_hours'>): string => {
+  if (schedule.frequency === 'daily') return 'Daily';
+  if (schedule.frequency === 'weekly') return 'Weekly';
+  return `Every ${schedule.interval_hours}h`;
+};
+
+/**
+ * Format how long ago a timestamp was
+ * @param iso - ISO timestamp
+ * @returns Label such as "5m ago", "3h ago" or "2d ago"
+ */
+export const formatTimeAgo = (iso: string): string => {
+  const minutes = Math.max(0, Math.round((Date.now() - new Date(iso).getTime()) / 60000));
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours}h ago`;
+  return `${Math.round(hours / 24)}d ago`;
+};
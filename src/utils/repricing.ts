@@ -0,0 +1,53 @@
+// Rule-based repricing (repricing_rules / repricing_candidates tables)
+import { GuardrailKey } from '@shared/pricing/guardrails';
+import { REPRICING_RULE_LABELS, RepricingRule, RepricingRuleType, RuleEvaluation, RuleOutcome } from '@shared/pricing/repricing';
+
+export interface StoredRepricingRule extends RepricingRule {
+  enabled: boolean;
+}
+
+export interface RepricingCandidate {
+  id: string;
+  baseline_id: string;
+  observed_at: string;
+  candidate_price: number | null;
+  rules_price: number | null;
+  currency: string;
+  rule_id: string | null;
+  rule_name: string | null;
+  evaluations: RuleEvaluation[];
+  guardrails_applied: GuardrailKey[];
+}
+
+export const RULE_OUTCOME_LABELS: Record<RuleOutcome, string> = {
+  set: 'Set the price',
+  bound: 'Limited the price',
+  satisfied: 'Satisfied',
+  overridden: 'Overridden by higher priority',
+  conflict: 'Conflicts with higher priority',
+  no_data: 'No matching listings',
+};
+
+// Suggested offsets for new rules, in percent: "beat by 1%", "stay 5% below"
+export const DEFAULT_RULE_OFFSETS: Record<RepricingRuleType, number> = {
+  beat_lowest: -1,
+  match_average: 0,
+  stay_below_highest: -5,
+  never_undercut: 0,
+};
+
+/**
+ * Describe a rule for display
+ * @param rule - Repricing rule
+ * @returns Label such as "Beat the lowest price on Amazon, Noon by 1%"
+ */
+export const describeRepricingRule = (rule: Pick<RepricingRule, 'rule_type' | 'marketplaces' | 'offset_percent'>): string => {
+  const where = rule.marketplaces.length > 0 ? ` on ${rule.marketplaces.join(', ')}` : '';
+  const percent = +(Math.abs(Number(rule.offset_percent)) * 100).toFixed(2);
+  const offset = percent === 0 ? '' : Number(rule.offset_percent) < 0 ? ` by ${percent}%` : ` plus ${percent}%`;
+  if (rule.rule_type === 'never_undercut') {
+    const margin = percent === 0 ? '' : Number(rule.offset_percent) < 0 ? ` (up to ${percent}% below)` : ` (staying ${percent}% above)`;
+    return `Never undercut the lowest price${where || ' of any competitor'}${margin}`;
+  }
+  return `${REPRICING_RULE_LABELS[rule.rule_type]}${where}${offset}`;
+};
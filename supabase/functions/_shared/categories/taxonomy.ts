@@ -0,0 +1,30 @@
+// ========================================
+// CATEGORY TAXONOMY LOADER
+// ========================================
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { CATEGORY_TAXONOMY, CategoryNode } from '../pricing/categories.ts';
+
+export type { CategoryNode } from '../pricing/categories.ts';
+
+/**
+ * The categories table, or the built-in seed when it can't be read,
+ * so pricing and classification keep working on the last known taxonomy
+ */
+export async function loadCategoryTaxonomy(supabase: SupabaseClient): Promise<CategoryNode[]> {
+  const { data, error } = await supabase
+    .from('categories')
+    .select('slug, name, parent_slug, elasticity, zone_a_multiplier, zone_b_multiplier, unit_priced, description, sort_order');
+
+  if (error || !data || data.length === 0) {
+    console.error('Failed to load category taxonomy, using built-in categories:', error);
+    return CATEGORY_TAXONOMY;
+  }
+
+  return data.map(category => ({
+    ...category,
+    elasticity: category.elasticity === null ? null : Number(category.elasticity),
+    zone_a_multiplier: category.zone_a_multiplier === null ? null : Number(category.zone_a_multiplier),
+    zone_b_multiplier: category.zone_b_multiplier === null ? null : Number(category.zone_b_multiplier)
+  }));
+}
@@ -0,0 +1,66 @@
+// ========================================
+// PRICE GUARDRAIL LOADER
+// ========================================
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { CategoryNode } from '../pricing/categories.ts';
+import { hasGuardrails, NO_GUARDRAILS, PriceGuardrails, resolveGuardrails } from '../pricing/guardrails.ts';
+
+export type { PriceGuardrails } from '../pricing/guardrails.ts';
+
+export interface LoadedGuardrails {
+  guardrails: PriceGuardrails;
+  // Hours since the merchant last applied a price for this product, null if never
+  hoursSinceLastChange: number | null;
+  // That price; applying one doesn't change the baseline's current_price
+  lastAppliedPrice: number | null;
+}
+
+const GUARDRAIL_COLUMNS = 'id, baseline_id, category, max_change_percent, min_price, max_price, min_margin, cooldown_hours';
+
+/**
+ * The product's guardrails (own row first, then its categories) and its last
+ * applied price change. No guardrails when they can't be read.
+ */
+export async function loadPriceGuardrails(
+  supabase: SupabaseClient,
+  baseline: { id: string; merchant_id: string | null; category: string },
+  taxonomy: CategoryNode[]
+): Promise<LoadedGuardrails> {
+  if (!baseline.merchant_id) {
+    return { guardrails: NO_GUARDRAILS, hoursSinceLastChange: null, lastAppliedPrice: null };
+  }
+
+  const { data: rows, error } = await supabase
+    .from('price_guardrails')
+    .select(GUARDRAIL_COLUMNS)
+    .eq('merchant_id', baseline.merchant_id);
+
+  if (error) {
+    console.error('Failed to load price guardrails:', error);
+    return { guardrails: NO_GUARDRAILS, hoursSinceLastChange: null, lastAppliedPrice: null };
+  }
+
+  const guardrails = resolveGuardrails(rows || [], baseline.id, baseline.category, taxonomy);
+  if (!hasGuardrails(guardrails)) {
+    return { guardrails, hoursSinceLastChange: null, lastAppliedPrice: null };
+  }
+
+  const { data: lastApplied } = await supabase
+    .from('pricing_results')
+    .select('decided_at, applied_price')
+    .eq('baseline_id', baseline.id)
+    .eq('status', 'applied')
+    .not('decided_at', 'is', null)
+    .order('decided_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return {
+    guardrails,
+    hoursSinceLastChange: lastApplied?.decided_at
+      ? (Date.now() - new Date(lastApplied.decided_at).getTime()) / 3600000
+      : null,
+    lastAppliedPrice: lastApplied?.applied_price != null ? Number(lastApplied.applied_price) : null
+  };
+}
@@ -0,0 +1,118 @@
+// ========================================
+// INFLATION PROVIDER SELECTION & SYNC
+// ========================================
+// INFLATION_PROVIDERS sets the order, e.g. "worldbank". A sync asks each configured
+// provider in turn for the currencies still missing and writes what it finds to
+// inflation_snapshots. Periods an admin entered by hand or imported are left to the admin.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { CpiRate, InflationProvider } from './types.ts';
+import { worldBank } from './worldbank.ts';
+
+export type { CpiRate, InflationProvider } from './types.ts';
+
+const PROVIDERS: InflationProvider[] = [worldBank];
+const PROVIDERS_BY_NAME = new Map(PROVIDERS.map(provider => [provider.name, provider]));
+
+const DEFAULT_PROVIDER_ORDER = ['worldbank'];
+
+// Rows from these sources belong to admins; syncs leave them alone
+const ADMIN_SOURCES = ['manual', 'csv'];
+
+export const INFLATION_PROVIDER_NAMES = PROVIDERS.map(provider => provider.name);
+
+export function resolveInflationProviders(): InflationProvider[] {
+  const configured = (Deno.env.get('INFLATION_PROVIDERS') || '')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+  const names = configured.length > 0 ? configured : DEFAULT_PROVIDER_ORDER;
+  return names
+    .map(name => PROVIDERS_BY_NAME.get(name))
+    .filter((provider): provider is InflationProvider => Boolean(provider?.isConfigured()));
+}
+
+export interface InflationSyncResult {
+  saved: (CpiRate & { provider: string })[];
+  // Same currency and period already entered by an admin
+  skipped: CpiRate[];
+  // Latest row for the currency and period already has this rate
+  unchanged: CpiRate[];
+  // Currencies no provider returned a rate for
+  missing: string[];
+}
+
+/**
+ * Fetch the latest CPI rate for each currency and store it. Snapshots are append-only: a new or
+ * changed rate is inserted as a new row taking effect from today, so past runs keep pointing at
+ * the snapshot they used.
+ */
+export async function syncInflationRates(
+  supabase: SupabaseClient,
+  currencies: string[]
+): Promise<InflationSyncResult> {
+  const rates: (CpiRate & { provider: string })[] = [];
+  let remaining = [...new Set(currencies.map(currency => currency.toUpperCase()))];
+
+  for (const provider of resolveInflationProviders()) {
+    if (remaining.length === 0) break;
+    try {
+      const fetched = await provider.fetchRates(remaining);
+      rates.push(...fetched.map(rate => ({ ...rate, provider: provider.name })));
+      remaining = remaining.filter(currency => !fetched.some(rate => rate.currency === currency));
+    } catch (error) {
+      console.log(`   ↪️ ${provider.name} failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  const result: InflationSyncResult = { saved: [], skipped: [], unchanged: [], missing: remaining };
+  if (rates.length === 0) return result;
+
+  const { data: existing, error: existingError } = await supabase
+    .from('inflation_snapshots')
+    .select('currency, period, provider, inflation_rate')
+    .in('currency', rates.map(rate => rate.currency))
+    .order('updated_at', { ascending: false });
+  if (existingError) throw existingError;
+
+  const adminEntered = new Set(
+    (existing || [])
+      .filter(row => ADMIN_SOURCES.includes(row.provider))
+      .map(row => `${row.currency}|${row.period}`)
+  );
+
+  // Newest row first, so the first one seen per period is its current rate
+  const latestRates = new Map<string, number>();
+  for (const row of existing || []) {
+    const key = `${row.currency}|${row.period}`;
+    if (!latestRates.has(key)) latestRates.set(key, Number(row.inflation_rate));
+  }
+
+  for (const rate of rates) {
+    if (adminEntered.has(`${rate.currency}|${rate.period}`)) {
+      result.skipped.push(rate);
+      continue;
+    }
+
+    // Compared at the column's precision, numeric(10,6)
+    if (latestRates.get(`${rate.currency}|${rate.period}`) === Number(rate.inflation_rate.toFixed(6))) {
+      result.unchanged.push(rate);
+      continue;
+    }
+
+    const { error } = await supabase
+      .from('inflation_snapshots')
+      .insert({
+        currency: rate.currency,
+        period: rate.period,
+        inflation_rate: rate.inflation_rate,
+        source: rate.source,
+        provider: rate.provider,
+        fetched_at: new Date().toISOString()
+      });
+    if (error) throw error;
+    result.saved.push(rate);
+  }
+
+  return result;
+}
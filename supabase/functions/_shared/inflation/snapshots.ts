@@ -0,0 +1,62 @@
+// ========================================
+// INFLATION SNAPSHOT LOOKUP
+// ========================================
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export interface InflationSnapshot {
+  // null when no row covers the currency and the fallback rate is used
+  id: string | null;
+  currency: string;
+  period: string | null;
+  inflation_rate: number;
+  source: string;
+}
+
+// Used when inflation_snapshots has nothing for the currency
+export const FALLBACK_INFLATION_RATE = 0.025;
+export const FALLBACK_INFLATION_SOURCE = 'IMF Global Estimate';
+
+/**
+ * The CPI snapshot a pricing run on `runDate` should use: the row for the currency with the
+ * latest effective date on or before the run, newest period first when several share a date.
+ * A corrected rate is a newer row for the same period and date, so it wins over the one it replaces.
+ */
+export async function loadInflationSnapshot(
+  supabase: SupabaseClient,
+  currency: string,
+  runDate: Date = new Date()
+): Promise<InflationSnapshot> {
+  const { data, error } = await supabase
+    .from('inflation_snapshots')
+    .select('id, currency, period, inflation_rate, source')
+    .eq('currency', currency)
+    .lte('effective_from', runDate.toISOString().slice(0, 10))
+    .order('effective_from', { ascending: false })
+    .order('period', { ascending: false })
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to load inflation snapshot:', error);
+  }
+
+  if (!data) {
+    return {
+      id: null,
+      currency,
+      period: null,
+      inflation_rate: FALLBACK_INFLATION_RATE,
+      source: FALLBACK_INFLATION_SOURCE
+    };
+  }
+
+  return {
+    id: data.id,
+    currency: data.currency,
+    period: data.period,
+    inflation_rate: Number(data.inflation_rate),
+    source: data.source || 'Unknown'
+  };
+}
@@ -0,0 +1,23 @@
+// ========================================
+// INFLATION PROVIDER INTERFACE
+// ========================================
+
+/**
+ * One CPI reading: the annual inflation rate for a currency over a period.
+ * Stored as a row of inflation_snapshots.
+ */
+export interface CpiRate {
+  currency: string;
+  // First day of the period, YYYY-MM-DD
+  period: string;
+  // Fraction, e.g. 0.023 for 2.3%
+  inflation_rate: number;
+  source: string;
+}
+
+export interface InflationProvider {
+  name: string;
+  isConfigured(): boolean;
+  // Latest rate per currency; currencies the provider doesn't cover are left out
+  fetchRates(currencies: string[]): Promise<CpiRate[]>;
+}
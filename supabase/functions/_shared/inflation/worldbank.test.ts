@@ -0,0 +1,31 @@
+// ========================================
+// WORLD BANK CPI PARSING TESTS
+// ========================================
+//   deno test supabase/functions/_shared/inflation
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { parseWorldBankCpi } from './worldbank.ts';
+
+Deno.test('parseWorldBankCpi: newest year with a value, as a fraction', () => {
+  const body = [
+    { page: 1, pages: 1, per_page: 50, total: 2 },
+    [
+      { country: { id: 'SA', value: 'Saudi Arabia' }, date: '2024', value: null },
+      { country: { id: 'SA', value: 'Saudi Arabia' }, date: '2023', value: 2.3270 },
+      { country: { id: 'SA', value: 'Saudi Arabia' }, date: '2022', value: 2.4737 }
+    ]
+  ];
+
+  assertEquals(parseWorldBankCpi('SAR', body), {
+    currency: 'SAR',
+    period: '2023-01-01',
+    inflation_rate: 0.02327,
+    source: 'World Bank - Saudi Arabia CPI 2023'
+  });
+});
+
+Deno.test('parseWorldBankCpi: no data or an API error message', () => {
+  assertEquals(parseWorldBankCpi('USD', [{ page: 1 }, []]), null);
+  assertEquals(parseWorldBankCpi('USD', [{ page: 0 }, null]), null);
+  assertEquals(parseWorldBankCpi('USD', [{ message: [{ id: '120', value: 'Invalid value' }] }]), null);
+});
@@ -0,0 +1,71 @@
+import { CpiRate, InflationProvider } from './types.ts';
+
+// Inflation, consumer prices (annual %). Public API, no key needed.
+const WORLD_BANK_ENDPOINT = 'https://api.worldbank.org/v2/country';
+const CPI_INDICATOR = 'FP.CPI.TOTL.ZG';
+
+// Country whose CPI stands for each currency (ISO 3166 alpha-2)
+export const WORLD_BANK_COUNTRIES: Record<string, string> = {
+  SAR: 'SA',
+  USD: 'US',
+  AED: 'AE',
+  KWD: 'KW',
+  QAR: 'QA',
+  BHD: 'BH',
+  OMR: 'OM',
+  EGP: 'EG',
+  GBP: 'GB'
+};
+
+interface WorldBankObservation {
+  country?: { value?: string };
+  date?: string;
+  value?: number | null;
+}
+
+/**
+ * Parse an indicator response: [paging, observations]. Returns the newest observation
+ * with a value, or null when there is none (or the API returned an error message).
+ */
+export function parseWorldBankCpi(currency: string, body: unknown): CpiRate | null {
+  if (!Array.isArray(body) || !Array.isArray(body[1])) return null;
+
+  const observations = (body[1] as WorldBankObservation[])
+    .filter(observation => typeof observation.value === 'number' && /^\d{4}$/.test(observation.date || ''))
+    .sort((a, b) => Number(b.date) - Number(a.date));
+  const latest = observations[0];
+  if (!latest) return null;
+
+  return {
+    currency,
+    period: `${latest.date}-01-01`,
+    inflation_rate: Math.round((latest.value as number) * 1000) / 100000,
+    source: `World Bank - ${latest.country?.value || WORLD_BANK_COUNTRIES[currency]} CPI ${latest.date}`
+  };
+}
+
+export const worldBank: InflationProvider = {
+  name: 'worldbank',
+
+  isConfigured: () => true,
+
+  async fetchRates(currencies: string[]): Promise<CpiRate[]> {
+    const rates: CpiRate[] = [];
+
+    for (const currency of currencies) {
+      const country = WORLD_BANK_COUNTRIES[currency];
+      if (!country) continue;
+
+      // mrnev: most recent non-empty value, since the latest year is often still null
+      const response = await fetch(`${WORLD_BANK_ENDPOINT}/${country}/indicator/${CPI_INDICATOR}?format=json&mrnev=1`);
+      if (!response.ok) {
+        throw new Error(`World Bank HTTP ${response.status} for ${currency}`);
+      }
+
+      const rate = parseWorldBankCpi(currency, await response.json());
+      if (rate) rates.push(rate);
+    }
+
+    return rates;
+  }
+};
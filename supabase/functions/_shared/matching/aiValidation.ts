@@ -0,0 +1,314 @@
+// ========================================
+// AI COMPETITOR MATCH VALIDATION
+// ========================================
+// Listings whose name similarity falls in the uncertain band are checked by the AI
+// gateway in batches; decisions are cached in ai_validation_cache per product pair.
+// Used by refresh-competitors directly and exposed on its own by validate-competitor.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export type MatchDecision = 'match' | 'accessory' | 'different_product';
+
+export interface ValidationCandidate {
+  competitor_product_name: string;
+  marketplace: string;
+  competitor_price: number;
+  similarity_score: number;
+}
+
+export interface ValidationBaseline {
+  your_product_name: string;
+  baseline_price: number;
+  // Owner of the cached decisions; nothing is cached when null
+  merchant_id: string | null;
+}
+
+export interface MatchValidation {
+  decision: MatchDecision;
+  confidence: number;
+  reasoning: string;
+  cached: boolean;
+}
+
+// ai_validation_cache row written for each fresh model decision
+interface ValidationCacheRow {
+  product_pair_hash: string;
+  your_product_name: string;
+  competitor_product_name: string;
+  marketplace: string;
+  ai_decision: MatchDecision;
+  confidence_score: number;
+  reasoning: string;
+  merchant_id: string;
+}
+
+// Below the band the listing is left to the similarity filter; above it the name match is trusted
+export const AI_VALIDATION_MIN_SIMILARITY = 0.30;
+export const AI_VALIDATION_MAX_SIMILARITY = 0.80;
+
+// Listings sent to the model per request
+export const AI_VALIDATION_BATCH_SIZE = 10;
+
+const AI_GATEWAY_URL = 'https://ai.gateway.lovable.dev/v1/chat/completions';
+const AI_MODEL = 'google/gemini-2.5-flash';
+
+export function needsAiValidation(similarity: number): boolean {
+  return similarity >= AI_VALIDATION_MIN_SIMILARITY && similarity < AI_VALIDATION_MAX_SIMILARITY;
+}
+
+export function productPairHash(yourProductName: string, competitorProductName: string, marketplace: string): string {
+  return `${yourProductName.toLowerCase().trim()}_${competitorProductName.toLowerCase().trim()}_${marketplace}`;
+}
+
+/**
+ * Reads the model's decision leniently: "DIFFERENT", "Different Product" and
+ * "different_product" all mean the same thing. Returns null for anything else.
+ */
+export function normalizeMatchDecision(value: unknown): MatchDecision | null {
+  if (typeof value !== 'string') return null;
+  const decision = value.toLowerCase().replace(/[\s_-]/g, '');
+  if (decision === 'match') return 'match';
+  if (decision === 'accessory') return 'accessory';
+  if (decision === 'differentproduct' || decision === 'different') return 'different_product';
+  return null;
+}
+
+/**
+ * Decision used outside the AI band, and inside it when the model is unavailable
+ */
+export function ruleBasedValidation(similarity: number): MatchValidation {
+  if (similarity >= AI_VALIDATION_MAX_SIMILARITY) {
+    return {
+      decision: 'match',
+      confidence: similarity,
+      reasoning: 'High similarity score indicates strong product match',
+      cached: false
+    };
+  }
+  if (similarity < AI_VALIDATION_MIN_SIMILARITY) {
+    return {
+      decision: 'different_product',
+      confidence: similarity,
+      reasoning: 'Low confidence - should try alternative marketplaces or Google fallback',
+      cached: false
+    };
+  }
+  return {
+    decision: similarity > 0.50 ? 'match' : 'different_product',
+    confidence: similarity,
+    reasoning: 'AI unavailable, using rule-based decision',
+    cached: false
+  };
+}
+
+function buildBatchPrompt(baseline: ValidationBaseline, candidates: ValidationCandidate[]): string {
+  const listings = candidates.map((candidate, index) =>
+    `${index + 1}. "${candidate.competitor_product_name}" | Price: $${candidate.competitor_price} | Marketplace: ${candidate.marketplace} | Similarity: ${(candidate.similarity_score * 100).toFixed(0)}%`
+  ).join('\n');
+
+  return `You are a product matching expert for e-commerce competitive analysis.
+
+TASK: For each competitor listing, determine if it is the SAME product, an ACCESSORY, or a DIFFERENT product.
+
+YOUR PRODUCT: "${baseline.your_product_name}"
+Price: $${baseline.baseline_price}
+
+COMPETITOR LISTINGS:
+${listings}
+
+RULES:
+1. match - Same product model/brand (e.g., "iPhone 14 Pro" vs "Apple iPhone 14 Pro Max" = match)
+2. accessory - Related accessory or replacement part (e.g., "iPhone 14" vs "iPhone 14 Case" = accessory)
+3. different_product - Completely different product (e.g., "iPhone 14" vs "Samsung Galaxy S23" = different_product)
+
+CRITICAL: Always use lowercase for decision values. Never use DIFFERENT, MATCH, ACCESSORY - use lowercase with underscore.
+
+Consider:
+- Brand names (Apple vs Samsung)
+- Model numbers (iPhone 14 vs iPhone 13)
+- Product type (phone vs case vs charger)
+- Price reasonableness (accessories should be much cheaper)
+
+Respond with a JSON array containing one entry per listing, in the same order:
+[
+  {
+    "index": 1,
+    "decision": "match|accessory|different_product",
+    "confidence": 0.0-1.0,
+    "reasoning": "Brief explanation (1-2 sentences)"
+  }
+]`;
+}
+
+/**
+ * One gateway request for up to AI_VALIDATION_BATCH_SIZE listings.
+ * Entries the model skipped or answered unreadably come back as null.
+ */
+async function requestAiDecisions(
+  baseline: ValidationBaseline,
+  candidates: ValidationCandidate[]
+): Promise<(MatchValidation | null)[]> {
+  const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
+  if (!LOVABLE_API_KEY) {
+    throw new Error('LOVABLE_API_KEY not configured');
+  }
+
+  const aiResponse = await fetch(AI_GATEWAY_URL, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${LOVABLE_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: AI_MODEL,
+      messages: [
+        { role: 'system', content: 'You are a product matching expert. Always respond with valid JSON.' },
+        { role: 'user', content: buildBatchPrompt(baseline, candidates) }
+      ],
+      temperature: 0.3,
+    }),
+  });
+
+  if (!aiResponse.ok) {
+    const errorText = await aiResponse.text();
+    throw new Error(`AI gateway error ${aiResponse.status}: ${errorText.slice(0, 200)}`);
+  }
+
+  const aiData = await aiResponse.json();
+  const aiContent: string = aiData.choices?.[0]?.message?.content || '';
+
+  const jsonMatch = aiContent.match(/\[[\s\S]*\]/);
+  if (!jsonMatch) {
+    throw new Error('AI response not in JSON format');
+  }
+
+  const entries: unknown[] = JSON.parse(jsonMatch[0]);
+  const decisions: (MatchValidation | null)[] = candidates.map(() => null);
+
+  entries.forEach((entry, position) => {
+    if (!entry || typeof entry !== 'object') return;
+    const { index, decision, confidence, reasoning } = entry as Record<string, unknown>;
+    const slot = typeof index === 'number' ? index - 1 : position;
+    const normalized = normalizeMatchDecision(decision);
+    if (slot < 0 || slot >= candidates.length || !normalized) return;
+
+    decisions[slot] = {
+      decision: normalized,
+      confidence: Math.min(Math.max(Number(confidence) || 0, 0), 1),
+      reasoning: typeof reasoning === 'string' ? reasoning : '',
+      cached: false
+    };
+  });
+
+  return decisions;
+}
+
+/**
+ * Validate competitor listings against the merchant's product.
+ * Listings outside the AI band get the rule-based decision. Inside it, cached decisions
+ * are reused and the rest go to the model in batches, falling back to the rules for any
+ * batch that fails. Results are returned in the order of `candidates`.
+ */
+export async function validateCompetitorMatches(
+  supabase: SupabaseClient,
+  baseline: ValidationBaseline,
+  candidates: ValidationCandidate[]
+): Promise<MatchValidation[]> {
+  const results: (MatchValidation | null)[] = candidates.map(candidate =>
+    needsAiValidation(candidate.similarity_score) ? null : ruleBasedValidation(candidate.similarity_score)
+  );
+
+  const pending = candidates
+    .map((candidate, index) => ({
+      candidate,
+      index,
+      hash: productPairHash(baseline.your_product_name, candidate.competitor_product_name, candidate.marketplace)
+    }))
+    .filter(item => results[item.index] === null);
+
+  if (pending.length === 0) return results as MatchValidation[];
+
+  // Cached decisions first
+  const { data: cachedRows, error: cacheError } = await supabase
+    .from('ai_validation_cache')
+    .select('id, product_pair_hash, ai_decision, confidence_score, reasoning, hit_count')
+    .in('product_pair_hash', [...new Set(pending.map(item => item.hash))])
+    .gt('expires_at', new Date().toISOString());
+
+  if (cacheError) {
+    console.log(`   ⚠️ AI validation cache lookup failed: ${cacheError.message}`);
+  }
+
+  const cachedByHash = new Map((cachedRows || []).map(row => [row.product_pair_hash, row]));
+  const uncached: typeof pending = [];
+
+  for (const item of pending) {
+    const cached = cachedByHash.get(item.hash);
+    const decision = cached ? normalizeMatchDecision(cached.ai_decision) : null;
+    if (cached && decision) {
+      results[item.index] = {
+        decision,
+        confidence: Number(cached.confidence_score),
+        reasoning: cached.reasoning || '',
+        cached: true
+      };
+    } else {
+      uncached.push(item);
+    }
+  }
+
+  for (const cached of cachedByHash.values()) {
+    await supabase
+      .from('ai_validation_cache')
+      .update({ hit_count: (cached.hit_count || 0) + 1 })
+      .eq('id', cached.id);
+  }
+
+  if (cachedByHash.size > 0) {
+    console.log(`   🤖 ${pending.length - uncached.length} AI decision(s) from cache`);
+  }
+
+  // Then the model, in batches
+  const newCacheRows: ValidationCacheRow[] = [];
+
+  for (let start = 0; start < uncached.length; start += AI_VALIDATION_BATCH_SIZE) {
+    const batch = uncached.slice(start, start + AI_VALIDATION_BATCH_SIZE);
+    let decisions: (MatchValidation | null)[] = batch.map(() => null);
+
+    try {
+      decisions = await requestAiDecisions(baseline, batch.map(item => item.candidate));
+    } catch (error) {
+      console.log(`   ⚠️ AI validation batch failed, using rule-based decisions: ${error instanceof Error ? error.message : error}`);
+    }
+
+    batch.forEach((item, position) => {
+      const decision = decisions[position];
+      results[item.index] = decision || ruleBasedValidation(item.candidate.similarity_score);
+
+      if (decision && baseline.merchant_id) {
+        newCacheRows.push({
+          product_pair_hash: item.hash,
+          your_product_name: baseline.your_product_name,
+          competitor_product_name: item.candidate.competitor_product_name,
+          marketplace: item.candidate.marketplace,
+          ai_decision: decision.decision,
+          confidence_score: decision.confidence,
+          reasoning: decision.reasoning,
+          merchant_id: baseline.merchant_id,
+        });
+      }
+    });
+  }
+
+  if (newCacheRows.length > 0) {
+    const { error: insertError } = await supabase
+      .from('ai_validation_cache')
+      .upsert(newCacheRows, { onConflict: 'product_pair_hash', ignoreDuplicates: true });
+
+    if (insertError) {
+      console.log(`   ⚠️ Failed to cache AI decisions: ${insertError.message}`);
+    }
+  }
+
+  return results as MatchValidation[];
+}
@@ -0,0 +1,88 @@
+// ========================================
+// ATTRIBUTE EXTRACTION & VARIANT MATCHING TESTS
+// ========================================
+//   deno test supabase/functions/_shared/matching
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { extractProductAttributes, isVariantMismatch, variantMatchScore } from './attributes.ts';
+
+Deno.test('extractProductAttributes: phone line, tier, storage and color', () => {
+  assertEquals(extractProductAttributes('Apple iPhone 15 Pro (256 GB) - Natural Titanium'), {
+    brand: 'apple',
+    line: 'iphone',
+    tier: 'pro',
+    generation: 15,
+    modelNumbers: [],
+    storageGb: 256,
+    size: null,
+    packCount: 1,
+    color: 'natural titanium'
+  });
+});
+
+Deno.test('extractProductAttributes: RAM and the 5G network are not storage or weight', () => {
+  const attributes = extractProductAttributes('Samsung Galaxy S24 Ultra 5G 12GB RAM 512GB');
+  assertEquals(attributes.storageGb, 512);
+  assertEquals(attributes.size, null);
+  assertEquals(attributes.tier, 'ultra');
+});
+
+Deno.test('extractProductAttributes: sizes and volumes', () => {
+  assertEquals(extractProductAttributes('Dior Sauvage Eau de Parfum 100ml').size, { value: 100, unit: 'ml' });
+  assertEquals(extractProductAttributes('Dior Sauvage EDP 3.4 fl oz').size, { value: 3.4, unit: 'oz' });
+  assertEquals(extractProductAttributes('Nutella Hazelnut Spread 1kg').size, { value: 1000, unit: 'g' });
+  assertEquals(extractProductAttributes('Mineral Water 1.5 L').size, { value: 1500, unit: 'ml' });
+  assertEquals(extractProductAttributes('Samsung 65" QLED 4K TV').size, { value: 65, unit: 'inch' });
+});
+
+Deno.test('extractProductAttributes: pack counts', () => {
+  assertEquals(extractProductAttributes('Coca-Cola 6 x 330ml cans').packCount, 6);
+  assertEquals(extractProductAttributes('Duracell AA Batteries, Pack of 12').packCount, 12);
+  assertEquals(extractProductAttributes('Pampers Baby Wipes 4-Pack').packCount, 4);
+  assertEquals(extractProductAttributes('Pampers Baby Wipes').packCount, 1);
+});
+
+Deno.test('extractProductAttributes: model codes and generations', () => {
+  assertEquals(extractProductAttributes('Sony WH-1000XM5 Wireless Headphones').modelNumbers, ['wh1000xm5']);
+  assertEquals(extractProductAttributes('AirPods Pro (2nd generation)').generation, 2);
+  assertEquals(extractProductAttributes('Apple Watch Series 9 45mm').generation, 9);
+});
+
+Deno.test('variantMatchScore: rejects other sizes, packs and models', () => {
+  const cases: [string, string, string[]][] = [
+    ['Dior Sauvage Eau de Parfum 100ml', 'Dior Sauvage EDP 50 ml', ['size']],
+    ['Coca-Cola Can 330ml', 'Coca-Cola 6 x 330ml cans', ['packCount']],
+    ['Apple iPhone 15 Pro 256GB', 'Apple iPhone 15 Pro 128GB', ['storageGb']],
+    ['Apple iPhone 15 Pro 256GB', 'Apple iPhone 14 Pro 256GB', ['generation']],
+    ['Apple iPhone 15 Pro 256GB', 'Apple iPhone 15 Pro Max 256GB', ['tier']],
+    ['Sony WH-1000XM5 Headphones', 'Sony WH1000XM4 Headphones', ['modelNumbers']],
+    ['Samsung Galaxy Z Fold 5', 'Samsung Galaxy Z Flip 5', ['line']]
+  ];
+
+  for (const [baseline, competitor, mismatches] of cases) {
+    assertEquals(variantMatchScore(0.9, baseline, competitor), { score: 0, mismatches }, `${baseline} vs ${competitor}`);
+    assertEquals(isVariantMismatch(baseline, competitor), true);
+  }
+});
+
+Deno.test('variantMatchScore: accepts the same variant written differently', () => {
+  const cases: [string, string][] = [
+    ['Dior Sauvage Eau de Parfum 100ml', 'Dior Sauvage EDP 3.4 oz'],
+    ['Coca-Cola 6 x 330ml cans', 'Coca Cola Pack of 6 330ml'],
+    ['Samsung 55" QLED Q60C', 'Samsung 55 inch QLED QA55Q60CAUXZN'],
+    ['Samsung 1TB Portable SSD T7', 'Samsung 1024GB Portable SSD T7'],
+    // Nothing to compare on one side
+    ['Apple iPhone 15 Pro 256GB', 'iPhone 15 Pro']
+  ];
+
+  for (const [baseline, competitor] of cases) {
+    assertEquals(variantMatchScore(0.9, baseline, competitor), { score: 0.9, mismatches: [] }, `${baseline} vs ${competitor}`);
+    assertEquals(isVariantMismatch(baseline, competitor), false);
+  }
+});
+
+Deno.test('variantMatchScore: a different color only lowers the score', () => {
+  const result = variantMatchScore(0.9, 'Apple iPhone 15 Pro 256GB Blue Titanium', 'Apple iPhone 15 Pro 256GB Black Titanium');
+  assertEquals(result.mismatches, ['color']);
+  assertEquals(Math.round(result.score * 100) / 100, 0.81);
+});
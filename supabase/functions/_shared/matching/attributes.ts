@@ -0,0 +1,301 @@
+// ========================================
+// PRODUCT ATTRIBUTE EXTRACTION & VARIANT MATCHING
+// ========================================
+// Name similarity alone can't tell a 50ml perfume from the 100ml bottle, or a 6-pack
+// from a single unit. These helpers pull the variant attributes out of a listing title
+// and compare them, for every category.
+
+export type SizeUnit = 'ml' | 'g' | 'oz' | 'inch';
+
+export interface ProductSize {
+  value: number;
+  // 'oz' is kept as written: fluid ounces for liquids, ounces for weight
+  unit: SizeUnit;
+}
+
+export interface ProductAttributes {
+  brand: string | null;
+  // Product line with a numbered generation, e.g. iphone 15, galaxy s24
+  line: string | null;
+  // Tier within the line: pro, pro max, ultra, ...
+  tier: string | null;
+  generation: number | null;
+  // Alphanumeric model codes with separators removed, e.g. wh1000xm5
+  modelNumbers: string[];
+  storageGb: number | null;
+  size: ProductSize | null;
+  packCount: number;
+  color: string | null;
+}
+
+export interface VariantComparison {
+  // Multiplier for the name similarity: 0 on a hard mismatch, 1 when nothing conflicts
+  score: number;
+  // Attributes that differ, e.g. ['size', 'packCount']
+  mismatches: (keyof ProductAttributes)[];
+}
+
+const KNOWN_BRANDS = [
+  'apple', 'samsung', 'huawei', 'xiaomi', 'oppo', 'vivo', 'realme', 'oneplus', 'honor', 'nokia', 'google',
+  'motorola', 'sony', 'lg', 'panasonic', 'philips', 'tcl', 'hisense', 'toshiba', 'sharp',
+  'dell', 'hp', 'lenovo', 'asus', 'acer', 'msi', 'microsoft', 'razer', 'logitech',
+  'bose', 'jbl', 'sennheiser', 'anker', 'canon', 'nikon', 'fujifilm', 'gopro', 'dji',
+  'nintendo', 'dyson', 'braun', 'tefal', 'kenwood', 'delonghi',
+  'nike', 'adidas', 'puma', 'reebok', 'new balance', 'skechers',
+  'chanel', 'dior', 'gucci', 'versace', 'armani', 'prada', 'lancome', 'yves saint laurent', 'ysl',
+  'calvin klein', 'hugo boss', 'tom ford', 'burberry', 'givenchy', 'loreal', "l'oreal", 'nivea',
+  'maybelline', 'garnier', 'dove', 'pampers', 'huggies', 'almarai'
+];
+
+// Line names that take a generation number and a tier, checked in order
+const PRODUCT_LINES: { line: string; pattern: RegExp }[] = [
+  { line: 'iphone-air', pattern: /iphone\s*air/ },
+  { line: 'iphone', pattern: /iphone\s*(\d+)\s*(pro\s*max|pro|plus|mini|e)?\b/ },
+  { line: 'galaxy-s', pattern: /galaxy\s*s(\d+)\s*(ultra|plus|\+|fe)?/ },
+  { line: 'galaxy-a', pattern: /galaxy\s*a(\d+)/ },
+  { line: 'galaxy-z-fold', pattern: /galaxy\s*z\s*fold\s*(\d+)/ },
+  { line: 'galaxy-z-flip', pattern: /galaxy\s*z\s*flip\s*(\d+)/ },
+  { line: 'pixel', pattern: /pixel\s*(\d+)\s*(pro\s*xl|pro\s*fold|pro|a)?\b/ },
+  { line: 'ipad', pattern: /ipad\s*(pro|air|mini)?\s*(?:\(?\s*(\d+)(?:st|nd|rd|th)\s*gen)/ }
+];
+
+// Lines sold in tiers (iPhone 15 vs 15 Pro vs 15 Pro Max)
+const TIERED_LINES = ['iphone', 'galaxy-s', 'pixel'];
+
+const COLORS = [
+  'black', 'white', 'silver', 'gold', 'rose gold', 'space gray', 'space grey', 'gray', 'grey',
+  'blue', 'navy', 'red', 'green', 'yellow', 'orange', 'pink', 'purple', 'brown', 'beige',
+  'titanium', 'natural titanium', 'black titanium', 'white titanium', 'blue titanium', 'desert titanium',
+  'midnight', 'starlight', 'graphite', 'cream', 'lavender', 'mint',
+  'أسود', 'أبيض', 'فضي', 'ذهبي', 'أزرق', 'أحمر', 'أخضر', 'وردي'
+];
+
+const FLUID_OUNCE_ML = 29.5735;
+const OUNCE_G = 28.3495;
+
+// Sizes within this fraction of each other are the same (3.4 fl oz vs 100ml)
+const SIZE_TOLERANCE = 0.05;
+
+// Similarity multiplier when only the color differs
+const COLOR_MISMATCH_SCORE = 0.9;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function findKnownTerm(text: string, terms: string[]): string | null {
+  // Longest first, so "rose gold" wins over "gold"
+  const sorted = [...terms].sort((a, b) => b.length - a.length);
+  for (const term of sorted) {
+    if (new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(term)}($|[^\\p{L}\\p{N}])`, 'u').test(text)) {
+      return term;
+    }
+  }
+  return null;
+}
+
+function extractBrand(text: string): string | null {
+  const brand = findKnownTerm(text, KNOWN_BRANDS);
+  if (brand) return brand === 'ysl' ? 'yves saint laurent' : brand.replace("'", '');
+  // The product lines imply their maker
+  if (/\b(iphone|ipad|airpods|macbook|imac)\b/.test(text)) return 'apple';
+  if (/\bgalaxy\b/.test(text)) return 'samsung';
+  if (/\bpixel\b/.test(text)) return 'google';
+  return null;
+}
+
+function extractLine(text: string): Pick<ProductAttributes, 'line' | 'tier' | 'generation'> {
+  for (const { line, pattern } of PRODUCT_LINES) {
+    const match = text.match(pattern);
+    if (!match) continue;
+
+    if (line === 'iphone-air') return { line, tier: null, generation: null };
+    if (line === 'ipad') {
+      return { line, tier: match[1] || 'standard', generation: match[2] ? parseInt(match[2]) : null };
+    }
+
+    const tier = TIERED_LINES.includes(line)
+      ? (match[2] || 'standard').replace(/\s+/g, ' ').replace('+', 'plus').trim()
+      : null;
+    return { line, tier, generation: parseInt(match[1]) };
+  }
+
+  // Generic "2nd generation", "gen 3", "series 9"
+  const generic = text.match(/\b(\d+)(?:st|nd|rd|th)\s*gen(?:eration)?\b/)
+    || text.match(/\bgen(?:eration)?\s*(\d+)\b/)
+    || text.match(/\bseries\s*(\d+)\b/);
+  return { line: null, tier: null, generation: generic ? parseInt(generic[1]) : null };
+}
+
+function extractStorageGb(text: string): number | null {
+  const sizes = [...text.matchAll(/(\d+(?:\.\d+)?)\s*(gb|tb)\b/g)]
+    .map(match => parseFloat(match[1]) * (match[2] === 'tb' ? 1024 : 1));
+  // Phones list RAM alongside storage ("8GB RAM 256GB"); storage is the larger figure
+  return sizes.length > 0 ? Math.max(...sizes) : null;
+}
+
+function extractSize(text: string): ProductSize | null {
+  const volume = text.match(/(\d+(?:\.\d+)?)\s*(ml|millilit(?:er|re)s?|l|lit(?:er|re)s?|مل)(?![\p{L}])/u);
+  if (volume) {
+    const value = parseFloat(volume[1]);
+    const isLiters = /^(l|lit)/.test(volume[2]);
+    return { value: isLiters ? value * 1000 : value, unit: 'ml' };
+  }
+
+  const ounces = text.match(/(\d+(?:\.\d+)?)\s*(?:fl\.?\s*)?(?:oz|ounces?)\b/);
+  if (ounces) return { value: parseFloat(ounces[1]), unit: 'oz' };
+
+  // "5G" on a phone is the network, not 5 grams
+  const weight = [...text.matchAll(/(\d+(?:\.\d+)?)(\s*)(g|grams?|kg|kilograms?|lbs?|pounds?|جم|غرام|كجم)(?![\p{L}\p{N}])/gu)]
+    .find(match => !(match[3] === 'g' && match[2] === '' && /^[2-6]$/.test(match[1])));
+  if (weight) {
+    const value = parseFloat(weight[1]);
+    const unit = weight[3];
+    if (/^(kg|kilo|كجم)/.test(unit)) return { value: value * 1000, unit: 'g' };
+    if (/^(lb|pound)/.test(unit)) return { value: value * 453.592, unit: 'g' };
+    return { value, unit: 'g' };
+  }
+
+  const screen = text.match(/(\d+(?:\.\d+)?)\s*(?:"|″|-?\s*inch(?:es)?\b|بوصة)/);
+  if (screen) return { value: parseFloat(screen[1]), unit: 'inch' };
+
+  return null;
+}
+
+function extractPackCount(text: string): number {
+  const patterns = [
+    /\b(?:pack|set|box|case)\s*of\s*(\d+)\b/,
+    /\b(\d+)\s*-?\s*(?:pack|pk|count|ct|pcs|pieces|units)\b/,
+    /\b(\d+)\s*[x×]\s*\d/,
+    /(?:^|\s)[x×]\s*(\d+)\b/,
+    /(\d+)\s*(?:حبة|قطع|عبوات)/
+  ];
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) {
+      const count = parseInt(match[1]);
+      if (count > 1 && count <= 500) return count;
+    }
+  }
+  return 1;
+}
+
+function extractModelNumbers(text: string): string[] {
+  const codes = text
+    .split(/[\s,/()[\]|]+/)
+    .map(token => token.replace(/[-_.]/g, ''))
+    .filter(token =>
+      token.length >= 4
+      && /\d/.test(token)
+      && /[a-z]/.test(token)
+      // Units, not model codes
+      && !/^\d+(?:gb|tb|mb|ml|l|g|kg|oz|mm|cm|mah|hz|w|v|k|p|inch|pack|pk|pcs|ct|x\d+)$/.test(token)
+      && !/^\d+(?:st|nd|rd|th)$/.test(token)
+      && !/^\d+x\d+[a-z]*$/.test(token)
+      && !/^\d+g$/.test(token)
+    );
+  return [...new Set(codes)];
+}
+
+/**
+ * Pull brand, model codes and variant attributes out of a listing title
+ */
+export function extractProductAttributes(productName: string): ProductAttributes {
+  const text = productName.toLowerCase();
+  return {
+    brand: extractBrand(text),
+    ...extractLine(text),
+    modelNumbers: extractModelNumbers(text),
+    storageGb: extractStorageGb(text),
+    size: extractSize(text),
+    packCount: extractPackCount(text),
+    color: findKnownTerm(text, COLORS)
+  };
+}
+
+export function sizeInUnit(size: ProductSize, unit: SizeUnit): number | null {
+  if (size.unit === unit) return size.value;
+  if (size.unit === 'oz' && unit === 'ml') return size.value * FLUID_OUNCE_ML;
+  if (size.unit === 'oz' && unit === 'g') return size.value * OUNCE_G;
+  if (size.unit === 'ml' && unit === 'oz') return size.value / FLUID_OUNCE_ML;
+  if (size.unit === 'g' && unit === 'oz') return size.value / OUNCE_G;
+  return null;
+}
+
+export function isSameSize(a: ProductSize, b: ProductSize): boolean {
+  const converted = sizeInUnit(b, a.unit);
+  // ml against g (or inches against anything) can't be compared; don't call it a mismatch
+  if (converted === null) return true;
+  return Math.abs(a.value - converted) <= Math.max(a.value, converted) * SIZE_TOLERANCE;
+}
+
+function modelNumbersConflict(a: string[], b: string[]): boolean {
+  if (a.length === 0 || b.length === 0) return false;
+  // Sellers add or drop region suffixes (qe55q60c vs q60c), so containment counts as a match
+  return !a.some(codeA => b.some(codeB => codeA.includes(codeB) || codeB.includes(codeA)));
+}
+
+/**
+ * Compare a competitor listing's attributes with the merchant's product.
+ * Attributes missing on either side are not held against the listing.
+ */
+export function compareProductAttributes(
+  baseline: ProductAttributes,
+  competitor: ProductAttributes,
+  ignore: (keyof ProductAttributes)[] = []
+): VariantComparison {
+  let mismatches: (keyof ProductAttributes)[] = [];
+
+  if (baseline.brand && competitor.brand && baseline.brand !== competitor.brand) mismatches.push('brand');
+  if (baseline.line && competitor.line && baseline.line !== competitor.line) mismatches.push('line');
+  if (baseline.line && baseline.line === competitor.line && baseline.tier && competitor.tier
+    && baseline.tier.replace(/\s+/g, '') !== competitor.tier.replace(/\s+/g, '')) {
+    mismatches.push('tier');
+  }
+  if (baseline.generation !== null && competitor.generation !== null && baseline.generation !== competitor.generation) {
+    mismatches.push('generation');
+  }
+  if (modelNumbersConflict(baseline.modelNumbers, competitor.modelNumbers)) mismatches.push('modelNumbers');
+  if (baseline.storageGb !== null && competitor.storageGb !== null && baseline.storageGb !== competitor.storageGb) {
+    mismatches.push('storageGb');
+  }
+  if (baseline.size && competitor.size && !isSameSize(baseline.size, competitor.size)) mismatches.push('size');
+  if (baseline.packCount !== competitor.packCount) mismatches.push('packCount');
+  mismatches = mismatches.filter(attribute => !ignore.includes(attribute));
+
+  const hardMismatch = mismatches.length > 0;
+
+  if (baseline.color && competitor.color && baseline.color !== competitor.color) mismatches.push('color');
+
+  let score = 1;
+  if (hardMismatch) {
+    score = 0;
+  } else if (mismatches.includes('color')) {
+    score = COLOR_MISMATCH_SCORE;
+  }
+
+  return { score, mismatches };
+}
+
+/**
+ * Name similarity adjusted for variants: 0 when the listing is a different size, pack,
+ * storage, generation or model; slightly lower when only the color differs.
+ * @param ignore - Attributes allowed to differ, e.g. size and pack count when prices are unit-normalized
+ */
+export function variantMatchScore(
+  similarity: number,
+  baselineName: string,
+  competitorName: string,
+  ignore: (keyof ProductAttributes)[] = []
+): VariantComparison {
+  const comparison = compareProductAttributes(
+    extractProductAttributes(baselineName),
+    extractProductAttributes(competitorName),
+    ignore
+  );
+  return { ...comparison, score: similarity * comparison.score };
+}
+
+export function isVariantMismatch(baselineName: string, competitorName: string): boolean {
+  return variantMatchScore(1, baselineName, competitorName).score === 0;
+}
@@ -0,0 +1,92 @@
+// ========================================
+// PREDICTION SCORING & CALIBRATION TESTS
+// ========================================
+//   deno test supabase/functions/_shared/pricing
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { buildCalibrationReport, CalibrationRecord, scorePerformance } from './calibration.ts';
+
+function record(overrides: Partial<CalibrationRecord>): CalibrationRecord {
+  return {
+    predicted_sales: 100,
+    actual_sales: 100,
+    expected_monthly_profit: 1000,
+    actual_profit: 1000,
+    zone: 'B',
+    category: 'Electronics & Technology',
+    market_confidence: 'high',
+    market_potential: 2.2,
+    baseline_quantity: 50,
+    sales_accuracy_score: 0,
+    profit_accuracy_score: 0,
+    ...overrides
+  };
+}
+
+Deno.test('scorePerformance: relative error, capped at 1, null without actuals', () => {
+  assertEquals(
+    scorePerformance({ predicted_sales: 100, actual_sales: 80, expected_monthly_profit: 1000, actual_profit: 1250 }),
+    { sales_accuracy_score: 0.2, profit_accuracy_score: 0.25 }
+  );
+  assertEquals(
+    scorePerformance({ predicted_sales: 100, actual_sales: 400, expected_monthly_profit: null, actual_profit: 900 }),
+    { sales_accuracy_score: 1, profit_accuracy_score: null }
+  );
+  assertEquals(
+    scorePerformance({ predicted_sales: 0, actual_sales: 0, expected_monthly_profit: 500, actual_profit: null }),
+    { sales_accuracy_score: 0, profit_accuracy_score: null }
+  );
+});
+
+Deno.test('buildCalibrationReport: zone multipliers judged by the volume that followed', () => {
+  const report = buildCalibrationReport([
+    // Zone A promised 3.5x the baseline volume but delivered 1.5x
+    record({ zone: 'A', market_potential: 3.5, baseline_quantity: 100, actual_sales: 150 }),
+    record({ zone: 'A', market_potential: 3.5, baseline_quantity: 100, actual_sales: 140 }),
+    record({ zone: 'A', market_potential: 3.5, baseline_quantity: 100, actual_sales: 160 }),
+    // Zone B promised 2.2x and delivered about that
+    record({ zone: 'B', market_potential: 2.2, baseline_quantity: 100, actual_sales: 220 }),
+    record({ zone: 'B', market_potential: 2.2, baseline_quantity: 100, actual_sales: 210 }),
+    record({ zone: 'B', market_potential: 2.2, baseline_quantity: 100, actual_sales: 230 }),
+    // Zone C assumed flat volume and sold more
+    record({ zone: 'C', market_potential: 1, baseline_quantity: 100, actual_sales: 140 }),
+    record({ zone: 'C', market_potential: 1, baseline_quantity: 100, actual_sales: 130 }),
+    record({ zone: 'C', market_potential: 1, baseline_quantity: 100, actual_sales: 150 })
+  ]);
+
+  assertEquals(report.scored, 9);
+  assertEquals(report.byZone.map(group => [group.key, group.verdict]), [
+    ['Zone A', 'over_optimistic'],
+    ['Zone B', 'calibrated'],
+    ['Zone C', 'under_optimistic']
+  ]);
+  assertEquals(report.byZone[0].assumedMultiplier, 3.5);
+  assertEquals(report.byZone[0].realizedMultiplier, 1.5);
+});
+
+Deno.test('buildCalibrationReport: groups by category and confidence, skips records without actuals', () => {
+  const report = buildCalibrationReport([
+    record({ category: 'Fashion & Apparel', market_confidence: 'low', actual_sales: 60, sales_accuracy_score: 0.4 }),
+    record({ category: 'Fashion & Apparel', market_confidence: 'high', actual_sales: 120, sales_accuracy_score: 0.2 }),
+    record({ category: 'Pet Supplies', market_confidence: 'high', actual_sales: null, sales_accuracy_score: null })
+  ]);
+
+  assertEquals(report.scored, 2);
+  assertEquals(report.byCategory.map(group => group.key), ['Fashion & Apparel']);
+  assertEquals(report.byCategory[0].meanSalesError, 0.3);
+  assertEquals(report.byCategory[0].salesBias, -0.1);
+  assertEquals(report.byCategory[0].verdict, 'insufficient_data');
+  assertEquals(report.byConfidence.map(group => group.key), ['high', 'low']);
+});
+
+Deno.test('buildCalibrationReport: falls back to the sales prediction without baseline volume', () => {
+  const report = buildCalibrationReport([
+    record({ baseline_quantity: null, actual_sales: 60 }),
+    record({ baseline_quantity: null, actual_sales: 70 }),
+    record({ baseline_quantity: null, actual_sales: 65 })
+  ]);
+
+  assertEquals(report.overall.realizedMultiplier, null);
+  assertEquals(report.overall.salesBias, -0.35);
+  assertEquals(report.overall.verdict, 'over_optimistic');
+});
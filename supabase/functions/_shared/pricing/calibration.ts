@@ -0,0 +1,161 @@
+// ========================================
+// PREDICTION SCORING & CALIBRATION
+// ========================================
+// Every pricing run records what it predicted in pricing_performance; merchants
+// later report what actually sold (SalesHistory). score-pricing-performance fills
+// the accuracy columns from those pairs and the admin calibration report groups
+// them by zone, category and market-data confidence. The zone comparison checks
+// the volume multipliers from getZoneMultipliers against the volume that followed.
+
+export interface PerformanceOutcome {
+  predicted_sales: number;
+  actual_sales: number | null;
+  expected_monthly_profit: number | null;
+  actual_profit: number | null;
+}
+
+// Relative error of a prediction: 0 is exact, capped at 1.
+// AdminPerformance shows 1 - score as the accuracy percentage.
+export interface AccuracyScores {
+  sales_accuracy_score: number | null;
+  profit_accuracy_score: number | null;
+}
+
+export interface CalibrationRecord extends PerformanceOutcome {
+  zone: string | null;
+  category: string | null;
+  market_confidence: string | null;
+  // Volume multiplier the zone assumed (zone C is 1)
+  market_potential: number | null;
+  // Monthly units sold before the suggestion
+  baseline_quantity: number | null;
+  sales_accuracy_score: number | null;
+  profit_accuracy_score: number | null;
+}
+
+export type CalibrationVerdict = 'over_optimistic' | 'under_optimistic' | 'calibrated' | 'insufficient_data';
+
+export interface CalibrationGroup {
+  key: string;
+  records: number;
+  meanSalesError: number | null;
+  meanProfitError: number | null;
+  // Median actual / predicted - 1: negative when sales came in below the prediction
+  salesBias: number | null;
+  profitBias: number | null;
+  // Median volume multiplier assumed and the one that followed (actual / baseline quantity)
+  assumedMultiplier: number | null;
+  realizedMultiplier: number | null;
+  verdict: CalibrationVerdict;
+}
+
+export interface CalibrationReport {
+  scored: number;
+  overall: CalibrationGroup;
+  byZone: CalibrationGroup[];
+  byCategory: CalibrationGroup[];
+  byConfidence: CalibrationGroup[];
+}
+
+// Fewer scored records than this in a group say nothing about calibration
+export const MIN_CALIBRATION_RECORDS = 3;
+// Realized volume within ±15% of the assumed multiplier counts as calibrated
+export const CALIBRATION_TOLERANCE = 0.15;
+
+const round = (value: number, digits = 4) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+function relativeError(predicted: number | null, actual: number | null): number | null {
+  if (predicted === null || actual === null) return null;
+  if (predicted === 0) return actual === 0 ? 0 : 1;
+  return round(Math.min(1, Math.abs(actual - predicted) / Math.abs(predicted)));
+}
+
+/**
+ * Accuracy scores for one performance record; null where the actual isn't known yet
+ */
+export function scorePerformance(outcome: PerformanceOutcome): AccuracyScores {
+  return {
+    sales_accuracy_score: relativeError(outcome.predicted_sales, outcome.actual_sales),
+    profit_accuracy_score: relativeError(outcome.expected_monthly_profit, outcome.actual_profit)
+  };
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function mean(values: number[]): number | null {
+  return values.length === 0 ? null : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+const present = (values: (number | null)[]) => values.filter((value): value is number => value !== null);
+const roundOrNull = (value: number | null) => (value === null ? null : round(value));
+
+function summarize(key: string, records: CalibrationRecord[]): CalibrationGroup {
+  const salesRatios = records
+    .filter(r => r.actual_sales !== null && r.predicted_sales > 0)
+    .map(r => r.actual_sales! / r.predicted_sales);
+  const profitRatios = records
+    .filter(r => r.actual_profit !== null && r.expected_monthly_profit !== null && r.expected_monthly_profit > 0)
+    .map(r => r.actual_profit! / r.expected_monthly_profit!);
+  const withVolume = records.filter(r =>
+    r.actual_sales !== null && r.market_potential !== null && r.baseline_quantity !== null && r.baseline_quantity > 0
+  );
+
+  const salesRatio = median(salesRatios);
+  const profitRatio = median(profitRatios);
+  const assumedMultiplier = median(withVolume.map(r => r.market_potential!));
+  const realizedMultiplier = median(withVolume.map(r => r.actual_sales! / r.baseline_quantity!));
+
+  // Judge the zone multipliers by the volume they promised; without that, by the sales prediction
+  let verdict: CalibrationVerdict = 'insufficient_data';
+  const ratio = withVolume.length >= MIN_CALIBRATION_RECORDS
+    ? median(withVolume.map(r => (r.actual_sales! / r.baseline_quantity!) / r.market_potential!))
+    : salesRatios.length >= MIN_CALIBRATION_RECORDS ? salesRatio : null;
+  if (ratio !== null) {
+    verdict = ratio < 1 - CALIBRATION_TOLERANCE
+      ? 'over_optimistic'
+      : ratio > 1 + CALIBRATION_TOLERANCE ? 'under_optimistic' : 'calibrated';
+  }
+
+  return {
+    key,
+    records: records.length,
+    meanSalesError: roundOrNull(mean(present(records.map(r => r.sales_accuracy_score)))),
+    meanProfitError: roundOrNull(mean(present(records.map(r => r.profit_accuracy_score)))),
+    salesBias: salesRatio === null ? null : round(salesRatio - 1),
+    profitBias: profitRatio === null ? null : round(profitRatio - 1),
+    assumedMultiplier: roundOrNull(assumedMultiplier),
+    realizedMultiplier: roundOrNull(realizedMultiplier),
+    verdict
+  };
+}
+
+function groupBy(records: CalibrationRecord[], keyOf: (record: CalibrationRecord) => string): CalibrationGroup[] {
+  const groups = new Map<string, CalibrationRecord[]>();
+  for (const record of records) {
+    const key = keyOf(record);
+    groups.set(key, [...(groups.get(key) || []), record]);
+  }
+  return [...groups.entries()]
+    .map(([key, members]) => summarize(key, members))
+    .sort((a, b) => b.records - a.records || a.key.localeCompare(b.key));
+}
+
+/**
+ * Calibration report over records that have actual sales; the rest are ignored
+ */
+export function buildCalibrationReport(records: CalibrationRecord[]): CalibrationReport {
+  const scored = records.filter(record => record.actual_sales !== null);
+  return {
+    scored: scored.length,
+    overall: summarize('All', scored),
+    byZone: groupBy(scored, record => record.zone ? `Zone ${record.zone}` : 'Unknown zone')
+      .sort((a, b) => a.key.localeCompare(b.key)),
+    byCategory: groupBy(scored, record => record.category || 'Uncategorized'),
+    byConfidence: groupBy(scored, record => record.market_confidence || 'unknown')
+  };
+}
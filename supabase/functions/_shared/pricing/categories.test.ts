@@ -0,0 +1,65 @@
+// ========================================
+// CATEGORY TAXONOMY TESTS
+// ========================================
+//   deno test supabase/functions/_shared/pricing
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { CATEGORY_TAXONOMY, CategoryNode, categoryOptions, resolveCategory } from './categories.ts';
+import { getZoneMultipliers } from './engine.ts';
+import { isUnitPricedCategory } from './unitPrice.ts';
+
+Deno.test('resolveCategory: subcategories inherit their parent settings', () => {
+  assertEquals(resolveCategory('Fragrances'), {
+    slug: 'health-beauty-fragrances',
+    name: 'Fragrances',
+    path: ['Health & Beauty', 'Fragrances'],
+    elasticity: -0.6,
+    zoneA: 1.8,
+    zoneB: 1.3,
+    unitPriced: true
+  });
+  assertEquals(resolveCategory('Not A Category'), null);
+});
+
+Deno.test('resolveCategory: a child setting overrides its parent', () => {
+  const taxonomy: CategoryNode[] = [
+    ...CATEGORY_TAXONOMY,
+    {
+      slug: 'electronics-refurbished',
+      name: 'Refurbished Electronics',
+      parent_slug: 'electronics',
+      elasticity: -2.1,
+      zone_a_multiplier: null,
+      zone_b_multiplier: 2.6,
+      unit_priced: null,
+      description: null,
+      sort_order: 17
+    }
+  ];
+
+  const resolved = resolveCategory('Refurbished Electronics', taxonomy);
+  assertEquals([resolved?.elasticity, resolved?.zoneA, resolved?.zoneB], [-2.1, 3.5, 2.6]);
+  assertEquals(getZoneMultipliers('Refurbished Electronics', taxonomy), { zoneA: 3.5, zoneB: 2.6 });
+});
+
+Deno.test('getZoneMultipliers and isUnitPricedCategory use the taxonomy', () => {
+  assertEquals(getZoneMultipliers('Electronics & Technology'), { zoneA: 3.5, zoneB: 2.2 });
+  assertEquals(getZoneMultipliers('Mobile Phones & Tablets'), { zoneA: 3.5, zoneB: 2.2 });
+  assertEquals(getZoneMultipliers('Groceries (Staples)'), { zoneA: 1.8, zoneB: 1.3 });
+  assertEquals(getZoneMultipliers('Fashion & Apparel'), { zoneA: 2.5, zoneB: 1.8 });
+  assertEquals(getZoneMultipliers('Unknown'), { zoneA: 2.5, zoneB: 1.8 });
+
+  assertEquals(isUnitPricedCategory('Beverages'), true);
+  assertEquals(isUnitPricedCategory('Jewelry & Watches'), false);
+});
+
+Deno.test('categoryOptions: parents first, each followed by its children', () => {
+  const options = categoryOptions();
+  assertEquals(options.length, CATEGORY_TAXONOMY.length);
+  assertEquals(options.slice(0, 3).map(option => [option.name, option.depth]), [
+    ['Electronics & Technology', 0],
+    ['Mobile Phones & Tablets', 1],
+    ['Computers & Laptops', 1]
+  ]);
+  assertEquals(options.filter(option => option.depth === 0).length, 14);
+});
@@ -0,0 +1,157 @@
+// ========================================
+// CATEGORY TAXONOMY
+// ========================================
+// One hierarchy of product categories (the categories table) used for the upload
+// pickers, suggest-category, base elasticity and the engine's zone multipliers.
+// A child leaves a setting NULL to inherit it from its parent. CATEGORY_TAXONOMY is
+// the seed the table was created with; callers that can't reach the table use it.
+
+export interface CategoryNode {
+  slug: string;
+  name: string;
+  parent_slug: string | null;
+  elasticity: number | null;
+  zone_a_multiplier: number | null;
+  zone_b_multiplier: number | null;
+  // Sold in many sizes and packs: competitor prices are normalized per unit (see unitPrice.ts)
+  unit_priced: boolean | null;
+  // Hint for the classifier in suggest-category
+  description: string | null;
+  sort_order: number;
+}
+
+// A node with inherited settings filled in
+export interface ResolvedCategory {
+  slug: string;
+  name: string;
+  // Names from the top-level category down to this one
+  path: string[];
+  elasticity: number;
+  zoneA: number;
+  zoneB: number;
+  unitPriced: boolean;
+}
+
+export interface CategoryOption {
+  name: string;
+  depth: number;
+  path: string[];
+}
+
+// Zone multipliers for a category outside the taxonomy: medium elasticity
+export const DEFAULT_ZONE_MULTIPLIERS = { zoneA: 2.5, zoneB: 1.8 };
+
+const node = (
+  slug: string,
+  name: string,
+  parent_slug: string | null,
+  sort_order: number,
+  settings: Partial<Pick<CategoryNode, 'elasticity' | 'zone_a_multiplier' | 'zone_b_multiplier' | 'unit_priced' | 'description'>> = {}
+): CategoryNode => ({
+  slug,
+  name,
+  parent_slug,
+  elasticity: settings.elasticity ?? null,
+  zone_a_multiplier: settings.zone_a_multiplier ?? null,
+  zone_b_multiplier: settings.zone_b_multiplier ?? null,
+  unit_priced: settings.unit_priced ?? null,
+  description: settings.description ?? null,
+  sort_order
+});
+
+// Zone multipliers: 3.5/2.2 for price-sensitive shoppers (tech), 1.8/1.3 for
+// brand-loyal ones (beauty, food), 2.5/1.8 otherwise
+const HIGH = { zone_a_multiplier: 3.5, zone_b_multiplier: 2.2 };
+const MEDIUM = { zone_a_multiplier: 2.5, zone_b_multiplier: 1.8 };
+const LOW = { zone_a_multiplier: 1.8, zone_b_multiplier: 1.3 };
+
+// Same rows as the seed in migration 20261019140000
+export const CATEGORY_TAXONOMY: CategoryNode[] = [
+  node('electronics', 'Electronics & Technology', null, 10, { elasticity: -1.5, ...HIGH, unit_priced: false, description: 'Consumer electronics, gadgets and appliances' }),
+  node('electronics-phones', 'Mobile Phones & Tablets', 'electronics', 11, { description: 'Smartphones, tablets and their accessories' }),
+  node('electronics-computers', 'Computers & Laptops', 'electronics', 12, { description: 'Laptops, desktops, monitors, storage and peripherals' }),
+  node('electronics-audio', 'Audio & Headphones', 'electronics', 13, { description: 'Headphones, earbuds and speakers' }),
+  node('electronics-tv', 'TVs & Home Theater', 'electronics', 14),
+  node('electronics-gaming', 'Video Games & Consoles', 'electronics', 15),
+  node('electronics-appliances', 'Home Appliances', 'electronics', 16, { description: 'Kitchen and household appliances' }),
+  node('fashion', 'Fashion & Apparel', null, 20, { elasticity: -1.2, ...MEDIUM, unit_priced: false }),
+  node('fashion-clothing', 'Clothing', 'fashion', 21),
+  node('fashion-shoes', 'Shoes', 'fashion', 22),
+  node('fashion-accessories', 'Bags & Accessories', 'fashion', 23),
+  node('luxury', 'Luxury Goods', null, 30, { elasticity: -0.4, ...MEDIUM, unit_priced: false, description: 'Designer and premium-brand goods' }),
+  node('luxury-jewelry', 'Jewelry & Watches', 'luxury', 31),
+  node('food', 'Food & Beverages', null, 40, { elasticity: -0.8, ...LOW, unit_priced: true }),
+  node('food-snacks', 'Snacks & Confectionery', 'food', 41),
+  node('food-beverages', 'Beverages', 'food', 42, { description: 'Soft drinks, juices, coffee and tea' }),
+  node('health-beauty', 'Health & Beauty', null, 50, { elasticity: -0.6, ...LOW, unit_priced: true }),
+  node('health-beauty-fragrances', 'Fragrances', 'health-beauty', 51, { description: 'Perfumes and colognes' }),
+  node('health-beauty-skincare', 'Skincare', 'health-beauty', 52),
+  node('health-beauty-makeup', 'Makeup', 'health-beauty', 53),
+  node('health-beauty-personal-care', 'Personal Care', 'health-beauty', 54, { description: 'Hair care, oral care, shaving and hygiene' }),
+  node('health-beauty-baby', 'Baby Care', 'health-beauty', 55, { description: 'Diapers, wipes and baby toiletries' }),
+  node('home', 'Home & Furniture', null, 60, { elasticity: -1.3, ...MEDIUM, unit_priced: false }),
+  node('home-furniture', 'Furniture', 'home', 61),
+  node('home-kitchen', 'Kitchen & Dining', 'home', 62, { description: 'Cookware, tableware and kitchen tools' }),
+  node('home-decor', 'Home Decor', 'home', 63),
+  node('home-garden', 'Garden & Outdoor Living', 'home', 64),
+  node('sports', 'Sports & Outdoors', null, 70, { elasticity: -1.4, ...MEDIUM, unit_priced: false }),
+  node('sports-fitness', 'Fitness Equipment', 'sports', 71),
+  node('sports-outdoor', 'Camping & Outdoor Gear', 'sports', 72),
+  node('toys', 'Toys & Games', null, 80, { elasticity: -1.6, ...MEDIUM, unit_priced: false }),
+  node('books-media', 'Books & Media', null, 90, { elasticity: -1.7, ...MEDIUM, unit_priced: false }),
+  node('automotive', 'Automotive Parts', null, 100, { elasticity: -0.9, ...MEDIUM, unit_priced: false, description: 'Car parts, accessories and care products' }),
+  node('pharmaceuticals', 'Pharmaceuticals', null, 110, { elasticity: -0.3, ...MEDIUM, unit_priced: false, description: 'Medicines, vitamins and supplements' }),
+  node('groceries', 'Groceries (Staples)', null, 120, { elasticity: -0.5, ...LOW, unit_priced: true, description: 'Rice, flour, oil, sugar and other pantry staples' }),
+  node('office', 'Office Supplies', null, 130, { elasticity: -1.1, ...MEDIUM, unit_priced: false }),
+  node('pets', 'Pet Supplies', null, 140, { elasticity: -0.7, ...MEDIUM, unit_priced: false })
+];
+
+/**
+ * Look up a category by name and fill in what it inherits.
+ * Returns null for a name that isn't in the taxonomy.
+ */
+export function resolveCategory(name: string, taxonomy: CategoryNode[] = CATEGORY_TAXONOMY): ResolvedCategory | null {
+  const bySlug = new Map(taxonomy.map(category => [category.slug, category]));
+  const target = taxonomy.find(category => category.name === name);
+  if (!target) return null;
+
+  // Walk up to the root; the guard stops a parent cycle in bad data
+  const chain: CategoryNode[] = [];
+  let current: CategoryNode | undefined = target;
+  while (current && chain.length <= taxonomy.length) {
+    chain.push(current);
+    current = current.parent_slug ? bySlug.get(current.parent_slug) : undefined;
+  }
+
+  const inherited = <K extends keyof CategoryNode>(key: K) =>
+    chain.map(category => category[key]).find(value => value !== null && value !== undefined) ?? null;
+
+  return {
+    slug: target.slug,
+    name: target.name,
+    path: chain.map(category => category.name).reverse(),
+    elasticity: Number(inherited('elasticity') ?? -1),
+    zoneA: Number(inherited('zone_a_multiplier') ?? DEFAULT_ZONE_MULTIPLIERS.zoneA),
+    zoneB: Number(inherited('zone_b_multiplier') ?? DEFAULT_ZONE_MULTIPLIERS.zoneB),
+    unitPriced: Boolean(inherited('unit_priced'))
+  };
+}
+
+/**
+ * Every category in display order: each parent followed by its children
+ */
+export function categoryOptions(taxonomy: CategoryNode[] = CATEGORY_TAXONOMY): CategoryOption[] {
+  const options: CategoryOption[] = [];
+  const bySortOrder = (a: CategoryNode, b: CategoryNode) => a.sort_order - b.sort_order || a.name.localeCompare(b.name);
+
+  const visit = (parentSlug: string | null, path: string[]) => {
+    for (const category of taxonomy.filter(c => c.parent_slug === parentSlug).sort(bySortOrder)) {
+      const categoryPath = [...path, category.name];
+      options.push({ name: category.name, depth: path.length, path: categoryPath });
+      if (categoryPath.length <= taxonomy.length) visit(category.slug, categoryPath);
+    }
+  };
+
+  visit(null, []);
+  return options;
+}
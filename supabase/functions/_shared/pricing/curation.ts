@@ -0,0 +1,66 @@
+// ========================================
+// MERCHANT COMPETITOR CURATION
+// ========================================
+// Merchants pin listings they trust and exclude ones that are the wrong product
+// (competitor_curations). refresh-competitors skips excluded listings and re-scrapes
+// pinned URLs; process-pricing and ResultsPage apply the same rules here. Listings
+// the AI match validation rejected are stored for review but only count once pinned.
+
+export type CurationAction = 'pin' | 'exclude';
+
+export interface CuratableListing {
+  marketplace: string;
+  product_name: string;
+  product_url?: string | null;
+}
+
+export interface CompetitorCuration extends CuratableListing {
+  action: CurationAction;
+  listing_key: string;
+}
+
+// Similarity given to pinned listings: the merchant has confirmed the match
+export const PINNED_SIMILARITY = 1;
+
+// competitor_products.ai_decision values that keep a listing out of pricing
+export const AI_REJECTED_DECISIONS = ['accessory', 'different_product'];
+
+export function isAiRejected(listing: { ai_decision?: string | null }): boolean {
+  return !!listing.ai_decision && AI_REJECTED_DECISIONS.includes(listing.ai_decision);
+}
+
+/**
+ * Identifies a listing across refreshes: its URL, or store and title when the scraper found none.
+ * Must match the generated listing_key column of competitor_curations.
+ */
+export function curationListingKey(listing: CuratableListing): string {
+  return listing.product_url || `${listing.marketplace.toLowerCase()}|${listing.product_name.toLowerCase()}`;
+}
+
+export function excludedListingKeys(curations: CompetitorCuration[]): Set<string> {
+  return new Set(curations.filter(curation => curation.action === 'exclude').map(curation => curation.listing_key));
+}
+
+export function pinnedListingKeys(curations: CompetitorCuration[]): Set<string> {
+  return new Set(curations.filter(curation => curation.action === 'pin').map(curation => curation.listing_key));
+}
+
+/**
+ * The curated competitor set: excluded and AI-rejected listings removed and pinned
+ * ones treated as exact matches. A pin overrides an AI rejection.
+ */
+export function applyCompetitorCurations<T extends CuratableListing & { price: number; similarity_score: number; ai_decision?: string | null }>(
+  listings: T[],
+  curations: CompetitorCuration[]
+): T[] {
+  const excluded = excludedListingKeys(curations);
+  const pinned = pinnedListingKeys(curations);
+
+  return listings
+    .filter(listing => !excluded.has(curationListingKey(listing)))
+    .filter(listing => !isAiRejected(listing) || pinned.has(curationListingKey(listing)))
+    .map(listing => pinned.has(curationListingKey(listing))
+      ? { ...listing, similarity_score: PINNED_SIMILARITY }
+      : listing
+    );
+}
@@ -0,0 +1,77 @@
+// ========================================
+// LEARNED ELASTICITY TESTS
+// ========================================
+//   deno test supabase/functions/_shared/pricing
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { chooseElasticity, estimateElasticity, learnElasticity, periodDays, SalesObservation } from './elasticity.ts';
+
+// Thirty-day periods in 2026 with daily sales of scale × price^elasticity × noise
+function sales(baselineId: string, scale: number, elasticity: number, prices: number[], noise: number[] = []): SalesObservation[] {
+  return prices.map((price, index) => {
+    const month = String(index + 1).padStart(2, '0');
+    return {
+      baseline_id: baselineId,
+      price,
+      units_sold: Math.round(30 * scale * Math.pow(price, elasticity) * (1 + (noise[index] ?? 0))),
+      period_start: `2026-${month}-01`,
+      period_end: `2026-${month}-30`
+    };
+  });
+}
+
+Deno.test('periodDays: inclusive, zero when the dates are out of order', () => {
+  assertEquals(periodDays({ period_start: '2026-01-01', period_end: '2026-01-31' }), 31);
+  assertEquals(periodDays({ period_start: '2026-02-01', period_end: '2026-01-31' }), 0);
+});
+
+Deno.test('estimateElasticity: recovers the slope of log sales on log price', () => {
+  const estimate = estimateElasticity(sales('a', 100000, -1.5, [80, 90, 100, 110, 120], [0.02, -0.03, 0.01, 0.03, -0.02]));
+  assertEquals(Math.abs(estimate!.elasticity + 1.5) < 0.15, true);
+  assertEquals(estimate!.ciLow < estimate!.elasticity && estimate!.elasticity < estimate!.ciHigh, true);
+  assertEquals(estimate!.usable, true);
+  assertEquals(estimate!.reason, 'Learned from 5 sales records');
+});
+
+Deno.test('estimateElasticity: not usable without price variation or enough records', () => {
+  assertEquals(estimateElasticity(sales('a', 1000, -1, [100, 100, 100, 101])), {
+    elasticity: 0,
+    standardError: 0,
+    ciLow: 0,
+    ciHigh: 0,
+    observations: 4,
+    products: 1,
+    priceSpread: 0.01,
+    usable: false,
+    reason: 'Needs sales at prices at least 5% apart'
+  });
+
+  const few = estimateElasticity(sales('a', 100000, -1.5, [80, 100, 120], [0.01, -0.01, 0.01]));
+  assertEquals(few!.usable, false);
+  assertEquals(few!.reason, 'Needs at least 4 sales records (3 so far)');
+
+  assertEquals(estimateElasticity([]), null);
+});
+
+Deno.test('estimateElasticity: noisy sales give a wide interval that is not used', () => {
+  const estimate = estimateElasticity(sales('a', 100000, -1.2, [95, 100, 105, 110], [0.4, -0.3, 0.35, -0.25]));
+  assertEquals(estimate!.usable, false);
+});
+
+Deno.test('learnElasticity: pools products in a category with a level per product', () => {
+  // Product a sells ten times as much as b at any price; both respond with -2
+  const categorySales = [
+    ...sales('a', 1000000, -2, [90, 110], [0.01, -0.01]),
+    ...sales('b', 100000, -2, [45, 50, 55], [-0.01, 0.02, -0.01])
+  ];
+
+  const learned = learnElasticity('a', -1.2, categorySales);
+  assertEquals(learned.productEstimate!.usable, false);
+  assertEquals(learned.source, 'category');
+  assertEquals(Math.abs(learned.elasticity + 2) < 0.15, true);
+  assertEquals(learned.categoryEstimate!.products, 2);
+});
+
+Deno.test('chooseElasticity: falls back to the category default', () => {
+  assertEquals(chooseElasticity(-1.2, null, null), { elasticity: -1.2, source: 'category_default', estimate: null });
+});
@@ -0,0 +1,193 @@
+// ========================================
+// LEARNED PRICE ELASTICITY
+// ========================================
+// Merchants record the price they applied and the units sold over a period
+// (sales_observations). Elasticity is the slope of log daily sales on log price,
+// fitted per product and, pooled across the merchant's products in a category,
+// with a fixed effect per product so only price changes within a product count.
+// process-pricing uses a learned estimate in place of the category default once
+// its 95% confidence interval is narrow enough; ResultsPage shows the same numbers.
+
+export interface SalesObservation {
+  baseline_id: string;
+  price: number;
+  units_sold: number;
+  // Inclusive dates, YYYY-MM-DD
+  period_start: string;
+  period_end: string;
+}
+
+export interface ElasticityEstimate {
+  elasticity: number;
+  standardError: number;
+  // 95% confidence interval
+  ciLow: number;
+  ciHigh: number;
+  // Observations used in the fit (periods with no sales are left out)
+  observations: number;
+  products: number;
+  // Largest price over smallest, minus one, within a product
+  priceSpread: number;
+  // Precise enough to replace the category default
+  usable: boolean;
+  // Why it isn't usable, or a summary when it is
+  reason: string;
+}
+
+export type ElasticitySource = 'product' | 'category' | 'category_default';
+
+export interface ElasticityChoice {
+  elasticity: number;
+  source: ElasticitySource;
+  estimate: ElasticityEstimate | null;
+}
+
+export const MIN_ELASTICITY_OBSERVATIONS = 4;
+// Prices must differ by at least 5% for the slope to mean anything
+export const MIN_PRICE_SPREAD = 0.05;
+// Widest 95% interval (each side of the estimate) still treated as usable
+export const MAX_CI_HALF_WIDTH = 1.0;
+
+// Two-sided 95% Student t quantiles by degrees of freedom; larger df use the next lower entry
+const T_95: [number, number][] = [
+  [1, 12.706], [2, 4.303], [3, 3.182], [4, 2.776], [5, 2.571], [6, 2.447], [7, 2.365],
+  [8, 2.306], [9, 2.262], [10, 2.228], [12, 2.179], [15, 2.131], [20, 2.086], [30, 2.042],
+  [60, 2.0], [120, 1.98]
+];
+
+function tQuantile95(degreesOfFreedom: number): number {
+  if (degreesOfFreedom > 120) return 1.96;
+  let quantile = T_95[0][1];
+  for (const [df, value] of T_95) {
+    if (df <= degreesOfFreedom) quantile = value;
+  }
+  return quantile;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function periodDays(observation: Pick<SalesObservation, 'period_start' | 'period_end'>): number {
+  const start = Date.parse(`${observation.period_start}T00:00:00Z`);
+  const end = Date.parse(`${observation.period_end}T00:00:00Z`);
+  if (isNaN(start) || isNaN(end) || end < start) return 0;
+  return Math.round((end - start) / DAY_MS) + 1;
+}
+
+const round = (value: number, digits = 4) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Fit log daily sales on log price with one intercept per product.
+ * Returns null when there are no observations with sales.
+ */
+export function estimateElasticity(observations: SalesObservation[]): ElasticityEstimate | null {
+  const points = observations
+    .map(observation => ({ observation, days: periodDays(observation) }))
+    .filter(({ observation, days }) => days > 0 && observation.price > 0 && observation.units_sold > 0)
+    .map(({ observation, days }) => ({
+      baselineId: observation.baseline_id,
+      x: Math.log(observation.price),
+      y: Math.log(observation.units_sold / days),
+      price: observation.price
+    }));
+  if (points.length === 0) return null;
+
+  // Demean within each product (the fixed effect)
+  const byProduct = new Map<string, typeof points>();
+  for (const point of points) {
+    byProduct.set(point.baselineId, [...(byProduct.get(point.baselineId) || []), point]);
+  }
+
+  let sxx = 0;
+  let sxy = 0;
+  let priceSpread = 0;
+  const centered: { x: number; y: number }[] = [];
+  for (const productPoints of byProduct.values()) {
+    const meanX = productPoints.reduce((sum, p) => sum + p.x, 0) / productPoints.length;
+    const meanY = productPoints.reduce((sum, p) => sum + p.y, 0) / productPoints.length;
+    const prices = productPoints.map(p => p.price);
+    priceSpread = Math.max(priceSpread, Math.max(...prices) / Math.min(...prices) - 1);
+    for (const point of productPoints) {
+      const x = point.x - meanX;
+      const y = point.y - meanY;
+      centered.push({ x, y });
+      sxx += x * x;
+      sxy += x * y;
+    }
+  }
+
+  const n = points.length;
+  const products = byProduct.size;
+  const degreesOfFreedom = n - products - 1;
+
+  const base = { observations: n, products, priceSpread: round(priceSpread) };
+  const unusable = (reason: string): ElasticityEstimate => ({
+    elasticity: 0, standardError: 0, ciLow: 0, ciHigh: 0, ...base, usable: false, reason
+  });
+
+  if (sxx === 0 || priceSpread < MIN_PRICE_SPREAD) {
+    return unusable(`Needs sales at prices at least ${MIN_PRICE_SPREAD * 100}% apart`);
+  }
+  if (degreesOfFreedom < 1) {
+    return unusable(`Needs more sales records (${n} so far)`);
+  }
+
+  const slope = sxy / sxx;
+  const residualSumOfSquares = centered.reduce((sum, { x, y }) => sum + (y - slope * x) ** 2, 0);
+  const standardError = Math.sqrt(residualSumOfSquares / degreesOfFreedom / sxx);
+  const halfWidth = tQuantile95(degreesOfFreedom) * standardError;
+
+  const estimate: ElasticityEstimate = {
+    elasticity: round(slope),
+    standardError: round(standardError),
+    ciLow: round(slope - halfWidth),
+    ciHigh: round(slope + halfWidth),
+    ...base,
+    usable: false,
+    reason: ''
+  };
+
+  if (n < MIN_ELASTICITY_OBSERVATIONS) {
+    estimate.reason = `Needs at least ${MIN_ELASTICITY_OBSERVATIONS} sales records (${n} so far)`;
+  } else if (slope >= 0 || estimate.ciHigh >= 0) {
+    estimate.reason = 'Sales did not fall reliably as price rose';
+  } else if (halfWidth > MAX_CI_HALF_WIDTH) {
+    estimate.reason = `Confidence interval too wide (±${halfWidth.toFixed(2)})`;
+  } else {
+    estimate.usable = true;
+    estimate.reason = `Learned from ${n} sales records`;
+  }
+
+  return estimate;
+}
+
+/**
+ * Elasticity for a pricing run: the product's own estimate when usable, else the
+ * merchant's category estimate, else the category default
+ */
+export function chooseElasticity(
+  defaultElasticity: number,
+  productEstimate: ElasticityEstimate | null,
+  categoryEstimate: ElasticityEstimate | null
+): ElasticityChoice {
+  if (productEstimate?.usable) {
+    return { elasticity: productEstimate.elasticity, source: 'product', estimate: productEstimate };
+  }
+  // A category estimate from this product alone is the product estimate again
+  if (categoryEstimate?.usable && categoryEstimate.products > 1) {
+    return { elasticity: categoryEstimate.elasticity, source: 'category', estimate: categoryEstimate };
+  }
+  return { elasticity: defaultElasticity, source: 'category_default', estimate: null };
+}
+
+/**
+ * Product and category estimates from a merchant's sales in one category
+ */
+export function learnElasticity(
+  baselineId: string,
+  defaultElasticity: number,
+  categorySales: SalesObservation[]
+): ElasticityChoice & { productEstimate: ElasticityEstimate | null; categoryEstimate: ElasticityEstimate | null } {
+  const productEstimate = estimateElasticity(categorySales.filter(sale => sale.baseline_id === baselineId));
+  const categoryEstimate = estimateElasticity(categorySales);
+  return { ...chooseElasticity(defaultElasticity, productEstimate, categoryEstimate), productEstimate, categoryEstimate };
+}
@@ -0,0 +1,100 @@
+// ========================================
+// PRICING ENGINE GOLDEN TESTS
+// ========================================
+// Each case in engine.golden.json holds the inputs and the engine's recorded output.
+//   deno test --allow-read supabase/functions/_shared/pricing
+// After an intended change to the engine, re-record the expected values with
+//   UPDATE_GOLDEN=1 deno test --allow-read --allow-write --allow-env supabase/functions/_shared/pricing
+// and review the JSON diff.
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import {
+  calculateProfitMaximizingPrice,
+  calculateWeightedMarketStats,
+  CompetitorPriceAggregate,
+  CompetitorProductSample,
+  MarketStats,
+  removeOutliers,
+  validateMarketData
+} from './engine.ts';
+
+interface GoldenCase<Input> {
+  name: string;
+  input: Input;
+  expected: unknown;
+}
+
+interface GoldenFile {
+  validateMarketData: GoldenCase<{ marketStats: MarketStats; baselinePrice: number; productCount: number; category: string }>[];
+  removeOutliers: GoldenCase<{ prices: number[] }>[];
+  calculateWeightedMarketStats: GoldenCase<{ products: CompetitorProductSample[]; aggregates: CompetitorPriceAggregate[] }>[];
+  calculateProfitMaximizingPrice: GoldenCase<{
+    cost: number;
+    elasticity: number;
+    currentPrice: number;
+    marketAverage: number;
+    marketLowest: number;
+    marketHighest: number;
+    inflationRate: number;
+    category: string;
+  }>[];
+}
+
+const GOLDEN_URL = new URL('./engine.golden.json', import.meta.url);
+const golden: GoldenFile = JSON.parse(await Deno.readTextFile(GOLDEN_URL));
+
+function shouldUpdate(): boolean {
+  try {
+    return Deno.env.get('UPDATE_GOLDEN') === '1';
+  } catch {
+    // --allow-env not granted
+    return false;
+  }
+}
+
+const updating = shouldUpdate();
+
+function check<Input>(group: string, cases: GoldenCase<Input>[], run: (input: Input) => unknown) {
+  for (const goldenCase of cases) {
+    Deno.test(`${group}: ${goldenCase.name}`, () => {
+      const actual = run(goldenCase.input);
+      if (updating) {
+        goldenCase.expected = actual;
+        return;
+      }
+      assertEquals(actual, goldenCase.expected);
+    });
+  }
+}
+
+check('validateMarketData', golden.validateMarketData, ({ marketStats, baselinePrice, productCount, category }) =>
+  validateMarketData(marketStats, baselinePrice, productCount, category)
+);
+
+check('removeOutliers', golden.removeOutliers, ({ prices }) => removeOutliers(prices));
+
+check('calculateWeightedMarketStats', golden.calculateWeightedMarketStats, ({ products, aggregates }) =>
+  calculateWeightedMarketStats(products, aggregates)
+);
+
+check('calculateProfitMaximizingPrice', golden.calculateProfitMaximizingPrice, (input) =>
+  calculateProfitMaximizingPrice(
+    input.cost,
+    input.elasticity,
+    input.currentPrice,
+    input.marketAverage,
+    input.marketLowest,
+    input.marketHighest,
+    input.inflationRate,
+    input.category
+  )
+);
+
+if (updating) {
+  Deno.test({
+    name: 'write engine.golden.json',
+    fn: async () => {
+      await Deno.writeTextFile(GOLDEN_URL, JSON.stringify(golden, null, 2) + '\n');
+    }
+  });
+}
@@ -0,0 +1,695 @@
+// ========================================
+// PRICING ENGINE
+// ========================================
+// Market statistics, validation and the Zone Velocity price decision used by
+// process-pricing. No Deno or browser APIs, so the Vite app can import it too
+// (as @shared/pricing/engine.ts). Market stats and the price decision return
+// their steps as a decision trace (trace.ts). Golden cases live in engine.golden.json.
+
+import { CATEGORY_TAXONOMY, CategoryNode, DEFAULT_ZONE_MULTIPLIERS, resolveCategory } from './categories.ts';
+import { isUnitPricedCategory } from './unitPrice.ts';
+import { BALANCED_STRATEGY, PricingStrategy } from './strategy.ts';
+import { TraceStep, traceStep } from './trace.ts';
+import { applyGuardrails, describeGuardrails, GUARDRAIL_LABELS, GuardrailKey, hasGuardrails, NO_GUARDRAILS, PriceGuardrails } from './guardrails.ts';
+
+export interface MarketStats {
+  lowest: number;
+  average: number;
+  highest: number;
+}
+
+export interface MarketValidation {
+  isValid: boolean;
+  reason: string;
+  shouldProceed: boolean;
+  warning?: string;
+}
+
+// competitor_products row fields the engine reads
+export interface CompetitorProductSample {
+  price: number;
+  similarity_score: number;
+}
+
+// competitor_prices row fields the engine reads
+export interface CompetitorPriceAggregate {
+  lowest_price: number | null;
+  average_price: number | null;
+  highest_price: number | null;
+}
+
+export interface WeightedMarketStats extends MarketStats {
+  confidence: string;
+  outliersRemoved: number;
+  productsUsed: number;
+  trace: TraceStep[];
+}
+
+export interface ProfitMaximizingPrice {
+  theoreticalOptimal: number;
+  marketAdjusted: number;
+  reasoning: string;
+  zoneDetected: string;
+  breakEvenMultiplier: number;
+  marketPotential: number;
+  isRiskAdjusted: boolean;
+  // Merchant guardrails that changed the price, in the order applied
+  guardrailsApplied: GuardrailKey[];
+  trace: TraceStep[];
+}
+
+/**
+ * Validate market data quality before using it
+ */
+export function validateMarketData(
+  marketStats: MarketStats,
+  baselinePrice: number,
+  productCount: number,
+  category: string,
+  taxonomy: CategoryNode[] = CATEGORY_TAXONOMY
+): MarketValidation {
+  
+  // Check 1: Minimum data points
+  if (productCount < 3) {
+    return {
+      isValid: false,
+      reason: `Insufficient competitor data (only ${productCount} products found)`,
+      shouldProceed: false
+    };
+  }
+  
+  // Check 2: Market spread validation
+  const marketSpread = (marketStats.highest - marketStats.lowest) / marketStats.average;
+  
+  if (marketSpread > 5) {
+    // 500%+ spread indicates contaminated data
+    return {
+      isValid: false,
+      reason: `Market data quality issue: price spread ${(marketSpread * 100).toFixed(0)}% (extreme outliers detected). Please refresh competitor data.`,
+      shouldProceed: false
+    };
+  }
+  
+  // Check 3: Lowest price sanity check with category awareness
+  // Size-variable products (perfumes, cosmetics, food) allow wider price ranges
+  const isSizeVariable = isUnitPricedCategory(category, taxonomy);
+  const lowestThreshold = isSizeVariable ? 0.10 : 0.15; // 10% for size-variable, 15% for others
+  
+  const lowestRatio = marketStats.lowest / baselinePrice;
+  if (lowestRatio < lowestThreshold) {
+    // Instead of blocking completely, issue a warning but proceed
+    const warning = `Market includes low-priced variants (${marketStats.lowest.toFixed(0)}). These may be different sizes or bundles. Using weighted average for accuracy.`;
+    console.log(`⚠️ ${warning}`);
+    
+    return {
+      isValid: true,
+      reason: 'Proceeding with outlier-filtered market data',
+      shouldProceed: true,
+      warning
+    };
+  }
+  
+  // Check 4: Average price reasonableness - relaxed for size-variable products
+  const avgRatio = marketStats.average / baselinePrice;
+  const avgLowerBound = isSizeVariable ? 0.2 : 0.3;
+  const avgUpperBound = isSizeVariable ? 4.0 : 3.0;
+  
+  if (avgRatio < avgLowerBound || avgRatio > avgUpperBound) {
+    return {
+      isValid: false,
+      reason: `Market average (${marketStats.average.toFixed(0)}) differs too much from baseline (${baselinePrice.toFixed(0)}). Data quality issues detected.`,
+      shouldProceed: false
+    };
+  }
+  
+  return {
+    isValid: true,
+    reason: 'Market data passed validation checks',
+    shouldProceed: true
+  };
+}
+
+// IQR fences for outlier removal; null below 4 prices, where nothing is removed
+export function outlierBounds(prices: number[]): { lower: number; upper: number } | null {
+  if (prices.length < 4) return null;
+  
+  const sorted = [...prices].sort((a, b) => a - b);
+  const q1Index = Math.floor(sorted.length * 0.25);
+  const q3Index = Math.floor(sorted.length * 0.75);
+  
+  const q1 = sorted[q1Index];
+  const q3 = sorted[q3Index];
+  const iqr = q3 - q1;
+  
+  return { lower: q1 - 1.5 * iqr, upper: q3 + 1.5 * iqr };
+}
+
+// Statistical outlier removal using IQR method
+export function removeOutliers(prices: number[]): { cleaned: number[]; removed: number } {
+  const bounds = outlierBounds(prices);
+  if (!bounds) return { cleaned: prices, removed: 0 };
+  
+  const { lower: lowerBound, upper: upperBound } = bounds;
+  const filtered = prices.filter(p => p >= lowerBound && p <= upperBound);
+  
+  console.log(`🔍 Outlier removal: ${prices.length} prices → ${filtered.length} after filtering`);
+  console.log(`   Removed range outside [${lowerBound.toFixed(2)}, ${upperBound.toFixed(2)}]`);
+  
+  return {
+    cleaned: filtered.length > 0 ? filtered : prices,
+    removed: prices.length - filtered.length
+  };
+}
+
+// Trace steps for an outlier pass and the market stats it produced
+function marketStatsSteps(prices: number[], removed: number, stats: MarketStats & { confidence: string }, weighted: boolean): TraceStep[] {
+  const bounds = outlierBounds(prices);
+  return [
+    traceStep(
+      'market',
+      'outliers',
+      'Outlier removal',
+      bounds
+        ? `${removed} of ${prices.length} prices fell outside the IQR fences and were dropped`
+        : `Only ${prices.length} price(s), too few for outlier removal`,
+      [
+        ['pricesIn', 'Prices considered', prices.length, 'count'],
+        ['removed', 'Removed', removed, 'count'],
+        ['lowerBound', 'Lower fence', bounds?.lower ?? null, 'price'],
+        ['upperBound', 'Upper fence', bounds?.upper ?? null, 'price']
+      ]
+    ),
+    traceStep(
+      'market',
+      'market_stats',
+      'Market prices',
+      weighted
+        ? `Lowest and highest of the remaining prices, average weighted by similarity (${stats.confidence} confidence)`
+        : `Lowest, average and highest of the remaining prices (${stats.confidence} confidence)`,
+      [
+        ['lowest', 'Lowest', stats.lowest, 'price'],
+        ['average', 'Average', stats.average, 'price'],
+        ['highest', 'Highest', stats.highest, 'price']
+      ]
+    )
+  ];
+}
+
+// Price points from the per-marketplace aggregates
+function aggregatePrices(aggregates: CompetitorPriceAggregate[]): number[] {
+  const allPrices: number[] = [];
+  aggregates?.forEach(comp => {
+    if (comp.lowest_price) allPrices.push(comp.lowest_price);
+    if (comp.average_price) allPrices.push(comp.average_price);
+    if (comp.highest_price) allPrices.push(comp.highest_price);
+  });
+  return allPrices;
+}
+
+// Calculate weighted market stats from competitor products
+export function calculateWeightedMarketStats(
+  products: CompetitorProductSample[],
+  aggregates: CompetitorPriceAggregate[]
+): WeightedMarketStats {
+  if (!products || products.length === 0) {
+    // Fallback to aggregate data
+    console.log('⚠️ No granular products, using aggregates');
+    const allPrices = aggregatePrices(aggregates);
+    const source = traceStep(
+      'market',
+      'source',
+      'Data source',
+      'No matched competitor listings, so the marketplace summaries (lowest, average, highest) are used',
+      [['aggregatePrices', 'Summary prices', allPrices.length, 'count']]
+    );
+    
+    if (allPrices.length === 0) {
+      return { lowest: 0, average: 0, highest: 0, confidence: 'none', outliersRemoved: 0, productsUsed: 0, trace: [source] };
+    }
+    
+    const { cleaned, removed } = removeOutliers(allPrices);
+    const stats = {
+      lowest: Math.min(...cleaned),
+      average: cleaned.reduce((a, b) => a + b, 0) / cleaned.length,
+      highest: Math.max(...cleaned),
+      confidence: 'low'
+    };
+    return {
+      ...stats,
+      outliersRemoved: removed,
+      productsUsed: 0,
+      trace: [source, ...marketStatsSteps(allPrices, removed, stats, false)]
+    };
+  }
+  
+  // ✅ FIX 6: Increase similarity threshold to 0.8 (80%)
+  const filteredProducts = products.filter(p => p.similarity_score >= 0.8);
+  
+  console.log(`🔍 Similarity filtering: ${products.length} → ${filteredProducts.length} products (removed ${products.length - filteredProducts.length} low-similarity matches)`);
+  const similarity = traceStep(
+    'market',
+    'similarity',
+    'Similarity filter',
+    `${filteredProducts.length} of ${products.length} listings are at least 80% similar to your product`,
+    [
+      ['listingsIn', 'Listings', products.length, 'count'],
+      ['threshold', 'Minimum similarity', 0.8, 'percent'],
+      ['listingsKept', 'Kept', filteredProducts.length, 'count']
+    ]
+  );
+  
+  if (filteredProducts.length < 3) {
+    console.log('⚠️ Not enough high-similarity products, using aggregate data');
+    const allPrices = aggregatePrices(aggregates);
+    const source = traceStep(
+      'market',
+      'source',
+      'Data source',
+      'Fewer than 3 close matches, so the marketplace summaries (lowest, average, highest) are used instead',
+      [['aggregatePrices', 'Summary prices', allPrices.length, 'count']]
+    );
+    
+    if (allPrices.length === 0) {
+      return { lowest: 0, average: 0, highest: 0, confidence: 'very_low', outliersRemoved: 0, productsUsed: filteredProducts.length, trace: [similarity, source] };
+    }
+    
+    const { cleaned, removed } = removeOutliers(allPrices);
+    const stats = {
+      lowest: Math.min(...cleaned),
+      average: cleaned.reduce((a, b) => a + b, 0) / cleaned.length,
+      highest: Math.max(...cleaned),
+      confidence: 'very_low'
+    };
+    return {
+      ...stats,
+      outliersRemoved: removed,
+      productsUsed: filteredProducts.length,
+      trace: [similarity, source, ...marketStatsSteps(allPrices, removed, stats, false)]
+    };
+  }
+  
+  console.log(`📊 Analyzing ${filteredProducts.length} high-similarity competitor products`);
+  
+  // Weight each product by similarity score
+  let weightedSum = 0;
+  let totalWeight = 0;
+  const prices: number[] = [];
+  
+  filteredProducts.forEach(prod => {
+    const weight = prod.similarity_score;
+    weightedSum += prod.price * weight;
+    totalWeight += weight;
+    prices.push(prod.price);
+  });
+  
+  // Remove statistical outliers
+  const { cleaned, removed } = removeOutliers(prices);
+  
+  // Recalculate weighted average with cleaned prices
+  let cleanedWeightedSum = 0;
+  let cleanedTotalWeight = 0;
+  filteredProducts.forEach(prod => {
+    if (cleaned.includes(prod.price)) {
+      const weight = prod.similarity_score;
+      cleanedWeightedSum += prod.price * weight;
+      cleanedTotalWeight += weight;
+    }
+  });
+  
+  const weightedAverage = cleanedTotalWeight > 0 ? cleanedWeightedSum / cleanedTotalWeight : 0;
+  const stats = {
+    lowest: Math.min(...cleaned),
+    average: weightedAverage,
+    highest: Math.max(...cleaned),
+    confidence: filteredProducts.length >= 10 ? 'high' : filteredProducts.length >= 5 ? 'medium' : 'low'
+  };
+  
+  return {
+    ...stats,
+    outliersRemoved: removed,
+    productsUsed: filteredProducts.length,
+    trace: [similarity, ...marketStatsSteps(prices, removed, stats, true)]
+  };
+}
+
+// Category-aware zone multipliers for velocity-based pricing, from the category taxonomy
+export function getZoneMultipliers(
+  category: string,
+  taxonomy: CategoryNode[] = CATEGORY_TAXONOMY
+): { zoneA: number; zoneB: number } {
+  const resolved = resolveCategory(category, taxonomy);
+  return resolved ? { zoneA: resolved.zoneA, zoneB: resolved.zoneB } : { ...DEFAULT_ZONE_MULTIPLIERS };
+}
+
+// Zone multipliers for a category with the strategy's scale applied
+export function getStrategyZoneMultipliers(
+  category: string,
+  taxonomy: CategoryNode[] = CATEGORY_TAXONOMY,
+  strategy: PricingStrategy = BALANCED_STRATEGY
+): { zoneA: number; zoneB: number } {
+  const { zoneA, zoneB } = getZoneMultipliers(category, taxonomy);
+  return {
+    zoneA: Math.round(zoneA * strategy.zoneMultiplierScale * 100) / 100,
+    zoneB: Math.round(zoneB * strategy.zoneMultiplierScale * 100) / 100
+  };
+}
+
+/**
+ * Market zone of a price and the volume multiplier expected there.
+ * A: within the strategy's band above the lowest; B: at or below the average; C: above it.
+ * Market prices are the inflation-adjusted ones.
+ */
+export function classifyZone(
+  price: number,
+  marketLowest: number,
+  marketAverage: number,
+  zones: { zoneA: number; zoneB: number },
+  strategy: PricingStrategy = BALANCED_STRATEGY
+): { zone: 'A' | 'B' | 'C'; marketPotential: number } {
+  // ZONE A: Aggressive (Within the strategy's band of Market Lowest, 5% by default)
+  if (marketLowest && price <= marketLowest * (1 + strategy.zoneABand)) {
+    return { zone: 'A', marketPotential: zones.zoneA };
+  }
+  // ZONE B: Competitive (Below Market Average)
+  if (price <= marketAverage) {
+    return { zone: 'B', marketPotential: zones.zoneB };
+  }
+  // ZONE C: Passive (Above Average)
+  return { zone: 'C', marketPotential: 1.0 };
+}
+
+// Calculate profit-maximizing price using elasticity theory + Zone Velocity Model,
+// with floor, ceiling, blend, risk and zone settings from the strategy profile
+// and the merchant's guardrails applied last
+export function calculateProfitMaximizingPrice(
+  cost: number,
+  elasticity: number,
+  currentPrice: number,
+  marketAverage: number,
+  marketLowest: number,
+  marketHighest: number,
+  inflationRate: number,
+  category: string,
+  taxonomy: CategoryNode[] = CATEGORY_TAXONOMY,
+  strategy: PricingStrategy = BALANCED_STRATEGY,
+  guardrails: PriceGuardrails = NO_GUARDRAILS,
+  // Hours since the last applied price change, for the cooldown guardrail
+  hoursSinceLastChange: number | null = null,
+  // Price the merchant last applied from a recommendation; the baseline's price isn't
+  // updated when they do, so the cooldown and step limit start from this one
+  lastAppliedPrice: number | null = null
+): ProfitMaximizingPrice {
+  // Apply inflation adjustment to market boundaries FIRST
+  const inflationMultiplier = 1 + inflationRate;
+  const inflationAdjustedAverage = marketAverage * inflationMultiplier;
+  const inflationAdjustedHighest = marketHighest * inflationMultiplier;
+  const inflationAdjustedLowest = marketLowest * inflationMultiplier;
+  
+  console.log(`📊 Market bounds (inflation-adjusted):`);
+  console.log(`   Lowest: ${inflationAdjustedLowest.toFixed(2)}`);
+  console.log(`   Average: ${inflationAdjustedAverage.toFixed(2)}`);
+  console.log(`   Highest: ${inflationAdjustedHighest.toFixed(2)}`);
+  console.log(`   Inflation rate: ${(inflationRate * 100).toFixed(2)}%`);
+  
+  const trace: TraceStep[] = [
+    traceStep(
+      'price',
+      'inflation',
+      'Inflation-adjusted market',
+      `Market prices raised by ${(inflationRate * 100).toFixed(2)}% inflation before any comparison`,
+      [
+        ['inflationRate', 'Inflation', inflationRate, 'percent'],
+        ['lowest', 'Lowest', inflationAdjustedLowest, 'price'],
+        ['average', 'Average', inflationAdjustedAverage, 'price'],
+        ['highest', 'Highest', inflationAdjustedHighest, 'price']
+      ]
+    )
+  ];
+  
+  // Revenue-maximizing price from elasticity theory
+  // Formula: P* = Cost / (1 + 1/elasticity)
+  const rawTheoretical = cost / (1 + 1 / elasticity);
+  const theoreticalOptimal = rawTheoretical;
+  
+  console.log(`💡 Theoretical optimal: ${theoreticalOptimal.toFixed(2)}`);
+  console.log(`   Based on elasticity ${elasticity} and cost ${cost}`);
+  trace.push(traceStep(
+    'price',
+    'theoretical',
+    'Elasticity optimum',
+    'Profit-maximizing price from elasticity theory: cost / (1 + 1 / elasticity)',
+    [
+      ['cost', 'Cost', cost, 'price'],
+      ['elasticity', 'Elasticity', elasticity, 'number'],
+      ['theoreticalOptimal', 'Optimum', theoreticalOptimal, 'price']
+    ]
+  ));
+  
+  // CRITICAL BOUNDS: Hard cap at a share of market highest, floor at the minimum profit margin
+  const floorPercent = `${+(strategy.floorMargin * 100).toFixed(1)}%`;
+  const ceilingPercent = `${+(strategy.ceilingRatio * 100).toFixed(1)}%`;
+  const absoluteMin = cost * (1 + strategy.floorMargin);
+  const absoluteMax = inflationAdjustedHighest * strategy.ceilingRatio; // NEVER EXCEED!
+  
+  // MARKET-DRIVEN APPROACH: Start with inflation-adjusted market average (or above it, per strategy)
+  const marketAnchor = inflationAdjustedAverage + (inflationAdjustedHighest - inflationAdjustedAverage) * strategy.marketPosition;
+  let suggestedPrice = marketAnchor;
+  trace.push(traceStep(
+    'price',
+    'anchor',
+    'Market starting point',
+    strategy.marketPosition > 0
+      ? `Starts ${+(strategy.marketPosition * 100).toFixed(0)}% of the way from the market average to the highest (${strategy.name} strategy)`
+      : `Starts at the inflation-adjusted market average (${strategy.name} strategy)`,
+    [
+      ['marketPosition', 'Position above average', strategy.marketPosition, 'percent'],
+      ['anchor', 'Starting price', marketAnchor, 'price']
+    ]
+  ));
+  
+  // Apply elasticity influence: blend theoretical if it suggests better pricing
+  const blendApplies = strategy.blendWeight > 0 && theoreticalOptimal > absoluteMin && theoreticalOptimal < marketAnchor;
+  if (blendApplies) {
+    // Theoretical suggests lower price could maximize profit - blend toward it
+    suggestedPrice = (marketAnchor * (1 - strategy.blendWeight)) + (theoreticalOptimal * strategy.blendWeight);
+    console.log(`   Blended with theoretical: ${suggestedPrice.toFixed(2)}`);
+  }
+  trace.push(traceStep(
+    'price',
+    'blend',
+    'Blend toward the optimum',
+    blendApplies
+      ? `The optimum is below the starting price, so the price moves ${+(strategy.blendWeight * 100).toFixed(0)}% of the way toward it`
+      : strategy.blendWeight === 0
+      ? 'The strategy gives the optimum no weight'
+      : 'Not applied: the optimum is not between the margin floor and the starting price',
+    [
+      ['applied', 'Applied', blendApplies, 'text'],
+      ['blendWeight', 'Blend weight', strategy.blendWeight, 'percent'],
+      ['price', 'Price after blend', suggestedPrice, 'price']
+    ]
+  ));
+  
+  console.log(`🎯 Price bounds (${strategy.name} strategy):`);
+  console.log(`   Min (cost + ${floorPercent}): ${absoluteMin.toFixed(2)}`);
+  console.log(`   Max (${ceilingPercent} of highest): ${absoluteMax.toFixed(2)}`);
+  
+  let reasoning = '';
+  const beforeBounds = suggestedPrice;
+  
+  // Apply hard constraints to suggested price
+  if (suggestedPrice < absoluteMin) {
+    suggestedPrice = absoluteMin;
+    reasoning = `Set to minimum ${floorPercent} profit margin (${absoluteMin.toFixed(0)}) for business viability`;
+  } else if (suggestedPrice > absoluteMax) {
+    suggestedPrice = absoluteMax;
+    reasoning = `Capped at ${ceilingPercent} of market highest (${inflationAdjustedHighest.toFixed(0)}) to stay competitive`;
+  } else {
+    const percentBelowHighest = ((inflationAdjustedHighest - suggestedPrice) / inflationAdjustedHighest * 100).toFixed(1);
+    reasoning = `Optimized at ${percentBelowHighest}% below market highest based on inflation-adjusted average`;
+  }
+  trace.push(traceStep(
+    'price',
+    'bounds',
+    'Floor and ceiling',
+    beforeBounds < absoluteMin
+      ? `Raised to the floor of cost + ${floorPercent}`
+      : beforeBounds > absoluteMax
+      ? `Capped at ${ceilingPercent} of the market highest`
+      : `Within the floor (cost + ${floorPercent}) and ceiling (${ceilingPercent} of highest)`,
+    [
+      ['floor', 'Floor', absoluteMin, 'price'],
+      ['ceiling', 'Ceiling', absoluteMax, 'price'],
+      ['price', 'Market-driven price', suggestedPrice, 'price']
+    ]
+  ));
+  
+  // --- NEW: Category-Aware Zone Velocity Logic ---
+  console.log(`\n🚀 === Zone Velocity Analysis ===`);
+  console.log(`   Category: ${category}`);
+  
+  // 1. Get Multipliers based on Category, scaled by the strategy
+  const { zoneA, zoneB } = getStrategyZoneMultipliers(category, taxonomy, strategy);
+  console.log(`   Zone multipliers: A=${zoneA}x, B=${zoneB}x`);
+  
+  // 2. Calculate Required Break-Even Volume
+  const currentUnitMargin = currentPrice - cost;
+  const newUnitMargin = suggestedPrice - cost;
+  const breakEvenMultiplier = currentUnitMargin / newUnitMargin;
+  
+  console.log(`   Current margin: ${currentUnitMargin.toFixed(2)} per unit`);
+  console.log(`   New margin: ${newUnitMargin.toFixed(2)} per unit`);
+  console.log(`   Break-even multiplier needed: ${breakEvenMultiplier.toFixed(2)}x`);
+
+  // 3. Determine Market Zone & Potential
+  const { zone: zoneDetected, marketPotential } = classifyZone(
+    suggestedPrice,
+    inflationAdjustedLowest,
+    inflationAdjustedAverage,
+    { zoneA, zoneB },
+    strategy
+  );
+  if (zoneDetected === 'A') {
+    console.log(`🚀 Zone A Detected: Aggressive Pricing (within ${+(strategy.zoneABand * 100).toFixed(1)}% of lowest)`);
+  } else if (zoneDetected === 'B') {
+    console.log(`⚖️ Zone B Detected: Competitive Pricing (below average)`);
+  } else {
+    console.log(`💎 Zone C Detected: Premium Pricing (above average)`);
+  }
+
+  console.log(`📊 Velocity Check: Need ${breakEvenMultiplier.toFixed(2)}x volume. Market Potential: ${marketPotential}x`);
+  trace.push(traceStep(
+    'price',
+    'zone',
+    'Market zone',
+    zoneDetected === 'A'
+      ? `Zone A: within ${+(strategy.zoneABand * 100).toFixed(1)}% of the market lowest, where ${category} is expected to sell ${marketPotential}x the volume`
+      : zoneDetected === 'B'
+      ? `Zone B: at or below the market average, where ${category} is expected to sell ${marketPotential}x the volume`
+      : 'Zone C: above the market average, so no extra volume is expected',
+    [
+      ['zone', 'Zone', zoneDetected, 'text'],
+      ['zoneA', 'Zone A volume', zoneA, 'multiplier'],
+      ['zoneB', 'Zone B volume', zoneB, 'multiplier'],
+      ['marketPotential', 'Expected volume', marketPotential, 'multiplier']
+    ]
+  ));
+  trace.push(traceStep(
+    'price',
+    'break_even',
+    'Break-even volume',
+    'Volume needed at the market-driven price to keep today\'s profit: current margin / new margin',
+    [
+      ['currentMargin', 'Current margin per unit', currentUnitMargin, 'price'],
+      ['newMargin', 'New margin per unit', newUnitMargin, 'price'],
+      ['breakEvenMultiplier', 'Volume needed', breakEvenMultiplier, 'multiplier']
+    ]
+  ));
+
+  // 4. The Decision Engine
+  let finalPrice = currentPrice;
+  let isRiskAdjusted = false;
+
+  // IF gain outweighs pain...
+  if (marketPotential >= breakEvenMultiplier) {
+    finalPrice = suggestedPrice; // Accept the market-driven price
+    console.log(`✅ Decision: ACCEPT market price (${marketPotential}x potential >= ${breakEvenMultiplier.toFixed(2)}x needed)`);
+    reasoning = `Zone ${zoneDetected}: ${marketPotential}x expected volume gain justifies price adjustment. ${reasoning}`;
+  } else {
+    // ELSE: Risk is too high. Move only part of the way, per risk tolerance (midway by default)
+    finalPrice = currentPrice * (1 - strategy.riskTolerance) + suggestedPrice * strategy.riskTolerance;
+    isRiskAdjusted = true;
+    const fallback = strategy.riskTolerance === 0.5 ? 'midway' : `${+(strategy.riskTolerance * 100).toFixed(0)}% of the way`;
+    console.log(`⚠️ Decision: ${fallback.toUpperCase()} fallback (${marketPotential}x potential < ${breakEvenMultiplier.toFixed(2)}x needed)`);
+    console.log(`   Risk-adjusted price: ${finalPrice.toFixed(2)}`);
+    reasoning = `Zone ${zoneDetected}: Risk-adjusted to ${fallback} (${finalPrice.toFixed(0)}) - ${breakEvenMultiplier.toFixed(1)}x volume needed but only ${marketPotential}x expected`;
+  }
+  trace.push(traceStep(
+    'price',
+    'decision',
+    'Decision',
+    isRiskAdjusted
+      ? `Expected volume doesn't cover the break-even, so the price moves ${+(strategy.riskTolerance * 100).toFixed(0)}% of the way from your current price toward it`
+      : 'Expected volume covers the break-even, so the market-driven price is accepted',
+    [
+      ['accepted', 'Market price accepted', !isRiskAdjusted, 'text'],
+      ['riskTolerance', 'Risk tolerance', strategy.riskTolerance, 'percent'],
+      ['price', 'Price', finalPrice, 'price']
+    ]
+  ));
+  const beforeFinalChecks = finalPrice;
+
+  // 5. Final Floor Check (Absolute Safety)
+  if (finalPrice < absoluteMin) {
+    finalPrice = absoluteMin;
+    isRiskAdjusted = true;
+    console.log(`🛡️ Floor applied: ${absoluteMin.toFixed(2)} (minimum ${floorPercent} margin)`);
+    reasoning = `Floor applied: minimum ${floorPercent} profit margin maintained`;
+  }
+  
+  // Final ceiling check
+  finalPrice = Math.min(finalPrice, absoluteMax);
+  if (finalPrice !== beforeFinalChecks) {
+    trace.push(traceStep(
+      'price',
+      'final_bounds',
+      'Final floor and ceiling',
+      finalPrice > beforeFinalChecks
+        ? `Raised back to the floor of cost + ${floorPercent}`
+        : `Capped at ${ceilingPercent} of the market highest`,
+      [
+        ['before', 'Before', beforeFinalChecks, 'price'],
+        ['price', 'Final price', finalPrice, 'price']
+      ]
+    ));
+  }
+  
+  // 6. Merchant guardrails (hard limits; they override the strategy's bounds)
+  let guardrailsApplied: GuardrailKey[] = [];
+  if (hasGuardrails(guardrails)) {
+    const beforeGuardrails = finalPrice;
+    const livePrice = lastAppliedPrice ?? currentPrice;
+    const guarded = applyGuardrails(finalPrice, livePrice, cost, guardrails, hoursSinceLastChange);
+    finalPrice = guarded.price;
+    guardrailsApplied = guarded.applied;
+    
+    const boundBy = guardrailsApplied.map(key => GUARDRAIL_LABELS[key].toLowerCase()).join(', then ');
+    if (guardrailsApplied.length > 0) {
+      console.log(`🚧 Guardrails applied: ${guardrailsApplied.join(', ')} (${beforeGuardrails.toFixed(2)} → ${finalPrice.toFixed(2)})`);
+      reasoning = `${reasoning}. Limited by your guardrails (${boundBy})`;
+    }
+    trace.push(traceStep(
+      'price',
+      'guardrails',
+      'Your guardrails',
+      guardrailsApplied.includes('cooldown')
+        ? `Price held: the last change was ${hoursSinceLastChange?.toFixed(0)}h ago, within your ${guardrails.cooldownHours}h cooldown`
+        : guardrailsApplied.length > 0
+        ? `Limited by ${boundBy} (${describeGuardrails(guardrails)})`
+        : `Within your guardrails (${describeGuardrails(guardrails)})`,
+      [
+        ['before', 'Before guardrails', beforeGuardrails, 'price'],
+        ['livePrice', 'Your live price', livePrice, 'price'],
+        ['price', 'Final price', finalPrice, 'price'],
+        ['boundBy', 'Bound by', guardrailsApplied.map(key => GUARDRAIL_LABELS[key]).join(', ') || null, 'text']
+      ]
+    ));
+  }
+  
+  console.log(`\n✅ Final suggested price: ${finalPrice.toFixed(2)}`);
+  console.log(`   Zone: ${zoneDetected} | Risk-adjusted: ${isRiskAdjusted}`);
+  console.log(`   Reasoning: ${reasoning}`);
+  console.log(`   Verification: ${finalPrice <= inflationAdjustedHighest ? '✓ Below market highest' : '✗ EXCEEDS MARKET HIGHEST!'}`);
+  
+  return {
+    theoreticalOptimal,
+    marketAdjusted: finalPrice,
+    reasoning,
+    zoneDetected,
+    breakEvenMultiplier,
+    marketPotential,
+    isRiskAdjusted,
+    guardrailsApplied,
+    trace
+  };
+}
@@ -0,0 +1,94 @@
+// ========================================
+// PRICE GUARDRAIL TESTS
+// ========================================
+//   deno test supabase/functions/_shared/pricing
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { calculateProfitMaximizingPrice } from './engine.ts';
+import { applyGuardrails, NO_GUARDRAILS, PriceGuardrailRow, resolveGuardrails, validateGuardrails } from './guardrails.ts';
+import { BALANCED_STRATEGY } from './strategy.ts';
+
+const row = (overrides: Partial<PriceGuardrailRow>): PriceGuardrailRow => ({
+  baseline_id: null,
+  category: null,
+  max_change_percent: null,
+  min_price: null,
+  max_price: null,
+  min_margin: null,
+  cooldown_hours: null,
+  ...overrides
+});
+
+Deno.test('applyGuardrails: step limit, then hard limits win', () => {
+  assertEquals(applyGuardrails(150, 100, 60, { ...NO_GUARDRAILS, maxChangePercent: 0.1 }, null), { price: 110, applied: ['max_change'] });
+  assertEquals(applyGuardrails(70, 100, 60, { ...NO_GUARDRAILS, maxChangePercent: 0.1 }, null), { price: 90, applied: ['max_change'] });
+  // The 10% step allows 90, but the margin needs 96
+  assertEquals(
+    applyGuardrails(70, 100, 80, { ...NO_GUARDRAILS, maxChangePercent: 0.1, minMargin: 0.2 }, null),
+    { price: 96, applied: ['max_change', 'min_margin'] }
+  );
+  assertEquals(applyGuardrails(95, 100, 60, { ...NO_GUARDRAILS, minPrice: 98, maxPrice: 120 }, null), { price: 98, applied: ['min_price'] });
+  assertEquals(applyGuardrails(105, 100, 60, { ...NO_GUARDRAILS, maxChangePercent: 0.1, maxPrice: 120 }, null), { price: 105, applied: [] });
+});
+
+Deno.test('applyGuardrails: cooldown holds the current price', () => {
+  const guardrails = { ...NO_GUARDRAILS, cooldownHours: 72, maxChangePercent: 0.1 };
+  assertEquals(applyGuardrails(105, 100, 60, guardrails, 24), { price: 100, applied: ['cooldown'] });
+  assertEquals(applyGuardrails(105, 100, 60, guardrails, 80), { price: 105, applied: [] });
+  // Never changed: no cooldown
+  assertEquals(applyGuardrails(105, 100, 60, guardrails, null), { price: 105, applied: [] });
+});
+
+Deno.test('resolveGuardrails: product row, then the closest category', () => {
+  const rows = [
+    row({ category: 'Electronics & Technology', max_change_percent: '0.2', cooldown_hours: 48 }),
+    row({ category: 'Mobile Phones & Tablets', max_change_percent: 0.1 }),
+    row({ baseline_id: 'b1', min_price: 90 }),
+    row({ baseline_id: 'b2', max_change_percent: 0.05 })
+  ];
+  assertEquals(resolveGuardrails(rows, 'b1', 'Mobile Phones & Tablets'), {
+    maxChangePercent: 0.1,
+    minPrice: 90,
+    maxPrice: null,
+    minMargin: null,
+    cooldownHours: 48
+  });
+  assertEquals(resolveGuardrails(rows, 'b3', 'Fashion & Apparel'), NO_GUARDRAILS);
+});
+
+Deno.test('validateGuardrails', () => {
+  assertEquals(validateGuardrails(NO_GUARDRAILS), []);
+  assertEquals(validateGuardrails({ ...NO_GUARDRAILS, minPrice: 120, maxPrice: 100 }), ['Minimum price must not be above maximum price']);
+  assertEquals(validateGuardrails({ ...NO_GUARDRAILS, maxChangePercent: 2 }).length, 1);
+});
+
+Deno.test('engine: guardrails bound the result and are reported', () => {
+  // Without guardrails this case moves from 130 to the market average of 100
+  const free = calculateProfitMaximizingPrice(50, -1.5, 130, 100, 80, 140, 0, 'Electronics & Technology');
+  assertEquals(free.guardrailsApplied, []);
+
+  const guarded = calculateProfitMaximizingPrice(
+    50, -1.5, 130, 100, 80, 140, 0, 'Electronics & Technology', undefined, BALANCED_STRATEGY,
+    { ...NO_GUARDRAILS, maxChangePercent: 0.1 }
+  );
+  assertEquals(guarded.marketAdjusted, 117);
+  assertEquals(guarded.guardrailsApplied, ['max_change']);
+  assertEquals(guarded.trace.at(-1)?.key, 'guardrails');
+});
+
+Deno.test('engine: guardrails start from the last applied price, not the baseline price', () => {
+  // Baseline still says 130; the merchant since applied 120
+  const stepped = calculateProfitMaximizingPrice(
+    50, -1.5, 130, 100, 80, 140, 0, 'Electronics & Technology', undefined, BALANCED_STRATEGY,
+    { ...NO_GUARDRAILS, maxChangePercent: 0.1 }, null, 120
+  );
+  assertEquals(stepped.marketAdjusted, 108);
+  assertEquals(stepped.guardrailsApplied, ['max_change']);
+
+  const held = calculateProfitMaximizingPrice(
+    50, -1.5, 130, 100, 80, 140, 0, 'Electronics & Technology', undefined, BALANCED_STRATEGY,
+    { ...NO_GUARDRAILS, cooldownHours: 72 }, 24, 120
+  );
+  assertEquals(held.marketAdjusted, 120);
+  assertEquals(held.guardrailsApplied, ['cooldown']);
+});
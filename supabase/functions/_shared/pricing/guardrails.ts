@@ -0,0 +1,184 @@
+// ========================================
+// PRICE GUARDRAILS
+// ========================================
+// Merchant-set limits on what a pricing run may suggest, applied by
+// calculateProfitMaximizingPrice after its own floor and ceiling. Rows in
+// price_guardrails are per product or per category; each setting comes from
+// the product's row if set there, else from the nearest category up the
+// taxonomy that sets it. Absolute prices are product-only, since a category
+// can hold products in several currencies.
+
+import { CATEGORY_TAXONOMY, CategoryNode, resolveCategory } from './categories.ts';
+
+export interface PriceGuardrails {
+  // Largest move per run as a share of the current price: 0.1 allows ±10%
+  maxChangePercent: number | null;
+  minPrice: number | null;
+  maxPrice: number | null;
+  // Minimum margin over cost: 0.2 keeps the price at least 20% above cost
+  minMargin: number | null;
+  // Hours after an applied price change during which the price is held
+  cooldownHours: number | null;
+}
+
+export type GuardrailKey = 'cooldown' | 'max_change' | 'min_margin' | 'min_price' | 'max_price';
+
+export const GUARDRAIL_LABELS: Record<GuardrailKey, string> = {
+  cooldown: 'Cooldown',
+  max_change: 'Maximum change per run',
+  min_margin: 'Minimum margin',
+  min_price: 'Minimum price',
+  max_price: 'Maximum price'
+};
+
+export const NO_GUARDRAILS: PriceGuardrails = {
+  maxChangePercent: null,
+  minPrice: null,
+  maxPrice: null,
+  minMargin: null,
+  cooldownHours: null
+};
+
+// Allowed range per setting; matches the price_guardrails check constraints
+export const GUARDRAIL_LIMITS: Record<keyof PriceGuardrails, { label: string; min: number; max: number }> = {
+  maxChangePercent: { label: 'Maximum change per run', min: 0.005, max: 1 },
+  minPrice: { label: 'Minimum price', min: 0.01, max: 99999999 },
+  maxPrice: { label: 'Maximum price', min: 0.01, max: 99999999 },
+  minMargin: { label: 'Minimum margin', min: 0, max: 5 },
+  cooldownHours: { label: 'Cooldown', min: 1, max: 8760 }
+};
+
+// price_guardrails row; numeric columns may arrive as strings
+export interface PriceGuardrailRow {
+  id?: string;
+  baseline_id: string | null;
+  category: string | null;
+  max_change_percent: number | string | null;
+  min_price: number | string | null;
+  max_price: number | string | null;
+  min_margin: number | string | null;
+  cooldown_hours: number | string | null;
+}
+
+const toNumber = (value: number | string | null) => (value === null || value === '' ? null : Number(value));
+
+export function guardrailsFromRow(row: PriceGuardrailRow): PriceGuardrails {
+  return {
+    maxChangePercent: toNumber(row.max_change_percent),
+    minPrice: toNumber(row.min_price),
+    maxPrice: toNumber(row.max_price),
+    minMargin: toNumber(row.min_margin),
+    cooldownHours: toNumber(row.cooldown_hours)
+  };
+}
+
+export function guardrailsToRow(guardrails: PriceGuardrails): Record<'max_change_percent' | 'min_price' | 'max_price' | 'min_margin' | 'cooldown_hours', number | null> {
+  return {
+    max_change_percent: guardrails.maxChangePercent,
+    min_price: guardrails.minPrice,
+    max_price: guardrails.maxPrice,
+    min_margin: guardrails.minMargin,
+    cooldown_hours: guardrails.cooldownHours
+  };
+}
+
+export function hasGuardrails(guardrails: PriceGuardrails): boolean {
+  return Object.values(guardrails).some(value => value !== null);
+}
+
+/**
+ * Guardrails for one product: each setting from its own row, else from the
+ * closest category in its taxonomy path that sets it
+ */
+export function resolveGuardrails(
+  rows: PriceGuardrailRow[],
+  baselineId: string,
+  category: string,
+  taxonomy: CategoryNode[] = CATEGORY_TAXONOMY
+): PriceGuardrails {
+  const path = resolveCategory(category, taxonomy)?.path ?? [category];
+  const sources = [
+    rows.find(row => row.baseline_id === baselineId),
+    // Closest category first
+    ...[...path].reverse().map(name => rows.find(row => row.baseline_id === null && row.category === name))
+  ].filter((row): row is PriceGuardrailRow => Boolean(row)).map(guardrailsFromRow);
+
+  const resolved = { ...NO_GUARDRAILS };
+  for (const setting of Object.keys(NO_GUARDRAILS) as (keyof PriceGuardrails)[]) {
+    resolved[setting] = sources.map(source => source[setting]).find(value => value !== null) ?? null;
+  }
+  return resolved;
+}
+
+/**
+ * Problems with a set of guardrails, empty when they can be saved
+ */
+export function validateGuardrails(guardrails: PriceGuardrails): string[] {
+  const errors: string[] = [];
+  for (const [setting, { label, min, max }] of Object.entries(GUARDRAIL_LIMITS)) {
+    const value = guardrails[setting as keyof PriceGuardrails];
+    if (value !== null && (!Number.isFinite(value) || value < min || value > max)) {
+      errors.push(`${label} must be between ${min} and ${max}`);
+    }
+  }
+  if (guardrails.minPrice !== null && guardrails.maxPrice !== null && guardrails.minPrice > guardrails.maxPrice) {
+    errors.push('Minimum price must not be above maximum price');
+  }
+  return errors;
+}
+
+/**
+ * Apply guardrails to a suggested price. A cooldown holds the live price;
+ * otherwise the step limit applies first and the margin and absolute prices,
+ * being hard limits, win over it.
+ * @param livePrice - The price on sale now: the last applied recommendation, else the baseline's price
+ * @param hoursSinceChange - Hours since the last applied price change, null if none
+ * @returns The guarded price and the guardrails that changed it, in order
+ */
+export function applyGuardrails(
+  price: number,
+  livePrice: number,
+  cost: number,
+  guardrails: PriceGuardrails,
+  hoursSinceChange: number | null
+): { price: number; applied: GuardrailKey[] } {
+  if (guardrails.cooldownHours !== null && hoursSinceChange !== null && hoursSinceChange < guardrails.cooldownHours) {
+    return { price: livePrice, applied: price !== livePrice ? ['cooldown'] : [] };
+  }
+
+  const applied: GuardrailKey[] = [];
+  let guarded = price;
+  // Limits are in whole cents, like the stored prices
+  const bound = (key: GuardrailKey, rawLimit: number, direction: 'min' | 'max') => {
+    const limit = Math.round(rawLimit * 100) / 100;
+    if (direction === 'min' ? guarded < limit : guarded > limit) {
+      guarded = limit;
+      applied.push(key);
+    }
+  };
+
+  if (guardrails.maxChangePercent !== null) {
+    bound('max_change', livePrice * (1 - guardrails.maxChangePercent), 'min');
+    bound('max_change', livePrice * (1 + guardrails.maxChangePercent), 'max');
+  }
+  if (guardrails.minMargin !== null) bound('min_margin', cost * (1 + guardrails.minMargin), 'min');
+  if (guardrails.minPrice !== null) bound('min_price', guardrails.minPrice, 'min');
+  if (guardrails.maxPrice !== null) bound('max_price', guardrails.maxPrice, 'max');
+
+  return { price: guarded, applied };
+}
+
+/**
+ * One-line summary of the settings in use
+ */
+export function describeGuardrails(guardrails: PriceGuardrails, currency?: string): string {
+  const price = (value: number) => (currency ? `${value} ${currency}` : String(value));
+  const parts = [
+    guardrails.maxChangePercent !== null && `±${+(guardrails.maxChangePercent * 100).toFixed(1)}% per run`,
+    guardrails.minMargin !== null && `margin ≥ ${+(guardrails.minMargin * 100).toFixed(1)}%`,
+    guardrails.minPrice !== null && `min ${price(guardrails.minPrice)}`,
+    guardrails.maxPrice !== null && `max ${price(guardrails.maxPrice)}`,
+    guardrails.cooldownHours !== null && `${guardrails.cooldownHours}h cooldown`
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'No guardrails';
+}
@@ -0,0 +1,97 @@
+// ========================================
+// RULE-BASED REPRICING TESTS
+// ========================================
+//   deno test supabase/functions/_shared/pricing
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import {
+  evaluateRepricingRule,
+  evaluateRepricingRules,
+  orderRepricingRules,
+  RepricingListing,
+  RepricingRule
+} from './repricing.ts';
+
+const rule = (overrides: Partial<RepricingRule>): RepricingRule => ({
+  id: 'rule',
+  name: 'Rule',
+  rule_type: 'beat_lowest',
+  baseline_id: 'product',
+  category: null,
+  marketplaces: [],
+  offset_percent: 0,
+  priority: 100,
+  ...overrides
+});
+
+const LISTINGS: RepricingListing[] = [
+  { marketplace: 'Amazon.sa', price: 100, similarity_score: 0.9 },
+  { marketplace: 'Noon', price: 104, similarity_score: 0.85 },
+  { marketplace: 'Jarir', price: 110, similarity_score: 1 },
+  { marketplace: 'Extra', price: 130, similarity_score: 0.7 },
+  // Too different to count
+  { marketplace: 'Noon', price: 60, similarity_score: 0.3 }
+];
+
+Deno.test('evaluateRepricingRule: reference per rule type and marketplace filter', () => {
+  assertEquals(
+    evaluateRepricingRule(rule({ marketplaces: ['amazon', 'noon'], offset_percent: -0.01 }), LISTINGS),
+    { reference: 100, price: 99, listings: 2 }
+  );
+  assertEquals(evaluateRepricingRule(rule({ rule_type: 'match_average' }), LISTINGS), { reference: 111, price: 111, listings: 4 });
+  assertEquals(
+    evaluateRepricingRule(rule({ rule_type: 'stay_below_highest', offset_percent: -0.05 }), LISTINGS),
+    { reference: 130, price: 123.5, listings: 4 }
+  );
+  assertEquals(
+    evaluateRepricingRule(rule({ rule_type: 'never_undercut', marketplaces: ['Walmart'] }), LISTINGS),
+    { reference: null, price: null, listings: 0 }
+  );
+});
+
+Deno.test('evaluateRepricingRules: first target wins, floors and ceilings bound it', () => {
+  const candidate = evaluateRepricingRules([
+    rule({ id: 'beat', priority: 10, marketplaces: ['amazon', 'noon'], offset_percent: -0.01 }),
+    rule({ id: 'average', rule_type: 'match_average', priority: 20 }),
+    rule({ id: 'jarir', rule_type: 'never_undercut', priority: 30, marketplaces: ['jarir'] })
+  ], LISTINGS, 120);
+
+  assertEquals(candidate.price, 110);
+  assertEquals(candidate.decidingRuleId, 'jarir');
+  assertEquals(candidate.evaluations.map(e => e.outcome), ['set', 'overridden', 'bound']);
+});
+
+Deno.test('evaluateRepricingRules: a bound that contradicts a higher priority is skipped', () => {
+  const candidate = evaluateRepricingRules([
+    rule({ id: 'ceiling', rule_type: 'stay_below_highest', priority: 1, offset_percent: -0.2 }),
+    rule({ id: 'floor', rule_type: 'never_undercut', priority: 2, marketplaces: ['extra'] })
+  ], LISTINGS, 120);
+
+  // Floor at 130 is above the 104 ceiling; the ceiling has priority
+  assertEquals(candidate.price, 104);
+  assertEquals(candidate.decidingRuleId, 'ceiling');
+  assertEquals(candidate.evaluations.map(e => e.outcome), ['bound', 'conflict']);
+});
+
+Deno.test('evaluateRepricingRules: no market data means no candidate', () => {
+  const candidate = evaluateRepricingRules([rule({ marketplaces: ['walmart'] })], LISTINGS, 120);
+  assertEquals(candidate.price, null);
+  assertEquals(candidate.evaluations[0].outcome, 'no_data');
+
+  // Bounds alone keep the current price when it is inside them
+  const kept = evaluateRepricingRules([rule({ rule_type: 'stay_below_highest' })], LISTINGS, 120);
+  assertEquals(kept, { price: 120, decidingRuleId: null, evaluations: [{ ...kept.evaluations[0], outcome: 'satisfied' }] });
+});
+
+Deno.test('orderRepricingRules: priority, then product before closest category', () => {
+  const ordered = orderRepricingRules([
+    rule({ id: 'root', baseline_id: null, category: 'Electronics & Technology', priority: 5 }),
+    rule({ id: 'leaf', baseline_id: null, category: 'Mobile Phones & Tablets', priority: 5 }),
+    rule({ id: 'own', priority: 5 }),
+    rule({ id: 'first', baseline_id: null, category: 'Electronics & Technology', priority: 1 }),
+    rule({ id: 'other', baseline_id: 'another product', priority: 1 }),
+    rule({ id: 'unrelated', baseline_id: null, category: 'Fashion & Apparel', priority: 1 })
+  ], 'product', 'Mobile Phones & Tablets');
+
+  assertEquals(ordered.map(r => r.id), ['first', 'own', 'leaf', 'root']);
+});
@@ -0,0 +1,207 @@
+// ========================================
+// RULE-BASED REPRICING
+// ========================================
+// Explicit merchant rules ("beat the lowest Noon price by 1%", "never undercut
+// Jarir") evaluated after each competitor refresh into a candidate price that
+// sits beside the engine's suggestion. Each rule turns a market figure into a
+// price: reference × (1 + offset). Target rules propose the price; floor and
+// ceiling rules bound it. Priority decides conflicts: the first target in
+// priority order wins, and a bound that contradicts a higher-priority bound is
+// skipped.
+
+import { CATEGORY_TAXONOMY, CategoryNode, resolveCategory } from './categories.ts';
+
+export type RepricingRuleType = 'beat_lowest' | 'match_average' | 'stay_below_highest' | 'never_undercut';
+
+export type RepricingRole = 'target' | 'floor' | 'ceiling';
+
+export const REPRICING_RULE_ROLES: Record<RepricingRuleType, RepricingRole> = {
+  beat_lowest: 'target',
+  match_average: 'target',
+  stay_below_highest: 'ceiling',
+  never_undercut: 'floor'
+};
+
+export const REPRICING_RULE_LABELS: Record<RepricingRuleType, string> = {
+  beat_lowest: 'Beat the lowest price',
+  match_average: 'Match the market average',
+  stay_below_highest: 'Stay below the highest price',
+  never_undercut: 'Never undercut'
+};
+
+// Same cut-off the price alerts use, so rules follow the listings merchants are alerted about
+export const MIN_RULE_SIMILARITY = 0.6;
+
+// Matches the repricing_rules check constraints
+export const REPRICING_OFFSET_LIMITS = { min: -0.9, max: 1 };
+export const REPRICING_PRIORITY_LIMITS = { min: 1, max: 1000 };
+
+export interface RepricingRule {
+  id: string;
+  name: string;
+  rule_type: RepricingRuleType;
+  baseline_id: string | null;
+  category: string | null;
+  // Marketplace names to compare against (matched case-insensitively by substring,
+  // so "amazon" covers Amazon.sa); empty means every marketplace
+  marketplaces: string[];
+  // Applied to the reference price: -0.01 is 1% below it
+  offset_percent: number;
+  // Lower numbers win
+  priority: number;
+}
+
+// repricing_rules row; numeric columns may arrive as strings
+export type RepricingRuleRow = Omit<RepricingRule, 'rule_type' | 'offset_percent' | 'priority' | 'marketplaces'> & {
+  rule_type: string;
+  offset_percent: number | string;
+  priority: number | string;
+  marketplaces: string[] | null;
+};
+
+export interface RepricingListing {
+  marketplace: string;
+  price: number;
+  similarity_score: number | null;
+}
+
+export type RuleOutcome = 'set' | 'bound' | 'satisfied' | 'overridden' | 'conflict' | 'no_data';
+
+export interface RuleEvaluation {
+  rule_id: string;
+  name: string;
+  rule_type: RepricingRuleType;
+  priority: number;
+  // Market figure the rule compares against, null when no listing matched
+  reference: number | null;
+  price: number | null;
+  listings: number;
+  outcome: RuleOutcome;
+}
+
+export interface RepricingCandidate {
+  // null when no rule had market data
+  price: number | null;
+  // The rule that decided the price: the binding floor or ceiling, else the target
+  decidingRuleId: string | null;
+  evaluations: RuleEvaluation[];
+}
+
+export function ruleFromRow(row: RepricingRuleRow): RepricingRule {
+  return {
+    ...row,
+    rule_type: row.rule_type as RepricingRuleType,
+    marketplaces: row.marketplaces ?? [],
+    offset_percent: Number(row.offset_percent),
+    priority: Number(row.priority)
+  };
+}
+
+/**
+ * Rules that apply to one product, in evaluation order: by priority, then the
+ * product's own rules before category rules, closest category first
+ */
+export function orderRepricingRules<T extends RepricingRule>(
+  rules: T[],
+  baselineId: string,
+  category: string,
+  taxonomy: CategoryNode[] = CATEGORY_TAXONOMY
+): T[] {
+  const path = resolveCategory(category, taxonomy)?.path ?? [category];
+  const specificity = (rule: RepricingRule) =>
+    rule.baseline_id !== null ? 0 : path.length - path.indexOf(rule.category ?? '');
+
+  return rules
+    .filter(rule => rule.baseline_id === baselineId || (rule.baseline_id === null && path.includes(rule.category ?? '')))
+    .sort((a, b) => a.priority - b.priority || specificity(a) - specificity(b));
+}
+
+const matchesMarketplace = (listing: RepricingListing, marketplaces: string[]) =>
+  marketplaces.length === 0 ||
+  marketplaces.some(name => name.trim() !== '' && listing.marketplace.toLowerCase().includes(name.trim().toLowerCase()));
+
+/**
+ * One rule's reference figure and price against a refresh run's listings
+ */
+export function evaluateRepricingRule(
+  rule: RepricingRule,
+  listings: RepricingListing[]
+): { reference: number | null; price: number | null; listings: number } {
+  const prices = listings
+    .filter(listing => listing.similarity_score === null || listing.similarity_score >= MIN_RULE_SIMILARITY)
+    .filter(listing => matchesMarketplace(listing, rule.marketplaces))
+    .map(listing => Number(listing.price))
+    .filter(price => Number.isFinite(price) && price > 0);
+
+  if (prices.length === 0) return { reference: null, price: null, listings: 0 };
+
+  const reference = rule.rule_type === 'match_average'
+    ? prices.reduce((a, b) => a + b, 0) / prices.length
+    : rule.rule_type === 'stay_below_highest'
+    ? Math.max(...prices)
+    : Math.min(...prices);
+
+  return {
+    reference,
+    price: Math.round(reference * (1 + rule.offset_percent) * 100) / 100,
+    listings: prices.length
+  };
+}
+
+/**
+ * Resolve ordered rules into one candidate price. Without a target rule the
+ * bounds apply to the current price.
+ */
+export function evaluateRepricingRules(
+  rules: RepricingRule[],
+  listings: RepricingListing[],
+  currentPrice: number
+): RepricingCandidate {
+  let target: RuleEvaluation | null = null;
+  let floor: RuleEvaluation | null = null;
+  let ceiling: RuleEvaluation | null = null;
+  const evaluations: RuleEvaluation[] = [];
+
+  for (const rule of rules) {
+    const evaluation: RuleEvaluation = {
+      rule_id: rule.id,
+      name: rule.name,
+      rule_type: rule.rule_type,
+      priority: rule.priority,
+      ...evaluateRepricingRule(rule, listings),
+      outcome: 'no_data'
+    };
+    evaluations.push(evaluation);
+    if (evaluation.price === null) continue;
+
+    const role = REPRICING_RULE_ROLES[rule.rule_type];
+    if (role === 'target') {
+      evaluation.outcome = target ? 'overridden' : 'set';
+      if (!target) target = evaluation;
+    } else if (role === 'floor' ? ceiling && evaluation.price > ceiling.price! : floor && evaluation.price < floor.price!) {
+      // Contradicts a bound with higher priority
+      evaluation.outcome = 'conflict';
+    } else {
+      evaluation.outcome = 'satisfied';
+      if (role === 'floor' && (!floor || evaluation.price > floor.price!)) floor = evaluation;
+      if (role === 'ceiling' && (!ceiling || evaluation.price < ceiling.price!)) ceiling = evaluation;
+    }
+  }
+
+  if (!target && !floor && !ceiling) {
+    return { price: null, decidingRuleId: null, evaluations };
+  }
+
+  let price = target?.price ?? currentPrice;
+  let deciding = target;
+  if (floor && price < floor.price!) {
+    price = floor.price!;
+    deciding = floor;
+  } else if (ceiling && price > ceiling.price!) {
+    price = ceiling.price!;
+    deciding = ceiling;
+  }
+  if (deciding && deciding !== target) deciding.outcome = 'bound';
+
+  return { price, decidingRuleId: deciding?.rule_id ?? null, evaluations };
+}
@@ -0,0 +1,62 @@
+// ========================================
+// WHAT-IF PRICE SIMULATION TESTS
+// ========================================
+//   deno test supabase/functions/_shared/pricing
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { calculateProfitMaximizingPrice } from './engine.ts';
+import { bestProfitPoint, profitCurve, projectDemand, simulatePrice, simulationRange, SimulationInputs } from './simulator.ts';
+
+const inputs: SimulationInputs = {
+  cost: 60,
+  currentPrice: 100,
+  currentQuantity: 200,
+  elasticity: -1.5,
+  marketLowest: 80,
+  marketAverage: 100,
+  marketHighest: 130,
+  inflationRate: 0.02,
+  category: 'Electronics & Technology'
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+Deno.test('projectDemand: demand falls as price rises', () => {
+  assertEquals(projectDemand(200, 100, 100, -1.5), 200);
+  assertEquals(projectDemand(200, 100, 110, -1.5) < 200, true);
+  assertEquals(projectDemand(200, 100, 90, -1.5) > 200, true);
+  assertEquals(round(projectDemand(100, 100, 200, -1)), 50);
+});
+
+Deno.test('simulatePrice: profit, margin and break-even at a price', () => {
+  const point = simulatePrice(inputs, 100);
+  assertEquals(point.quantity, 200);
+  assertEquals(point.revenue, 20000);
+  assertEquals(point.profit, 8000);
+  assertEquals(point.margin, 0.4);
+  assertEquals(point.breakEvenMultiplier, 1);
+});
+
+Deno.test('simulatePrice: zones match the engine', () => {
+  // Inflation-adjusted lowest 81.6 (zone A up to 85.68), average 102
+  assertEquals(simulatePrice(inputs, 85).zone, 'A');
+  assertEquals(simulatePrice(inputs, 85).marketPotential, 3.5);
+  assertEquals(simulatePrice(inputs, 101).zone, 'B');
+  assertEquals(simulatePrice(inputs, 103).zone, 'C');
+
+  const engine = calculateProfitMaximizingPrice(60, -1.5, 100, 100, 80, 130, 0.02, 'Electronics & Technology');
+  const point = simulatePrice(inputs, engine.marketAdjusted);
+  assertEquals(point.zone, engine.zoneDetected);
+  assertEquals(point.marketPotential, engine.marketPotential);
+});
+
+Deno.test('profitCurve: spans the range and finds the best price', () => {
+  const curve = profitCurve(inputs, 50);
+  const { min, max } = simulationRange(inputs);
+  assertEquals(curve.length, 50);
+  assertEquals(round(curve[0].price), round(min));
+  assertEquals(round(curve[49].price), round(max));
+  // With elasticity -1.5 profit peaks at cost / (1 - 1/1.5) = 180, beyond this range
+  assertEquals(bestProfitPoint(curve)!.price, curve[49].price);
+  assertEquals(bestProfitPoint([]), null);
+});
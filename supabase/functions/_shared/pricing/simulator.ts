@@ -0,0 +1,104 @@
+// ========================================
+// WHAT-IF PRICE SIMULATION
+// ========================================
+// Demand, revenue, profit and market zone at any price, for the ResultsPage
+// simulator. Zones and their volume multipliers come from the engine
+// (classifyZone, getStrategyZoneMultipliers), and demand from projectDemand,
+// the same projection process-pricing stores with each result.
+
+import { CATEGORY_TAXONOMY, CategoryNode } from './categories.ts';
+import { classifyZone, getStrategyZoneMultipliers } from './engine.ts';
+import { BALANCED_STRATEGY, PricingStrategy } from './strategy.ts';
+
+export interface SimulationInputs {
+  cost: number;
+  currentPrice: number;
+  // Monthly units at the current price
+  currentQuantity: number;
+  elasticity: number;
+  // Market prices as scraped; inflation is applied the way the engine does
+  marketLowest: number;
+  marketAverage: number;
+  marketHighest: number;
+  inflationRate: number;
+  category: string;
+  taxonomy?: CategoryNode[];
+  strategy?: PricingStrategy;
+}
+
+export interface SimulationPoint {
+  price: number;
+  quantity: number;
+  revenue: number;
+  profit: number;
+  // Profit per unit over price
+  margin: number;
+  zone: 'A' | 'B' | 'C';
+  // Volume multiplier the engine expects in this zone
+  marketPotential: number;
+  // Volume multiplier needed to keep today's profit at this price
+  breakEvenMultiplier: number;
+}
+
+/**
+ * Monthly units at a new price, from constant elasticity: q = q0 × (p / p0)^e.
+ * Elasticity is negative, so demand falls as price rises.
+ */
+export function projectDemand(currentQuantity: number, currentPrice: number, price: number, elasticity: number): number {
+  if (currentPrice <= 0 || price <= 0) return 0;
+  return currentQuantity * Math.pow(price / currentPrice, elasticity);
+}
+
+export function simulatePrice(inputs: SimulationInputs, price: number): SimulationPoint {
+  const strategy = inputs.strategy ?? BALANCED_STRATEGY;
+  const inflationMultiplier = 1 + inputs.inflationRate;
+  const zones = getStrategyZoneMultipliers(inputs.category, inputs.taxonomy ?? CATEGORY_TAXONOMY, strategy);
+  const { zone, marketPotential } = classifyZone(
+    price,
+    inputs.marketLowest * inflationMultiplier,
+    inputs.marketAverage * inflationMultiplier,
+    zones,
+    strategy
+  );
+
+  const quantity = projectDemand(inputs.currentQuantity, inputs.currentPrice, price, inputs.elasticity);
+  const newUnitMargin = price - inputs.cost;
+
+  return {
+    price,
+    quantity,
+    revenue: price * quantity,
+    profit: newUnitMargin * quantity,
+    margin: price > 0 ? newUnitMargin / price : 0,
+    zone,
+    marketPotential,
+    breakEvenMultiplier: newUnitMargin > 0 ? (inputs.currentPrice - inputs.cost) / newUnitMargin : Infinity
+  };
+}
+
+/**
+ * Price range the simulator offers: from just above cost (or half the market lowest,
+ * whichever is higher) to 30% above the market highest
+ */
+export function simulationRange(inputs: SimulationInputs): { min: number; max: number } {
+  const marketLow = inputs.marketLowest > 0 ? inputs.marketLowest * 0.5 : inputs.currentPrice * 0.5;
+  const marketHigh = Math.max(inputs.marketHighest, inputs.marketAverage, inputs.currentPrice) * 1.3;
+  const min = Math.max(inputs.cost * 1.01, marketLow);
+  return { min: Math.min(min, marketHigh * 0.9), max: marketHigh };
+}
+
+/**
+ * Evenly spaced points across the range, for the profit-vs-price curve
+ */
+export function profitCurve(inputs: SimulationInputs, points = 60): SimulationPoint[] {
+  const { min, max } = simulationRange(inputs);
+  const step = (max - min) / Math.max(points - 1, 1);
+  return Array.from({ length: points }, (_, index) => simulatePrice(inputs, min + step * index));
+}
+
+/**
+ * Highest-profit point on the curve
+ */
+export function bestProfitPoint(curve: SimulationPoint[]): SimulationPoint | null {
+  return curve.reduce<SimulationPoint | null>((best, point) => (!best || point.profit > best.profit ? point : best), null);
+}
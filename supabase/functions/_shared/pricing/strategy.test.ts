@@ -0,0 +1,63 @@
+// ========================================
+// PRICING STRATEGY PROFILE TESTS
+// ========================================
+//   deno test supabase/functions/_shared/pricing
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { calculateProfitMaximizingPrice } from './engine.ts';
+import { CATEGORY_TAXONOMY } from './categories.ts';
+import { BALANCED_STRATEGY, BUILT_IN_STRATEGIES, strategyFromRow, strategyToRow, validateStrategy } from './strategy.ts';
+
+const strategy = (key: string) => BUILT_IN_STRATEGIES.find(s => s.key === key)!;
+
+// cost, elasticity, current price, market average/lowest/highest, inflation, category
+const price = (s = BALANCED_STRATEGY, currentPrice = 100) =>
+  calculateProfitMaximizingPrice(60, -1.5, currentPrice, 100, 80, 130, 0, 'Electronics & Technology', CATEGORY_TAXONOMY, s);
+
+Deno.test('balanced strategy is the engine default', () => {
+  assertEquals(
+    price(BALANCED_STRATEGY),
+    calculateProfitMaximizingPrice(60, -1.5, 100, 100, 80, 130, 0, 'Electronics & Technology')
+  );
+});
+
+Deno.test('profiles move the price in their direction', () => {
+  // Current price well above the market average
+  const balanced = price(BALANCED_STRATEGY, 150);
+  const aggressive = price(strategy('aggressive_market_share'), 150);
+  assertEquals(balanced.isRiskAdjusted, true);
+  assertEquals(aggressive.isRiskAdjusted, false);
+  assertEquals(aggressive.marketAdjusted < balanced.marketAdjusted, true);
+  // Premium starts halfway between the market average and highest
+  assertEquals(price(strategy('premium')).marketAdjusted, 115);
+  assertEquals(price(strategy('premium')).zoneDetected, 'C');
+});
+
+Deno.test('floor margin and ceiling bound the price', () => {
+  const tight = { ...BALANCED_STRATEGY, key: 'custom', name: 'Custom', floorMargin: 1, ceilingRatio: 0.7 };
+  // Ceiling wins over the floor when they cross
+  assertEquals(price(tight).marketAdjusted, 130 * 0.7);
+  const floor = { ...BALANCED_STRATEGY, key: 'custom', name: 'Custom', floorMargin: 0.9, ceilingRatio: 1.5 };
+  assertEquals(price(floor).marketAdjusted, 60 * 1.9);
+});
+
+Deno.test('risk tolerance sets the fallback between current and market price', () => {
+  // Zone B promises 2.2x volume but the cut from 150 to 100 needs 2.25x
+  const custom = (riskTolerance: number) => ({ ...BALANCED_STRATEGY, key: 'custom', name: 'Custom', riskTolerance });
+  // Staying at 150 still has to respect the 95% ceiling
+  assertEquals(price(custom(0), 150).marketAdjusted, 130 * 0.95);
+  assertEquals(price(custom(0.25), 150).reasoning.startsWith('Zone B: Risk-adjusted to 25% of the way (138)'), true);
+  assertEquals(price(BALANCED_STRATEGY, 150).reasoning.startsWith('Zone B: Risk-adjusted to midway (125)'), true);
+});
+
+Deno.test('validateStrategy and strategyFromRow', () => {
+  for (const builtIn of BUILT_IN_STRATEGIES) {
+    assertEquals(validateStrategy(builtIn), []);
+  }
+  assertEquals(validateStrategy({ ...BALANCED_STRATEGY, name: ' ', blendWeight: 1.5 }), [
+    'Name is required',
+    'Elasticity blend must be between 0 and 1'
+  ]);
+  // numeric columns arrive as strings
+  assertEquals(strategyFromRow({ ...strategyToRow(BALANCED_STRATEGY), floor_margin: '0.15' }), BALANCED_STRATEGY);
+});
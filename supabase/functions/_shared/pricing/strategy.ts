@@ -0,0 +1,164 @@
+// ========================================
+// PRICING STRATEGY PROFILES
+// ========================================
+// The knobs of calculateProfitMaximizingPrice. Built-in profiles live in the
+// pricing_strategies table with no merchant; merchants add their own and choose
+// one per product (product_baselines.strategy_id) or as their account default
+// (profiles.default_strategy_id). BALANCED_STRATEGY reproduces the engine's
+// original fixed behaviour and is used when nothing is chosen.
+
+export interface PricingStrategy {
+  key: string;
+  name: string;
+  // Minimum margin over cost: 0.15 keeps the price at least 15% above cost
+  floorMargin: number;
+  // Highest price as a share of the inflation-adjusted market highest
+  ceilingRatio: number;
+  // Starting price between the market average (0) and the market highest (1)
+  marketPosition: number;
+  // Weight given to the elasticity-theory optimum when it is below the starting price
+  blendWeight: number;
+  // When the expected volume gain doesn't cover the break-even, how far to move from the
+  // current price toward the market price: 0 stays put, 0.5 is midway, 1 goes all the way
+  riskTolerance: number;
+  // Scales the category's zone A/B volume multipliers; above 1 expects more volume from cutting price
+  zoneMultiplierScale: number;
+  // Zone A covers prices within this share above the market lowest
+  zoneABand: number;
+}
+
+type StrategyColumn = 'floor_margin' | 'ceiling_ratio' | 'market_position' | 'blend_weight' | 'risk_tolerance' | 'zone_multiplier_scale' | 'zone_a_band';
+
+// pricing_strategies row
+export type PricingStrategyRow = {
+  id?: string;
+  key: string;
+  name: string;
+  description?: string | null;
+} & Record<StrategyColumn, number>;
+
+export const BALANCED_STRATEGY: PricingStrategy = {
+  key: 'balanced',
+  name: 'Balanced',
+  floorMargin: 0.15,
+  ceilingRatio: 0.95,
+  marketPosition: 0,
+  blendWeight: 0.4,
+  riskTolerance: 0.5,
+  zoneMultiplierScale: 1,
+  zoneABand: 0.05
+};
+
+// Same rows as the seed in migration 20261019153000
+export const BUILT_IN_STRATEGIES: (PricingStrategy & { description: string })[] = [
+  {
+    ...BALANCED_STRATEGY,
+    description: 'Market average, nudged toward the elasticity optimum; midway when the volume case is weak'
+  },
+  {
+    key: 'aggressive_market_share',
+    name: 'Aggressive Market Share',
+    description: 'Thinner margins and stronger pull toward the lowest competitors to win volume',
+    floorMargin: 0.08,
+    ceilingRatio: 0.9,
+    marketPosition: 0,
+    blendWeight: 0.7,
+    riskTolerance: 0.8,
+    zoneMultiplierScale: 1.2,
+    zoneABand: 0.1
+  },
+  {
+    key: 'margin_protection',
+    name: 'Margin Protection',
+    description: 'Higher margin floor and cautious moves; only cuts price when the volume clearly pays for it',
+    floorMargin: 0.25,
+    ceilingRatio: 0.95,
+    marketPosition: 0.1,
+    blendWeight: 0.15,
+    riskTolerance: 0.25,
+    zoneMultiplierScale: 0.8,
+    zoneABand: 0.05
+  },
+  {
+    key: 'premium',
+    name: 'Premium',
+    description: 'Prices above the market average for brands that don\'t compete on price',
+    floorMargin: 0.3,
+    ceilingRatio: 1,
+    marketPosition: 0.5,
+    blendWeight: 0,
+    riskTolerance: 0.5,
+    zoneMultiplierScale: 1,
+    zoneABand: 0.05
+  }
+];
+
+// Allowed range per setting; matches the pricing_strategies check constraints
+export const STRATEGY_LIMITS: Record<keyof Omit<PricingStrategy, 'key' | 'name'>, { label: string; min: number; max: number }> = {
+  floorMargin: { label: 'Floor margin', min: 0, max: 2 },
+  ceilingRatio: { label: 'Ceiling', min: 0.5, max: 1.5 },
+  marketPosition: { label: 'Market position', min: 0, max: 1 },
+  blendWeight: { label: 'Elasticity blend', min: 0, max: 1 },
+  riskTolerance: { label: 'Risk tolerance', min: 0, max: 1 },
+  zoneMultiplierScale: { label: 'Zone volume scale', min: 0.25, max: 3 },
+  zoneABand: { label: 'Zone A band', min: 0, max: 0.5 }
+};
+
+// numeric columns may arrive as strings
+export function strategyFromRow(row: Omit<PricingStrategyRow, StrategyColumn> & Record<StrategyColumn, number | string>): PricingStrategy {
+  return {
+    key: row.key,
+    name: row.name,
+    floorMargin: Number(row.floor_margin),
+    ceilingRatio: Number(row.ceiling_ratio),
+    marketPosition: Number(row.market_position),
+    blendWeight: Number(row.blend_weight),
+    riskTolerance: Number(row.risk_tolerance),
+    zoneMultiplierScale: Number(row.zone_multiplier_scale),
+    zoneABand: Number(row.zone_a_band)
+  };
+}
+
+export function strategyToRow(strategy: PricingStrategy): Omit<PricingStrategyRow, 'id' | 'description'> {
+  return {
+    key: strategy.key,
+    name: strategy.name,
+    floor_margin: strategy.floorMargin,
+    ceiling_ratio: strategy.ceilingRatio,
+    market_position: strategy.marketPosition,
+    blend_weight: strategy.blendWeight,
+    risk_tolerance: strategy.riskTolerance,
+    zone_multiplier_scale: strategy.zoneMultiplierScale,
+    zone_a_band: strategy.zoneABand
+  };
+}
+
+/**
+ * Problems with a custom profile, empty when it can be saved
+ */
+export function validateStrategy(strategy: PricingStrategy): string[] {
+  const errors: string[] = [];
+  if (!strategy.name.trim()) errors.push('Name is required');
+
+  for (const [setting, { label, min, max }] of Object.entries(STRATEGY_LIMITS)) {
+    const value = strategy[setting as keyof typeof STRATEGY_LIMITS];
+    if (!Number.isFinite(value) || value < min || value > max) {
+      errors.push(`${label} must be between ${min} and ${max}`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * One-line summary of a profile's settings
+ */
+export function describeStrategy(strategy: PricingStrategy): string {
+  return [
+    `Floor ${+(strategy.floorMargin * 100).toFixed(1)}%`,
+    `ceiling ${+(strategy.ceilingRatio * 100).toFixed(1)}% of highest`,
+    strategy.marketPosition > 0 ? `starts ${+(strategy.marketPosition * 100).toFixed(0)}% above average` : 'starts at average',
+    `blend ${+(strategy.blendWeight * 100).toFixed(0)}%`,
+    `risk ${+(strategy.riskTolerance * 100).toFixed(0)}%`,
+    `zones ×${strategy.zoneMultiplierScale}`
+  ].join(' · ');
+}
@@ -0,0 +1,53 @@
+// ========================================
+// DECISION TRACE TESTS
+// ========================================
+// The full engine traces are covered by the golden cases in engine.golden.json.
+//   deno test supabase/functions/_shared/pricing
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { calculateProfitMaximizingPrice } from './engine.ts';
+import { BUILT_IN_STRATEGIES } from './strategy.ts';
+import { buildDecisionTrace, DECISION_TRACE_VERSION, TraceStep, traceStep } from './trace.ts';
+
+const figure = (steps: TraceStep[], step: string, key: string) =>
+  steps.find(s => s.key === step)?.figures.find(f => f.key === key)?.value;
+
+Deno.test('traceStep: rounds numbers and keeps the trace JSON-safe', () => {
+  const step = traceStep('price', 'test', 'Test', 'detail', [
+    ['ratio', 'Ratio', 1 / 3, 'number'],
+    ['infinite', 'Infinite', Infinity, 'multiplier'],
+    ['zone', 'Zone', 'A', 'text']
+  ]);
+  assertEquals(step.figures.map(f => f.value), [0.3333, null, 'A']);
+  assertEquals(JSON.parse(JSON.stringify(step)), step);
+});
+
+Deno.test('buildDecisionTrace: versioned steps in stage order', () => {
+  const market = [traceStep('market', 'a', 'A', '')];
+  const price = [traceStep('price', 'b', 'B', ''), traceStep('price', 'c', 'C', '')];
+  const trace = buildDecisionTrace(market, price);
+  assertEquals(trace.version, DECISION_TRACE_VERSION);
+  assertEquals(trace.steps.map(s => s.key), ['a', 'b', 'c']);
+});
+
+Deno.test('engine trace: records the risk-adjusted fallback and the final cap', () => {
+  // Zone B at 110 needs 2.8x volume but expects 2.2x, so it moves midway to 155,
+  // above the ceiling of 95% of 150
+  const result = calculateProfitMaximizingPrice(60, -1.5, 200, 110, 80, 150, 0, 'Electronics & Technology');
+  const steps = result.trace;
+  assertEquals(result.isRiskAdjusted, true);
+  assertEquals(figure(steps, 'zone', 'zone'), 'B');
+  assertEquals(figure(steps, 'break_even', 'breakEvenMultiplier'), 2.8);
+  assertEquals(figure(steps, 'decision', 'accepted'), false);
+  assertEquals(figure(steps, 'decision', 'price'), 155);
+  assertEquals(figure(steps, 'final_bounds', 'price'), 142.5);
+  assertEquals(result.marketAdjusted, 142.5);
+  assertEquals(steps.every(s => s.stage === 'price'), true);
+});
+
+Deno.test('engine trace: notes when the strategy skips the blend', () => {
+  const premium = BUILT_IN_STRATEGIES.find(s => s.key === 'premium')!;
+  const result = calculateProfitMaximizingPrice(50, -3, 100, 100, 98, 140, 0, 'Electronics & Technology', undefined, premium);
+  assertEquals(figure(result.trace, 'blend', 'applied'), false);
+  assertEquals(figure(result.trace, 'anchor', 'anchor'), 120);
+});
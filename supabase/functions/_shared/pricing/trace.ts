@@ -0,0 +1,68 @@
+// ========================================
+// PRICING DECISION TRACE
+// ========================================
+// Step-by-step record of how a price was reached, with the numbers used at
+// each step. calculateWeightedMarketStats and calculateProfitMaximizingPrice
+// return their steps with their results; process-pricing adds its own and
+// stores the whole trace in pricing_results.decision_trace, which the
+// "Why this price?" panel on ResultsPage walks through.
+
+export const DECISION_TRACE_VERSION = 1;
+
+// market: competitor data to market stats; price: the engine's decision;
+// projection: what process-pricing does with the engine's price
+export type TraceStage = 'market' | 'price' | 'projection';
+
+// How the panel formats a figure; percent and multiplier values are ratios (0.15, 1.8)
+export type TraceFormat = 'price' | 'percent' | 'multiplier' | 'count' | 'number' | 'text';
+
+export type TraceValue = number | string | boolean | null;
+
+export interface TraceFigure {
+  key: string;
+  label: string;
+  value: TraceValue;
+  format: TraceFormat;
+}
+
+export interface TraceStep {
+  stage: TraceStage;
+  key: string;
+  title: string;
+  detail: string;
+  figures: TraceFigure[];
+}
+
+export interface DecisionTrace {
+  version: number;
+  steps: TraceStep[];
+}
+
+/**
+ * One trace step. Figures are [key, label, value, format]; numbers are kept to
+ * 4 decimals and non-finite ones stored as null so the trace survives JSON.
+ */
+export function traceStep(
+  stage: TraceStage,
+  key: string,
+  title: string,
+  detail: string,
+  figures: [string, string, TraceValue, TraceFormat][] = []
+): TraceStep {
+  return {
+    stage,
+    key,
+    title,
+    detail,
+    figures: figures.map(([figureKey, label, value, format]) => ({
+      key: figureKey,
+      label,
+      value: typeof value === 'number' ? (Number.isFinite(value) ? Math.round(value * 10000) / 10000 : null) : value,
+      format
+    }))
+  };
+}
+
+export function buildDecisionTrace(...steps: TraceStep[][]): DecisionTrace {
+  return { version: DECISION_TRACE_VERSION, steps: steps.flat() };
+}
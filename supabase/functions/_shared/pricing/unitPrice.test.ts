@@ -0,0 +1,73 @@
+// ========================================
+// UNIT-PRICE NORMALIZATION TESTS
+// ========================================
+//   deno test supabase/functions/_shared/pricing
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { aggregateListingsByMarketplace, normalizeToBaselineQuantity, unitPrice } from './unitPrice.ts';
+
+Deno.test('normalizeToBaselineQuantity: rescales other sizes to the baseline volume', () => {
+  const { listings, normalization } = normalizeToBaselineQuantity('Dior Sauvage Eau de Parfum 100ml', [
+    { product_name: 'Dior Sauvage EDP 100 ml', price: 450 },
+    { product_name: 'Dior Sauvage EDP 50ml', price: 300 },
+    { product_name: 'Dior Sauvage EDP 200ml', price: 700 },
+    // No size on the listing: taken as the baseline's size
+    { product_name: 'Dior Sauvage Eau de Parfum', price: 440 }
+  ]);
+
+  assertEquals(listings.map(listing => listing.price), [450, 600, 350, 440]);
+  assertEquals(normalization, { basis: 'ml', baselineQuantity: 100, normalizedCount: 2, unchangedCount: 2 });
+});
+
+Deno.test('normalizeToBaselineQuantity: packs and ounces', () => {
+  const { listings, normalization } = normalizeToBaselineQuantity('Coca-Cola Can 330ml', [
+    { product_name: 'Coca-Cola 6 x 330ml', price: 15 },
+    { product_name: 'Coca-Cola Pack of 12', price: 24 }
+  ]);
+  assertEquals(listings.map(listing => listing.price), [2.5, 2]);
+  assertEquals(normalization.normalizedCount, 2);
+
+  const ounces = normalizeToBaselineQuantity('Dior Sauvage EDP 100ml', [
+    { product_name: 'Dior Sauvage EDP 3.4 fl oz', price: 450 }
+  ]);
+  // 3.4 fl oz is 100.55 ml
+  assertEquals(ounces.listings[0].price, 447.54);
+});
+
+Deno.test('normalizeToBaselineQuantity: leaves sizes it cannot compare', () => {
+  const { listings, normalization } = normalizeToBaselineQuantity('Nutella Spread 750g', [
+    { product_name: 'Nutella Spread 1kg', price: 40 },
+    { product_name: 'Nutella Drink 250ml', price: 8 }
+  ]);
+  assertEquals(listings.map(listing => listing.price), [30, 8]);
+  assertEquals(normalization, { basis: 'g', baselineQuantity: 750, normalizedCount: 1, unchangedCount: 1 });
+});
+
+Deno.test('normalizeToBaselineQuantity: unsized baseline compares pack counts only', () => {
+  const { listings, normalization } = normalizeToBaselineQuantity('Duracell AA Batteries 4 Pack', [
+    { product_name: 'Duracell AA Batteries Pack of 8', price: 40 },
+    { product_name: 'Duracell AA Batteries 4-Pack', price: 22 }
+  ]);
+  assertEquals(listings.map(listing => listing.price), [20, 22]);
+  assertEquals(normalization, { basis: 'unit', baselineQuantity: 4, normalizedCount: 1, unchangedCount: 1 });
+});
+
+Deno.test('aggregateListingsByMarketplace: lowest, average and highest per store', () => {
+  assertEquals(
+    aggregateListingsByMarketplace([
+      { marketplace: 'noon', product_name: 'a', price: 100 },
+      { marketplace: 'noon', product_name: 'b', price: 200 },
+      { marketplace: 'amazon', product_name: 'c', price: 150 }
+    ]),
+    [
+      { lowest_price: 100, average_price: 150, highest_price: 200 },
+      { lowest_price: 150, average_price: 150, highest_price: 150 }
+    ]
+  );
+});
+
+Deno.test('unitPrice: per 100 ml, per 100 g and per unit', () => {
+  assertEquals(unitPrice(450, 50, 'ml'), 900);
+  assertEquals(unitPrice(30, 750, 'g'), 4);
+  assertEquals(unitPrice(22, 4, 'unit'), 5.5);
+});
@@ -0,0 +1,137 @@
+// ========================================
+// UNIT-PRICE NORMALIZATION
+// ========================================
+// Perfume, cosmetics and groceries are sold in many sizes and packs. For these
+// categories (unit_priced in the taxonomy) competitor prices are rescaled to the
+// merchant's own size before market stats are computed, so a 50ml listing at 200
+// counts as 400 against a 100ml baseline.
+
+import { extractProductAttributes, ProductAttributes, sizeInUnit } from '../matching/attributes.ts';
+import { CATEGORY_TAXONOMY, CategoryNode, resolveCategory } from './categories.ts';
+import type { CompetitorPriceAggregate } from './engine.ts';
+
+export type UnitBasis = 'ml' | 'g' | 'unit';
+
+export interface UnitQuantity {
+  basis: UnitBasis;
+  // Total quantity in the basis: size × pack count, or the pack count alone
+  quantity: number;
+}
+
+export interface UnitPricedListing {
+  product_name: string;
+  price: number;
+}
+
+export interface UnitPriceNormalization {
+  basis: UnitBasis;
+  // The baseline's own quantity; competitor prices are rescaled to it
+  baselineQuantity: number;
+  // Listings whose price was rescaled (different size or pack)
+  normalizedCount: number;
+  // Listings left as scraped: same quantity, or a size that can't be compared (ml vs g)
+  unchangedCount: number;
+}
+
+/**
+ * Whether the category (or the parent it inherits from) is flagged unit_priced in the taxonomy
+ */
+export function isUnitPricedCategory(category: string, taxonomy: CategoryNode[] = CATEGORY_TAXONOMY): boolean {
+  return resolveCategory(category, taxonomy)?.unitPriced ?? false;
+}
+
+/**
+ * Quantity in ml or g when the title carries a size, otherwise in units.
+ * Ounces count as fluid ounces, since most sized listings here are liquids.
+ */
+export function unitQuantity(attributes: ProductAttributes): UnitQuantity {
+  const { size, packCount } = attributes;
+  if (size?.unit === 'g') return { basis: 'g', quantity: size.value * packCount };
+  if (size && (size.unit === 'ml' || size.unit === 'oz')) {
+    return { basis: 'ml', quantity: (sizeInUnit(size, 'ml') ?? size.value) * packCount };
+  }
+  return { basis: 'unit', quantity: packCount };
+}
+
+/**
+ * Quantity of a competitor listing in the baseline's basis, or null when they can't be
+ * compared. A listing without a size is taken to be the baseline's size per unit.
+ */
+function competitorQuantity(baseline: ProductAttributes, basis: UnitBasis, competitor: ProductAttributes): number | null {
+  if (basis === 'unit') return competitor.packCount;
+
+  const perUnit = unitQuantity({ ...baseline, packCount: 1 }).quantity;
+  if (!competitor.size) return perUnit * competitor.packCount;
+
+  const size = sizeInUnit(competitor.size, basis);
+  return size === null ? null : size * competitor.packCount;
+}
+
+/**
+ * Rescale competitor prices to the baseline's size and pack count.
+ * Each returned listing keeps its fields with `price` replaced by the baseline-equivalent price.
+ */
+export function normalizeToBaselineQuantity<T extends UnitPricedListing>(
+  baselineName: string,
+  listings: T[]
+): { listings: T[]; normalization: UnitPriceNormalization } {
+  const baseline = extractProductAttributes(baselineName);
+  const { basis, quantity: baselineQuantity } = unitQuantity(baseline);
+
+  let normalizedCount = 0;
+  const normalized = listings.map(listing => {
+    const quantity = competitorQuantity(baseline, basis, extractProductAttributes(listing.product_name));
+    if (!quantity || Math.abs(quantity - baselineQuantity) < 1e-9) return listing;
+
+    normalizedCount++;
+    return { ...listing, price: Math.round(listing.price * (baselineQuantity / quantity) * 100) / 100 };
+  });
+
+  return {
+    listings: normalized,
+    normalization: {
+      basis,
+      baselineQuantity,
+      normalizedCount,
+      unchangedCount: listings.length - normalizedCount
+    }
+  };
+}
+
+/**
+ * Per-marketplace aggregates over normalized listings, replacing the stored (scraped-size)
+ * aggregates so the engine's fallback path uses the same basis
+ */
+export function aggregateListingsByMarketplace(
+  listings: (UnitPricedListing & { marketplace: string })[]
+): CompetitorPriceAggregate[] {
+  const byMarketplace = new Map<string, number[]>();
+  for (const listing of listings) {
+    const prices = byMarketplace.get(listing.marketplace) || [];
+    prices.push(listing.price);
+    byMarketplace.set(listing.marketplace, prices);
+  }
+
+  return [...byMarketplace.values()].map(prices => ({
+    lowest_price: Math.min(...prices),
+    average_price: prices.reduce((sum, price) => sum + price, 0) / prices.length,
+    highest_price: Math.max(...prices)
+  }));
+}
+
+/**
+ * How to show a unit price: per 100 ml, per 100 g or per unit
+ */
+export function unitPriceDisplay(basis: UnitBasis): { per: number; label: string } {
+  if (basis === 'ml') return { per: 100, label: '100 ml' };
+  if (basis === 'g') return { per: 100, label: '100 g' };
+  return { per: 1, label: 'unit' };
+}
+
+/**
+ * Price per display unit, e.g. 450 for a 100ml bottle → 450 per 100 ml
+ */
+export function unitPrice(price: number, quantity: number, basis: UnitBasis): number {
+  if (quantity <= 0) return price;
+  return (price / quantity) * unitPriceDisplay(basis).per;
+}
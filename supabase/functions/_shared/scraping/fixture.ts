@@ -0,0 +1,52 @@
+import { ScrapeProvider, ScrapeRequest, ScrapeResponse } from './types.ts';
+
+const DEFAULT_FIXTURE_DIR = new URL('./fixtures/', import.meta.url);
+const MAX_FIXTURE_NAME_LENGTH = 150;
+
+/**
+ * File name a page is saved under: host and path+query with anything
+ * unsafe replaced, e.g. www.amazon.sa/s?k=iphone → www.amazon.sa__s_k_iphone.html
+ */
+export function fixtureFileName(url: string): string {
+  const parsed = new URL(url);
+  const path = `${parsed.pathname}${parsed.search}`.replace(/[^a-zA-Z0-9.-]+/g, '_').replace(/^_+|_+$/g, '');
+  const name = path ? `${parsed.hostname}__${path}` : parsed.hostname;
+  return `${name.slice(0, MAX_FIXTURE_NAME_LENGTH)}.html`;
+}
+
+function fixtureDir(): URL {
+  const dir = Deno.env.get('SCRAPE_FIXTURE_DIR');
+  if (!dir) return DEFAULT_FIXTURE_DIR;
+  return new URL(dir.endsWith('/') ? dir : `${dir}/`, `file://${Deno.cwd()}/`);
+}
+
+/**
+ * Replays saved HTML instead of calling the network. Looks for the page's own
+ * fixture first, then a per-site <hostname>.html used for every page on that host.
+ */
+export const fixtureProvider: ScrapeProvider = {
+  name: 'fixture',
+
+  isConfigured: () => true,
+
+  async fetch(request: ScrapeRequest): Promise<ScrapeResponse> {
+    const dir = fixtureDir();
+    const candidates = [fixtureFileName(request.url), `${new URL(request.url).hostname}.html`];
+
+    for (const candidate of candidates) {
+      try {
+        const html = await Deno.readTextFile(new URL(candidate, dir));
+        return { provider: this.name, ok: true, status: 200, html };
+      } catch (error) {
+        if (!(error instanceof Deno.errors.NotFound)) throw error;
+      }
+    }
+
+    return {
+      provider: this.name,
+      ok: false,
+      status: 404,
+      html: `No fixture for ${request.url} (looked for ${candidates.join(', ')})`
+    };
+  }
+};
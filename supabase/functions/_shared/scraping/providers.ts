@@ -0,0 +1,74 @@
+// ========================================
+// SCRAPE PROVIDER SELECTION & FAILOVER
+// ========================================
+// SCRAPE_PROVIDERS sets the default order, e.g. "scrapingbee,zenrows"; a marketplace
+// can name its own. Each request goes to the first configured provider and fails
+// over to the next on an HTTP error or network failure.
+
+import { ScrapeProvider, ScrapeRequest, ScrapeResponse } from './types.ts';
+import { scrapingBee } from './scrapingbee.ts';
+import { zenRows } from './zenrows.ts';
+import { fixtureProvider } from './fixture.ts';
+
+export type { ScrapeProvider, ScrapeRequest, ScrapeResponse } from './types.ts';
+export { fixtureFileName } from './fixture.ts';
+
+const PROVIDERS: ScrapeProvider[] = [scrapingBee, zenRows, fixtureProvider];
+const PROVIDERS_BY_NAME = new Map(PROVIDERS.map(provider => [provider.name, provider]));
+
+const DEFAULT_PROVIDER_ORDER = ['scrapingbee'];
+
+export const SCRAPE_PROVIDER_NAMES = PROVIDERS.map(provider => provider.name);
+
+function defaultProviderOrder(): string[] {
+  const configured = (Deno.env.get('SCRAPE_PROVIDERS') || '')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+  return configured.length > 0 ? configured : DEFAULT_PROVIDER_ORDER;
+}
+
+/**
+ * Providers to try, in order. Unknown names and providers without an API key are skipped.
+ * @param preferred - Per-marketplace order; falls back to SCRAPE_PROVIDERS
+ */
+export function resolveScrapeProviders(preferred?: string[] | null): ScrapeProvider[] {
+  const names = preferred && preferred.length > 0 ? preferred : defaultProviderOrder();
+  return names
+    .map(name => PROVIDERS_BY_NAME.get(name))
+    .filter((provider): provider is ScrapeProvider => Boolean(provider?.isConfigured()));
+}
+
+export function hasScrapeProvider(preferred?: string[] | null): boolean {
+  return resolveScrapeProviders(preferred).length > 0;
+}
+
+/**
+ * Fetch a page through the first provider that succeeds.
+ * Returns the last failed response if none do; throws only if every provider threw.
+ */
+export async function scrapePage(request: ScrapeRequest, preferred?: string[] | null): Promise<ScrapeResponse> {
+  const providers = resolveScrapeProviders(preferred);
+  if (providers.length === 0) {
+    throw new Error('No scrape provider configured');
+  }
+
+  let lastResponse: ScrapeResponse | null = null;
+  let lastError: unknown = null;
+
+  for (const [index, provider] of providers.entries()) {
+    const next = index < providers.length - 1 ? `, failing over to ${providers[index + 1].name}` : '';
+    try {
+      const response = await provider.fetch(request);
+      if (response.ok) return response;
+      lastResponse = response;
+      console.log(`   ↪️ ${provider.name} returned HTTP ${response.status}${next}`);
+    } catch (error) {
+      lastError = error;
+      console.log(`   ↪️ ${provider.name} failed: ${error instanceof Error ? error.message : error}${next}`);
+    }
+  }
+
+  if (lastResponse) return lastResponse;
+  throw lastError;
+}
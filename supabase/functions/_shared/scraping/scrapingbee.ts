@@ -0,0 +1,34 @@
+import { ScrapeProvider, ScrapeRequest, ScrapeResponse } from './types.ts';
+
+const SCRAPINGBEE_ENDPOINT = 'https://app.scrapingbee.com/api/v1/';
+
+export const scrapingBee: ScrapeProvider = {
+  name: 'scrapingbee',
+
+  isConfigured: () => Boolean(Deno.env.get('SCRAPINGBEE_API_KEY')),
+
+  async fetch(request: ScrapeRequest): Promise<ScrapeResponse> {
+    const sbUrl = new URL(SCRAPINGBEE_ENDPOINT);
+    sbUrl.searchParams.set('api_key', Deno.env.get('SCRAPINGBEE_API_KEY') || '');
+    sbUrl.searchParams.set('url', request.url);
+    if (request.google) sbUrl.searchParams.set('custom_google', 'true');
+    if (request.stealthProxy) sbUrl.searchParams.set('stealth_proxy', 'true');
+    if (request.premiumProxy) sbUrl.searchParams.set('premium_proxy', 'true');
+    if (request.renderJs !== undefined) sbUrl.searchParams.set('render_js', String(request.renderJs));
+    if (request.wait !== undefined) sbUrl.searchParams.set('wait', String(request.wait));
+    if (request.waitFor) sbUrl.searchParams.set('wait_for', request.waitFor);
+    if (request.waitBrowser) sbUrl.searchParams.set('wait_browser', request.waitBrowser);
+    if (request.blockResources !== undefined) sbUrl.searchParams.set('block_resources', String(request.blockResources));
+    if (request.blockAds !== undefined) sbUrl.searchParams.set('block_ads', String(request.blockAds));
+    if (request.countryCode) sbUrl.searchParams.set('country_code', request.countryCode);
+    if (request.returnPageSource) sbUrl.searchParams.set('return_page_source', 'true');
+
+    const response = await fetch(sbUrl.toString());
+    return {
+      provider: this.name,
+      ok: response.ok,
+      status: response.status,
+      html: await response.text()
+    };
+  }
+};
@@ -0,0 +1,39 @@
+// ========================================
+// SCRAPE PROVIDER INTERFACE
+// ========================================
+
+/**
+ * What to fetch and how to render it. Providers map these onto their own API
+ * parameters and ignore options they don't support.
+ */
+export interface ScrapeRequest {
+  url: string;
+  renderJs?: boolean;
+  wait?: number;            // Milliseconds to wait after load
+  waitFor?: string;         // CSS selector to wait for
+  waitBrowser?: 'load' | 'domcontentloaded' | 'networkidle0' | 'networkidle2';
+  blockResources?: boolean;
+  blockAds?: boolean;
+  stealthProxy?: boolean;
+  premiumProxy?: boolean;
+  countryCode?: string;
+  // Google search and shopping pages need special handling on some providers
+  google?: boolean;
+  // Return the HTML as served rather than the rendered DOM (ScrapingBee only)
+  returnPageSource?: boolean;
+}
+
+export interface ScrapeResponse {
+  provider: string;
+  ok: boolean;
+  status: number;
+  // Page HTML, or the provider's error body when !ok
+  html: string;
+}
+
+export interface ScrapeProvider {
+  name: string;
+  isConfigured(): boolean;
+  // Throws on network failure; HTTP errors come back as !ok
+  fetch(request: ScrapeRequest): Promise<ScrapeResponse>;
+}
@@ -0,0 +1,38 @@
+import { ScrapeProvider, ScrapeRequest, ScrapeResponse } from './types.ts';
+
+const ZENROWS_ENDPOINT = 'https://api.zenrows.com/v1/';
+
+export const zenRows: ScrapeProvider = {
+  name: 'zenrows',
+
+  isConfigured: () => Boolean(Deno.env.get('ZENROWS_API_KEY')),
+
+  async fetch(request: ScrapeRequest): Promise<ScrapeResponse> {
+    const zrUrl = new URL(ZENROWS_ENDPOINT);
+    zrUrl.searchParams.set('apikey', Deno.env.get('ZENROWS_API_KEY') || '');
+    zrUrl.searchParams.set('url', request.url);
+
+    // ZenRows only honours waits when rendering
+    if (request.renderJs) {
+      zrUrl.searchParams.set('js_render', 'true');
+      if (request.wait !== undefined) zrUrl.searchParams.set('wait', String(request.wait));
+      if (request.waitFor) zrUrl.searchParams.set('wait_for', request.waitFor);
+      if (request.blockResources) zrUrl.searchParams.set('block_resources', 'image,media,font');
+    }
+
+    // Its anti-bot mode is the closest match to a stealth proxy; geotargeting needs premium proxies
+    if (request.stealthProxy) zrUrl.searchParams.set('antibot', 'true');
+    if (request.stealthProxy || request.premiumProxy || request.countryCode) {
+      zrUrl.searchParams.set('premium_proxy', 'true');
+    }
+    if (request.countryCode) zrUrl.searchParams.set('proxy_country', request.countryCode);
+
+    const response = await fetch(zrUrl.toString());
+    return {
+      provider: this.name,
+      ok: response.ok,
+      status: response.status,
+      html: await response.text()
+    };
+  }
+};
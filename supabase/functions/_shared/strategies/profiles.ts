@@ -0,0 +1,61 @@
+// ========================================
+// PRICING STRATEGY LOADER
+// ========================================
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { BALANCED_STRATEGY, PricingStrategy, strategyFromRow } from '../pricing/strategy.ts';
+
+export type { PricingStrategy } from '../pricing/strategy.ts';
+
+export interface LoadedStrategy {
+  // pricing_strategies row, null when the built-in default from code is used
+  id: string | null;
+  strategy: PricingStrategy;
+}
+
+const STRATEGY_COLUMNS = 'id, merchant_id, key, name, floor_margin, ceiling_ratio, market_position, blend_weight, risk_tolerance, zone_multiplier_scale, zone_a_band';
+
+/**
+ * The baseline's own profile, else the merchant's account default, else the built-in
+ * 'balanced' profile. A profile owned by another merchant is ignored.
+ */
+export async function loadPricingStrategy(
+  supabase: SupabaseClient,
+  baseline: { strategy_id?: string | null; merchant_id: string | null }
+): Promise<LoadedStrategy> {
+  const candidates: string[] = [];
+  if (baseline.strategy_id) candidates.push(baseline.strategy_id);
+
+  if (baseline.merchant_id) {
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('default_strategy_id')
+      .eq('id', baseline.merchant_id)
+      .maybeSingle();
+    if (profile?.default_strategy_id) candidates.push(profile.default_strategy_id);
+  }
+
+  for (const id of candidates) {
+    const { data: row, error } = await supabase
+      .from('pricing_strategies')
+      .select(STRATEGY_COLUMNS)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) console.error('Failed to load pricing strategy:', error);
+    if (row && (row.merchant_id === null || row.merchant_id === baseline.merchant_id)) {
+      return { id: row.id, strategy: strategyFromRow(row) };
+    }
+  }
+
+  const { data: balanced } = await supabase
+    .from('pricing_strategies')
+    .select(STRATEGY_COLUMNS)
+    .eq('key', BALANCED_STRATEGY.key)
+    .is('merchant_id', null)
+    .maybeSingle();
+
+  return balanced
+    ? { id: balanced.id, strategy: strategyFromRow(balanced) }
+    : { id: null, strategy: BALANCED_STRATEGY };
+}
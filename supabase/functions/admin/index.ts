@@ -1,5 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { syncInflationRates } from '../_shared/inflation/providers.ts'
+import { buildCalibrationReport } from '../_shared/pricing/calibration.ts'
+
+// Most recent records with actuals included in the calibration report
+const MAX_CALIBRATION_RECORDS = 5000
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -387,6 +392,228 @@ serve(async (req) => {
         });
       }
 
+      case 'list-review-queue': {
+        const body = await req.clone().json();
+        const status: string = body.status || 'pending';
+
+        let query = supabase
+          .from('manual_review_queue')
+          .select('*')
+          .order('created_at', { ascending: false });
+        if (status !== 'all') {
+          query = query.eq('status', status);
+        }
+
+        const { data: items, error: itemsError } = await query;
+        if (itemsError) throw itemsError;
+
+        const baselineIds = [...new Set((items || []).map(item => item.baseline_id).filter(Boolean))];
+        const { data: baselines } = baselineIds.length > 0
+          ? await supabase
+              .from('product_baselines')
+              .select('id, product_name, current_price, cost_per_unit, currency, category')
+              .in('id', baselineIds)
+          : { data: [] };
+        const { data: competitors } = baselineIds.length > 0
+          ? await supabase
+              .from('competitor_products')
+              .select('baseline_id')
+              .in('baseline_id', baselineIds)
+          : { data: [] };
+
+        // Merchant emails, looked up one by one: listUsers only returns its first page
+        const merchantIds = [...new Set((items || []).map(item => item.merchant_id).filter(Boolean))];
+        const merchantEmails = new Map<string, string | undefined>();
+        for (const merchantId of merchantIds) {
+          const { data: { user } } = await supabase.auth.admin.getUserById(merchantId);
+          merchantEmails.set(merchantId, user?.email);
+        }
+
+        const reviewItems = (items || []).map(item => {
+          const baseline = baselines?.find(b => b.id === item.baseline_id);
+          return {
+            ...item,
+            merchant_email: merchantEmails.get(item.merchant_id) || 'Unknown User',
+            baseline: baseline || null,
+            competitor_count: competitors?.filter(c => c.baseline_id === item.baseline_id).length || 0,
+          };
+        });
+
+        return new Response(JSON.stringify({ items: reviewItems }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      case 'scrape-review-urls': {
+        const body = await req.clone().json();
+        const { reviewId, urls } = body;
+
+        if (!reviewId || !Array.isArray(urls) || urls.length === 0) {
+          return new Response(JSON.stringify({ error: 'Review ID and URLs required' }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        const item = await getReviewItem(supabase, reviewId);
+        if (!item?.baseline_id) {
+          return new Response(JSON.stringify({ error: 'Review item not found' }), {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        // Runs with the service role, so refresh-competitors skips its ownership check
+        const { data, error: scrapeError } = await supabase.functions.invoke('refresh-competitors', {
+          body: { baseline_id: item.baseline_id, urls },
+        });
+        if (scrapeError) throw scrapeError;
+
+        return new Response(JSON.stringify({ products: data.products, failedUrls: data.failed_urls }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      case 'add-review-prices': {
+        const body = await req.clone().json();
+        const { reviewId, prices } = body;
+
+        if (!reviewId || !Array.isArray(prices) || prices.length === 0) {
+          return new Response(JSON.stringify({ error: 'Review ID and prices required' }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        const invalidPrice = prices.find((entry: ManualCompetitorPrice) =>
+          !entry.marketplace?.trim() || !entry.product_name?.trim() || !(Number(entry.price) > 0)
+        );
+        if (invalidPrice) {
+          return new Response(JSON.stringify({ error: 'Each price needs a marketplace, product name and a positive price' }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        const item = await getReviewItem(supabase, reviewId);
+        const { data: baseline } = item?.baseline_id
+          ? await supabase
+              .from('product_baselines')
+              .select('id, merchant_id, current_price, currency')
+              .eq('id', item.baseline_id)
+              .maybeSingle()
+          : { data: null };
+
+        if (!baseline) {
+          return new Response(JSON.stringify({ error: 'Review item not found' }), {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        const added = await addManualCompetitorPrices(supabase, baseline, prices);
+
+        return new Response(JSON.stringify({ success: true, added }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      case 'resolve-review-item': {
+        const body = await req.clone().json();
+        const { reviewId, status, adminNotes } = body;
+
+        if (!reviewId || !['pending', 'reviewed', 'ignored'].includes(status)) {
+          return new Response(JSON.stringify({ error: 'Review ID and a valid status required' }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        const { error: updateError } = await supabase
+          .from('manual_review_queue')
+          .update({
+            status,
+            admin_notes: adminNotes?.trim() || null,
+            reviewed_at: status === 'pending' ? null : new Date().toISOString(),
+            reviewed_by: status === 'pending' ? null : user.id,
+          })
+          .eq('id', reviewId);
+        if (updateError) throw updateError;
+
+        return new Response(JSON.stringify({ success: true }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      case 'rerun-review-pricing': {
+        const body = await req.clone().json();
+        const { reviewId } = body;
+
+        const item = reviewId ? await getReviewItem(supabase, reviewId) : null;
+        if (!item?.baseline_id) {
+          return new Response(JSON.stringify({ error: 'Review item not found' }), {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        // Price only: a competitor refresh would replace the prices added by hand
+        const { data, error: pricingError } = await supabase.functions.invoke('process-pricing', {
+          body: { baseline_id: item.baseline_id, job_type: 'price_only' },
+        });
+        if (pricingError) throw pricingError;
+
+        return new Response(JSON.stringify({ success: true, jobId: data?.job_id || null }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      case 'sync-inflation-rates': {
+        const body = await req.clone().json();
+        let currencies: string[] = Array.isArray(body.currencies) ? body.currencies : [];
+
+        // Default to every currency merchants price in
+        if (currencies.length === 0) {
+          const { data: baselines, error: baselinesError } = await supabase
+            .from('product_baselines')
+            .select('currency');
+          if (baselinesError) throw baselinesError;
+          currencies = [...new Set((baselines || []).map(baseline => baseline.currency))];
+        }
+
+        console.log(`📈 Syncing inflation rates for ${currencies.join(', ') || 'no currencies'}`);
+        const result = await syncInflationRates(supabase, currencies);
+
+        return new Response(JSON.stringify(result), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      case 'calibration-report': {
+        const { data: records, error: recordsError } = await supabase
+          .from('pricing_performance')
+          .select('predicted_sales, actual_sales, expected_monthly_profit, actual_profit, zone, category, market_confidence, market_potential, baseline_quantity, sales_accuracy_score, profit_accuracy_score')
+          .not('actual_sales', 'is', null)
+          .order('created_at', { ascending: false })
+          .limit(MAX_CALIBRATION_RECORDS);
+
+        if (recordsError) throw recordsError;
+
+        const toNumber = (value: number | string | null) => value === null ? null : Number(value);
+        const report = buildCalibrationReport((records || []).map(record => ({
+          ...record,
+          expected_monthly_profit: toNumber(record.expected_monthly_profit),
+          actual_profit: toNumber(record.actual_profit),
+          market_potential: toNumber(record.market_potential),
+          sales_accuracy_score: toNumber(record.sales_accuracy_score),
+          profit_accuracy_score: toNumber(record.profit_accuracy_score)
+        })));
+
+        return new Response(JSON.stringify(report), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
       default:
         return new Response(JSON.stringify({ error: 'Invalid action' }), {
           status: 400,
@@ -420,3 +647,114 @@ function getFilterReason(competitor: any, baseline: any): string {
   
   return reasons.length > 0 ? reasons.join(', ') : 'Outside top 5';
 }
+
+// ========================================
+// MANUAL REVIEW QUEUE
+// ========================================
+
+interface ManualCompetitorPrice {
+  marketplace: string;
+  product_name: string;
+  price: number;
+  product_url?: string | null;
+  // Set when the price came from a scraped URL; hand-entered prices are admin-verified matches
+  similarity_score?: number;
+}
+
+interface ReviewBaseline {
+  id: string;
+  merchant_id: string;
+  current_price: number;
+  currency: string;
+}
+
+async function getReviewItem(supabase: SupabaseClient, reviewId: string) {
+  const { data } = await supabase
+    .from('manual_review_queue')
+    .select('id, baseline_id, merchant_id, status')
+    .eq('id', reviewId)
+    .maybeSingle();
+  return data;
+}
+
+/**
+ * Save admin-supplied competitor prices the same way a refresh does: product rows ranked
+ * after the existing ones, price history, and the per-marketplace aggregates process-pricing falls back to
+ */
+async function addManualCompetitorPrices(
+  supabase: SupabaseClient,
+  baseline: ReviewBaseline,
+  prices: ManualCompetitorPrice[]
+): Promise<number> {
+  const { data: lastRanked } = await supabase
+    .from('competitor_products')
+    .select('rank')
+    .eq('baseline_id', baseline.id)
+    .order('rank', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  const firstRank = (lastRanked?.rank || 0) + 1;
+
+  const rows = prices.map((entry, index) => {
+    const price = Number(entry.price);
+    return {
+      baseline_id: baseline.id,
+      merchant_id: baseline.merchant_id,
+      marketplace: entry.marketplace.trim(),
+      product_name: entry.product_name.trim(),
+      price,
+      similarity_score: entry.similarity_score ?? 1,
+      price_ratio: price / baseline.current_price,
+      product_url: entry.product_url?.trim() || null,
+      currency: baseline.currency,
+      rank: firstRank + index,
+    };
+  });
+
+  const { error: insertError } = await supabase.from('competitor_products').insert(rows);
+  if (insertError) throw insertError;
+
+  const { error: historyError } = await supabase
+    .from('competitor_price_observations')
+    .insert(rows.map(row => ({
+      baseline_id: row.baseline_id,
+      merchant_id: row.merchant_id,
+      marketplace: row.marketplace,
+      product_name: row.product_name,
+      product_url: row.product_url,
+      price: row.price,
+      currency: row.currency,
+      similarity_score: row.similarity_score,
+    })));
+  if (historyError) {
+    console.error('Failed to record price history for manual prices:', historyError);
+  }
+
+  for (const marketplace of new Set(rows.map(row => row.marketplace))) {
+    const { data: listings } = await supabase
+      .from('competitor_products')
+      .select('price')
+      .eq('baseline_id', baseline.id)
+      .eq('marketplace', marketplace)
+      .gte('similarity_score', 0.6)
+      .or('ai_decision.is.null,ai_decision.eq.match');
+
+    const marketplacePrices = (listings || []).map(listing => Number(listing.price));
+    if (marketplacePrices.length === 0) continue;
+
+    await supabase.from('competitor_prices').upsert({
+      baseline_id: baseline.id,
+      merchant_id: baseline.merchant_id,
+      marketplace,
+      lowest_price: Math.min(...marketplacePrices),
+      average_price: marketplacePrices.reduce((a, b) => a + b, 0) / marketplacePrices.length,
+      highest_price: Math.max(...marketplacePrices),
+      currency: baseline.currency,
+      products_found: marketplacePrices.length,
+      fetch_status: 'success',
+      last_updated: new Date().toISOString(),
+    }, { onConflict: 'baseline_id,marketplace' });
+  }
+
+  return rows.length;
+}
@@ -1,5 +1,6 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { fixtureFileName, scrapePage } from '../_shared/scraping/providers.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,43 +13,31 @@ serve(async (req) => {
   }
 
   try {
-    const { url, marketplace } = await req.json();
+    // provider is optional; without it the SCRAPE_PROVIDERS order (with failover) is used
+    const { url, marketplace, provider } = await req.json();
     
-    const scrapingbeeApiKey = Deno.env.get('SCRAPINGBEE_API_KEY');
-    
-    if (!scrapingbeeApiKey) {
-      throw new Error('SCRAPINGBEE_API_KEY not configured');
-    }
-    
-    console.log(`🐝 ScrapingBee: Fetching ${marketplace} from: ${url}`);
+    console.log(`🐝 Fetching ${marketplace} from: ${url}${provider ? ` via ${provider}` : ''}`);
     
     // Determine country code based on URL
     const countryCode = url.includes('.sa') || url.includes('noon.com') || url.includes('extra.com') || url.includes('jarir.com') ? 'sa' : 'us';
     
-    const scrapingbeeUrl = new URL('https://app.scrapingbee.com/api/v1/');
-    scrapingbeeUrl.searchParams.set('api_key', scrapingbeeApiKey);
-    scrapingbeeUrl.searchParams.set('url', url);
-    scrapingbeeUrl.searchParams.set('render_js', 'true');
-    scrapingbeeUrl.searchParams.set('wait', '3000');
-    scrapingbeeUrl.searchParams.set('wait_browser', 'load');
-    scrapingbeeUrl.searchParams.set('premium_proxy', 'true');
-    scrapingbeeUrl.searchParams.set('country_code', countryCode);
-    scrapingbeeUrl.searchParams.set('block_ads', 'true');
-    scrapingbeeUrl.searchParams.set('block_resources', 'true');
-    scrapingbeeUrl.searchParams.set('return_page_source', 'true');
-    
-    const response = await fetch(scrapingbeeUrl.toString(), {
-      method: 'GET',
-      headers: {
-        'Accept': 'text/html',
-      },
-    });
+    const response = await scrapePage({
+      url,
+      renderJs: true,
+      wait: 3000,
+      waitBrowser: 'load',
+      premiumProxy: true,
+      countryCode,
+      blockAds: true,
+      blockResources: true,
+      returnPageSource: true
+    }, provider ? [provider] : null);
     
     if (!response.ok) {
-      throw new Error(`HTTP ${response.status} from ScrapingBee`);
+      throw new Error(`HTTP ${response.status} from ${response.provider}`);
     }
     
-    const html = await response.text();
+    const html = response.html;
     
     console.log(`Received ${html.length} characters`);
     
@@ -56,6 +45,9 @@ serve(async (req) => {
       success: true,
       marketplace,
       url,
+      provider: response.provider,
+      // Save the HTML under this name in the fixtures directory to replay it offline
+      fixtureName: fixtureFileName(url),
       htmlLength: html.length,
       html: html,
       // First 1000 chars preview
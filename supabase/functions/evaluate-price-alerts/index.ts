@@ -0,0 +1,449 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { Resend } from "https://esm.sh/resend@4.0.0";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+
+const MIN_ALERT_SIMILARITY = 0.6; // Same cut-off the pricing engine uses for market stats
+const MAX_DIGEST_LISTINGS = 20;
+
+type RuleType = 'competitor_below' | 'market_average_change' | 'above_market_highest';
+
+interface Observation {
+  listing_key: string;
+  marketplace: string;
+  product_name: string;
+  product_url: string | null;
+  price: number;
+  similarity_score: number | null;
+}
+
+interface MarketSnapshot {
+  lowest: number;
+  average: number;
+  highest: number;
+  listings: Map<string, Observation>;
+}
+
+interface ListingChange {
+  listing_key: string;
+  marketplace: string;
+  product_name: string;
+  product_url: string | null;
+  previous_price: number | null;
+  current_price: number | null;
+  change_percent: number | null;
+  change: 'new' | 'removed' | 'up' | 'down';
+}
+
+interface AlertRule {
+  id: string;
+  baseline_id: string;
+  merchant_id: string;
+  rule_type: RuleType;
+  threshold: number | null;
+  email_enabled: boolean;
+}
+
+interface TriggeredAlert {
+  rule: AlertRule;
+  message: string;
+  digest: ListingChange[];
+}
+
+const RequestSchema = z.object({
+  baseline_id: z.string().uuid('Invalid baseline ID format'),
+  observed_at: z.string().datetime({ offset: true })
+});
+
+const formatAmount = (amount: number, currency: string) => `${amount.toFixed(2)} ${currency}`;
+
+// Listing titles and URLs come straight from scraped pages
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * Summarize one refresh run's listings. Low-similarity matches are ignored
+ * so alerts follow the same market the pricing engine sees.
+ */
+function buildSnapshot(observations: Observation[]): MarketSnapshot | null {
+  const listings = new Map<string, Observation>();
+  for (const observation of observations) {
+    if (observation.similarity_score !== null && observation.similarity_score < MIN_ALERT_SIMILARITY) continue;
+    listings.set(observation.listing_key, { ...observation, price: Number(observation.price) });
+  }
+
+  if (listings.size === 0) return null;
+
+  const prices = [...listings.values()].map(l => l.price);
+  return {
+    lowest: Math.min(...prices),
+    average: prices.reduce((a, b) => a + b, 0) / prices.length,
+    highest: Math.max(...prices),
+    listings
+  };
+}
+
+/**
+ * List every listing whose price moved, appeared or disappeared between two runs,
+ * largest moves first.
+ */
+function diffListings(previous: MarketSnapshot | null, current: MarketSnapshot): ListingChange[] {
+  const changes: ListingChange[] = [];
+
+  for (const [key, listing] of current.listings) {
+    const before = previous?.listings.get(key);
+    if (!before) {
+      changes.push({
+        listing_key: key,
+        marketplace: listing.marketplace,
+        product_name: listing.product_name,
+        product_url: listing.product_url,
+        previous_price: null,
+        current_price: listing.price,
+        change_percent: null,
+        change: 'new'
+      });
+    } else if (Math.abs(listing.price - before.price) >= 0.01) {
+      changes.push({
+        listing_key: key,
+        marketplace: listing.marketplace,
+        product_name: listing.product_name,
+        product_url: listing.product_url,
+        previous_price: before.price,
+        current_price: listing.price,
+        change_percent: ((listing.price - before.price) / before.price) * 100,
+        change: listing.price > before.price ? 'up' : 'down'
+      });
+    }
+  }
+
+  for (const [key, listing] of previous?.listings || []) {
+    if (!current.listings.has(key)) {
+      changes.push({
+        listing_key: key,
+        marketplace: listing.marketplace,
+        product_name: listing.product_name,
+        product_url: listing.product_url,
+        previous_price: listing.price,
+        current_price: null,
+        change_percent: null,
+        change: 'removed'
+      });
+    }
+  }
+
+  // Price moves first (biggest first), then new and removed listings
+  return changes.sort((a, b) => Math.abs(b.change_percent ?? -1) - Math.abs(a.change_percent ?? -1));
+}
+
+/**
+ * Check one rule against the latest run. Rules fire on the transition into the
+ * alerting state, so an unchanged market doesn't re-alert on every refresh.
+ */
+function evaluateRule(
+  rule: AlertRule,
+  baseline: { current_price: number; currency: string },
+  current: MarketSnapshot,
+  previous: MarketSnapshot | null,
+  changes: ListingChange[]
+): TriggeredAlert | null {
+  const currency = baseline.currency;
+
+  switch (rule.rule_type) {
+    case 'competitor_below': {
+      const threshold = Number(rule.threshold);
+      const newlyBelow = [...current.listings.entries()].filter(([key, listing]) => {
+        const before = previous?.listings.get(key);
+        return listing.price < threshold && (!before || before.price >= threshold);
+      });
+      if (newlyBelow.length === 0) return null;
+
+      const cheapest = newlyBelow.reduce((min, entry) => entry[1].price < min[1].price ? entry : min)[1];
+      const belowKeys = new Set(newlyBelow.map(([key]) => key));
+      return {
+        rule,
+        message: `${newlyBelow.length} competitor listing${newlyBelow.length > 1 ? 's' : ''} dropped below ${formatAmount(threshold, currency)} (lowest: ${cheapest.marketplace} at ${formatAmount(cheapest.price, currency)})`,
+        // Listings that crossed the threshold lead the digest
+        digest: [
+          ...changes.filter(c => belowKeys.has(c.listing_key)),
+          ...changes.filter(c => !belowKeys.has(c.listing_key))
+        ].slice(0, MAX_DIGEST_LISTINGS)
+      };
+    }
+
+    case 'market_average_change': {
+      if (!previous) return null;
+      const threshold = Number(rule.threshold);
+      const movePercent = ((current.average - previous.average) / previous.average) * 100;
+      if (Math.abs(movePercent) < threshold) return null;
+
+      return {
+        rule,
+        message: `Market average ${movePercent > 0 ? 'rose' : 'fell'} ${Math.abs(movePercent).toFixed(1)}% (${formatAmount(previous.average, currency)} → ${formatAmount(current.average, currency)})`,
+        digest: changes.slice(0, MAX_DIGEST_LISTINGS)
+      };
+    }
+
+    case 'above_market_highest': {
+      const price = Number(baseline.current_price);
+      const wasAbove = previous ? price > previous.highest : false;
+      if (price <= current.highest || wasAbove) return null;
+
+      return {
+        rule,
+        message: `Your price ${formatAmount(price, currency)} is above the market highest of ${formatAmount(current.highest, currency)}`,
+        digest: changes.slice(0, MAX_DIGEST_LISTINGS)
+      };
+    }
+  }
+}
+
+async function loadRun(supabase: SupabaseClient, baselineId: string, observedAt: string): Promise<Observation[]> {
+  const { data, error } = await supabase
+    .from('competitor_price_observations')
+    .select('listing_key, marketplace, product_name, product_url, price, similarity_score')
+    .eq('baseline_id', baselineId)
+    .eq('observed_at', observedAt);
+
+  if (error) throw error;
+  return data || [];
+}
+
+function renderAlertEmail(productName: string, currency: string, alerts: TriggeredAlert[]): string {
+  const describeChange = (c: ListingChange) => {
+    if (c.change === 'new') return `New listing at ${formatAmount(c.current_price!, currency)}`;
+    if (c.change === 'removed') return `No longer listed (was ${formatAmount(c.previous_price!, currency)})`;
+    return `${formatAmount(c.previous_price!, currency)} → ${formatAmount(c.current_price!, currency)} (${c.change_percent! > 0 ? '+' : ''}${c.change_percent!.toFixed(1)}%)`;
+  };
+
+  const alertBlocks = alerts.map(alert => `
+            <div class="alert-box">
+              <strong>🚨 ${escapeHtml(alert.message)}</strong>
+              ${alert.digest.length > 0 ? `
+              <table class="digest">
+                ${alert.digest.map(c => `
+                <tr>
+                  <td>${escapeHtml(c.marketplace)}</td>
+                  <td>${c.product_url ? `<a href="${escapeHtml(c.product_url)}">${escapeHtml(c.product_name)}</a>` : escapeHtml(c.product_name)}</td>
+                  <td>${describeChange(c)}</td>
+                </tr>`).join('')}
+              </table>` : ''}
+            </div>`).join('');
+
+  return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 0; }
+          .container { max-width: 600px; margin: 0 auto; }
+          .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+                    color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+          .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+          .alert-box { background: white; border-left: 4px solid #dc3545; padding: 15px; margin: 20px 0; border-radius: 4px; }
+          .digest { width: 100%; border-collapse: collapse; margin-top: 10px; font-size: 13px; }
+          .digest td { border-top: 1px solid #eee; padding: 6px 4px; vertical-align: top; }
+          .footer { text-align: center; color: #666; font-size: 12px; margin-top: 20px; padding: 20px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>📉 Competitor Price Alert</h1>
+          </div>
+          <div class="content">
+            <h2>${escapeHtml(productName)}</h2>
+            <p>Your latest competitor refresh triggered ${alerts.length} alert${alerts.length > 1 ? 's' : ''}:</p>
+            ${alertBlocks}
+            <p>You can review the full analysis and manage alert rules in your AI Truest dashboard.</p>
+          </div>
+          <div class="footer">
+            <p>© 2025 AI Truest, Saudi Arabia. All rights reserved.</p>
+            <p>This is an automated email. Please do not reply.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+}
+
+// Called by refresh-competitors (service role) after each refresh run.
+// Evaluates the baseline's alert rules against that run and emails any new alerts.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabase = createClient(supabaseUrl, serviceRoleKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const body = await req.json();
+    const validation = RequestSchema.safeParse(body);
+
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid input', details: validation.error.issues }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { baseline_id, observed_at } = validation.data;
+
+    const { data: rules, error: rulesError } = await supabase
+      .from('price_alert_rules')
+      .select('id, baseline_id, merchant_id, rule_type, threshold, email_enabled')
+      .eq('baseline_id', baseline_id)
+      .eq('enabled', true);
+
+    if (rulesError) throw rulesError;
+
+    if (!rules || rules.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, alerts: 0 }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: baseline, error: baselineError } = await supabase
+      .from('product_baselines')
+      .select('id, product_name, current_price, currency, merchant_id')
+      .eq('id', baseline_id)
+      .single();
+
+    if (baselineError || !baseline) {
+      return new Response(JSON.stringify({ error: 'Baseline not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const current = buildSnapshot(await loadRun(supabase, baseline_id, observed_at));
+    if (!current) {
+      console.log(`ℹ️ No usable observations for ${baseline_id} at ${observed_at}`);
+      return new Response(
+        JSON.stringify({ success: true, alerts: 0 }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // The run before this one, if any
+    const { data: previousRun } = await supabase
+      .from('competitor_price_observations')
+      .select('observed_at')
+      .eq('baseline_id', baseline_id)
+      .lt('observed_at', observed_at)
+      .order('observed_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const previous = previousRun ? buildSnapshot(await loadRun(supabase, baseline_id, previousRun.observed_at)) : null;
+    const changes = diffListings(previous, current);
+
+    const triggered = (rules as AlertRule[])
+      .map(rule => evaluateRule(rule, baseline, current, previous, changes))
+      .filter((alert): alert is TriggeredAlert => alert !== null);
+
+    console.log(`🔔 ${triggered.length} of ${rules.length} alert rules triggered for "${baseline.product_name}"`);
+
+    if (triggered.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, alerts: 0 }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Duplicates (same rule, same run) are ignored, so only genuinely new alerts come back
+    const { data: inserted, error: insertError } = await supabase
+      .from('price_alerts')
+      .upsert(triggered.map(alert => ({
+        rule_id: alert.rule.id,
+        baseline_id,
+        merchant_id: alert.rule.merchant_id,
+        rule_type: alert.rule.rule_type,
+        message: alert.message,
+        digest: alert.digest,
+        observed_at,
+        email_status: alert.rule.email_enabled ? 'pending' : 'skipped'
+      })), { onConflict: 'rule_id,observed_at', ignoreDuplicates: true })
+      .select('id, rule_id');
+
+    if (insertError) throw insertError;
+
+    const now = new Date().toISOString();
+    await supabase
+      .from('price_alert_rules')
+      .update({ last_triggered_at: now })
+      .in('id', triggered.map(alert => alert.rule.id));
+
+    const newRuleIds = new Set((inserted || []).map(row => row.rule_id));
+    const toEmail = triggered.filter(alert => alert.rule.email_enabled && newRuleIds.has(alert.rule.id));
+    const emailAlertIds = (inserted || []).filter(row => toEmail.some(alert => alert.rule.id === row.rule_id)).map(row => row.id);
+
+    if (toEmail.length > 0) {
+      const { data: { user }, error: userError } = await supabase.auth.admin.getUserById(baseline.merchant_id);
+
+      if (userError || !user?.email) {
+        console.error('❌ No email address for merchant:', userError?.message);
+        await supabase.from('price_alerts')
+          .update({ email_status: 'failed', email_error: 'No email address on file' })
+          .in('id', emailAlertIds);
+      } else {
+        const { error: emailError } = await resend.emails.send({
+          from: "AI Truest <onboarding@resend.dev>",
+          to: [user.email],
+          subject: `Price Alert: ${baseline.product_name} - AI Truest`,
+          html: renderAlertEmail(baseline.product_name, baseline.currency, toEmail),
+        });
+
+        if (emailError) {
+          console.error('❌ Alert email error:', emailError);
+        } else {
+          console.log(`✓ Alert email sent to ${user.email}`);
+        }
+
+        await supabase.from('price_alerts')
+          .update(emailError
+            ? { email_status: 'failed', email_error: emailError.message }
+            : { email_status: 'sent', emailed_at: now })
+          .in('id', emailAlertIds);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, alerts: inserted?.length || 0, emailed: emailAlertIds.length }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('[Internal] Evaluate-price-alerts error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to evaluate price alerts' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
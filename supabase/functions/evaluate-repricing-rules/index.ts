@@ -0,0 +1,167 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { loadCategoryTaxonomy } from '../_shared/categories/taxonomy.ts';
+import { loadPriceGuardrails } from '../_shared/guardrails/rules.ts';
+import { applyGuardrails, GuardrailKey } from '../_shared/pricing/guardrails.ts';
+import { evaluateRepricingRules, orderRepricingRules, ruleFromRow } from '../_shared/pricing/repricing.ts';
+import { isUnitPricedCategory, normalizeToBaselineQuantity } from '../_shared/pricing/unitPrice.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const RequestSchema = z.object({
+  baseline_id: z.string().uuid('Invalid baseline ID format'),
+  observed_at: z.string().datetime({ offset: true })
+});
+
+// Called by refresh-competitors (service role) after each refresh run.
+// Evaluates the merchant's repricing rules for the product against that run and
+// stores the candidate price, which the results page shows beside the engine's.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabase = createClient(supabaseUrl, serviceRoleKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const body = await req.json();
+    const validation = RequestSchema.safeParse(body);
+
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid input', details: validation.error.issues }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { baseline_id, observed_at } = validation.data;
+
+    const { data: baseline, error: baselineError } = await supabase
+      .from('product_baselines')
+      .select('id, product_name, category, current_price, cost_per_unit, currency, merchant_id')
+      .eq('id', baseline_id)
+      .single();
+
+    if (baselineError || !baseline) {
+      return new Response(JSON.stringify({ error: 'Baseline not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Rules belong to merchants; anonymous analyses have none
+    if (!baseline.merchant_id) {
+      return new Response(
+        JSON.stringify({ success: true, candidate_price: null }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: ruleRows, error: rulesError } = await supabase
+      .from('repricing_rules')
+      .select('id, name, rule_type, baseline_id, category, marketplaces, offset_percent, priority')
+      .eq('merchant_id', baseline.merchant_id)
+      .eq('enabled', true);
+
+    if (rulesError) throw rulesError;
+
+    const taxonomy = await loadCategoryTaxonomy(supabase);
+    const rules = orderRepricingRules((ruleRows || []).map(ruleFromRow), baseline.id, baseline.category, taxonomy);
+
+    if (rules.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, candidate_price: null }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: observations, error: observationsError } = await supabase
+      .from('competitor_price_observations')
+      .select('marketplace, product_name, price, similarity_score')
+      .eq('baseline_id', baseline_id)
+      .eq('observed_at', observed_at);
+
+    if (observationsError) throw observationsError;
+
+    // Size-variable categories: compare on the baseline's size, like the engine
+    let listings = (observations || []).map(o => ({ ...o, price: Number(o.price) }));
+    if (isUnitPricedCategory(baseline.category, taxonomy)) {
+      listings = normalizeToBaselineQuantity(baseline.product_name, listings).listings;
+    }
+
+    const currentPrice = Number(baseline.current_price);
+    const candidate = evaluateRepricingRules(rules, listings, currentPrice);
+
+    // The merchant's guardrails bound rule prices just like the engine's
+    let candidatePrice = candidate.price;
+    let guardrailsApplied: GuardrailKey[] = [];
+    if (candidate.price !== null) {
+      const { guardrails, hoursSinceLastChange, lastAppliedPrice } = await loadPriceGuardrails(supabase, baseline, taxonomy);
+      const guarded = applyGuardrails(
+        candidate.price,
+        lastAppliedPrice ?? currentPrice,
+        Number(baseline.cost_per_unit),
+        guardrails,
+        hoursSinceLastChange
+      );
+      candidatePrice = guarded.price;
+      guardrailsApplied = guarded.applied;
+    }
+
+    const decidingRule = rules.find(rule => rule.id === candidate.decidingRuleId);
+    const { error: upsertError } = await supabase
+      .from('repricing_candidates')
+      .upsert({
+        baseline_id,
+        merchant_id: baseline.merchant_id,
+        observed_at,
+        candidate_price: candidatePrice,
+        rules_price: candidate.price,
+        currency: baseline.currency,
+        rule_id: decidingRule?.id ?? null,
+        rule_name: decidingRule?.name ?? null,
+        evaluations: candidate.evaluations,
+        guardrails_applied: guardrailsApplied
+      }, { onConflict: 'baseline_id,observed_at' });
+
+    if (upsertError) throw upsertError;
+
+    console.log(
+      candidatePrice === null
+        ? `📏 No repricing rule had market data for "${baseline.product_name}"`
+        : `📏 Rule-based price for "${baseline.product_name}": ${candidatePrice.toFixed(2)} ${baseline.currency}` +
+          `${decidingRule ? ` (${decidingRule.name})` : ''}${guardrailsApplied.length > 0 ? `, guardrails: ${guardrailsApplied.join(', ')}` : ''}`
+    );
+
+    return new Response(
+      JSON.stringify({ success: true, candidate_price: candidatePrice, rules: rules.length }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('[Internal] Evaluate-repricing-rules error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to evaluate repricing rules' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,17 +1,62 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import {
+  calculateProfitMaximizingPrice,
+  calculateWeightedMarketStats,
+  validateMarketData
+} from '../_shared/pricing/engine.ts';
+import { applyCompetitorCurations } from '../_shared/pricing/curation.ts';
+import {
+  aggregateListingsByMarketplace,
+  isUnitPricedCategory,
+  normalizeToBaselineQuantity,
+  UnitPriceNormalization
+} from '../_shared/pricing/unitPrice.ts';
+import { InflationSnapshot, loadInflationSnapshot } from '../_shared/inflation/snapshots.ts';
+import { loadCategoryTaxonomy } from '../_shared/categories/taxonomy.ts';
+import { loadPricingStrategy } from '../_shared/strategies/profiles.ts';
+import { loadPriceGuardrails } from '../_shared/guardrails/rules.ts';
+import { projectDemand } from '../_shared/pricing/simulator.ts';
+import { ElasticityChoice, learnElasticity } from '../_shared/pricing/elasticity.ts';
+import { buildDecisionTrace, TraceStep, traceStep } from '../_shared/pricing/trace.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// ========================================
+// JOB QUEUE CONFIGURATION
+// ========================================
+const MAX_RUNNING_JOBS = Number(Deno.env.get('MAX_RUNNING_PRICING_JOBS') || 2); // Jobs processing at once across all workers
+const JOB_LOCK_TIMEOUT_SECONDS = 600; // A job locked longer than this is assumed to have lost its worker
+const WORKER_TIME_BUDGET_MS = 120000; // Stop claiming new jobs after 2 minutes and hand over to a fresh worker
+const RETRY_BASE_DELAY_MS = 15000; // 15s, 30s, 60s... between attempts
+const QUEUE_POLL_INTERVAL_MS = 5000; // Shortest wait before claiming again when nothing is runnable yet
+
 const RequestSchema = z.object({
-  baseline_id: z.string().uuid('Invalid baseline ID format')
+  baseline_id: z.string().uuid('Invalid baseline ID format').optional(),
+  job_type: z.enum(['process_pricing', 'refresh_competitors', 'price_only']).default('process_pricing'),
+  drain: z.boolean().optional(),
+}).refine(body => body.baseline_id || body.drain, {
+  message: 'Either baseline_id or drain is required',
 });
 
+// price_only prices the competitor data already stored (e.g. prices an admin added by hand)
+type JobType = 'process_pricing' | 'refresh_competitors' | 'price_only';
+
+interface ProcessingJob {
+  id: string;
+  baseline_id: string;
+  job_type: JobType;
+  status: string;
+  attempts: number;
+  max_attempts: number;
+  triggered_by: 'manual' | 'schedule';
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -57,132 +102,44 @@ serve(async (req) => {
       );
     }
 
-    const { baseline_id } = validation.data;
-
-    console.log('Starting enhanced pricing processing for baseline:', baseline_id);
-
-    const { data: baseline, error: baselineError } = await supabase
-      .from('product_baselines')
-      .select('*')
-      .eq('id', baseline_id)
-      .single();
+    const { baseline_id, job_type } = validation.data;
+    let jobId: string | null = null;
 
-    if (baselineError || !baseline) {
-      return new Response(JSON.stringify({ error: 'Baseline not found' }), {
-        status: 404,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
+    if (baseline_id) {
+      console.log('Queueing pricing job for baseline:', baseline_id);
 
-    // Check ownership only if both userId and merchant_id exist
-    if (userId && baseline.merchant_id && baseline.merchant_id !== userId) {
-      return new Response(JSON.stringify({ error: 'Forbidden: Not your baseline' }), {
-        status: 403,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
+      const { data: baseline, error: baselineError } = await supabase
+        .from('product_baselines')
+        .select('id, merchant_id')
+        .eq('id', baseline_id)
+        .single();
 
-    console.log(`Processing baseline: ${baseline_id} (${baseline.merchant_id ? 'authenticated' : 'guest'})`);
-
-    await supabase.from('processing_status').upsert({
-      baseline_id,
-      status: 'processing',
-      current_step: 'fetching_inflation'
-    }, { onConflict: 'baseline_id' });
-
-    const backgroundTask = (async () => {
-      try {
-        const { rate: inflationRate, source: inflationSource } = await fetchInflationRate(baseline.currency);
-        console.log('Fetched inflation rate:', inflationRate);
-        
-        await supabase.from('inflation_snapshots').insert({
-          inflation_rate: inflationRate,
-          source: inflationSource
+      if (baselineError || !baseline) {
+        return new Response(JSON.stringify({ error: 'Baseline not found' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
+      }
 
-        await supabase.from('processing_status')
-          .update({ current_step: 'fetching_competitors' })
-          .eq('baseline_id', baseline_id);
-
-        console.log('Triggering competitor scraping via direct HTTP...');
-        
-        // Use direct HTTP call with service role key to avoid JWT issues
-        let refreshSuccess = false;
-        let refreshRetries = 3;
-        
-        while (!refreshSuccess && refreshRetries > 0) {
-          try {
-            const response = await fetch(
-              `${supabaseUrl}/functions/v1/refresh-competitors`,
-              {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'Authorization': `Bearer ${supabaseServiceKey}`,
-                  'apikey': supabaseServiceKey
-                },
-                body: JSON.stringify({ baseline_id })
-              }
-            );
-
-            if (!response.ok) {
-              const errorText = await response.text();
-              console.error(`❌ refresh-competitors HTTP error (attempt ${4 - refreshRetries}/3): ${response.status} - ${errorText}`);
-              refreshRetries--;
-              if (refreshRetries > 0) {
-                const waitTime = (4 - refreshRetries) * 3000;
-                console.log(`⏳ Waiting ${waitTime}ms before retry...`);
-                await new Promise(r => setTimeout(r, waitTime));
-              }
-            } else {
-              const data = await response.json();
-              refreshSuccess = true;
-              console.log('✅ Competitor scraping completed successfully:', data?.message || 'OK');
-            }
-          } catch (e: any) {
-            console.error(`❌ refresh-competitors exception (attempt ${4 - refreshRetries}/3):`, e.message);
-            refreshRetries--;
-            if (refreshRetries > 0) {
-              const waitTime = (4 - refreshRetries) * 3000;
-              console.log(`⏳ Waiting ${waitTime}ms before retry...`);
-              await new Promise(r => setTimeout(r, waitTime));
-            }
-          }
-        }
-        
-        if (!refreshSuccess) {
-          console.log('⚠️ Competitor scraping failed after 3 attempts, proceeding with existing data');
-        }
-        
-        // Wait a moment for database writes to settle
-        await new Promise(r => setTimeout(r, 1000));
-
-        await supabase.from('processing_status')
-          .update({ current_step: 'calculating_price' })
-          .eq('baseline_id', baseline_id);
-
-        await calculateOptimalPrice(supabase, baseline, inflationRate);
-
-        await supabase.from('processing_status')
-          .update({ status: 'completed', current_step: 'complete' })
-          .eq('baseline_id', baseline_id);
-
-        console.log('✅ Enhanced pricing calculation completed');
-      } catch (error: any) {
-        console.error('Background processing error:', error);
-        await supabase.from('processing_status')
-          .update({ status: 'failed', error_message: error?.message || 'Unknown error' })
-          .eq('baseline_id', baseline_id);
+      // Check ownership only if both userId and merchant_id exist
+      if (userId && baseline.merchant_id && baseline.merchant_id !== userId) {
+        return new Response(JSON.stringify({ error: 'Forbidden: Not your baseline' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
       }
-    })();
+
+      jobId = await enqueueJob(supabase, baseline_id, job_type);
+      console.log(`📥 Job ${jobId} queued for ${baseline_id} (${baseline.merchant_id ? 'authenticated' : 'guest'})`);
+    }
 
     const edgeRuntime = (globalThis as any).EdgeRuntime;
     if (edgeRuntime?.waitUntil) {
-      edgeRuntime.waitUntil(backgroundTask);
+      edgeRuntime.waitUntil(drainQueue(supabase, supabaseUrl, supabaseServiceKey));
     }
 
     return new Response(
-      JSON.stringify({ success: true, message: 'Enhanced pricing processing started', baseline_id }),
+      JSON.stringify({ success: true, message: 'Pricing job queued', baseline_id, job_id: jobId }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
@@ -195,424 +152,427 @@ serve(async (req) => {
   }
 });
 
-async function fetchInflationRate(currency: string): Promise<{ rate: number; source: string }> {
-  if (currency === 'SAR') {
-    return { rate: 0.023, source: 'SAMA (Saudi Central Bank) - Latest CPI Data' };
-  } else if (currency === 'USD') {
-    return { rate: 0.031, source: 'US Bureau of Labor Statistics - Latest CPI' };
-  }
-  return { rate: 0.025, source: 'IMF Global Estimate' };
-}
+// ========================================
+// JOB QUEUE
+// ========================================
 
 /**
- * Validate market data quality before using it
- * Returns: { isValid: boolean, reason: string, shouldProceed: boolean, warning?: string }
+ * Queue a job for a baseline, reusing any job of the same type that is
+ * still pending or running (e.g. the row submit-product creates).
  */
-function validateMarketData(
-  marketStats: { lowest: number; average: number; highest: number },
-  baselinePrice: number,
-  productCount: number,
-  category: string
-): { isValid: boolean; reason: string; shouldProceed: boolean; warning?: string } {
-  
-  // Check 1: Minimum data points
-  if (productCount < 3) {
-    return {
-      isValid: false,
-      reason: `Insufficient competitor data (only ${productCount} products found)`,
-      shouldProceed: false
-    };
-  }
-  
-  // Check 2: Market spread validation
-  const marketSpread = (marketStats.highest - marketStats.lowest) / marketStats.average;
-  
-  if (marketSpread > 5) {
-    // 500%+ spread indicates contaminated data
-    return {
-      isValid: false,
-      reason: `Market data quality issue: price spread ${(marketSpread * 100).toFixed(0)}% (extreme outliers detected). Please refresh competitor data.`,
-      shouldProceed: false
-    };
-  }
-  
-  // Check 3: Lowest price sanity check with category awareness
-  // Size-variable products (perfumes, cosmetics, food) allow wider price ranges
-  const sizeVariableCategories = ['Health & Beauty', 'Food & Beverages', 'Groceries (Staples)'];
-  const isSizeVariable = sizeVariableCategories.includes(category);
-  const lowestThreshold = isSizeVariable ? 0.10 : 0.15; // 10% for size-variable, 15% for others
-  
-  const lowestRatio = marketStats.lowest / baselinePrice;
-  if (lowestRatio < lowestThreshold) {
-    // Instead of blocking completely, issue a warning but proceed
-    const warning = `Market includes low-priced variants (${marketStats.lowest.toFixed(0)}). These may be different sizes or bundles. Using weighted average for accuracy.`;
-    console.log(`⚠️ ${warning}`);
-    
-    return {
-      isValid: true,
-      reason: 'Proceeding with outlier-filtered market data',
-      shouldProceed: true,
-      warning
-    };
+async function enqueueJob(supabase: SupabaseClient, baselineId: string, jobType: JobType): Promise<string> {
+  const { data: activeJob } = await supabase
+    .from('processing_status')
+    .select('id')
+    .eq('baseline_id', baselineId)
+    .eq('job_type', jobType)
+    .in('status', ['pending', 'processing'])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (activeJob) {
+    return activeJob.id;
   }
-  
-  // Check 4: Average price reasonableness - relaxed for size-variable products
-  const avgRatio = marketStats.average / baselinePrice;
-  const avgLowerBound = isSizeVariable ? 0.2 : 0.3;
-  const avgUpperBound = isSizeVariable ? 4.0 : 3.0;
-  
-  if (avgRatio < avgLowerBound || avgRatio > avgUpperBound) {
-    return {
-      isValid: false,
-      reason: `Market average (${marketStats.average.toFixed(0)}) differs too much from baseline (${baselinePrice.toFixed(0)}). Data quality issues detected.`,
-      shouldProceed: false
-    };
-  }
-  
-  return {
-    isValid: true,
-    reason: 'Market data passed validation checks',
-    shouldProceed: true
-  };
-}
 
-// Statistical outlier removal using IQR method
-function removeOutliers(prices: number[]): { cleaned: number[]; removed: number } {
-  if (prices.length < 4) return { cleaned: prices, removed: 0 };
-  
-  const sorted = [...prices].sort((a, b) => a - b);
-  const q1Index = Math.floor(sorted.length * 0.25);
-  const q3Index = Math.floor(sorted.length * 0.75);
-  
-  const q1 = sorted[q1Index];
-  const q3 = sorted[q3Index];
-  const iqr = q3 - q1;
-  
-  const lowerBound = q1 - 1.5 * iqr;
-  const upperBound = q3 + 1.5 * iqr;
-  
-  const filtered = prices.filter(p => p >= lowerBound && p <= upperBound);
-  
-  console.log(`🔍 Outlier removal: ${prices.length} prices → ${filtered.length} after filtering`);
-  console.log(`   Removed range outside [${lowerBound.toFixed(2)}, ${upperBound.toFixed(2)}]`);
-  
-  return {
-    cleaned: filtered.length > 0 ? filtered : prices,
-    removed: prices.length - filtered.length
-  };
+  const { data: job, error } = await supabase
+    .from('processing_status')
+    .insert({
+      baseline_id: baselineId,
+      job_type: jobType,
+      status: 'pending',
+      current_step: 'queued'
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return job.id;
 }
 
-// Calculate weighted market stats from competitor products
-function calculateWeightedMarketStats(
-  products: any[],
-  aggregates: any[]
-): { 
-  lowest: number; 
-  average: number; 
-  highest: number; 
-  confidence: string;
-  outliersRemoved: number;
-  productsUsed: number;
-} {
-  if (!products || products.length === 0) {
-    // Fallback to aggregate data
-    console.log('⚠️ No granular products, using aggregates');
-    const allPrices: number[] = [];
-    aggregates?.forEach(comp => {
-      if (comp.lowest_price) allPrices.push(comp.lowest_price);
-      if (comp.average_price) allPrices.push(comp.average_price);
-      if (comp.highest_price) allPrices.push(comp.highest_price);
+/**
+ * Claim and run jobs until the queue is empty or the time budget is used up.
+ * Several workers may drain at once; claim_processing_job enforces the cap.
+ */
+async function drainQueue(supabase: SupabaseClient, supabaseUrl: string, supabaseServiceKey: string) {
+  const workerId = crypto.randomUUID();
+  const startedAt = Date.now();
+  let processed = 0;
+
+  while (Date.now() - startedAt < WORKER_TIME_BUDGET_MS) {
+    const { data: claimed, error: claimError } = await supabase.rpc('claim_processing_job', {
+      _worker_id: workerId,
+      _max_running: MAX_RUNNING_JOBS,
+      _lock_timeout_seconds: JOB_LOCK_TIMEOUT_SECONDS
     });
-    
-    if (allPrices.length === 0) {
-      return { lowest: 0, average: 0, highest: 0, confidence: 'none', outliersRemoved: 0, productsUsed: 0 };
+
+    if (claimError) {
+      console.error('❌ Failed to claim job:', claimError.message);
+      return;
     }
-    
-    const { cleaned, removed } = removeOutliers(allPrices);
-    return {
-      lowest: Math.min(...cleaned),
-      average: cleaned.reduce((a, b) => a + b, 0) / cleaned.length,
-      highest: Math.max(...cleaned),
-      confidence: 'low',
-      outliersRemoved: removed,
-      productsUsed: 0
-    };
-  }
-  
-  // ✅ FIX 6: Increase similarity threshold to 0.8 (80%)
-  const filteredProducts = products.filter(p => p.similarity_score >= 0.8);
-  
-  console.log(`🔍 Similarity filtering: ${products.length} → ${filteredProducts.length} products (removed ${products.length - filteredProducts.length} low-similarity matches)`);
-  
-  if (filteredProducts.length < 3) {
-    console.log('⚠️ Not enough high-similarity products, using aggregate data');
-    const allPrices: number[] = [];
-    aggregates?.forEach(comp => {
-      if (comp.lowest_price) allPrices.push(comp.lowest_price);
-      if (comp.average_price) allPrices.push(comp.average_price);
-      if (comp.highest_price) allPrices.push(comp.highest_price);
-    });
-    
-    if (allPrices.length === 0) {
-      return { lowest: 0, average: 0, highest: 0, confidence: 'very_low', outliersRemoved: 0, productsUsed: filteredProducts.length };
+
+    const job: ProcessingJob | undefined = claimed?.[0];
+    if (!job) {
+      // Every slot is taken: the workers holding them claim the next jobs as they finish
+      const { count: running } = await supabase
+        .from('processing_status')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', 'processing');
+      if ((running ?? 0) >= MAX_RUNNING_JOBS) break;
+
+      // Retries wait out their backoff and dead workers' jobs wait for their lock to
+      // expire; stay for them when that happens within the budget, or they sit until
+      // the next trigger
+      const runnableAt = await nextRunnableAt(supabase);
+      const remaining = WORKER_TIME_BUDGET_MS - (Date.now() - startedAt);
+      if (runnableAt === null || runnableAt - Date.now() >= remaining) break;
+
+      await new Promise(resolve => setTimeout(resolve, Math.max(QUEUE_POLL_INTERVAL_MS, runnableAt - Date.now())));
+      continue;
     }
-    
-    const { cleaned, removed } = removeOutliers(allPrices);
-    return {
-      lowest: Math.min(...cleaned),
-      average: cleaned.reduce((a, b) => a + b, 0) / cleaned.length,
-      highest: Math.max(...cleaned),
-      confidence: 'very_low',
-      outliersRemoved: removed,
-      productsUsed: filteredProducts.length
-    };
-  }
-  
-  console.log(`📊 Analyzing ${filteredProducts.length} high-similarity competitor products`);
-  
-  // Weight each product by similarity score
-  let weightedSum = 0;
-  let totalWeight = 0;
-  const prices: number[] = [];
-  
-  filteredProducts.forEach(prod => {
-    const weight = prod.similarity_score;
-    weightedSum += prod.price * weight;
-    totalWeight += weight;
-    prices.push(prod.price);
-  });
-  
-  // Remove statistical outliers
-  const { cleaned, removed } = removeOutliers(prices);
-  
-  // Recalculate weighted average with cleaned prices
-  let cleanedWeightedSum = 0;
-  let cleanedTotalWeight = 0;
-  filteredProducts.forEach(prod => {
-    if (cleaned.includes(prod.price)) {
-      const weight = prod.similarity_score;
-      cleanedWeightedSum += prod.price * weight;
-      cleanedTotalWeight += weight;
+
+    console.log(`⚙️ Worker ${workerId.slice(0, 8)} running ${job.job_type} job ${job.id} (attempt ${job.attempts}/${job.max_attempts})`);
+
+    try {
+      await runJob(supabase, job, supabaseUrl, supabaseServiceKey);
+
+      await supabase.from('processing_status')
+        .update({
+          status: 'completed',
+          current_step: 'complete',
+          error_message: null,
+          locked_by: null,
+          locked_at: null,
+          finished_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', job.id);
+
+      await recordScheduleOutcome(supabase, job, null);
+      console.log(`✅ Job ${job.id} completed`);
+    } catch (error) {
+      await failJob(supabase, job, error instanceof Error ? error.message : 'Unknown error');
     }
-  });
-  
-  const weightedAverage = cleanedTotalWeight > 0 ? cleanedWeightedSum / cleanedTotalWeight : 0;
-  
-  return {
-    lowest: Math.min(...cleaned),
-    average: weightedAverage,
-    highest: Math.max(...cleaned),
-    confidence: filteredProducts.length >= 10 ? 'high' : filteredProducts.length >= 5 ? 'medium' : 'low',
-    outliersRemoved: removed,
-    productsUsed: filteredProducts.length
-  };
-}
 
-// Category-aware zone multipliers for velocity-based pricing
-function getZoneMultipliers(category: string): { zoneA: number; zoneB: number } {
-  const cat = category.toLowerCase();
-  
-  // High Elasticity: Shoppers are price-sensitive (Tech, Appliances)
-  if (cat.includes('electronic') || cat.includes('computer') || 
-      cat.includes('appliance') || cat.includes('mobile') || cat.includes('phone')) {
-    return { zoneA: 3.5, zoneB: 2.2 }; 
-  }
-  // Low Elasticity: Shoppers are brand-loyal (Beauty, Baby, Food)
-  else if (cat.includes('beauty') || cat.includes('health') || 
-           cat.includes('baby') || cat.includes('food') || cat.includes('grocery')) {
-    return { zoneA: 1.8, zoneB: 1.3 };
+    processed++;
   }
-  // Medium Elasticity: Default (Fashion, Home, etc.)
-  else {
-    return { zoneA: 2.5, zoneB: 1.8 };
+
+  // Out of time with work left: hand over to a fresh worker instead of letting jobs sit
+  if (Date.now() - startedAt >= WORKER_TIME_BUDGET_MS) {
+    const { count } = await supabase
+      .from('processing_status')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', 'pending');
+
+    if (count && count > 0) {
+      console.log(`⏭️ Time budget used after ${processed} jobs, ${count} still pending - starting a new worker`);
+      await fetch(`${supabaseUrl}/functions/v1/process-pricing`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${supabaseServiceKey}`,
+          'apikey': supabaseServiceKey
+        },
+        body: JSON.stringify({ drain: true })
+      }).catch((e) => console.error('❌ Failed to start next worker:', e.message));
+    }
   }
+
+  console.log(`🏁 Worker ${workerId.slice(0, 8)} finished after ${processed} jobs`);
 }
 
-// Calculate profit-maximizing price using elasticity theory + Zone Velocity Model
-function calculateProfitMaximizingPrice(
-  cost: number,
-  elasticity: number,
-  currentPrice: number,
-  marketAverage: number,
-  marketLowest: number,
-  marketHighest: number,
-  inflationRate: number,
-  category: string
-): { 
-  theoreticalOptimal: number;
-  marketAdjusted: number;
-  reasoning: string;
-  zoneDetected: string;
-  breakEvenMultiplier: number;
-  marketPotential: number;
-  isRiskAdjusted: boolean;
-} {
-  // Apply inflation adjustment to market boundaries FIRST
-  const inflationMultiplier = 1 + inflationRate;
-  const inflationAdjustedAverage = marketAverage * inflationMultiplier;
-  const inflationAdjustedHighest = marketHighest * inflationMultiplier;
-  const inflationAdjustedLowest = marketLowest * inflationMultiplier;
-  
-  console.log(`📊 Market bounds (inflation-adjusted):`);
-  console.log(`   Lowest: ${inflationAdjustedLowest.toFixed(2)}`);
-  console.log(`   Average: ${inflationAdjustedAverage.toFixed(2)}`);
-  console.log(`   Highest: ${inflationAdjustedHighest.toFixed(2)}`);
-  console.log(`   Inflation rate: ${(inflationRate * 100).toFixed(2)}%`);
-  
-  // Revenue-maximizing price from elasticity theory
-  // Formula: P* = Cost / (1 + 1/elasticity)
-  const rawTheoretical = cost / (1 + 1 / elasticity);
-  const theoreticalOptimal = rawTheoretical;
-  
-  console.log(`💡 Theoretical optimal: ${theoreticalOptimal.toFixed(2)}`);
-  console.log(`   Based on elasticity ${elasticity} and cost ${cost}`);
-  
-  // MARKET-DRIVEN APPROACH: Start with inflation-adjusted market average
-  let suggestedPrice = inflationAdjustedAverage;
-  
-  // Apply elasticity influence: blend theoretical if it suggests better pricing
-  if (theoreticalOptimal > cost * 1.15 && theoreticalOptimal < inflationAdjustedAverage) {
-    // Theoretical suggests lower price could maximize profit - blend 40% toward it
-    suggestedPrice = (inflationAdjustedAverage * 0.6) + (theoreticalOptimal * 0.4);
-    console.log(`   Blended with theoretical: ${suggestedPrice.toFixed(2)}`);
-  }
-  
-  // CRITICAL BOUNDS: Hard cap at 95% of market highest, floor at 15% profit margin
-  const absoluteMin = cost * 1.15; // 15% minimum profit margin
-  const absoluteMax = inflationAdjustedHighest * 0.95; // 95% of market highest (NEVER EXCEED!)
-  
-  console.log(`🎯 Price bounds:`);
-  console.log(`   Min (cost + 15%): ${absoluteMin.toFixed(2)}`);
-  console.log(`   Max (95% of highest): ${absoluteMax.toFixed(2)}`);
-  
-  let reasoning = '';
-  
-  // Apply hard constraints to suggested price
-  if (suggestedPrice < absoluteMin) {
-    suggestedPrice = absoluteMin;
-    reasoning = `Set to minimum 15% profit margin (${absoluteMin.toFixed(0)}) for business viability`;
-  } else if (suggestedPrice > absoluteMax) {
-    suggestedPrice = absoluteMax;
-    reasoning = `Capped at 95% of market highest (${inflationAdjustedHighest.toFixed(0)}) to stay competitive`;
-  } else {
-    const percentBelowHighest = ((inflationAdjustedHighest - suggestedPrice) / inflationAdjustedHighest * 100).toFixed(1);
-    reasoning = `Optimized at ${percentBelowHighest}% below market highest based on inflation-adjusted average`;
+/**
+ * When the next job can be claimed: the earliest pending run_after or expiring
+ * lock, in epoch ms. null when the queue is empty.
+ */
+async function nextRunnableAt(supabase: SupabaseClient): Promise<number | null> {
+  const [{ data: pending }, { data: running }] = await Promise.all([
+    supabase.from('processing_status')
+      .select('run_after')
+      .eq('status', 'pending')
+      .order('run_after', { ascending: true })
+      .limit(1)
+      .maybeSingle(),
+    supabase.from('processing_status')
+      .select('locked_at, updated_at')
+      .eq('status', 'processing')
+      .order('locked_at', { ascending: true, nullsFirst: true })
+      .limit(1)
+      .maybeSingle()
+  ]);
+
+  const times = [
+    pending ? new Date(pending.run_after).getTime() : null,
+    running ? new Date(running.locked_at ?? running.updated_at).getTime() + JOB_LOCK_TIMEOUT_SECONDS * 1000 : null
+  ].filter((time): time is number => time !== null);
+
+  return times.length > 0 ? Math.min(...times) : null;
+}
+
+/**
+ * Schedule a retry with exponential backoff, or mark the job failed once
+ * it has used all of its attempts.
+ */
+async function failJob(supabase: SupabaseClient, job: ProcessingJob, message: string) {
+  const exhausted = job.attempts >= job.max_attempts;
+  const now = Date.now();
+
+  console.error(`❌ Job ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}): ${message}`);
+
+  await supabase.from('processing_status')
+    .update(exhausted
+      ? {
+          status: 'failed',
+          error_message: message,
+          locked_by: null,
+          locked_at: null,
+          finished_at: new Date(now).toISOString(),
+          updated_at: new Date(now).toISOString()
+        }
+      : {
+          status: 'pending',
+          current_step: 'retry_scheduled',
+          error_message: message,
+          locked_by: null,
+          locked_at: null,
+          run_after: new Date(now + RETRY_BASE_DELAY_MS * Math.pow(2, job.attempts - 1)).toISOString(),
+          updated_at: new Date(now).toISOString()
+        })
+    .eq('id', job.id);
+
+  if (exhausted) {
+    await recordScheduleOutcome(supabase, job, message);
   }
-  
-  // --- NEW: Category-Aware Zone Velocity Logic ---
-  console.log(`\n🚀 === Zone Velocity Analysis ===`);
-  console.log(`   Category: ${category}`);
-  
-  // 1. Get Multipliers based on Category
-  const { zoneA, zoneB } = getZoneMultipliers(category);
-  console.log(`   Zone multipliers: A=${zoneA}x, B=${zoneB}x`);
-  
-  // 2. Calculate Required Break-Even Volume
-  const currentUnitMargin = currentPrice - cost;
-  const newUnitMargin = suggestedPrice - cost;
-  const breakEvenMultiplier = currentUnitMargin / newUnitMargin;
-  
-  console.log(`   Current margin: ${currentUnitMargin.toFixed(2)} per unit`);
-  console.log(`   New margin: ${newUnitMargin.toFixed(2)} per unit`);
-  console.log(`   Break-even multiplier needed: ${breakEvenMultiplier.toFixed(2)}x`);
-
-  // 3. Determine Market Zone & Potential
-  let marketPotential = 1.0; 
-  let zoneDetected = 'C';
-
-  // ZONE A: Aggressive (Within 5% of Market Lowest)
-  if (inflationAdjustedLowest && suggestedPrice <= inflationAdjustedLowest * 1.05) {
-    marketPotential = zoneA;
-    zoneDetected = 'A';
-    console.log(`🚀 Zone A Detected: Aggressive Pricing (within 5% of lowest)`);
+}
+
+/**
+ * Report the final outcome of a scheduled job back to its refresh schedule
+ * so stale products can be spotted. Manual jobs are ignored.
+ */
+async function recordScheduleOutcome(supabase: SupabaseClient, job: ProcessingJob, errorMessage: string | null) {
+  if (job.triggered_by !== 'schedule') return;
+
+  const { data: schedule } = await supabase
+    .from('refresh_schedules')
+    .select('id, consecutive_failures')
+    .eq('baseline_id', job.baseline_id)
+    .maybeSingle();
+
+  if (!schedule) return;
+
+  const now = new Date().toISOString();
+  await supabase.from('refresh_schedules')
+    .update(errorMessage === null
+      ? { last_status: 'success', last_success_at: now, last_error: null, consecutive_failures: 0, updated_at: now }
+      : { last_status: 'failed', last_error: errorMessage, consecutive_failures: schedule.consecutive_failures + 1, updated_at: now })
+    .eq('id', schedule.id);
+}
+
+async function updateJobStep(supabase: SupabaseClient, jobId: string, step: string) {
+  // Touching locked_at doubles as a heartbeat so long jobs are not reclaimed
+  await supabase.from('processing_status')
+    .update({ current_step: step, locked_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+    .eq('id', jobId);
+}
+
+async function runJob(supabase: SupabaseClient, job: ProcessingJob, supabaseUrl: string, supabaseServiceKey: string) {
+  const { data: baseline, error: baselineError } = await supabase
+    .from('product_baselines')
+    .select('*')
+    .eq('id', job.baseline_id)
+    .single();
+
+  if (baselineError || !baseline) {
+    throw new Error('Baseline not found');
   }
-  // ZONE B: Competitive (Below Market Average)
-  else if (suggestedPrice <= inflationAdjustedAverage) {
-    marketPotential = zoneB;
-    zoneDetected = 'B';
-    console.log(`⚖️ Zone B Detected: Competitive Pricing (below average)`);
+
+  if (job.job_type === 'refresh_competitors') {
+    await updateJobStep(supabase, job.id, 'fetching_competitors');
+    await refreshCompetitors(job.baseline_id, supabaseUrl, supabaseServiceKey);
+    return;
   }
-  // ZONE C: Passive (Above Average)
-  else {
-    marketPotential = 1.0;
-    zoneDetected = 'C';
-    console.log(`💎 Zone C Detected: Premium Pricing (above average)`);
+
+  await updateJobStep(supabase, job.id, 'fetching_inflation');
+
+  const inflation = await loadInflationSnapshot(supabase, baseline.currency, new Date());
+  console.log(`Inflation rate: ${inflation.inflation_rate} (${inflation.source}${inflation.id ? `, snapshot ${inflation.id}` : ', no snapshot'})`);
+
+  // A refresh replaces every stored listing, so price-only jobs skip it
+  if (job.job_type !== 'price_only') {
+    await updateJobStep(supabase, job.id, 'fetching_competitors');
+
+    try {
+      await refreshCompetitors(job.baseline_id, supabaseUrl, supabaseServiceKey);
+    } catch (error) {
+      // Let the queue retry the scrape; on the last attempt price with whatever data exists
+      if (job.attempts < job.max_attempts) throw error;
+      console.log(`⚠️ Competitor scraping failed on final attempt, proceeding with existing data: ${error instanceof Error ? error.message : error}`);
+    }
+    
+    // Wait a moment for database writes to settle
+    await new Promise(r => setTimeout(r, 1000));
   }
 
-  console.log(`📊 Velocity Check: Need ${breakEvenMultiplier.toFixed(2)}x volume. Market Potential: ${marketPotential}x`);
+  await updateJobStep(supabase, job.id, 'calculating_price');
 
-  // 4. The Decision Engine
-  let finalPrice = currentPrice;
-  let isRiskAdjusted = false;
+  await calculateOptimalPrice(supabase, baseline, inflation);
 
-  // IF gain outweighs pain...
-  if (marketPotential >= breakEvenMultiplier) {
-    finalPrice = suggestedPrice; // Accept the market-driven price
-    console.log(`✅ Decision: ACCEPT market price (${marketPotential}x potential >= ${breakEvenMultiplier.toFixed(2)}x needed)`);
-    reasoning = `Zone ${zoneDetected}: ${marketPotential}x expected volume gain justifies price adjustment. ${reasoning}`;
-  } else {
-    // ELSE: Risk is too high. Use Fallback (Midway Price)
-    finalPrice = (currentPrice + suggestedPrice) / 2;
-    isRiskAdjusted = true;
-    console.log(`⚠️ Decision: MIDWAY fallback (${marketPotential}x potential < ${breakEvenMultiplier.toFixed(2)}x needed)`);
-    console.log(`   Midway price: ${finalPrice.toFixed(2)}`);
-    reasoning = `Zone ${zoneDetected}: Risk-adjusted to midway (${finalPrice.toFixed(0)}) - ${breakEvenMultiplier.toFixed(1)}x volume needed but only ${marketPotential}x expected`;
+  console.log('✅ Enhanced pricing calculation completed');
+}
+
+async function refreshCompetitors(baselineId: string, supabaseUrl: string, supabaseServiceKey: string) {
+  console.log('Triggering competitor scraping via direct HTTP...');
+
+  // Use direct HTTP call with service role key to avoid JWT issues
+  const response = await fetch(
+    `${supabaseUrl}/functions/v1/refresh-competitors`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${supabaseServiceKey}`,
+        'apikey': supabaseServiceKey
+      },
+      body: JSON.stringify({ baseline_id: baselineId })
+    }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`refresh-competitors HTTP ${response.status}: ${errorText.slice(0, 200)}`);
   }
 
-  // 5. Final Floor Check (Absolute Safety)
-  if (finalPrice < absoluteMin) {
-    finalPrice = absoluteMin;
-    isRiskAdjusted = true;
-    console.log(`🛡️ Floor applied: ${absoluteMin.toFixed(2)} (minimum 15% margin)`);
-    reasoning = `Floor applied: minimum 15% profit margin maintained`;
+  const data = await response.json();
+  console.log('✅ Competitor scraping completed successfully:', data?.message || 'OK');
+}
+
+/**
+ * Elasticity learned from the merchant's recorded sales in the baseline's category,
+ * or the baseline's category default when there isn't enough data
+ */
+async function loadLearnedElasticity(supabase: SupabaseClient, baseline: { id: string; merchant_id: string | null; category: string; base_elasticity: number }): Promise<ElasticityChoice> {
+  const fallback: ElasticityChoice = { elasticity: baseline.base_elasticity, source: 'category_default', estimate: null };
+  if (!baseline.merchant_id) return fallback;
+
+  const { data: sales, error } = await supabase
+    .from('sales_observations')
+    .select('baseline_id, price, units_sold, period_start, period_end, product_baselines!inner(category)')
+    .eq('merchant_id', baseline.merchant_id)
+    .eq('product_baselines.category', baseline.category);
+
+  if (error) {
+    console.error('Failed to load sales observations:', error);
+    return fallback;
   }
-  
-  // Final ceiling check
-  finalPrice = Math.min(finalPrice, absoluteMax);
-  
-  console.log(`\n✅ Final suggested price: ${finalPrice.toFixed(2)}`);
-  console.log(`   Zone: ${zoneDetected} | Risk-adjusted: ${isRiskAdjusted}`);
-  console.log(`   Reasoning: ${reasoning}`);
-  console.log(`   Verification: ${finalPrice <= inflationAdjustedHighest ? '✓ Below market highest' : '✗ EXCEEDS MARKET HIGHEST!'}`);
-  
-  return {
-    theoreticalOptimal,
-    marketAdjusted: finalPrice,
-    reasoning,
-    zoneDetected,
-    breakEvenMultiplier,
-    marketPotential,
-    isRiskAdjusted
-  };
+
+  const learned = learnElasticity(
+    baseline.id,
+    baseline.base_elasticity,
+    (sales || []).map(sale => ({ ...sale, price: Number(sale.price) }))
+  );
+
+  for (const [scope, estimate] of [['product', learned.productEstimate], ['category', learned.categoryEstimate]] as const) {
+    if (estimate) {
+      console.log(`📈 ${scope} elasticity ${estimate.elasticity} (95% CI ${estimate.ciLow} to ${estimate.ciHigh}, n=${estimate.observations}): ${estimate.reason}`);
+    }
+  }
+  console.log(`   Using ${learned.source} elasticity ${learned.elasticity}`);
+
+  return learned;
 }
 
 async function calculateOptimalPrice(
   supabase: any,
   baseline: any,
-  inflationRate: number
+  inflation: InflationSnapshot
 ) {
+  const inflationRate = inflation.inflation_rate;
   console.log('=== Starting Enhanced Price Calculation ===');
+
+  const taxonomy = await loadCategoryTaxonomy(supabase);
+  const elasticity = await loadLearnedElasticity(supabase, baseline);
+  const { id: strategyId, strategy } = await loadPricingStrategy(supabase, baseline);
+  console.log(`🧭 Strategy: ${strategy.name}`);
+  const strategyColumns = {
+    strategy_id: strategyId,
+    strategy_name: strategy.name
+  };
+  const { guardrails, hoursSinceLastChange, lastAppliedPrice } = await loadPriceGuardrails(supabase, baseline, taxonomy);
+  const elasticityColumns = {
+    base_elasticity: elasticity.elasticity,
+    elasticity_source: elasticity.source,
+    elasticity_ci_low: elasticity.estimate?.ciLow ?? null,
+    elasticity_ci_high: elasticity.estimate?.ciHigh ?? null,
+    elasticity_observations: elasticity.estimate?.observations ?? null
+  };
   
   // Fetch competitor products (granular data with similarity scores)
-  const { data: competitorProducts } = await supabase
+  const { data: scrapedProducts } = await supabase
     .from('competitor_products')
-    .select('price, similarity_score, price_ratio, marketplace')
-    .eq('baseline_id', baseline.id)
-    .gte('similarity_score', 0.6); // Only products with > 60% similarity
-  
-  console.log(`Found ${competitorProducts?.length || 0} competitor products`);
+    .select('price, similarity_score, price_ratio, marketplace, product_name, product_url, ai_decision')
+    .eq('baseline_id', baseline.id);
+  
+  // Apply the merchant's pins and exclusions before the similarity cut, so a pinned
+  // listing counts even when the matcher scored it low
+  const { data: curations } = await supabase
+    .from('competitor_curations')
+    .select('action, marketplace, product_name, product_url, listing_key')
+    .eq('baseline_id', baseline.id);
+  
+  let competitorProducts = applyCompetitorCurations(scrapedProducts || [], curations || [])
+    .filter(product => product.similarity_score >= 0.6); // Only products with > 60% similarity
+  
+  console.log(`Found ${competitorProducts.length} competitor products (${curations?.length || 0} merchant curation(s))`);
+  const inputSteps: TraceStep[] = [
+    traceStep(
+      'market',
+      'listings',
+      'Competitor listings',
+      `${competitorProducts.length} of ${scrapedProducts?.length || 0} scraped listings are at least 60% similar after your pins, exclusions and AI match checks`,
+      [
+        ['scraped', 'Scraped', scrapedProducts?.length || 0, 'count'],
+        ['curations', 'Pins and exclusions', curations?.length || 0, 'count'],
+        ['listings', 'Listings used', competitorProducts.length, 'count']
+      ]
+    )
+  ];
   
   // Fetch aggregated data (fallback)
-  const { data: competitorAggregates } = await supabase
+  const { data: storedAggregates } = await supabase
     .from('competitor_prices')
     .select('*')
     .eq('baseline_id', baseline.id)
     .eq('fetch_status', 'success');
+  let competitorAggregates = storedAggregates || [];
+  
+  // Size-variable categories: compare on the baseline's size and pack count
+  let unitPricing: UnitPriceNormalization | null = null;
+  if (isUnitPricedCategory(baseline.category, taxonomy)) {
+    const normalized = normalizeToBaselineQuantity(baseline.product_name, competitorProducts);
+    competitorProducts = normalized.listings;
+    unitPricing = normalized.normalization;
+    
+    console.log(`📏 Unit pricing: ${unitPricing.baselineQuantity} ${unitPricing.basis} basis, ${unitPricing.normalizedCount} price(s) rescaled`);
+    inputSteps.push(traceStep(
+      'market',
+      'unit_pricing',
+      'Size normalization',
+      `Competitor prices rescaled to your size (${unitPricing.baselineQuantity} ${unitPricing.basis}) before comparison`,
+      [
+        ['baselineQuantity', 'Your size', unitPricing.baselineQuantity, 'number'],
+        ['basis', 'Unit', unitPricing.basis, 'text'],
+        ['normalized', 'Prices rescaled', unitPricing.normalizedCount, 'count']
+      ]
+    ));
+    if (unitPricing.normalizedCount > 0) {
+      competitorAggregates = aggregateListingsByMarketplace(competitorProducts);
+    }
+  }
 
   // Calculate market stats with outlier detection and weighting
   const marketStats = calculateWeightedMarketStats(
-    competitorProducts || [],
-    competitorAggregates || []
+    competitorProducts,
+    competitorAggregates
   );
   
   console.log('📈 Market stats (cleaned):', {
@@ -627,20 +587,32 @@ async function calculateOptimalPrice(
   const validation = validateMarketData(
     marketStats,
     baseline.current_price,
-    competitorProducts?.length || 0,
-    baseline.category
+    competitorProducts.length,
+    baseline.category,
+    taxonomy
   );
   
   console.log(`✓ Market validation: ${validation.reason}`);
   if (validation.warning) {
     console.log(`⚠️ Validation warning: ${validation.warning}`);
   }
+  const marketSteps = [
+    ...inputSteps,
+    ...marketStats.trace,
+    traceStep(
+      'market',
+      'validation',
+      'Data quality check',
+      validation.warning ? `${validation.reason}. ${validation.warning}` : validation.reason,
+      [['passed', 'Passed', validation.shouldProceed, 'text']]
+    )
+  ];
   
   if (!validation.shouldProceed) {
     console.log('⚠️ Market data validation failed, returning baseline price');
     
     // Insert warning result and stop
-    await supabase.from('pricing_results').insert({
+    const { error: warningError } = await supabase.from('pricing_results').insert({
       baseline_id: baseline.id,
       merchant_id: baseline.merchant_id,
       currency: baseline.currency,
@@ -648,20 +620,26 @@ async function calculateOptimalPrice(
       suggested_price: baseline.current_price,
       inflation_rate: inflationRate,
       inflation_adjustment: 1 + inflationRate,
-      base_elasticity: baseline.base_elasticity,
-      calibrated_elasticity: baseline.base_elasticity,
+      inflation_snapshot_id: inflation.id,
+      ...elasticityColumns,
+      ...strategyColumns,
+      calibrated_elasticity: elasticity.elasticity,
       competitor_factor: 1,
       has_warning: true,
-      warning_message: validation.reason
+      warning_message: validation.reason,
+      decision_trace: buildDecisionTrace(marketSteps)
     });
     
+    if (warningError) {
+      throw new Error(`Failed to save pricing result: ${warningError.message}`);
+    }
     return;
   }
   
   if (marketStats.average === 0) {
     console.log('⚠️ No competitor data available');
     
-    await supabase.from('pricing_results').insert({
+    const { error: warningError } = await supabase.from('pricing_results').insert({
       baseline_id: baseline.id,
       merchant_id: baseline.merchant_id,
       currency: baseline.currency,
@@ -669,26 +647,37 @@ async function calculateOptimalPrice(
       suggested_price: baseline.current_price,
       inflation_rate: inflationRate,
       inflation_adjustment: 1 + inflationRate,
-      base_elasticity: baseline.base_elasticity,
-      calibrated_elasticity: baseline.base_elasticity,
+      inflation_snapshot_id: inflation.id,
+      ...elasticityColumns,
+      ...strategyColumns,
+      calibrated_elasticity: elasticity.elasticity,
       competitor_factor: 1,
       has_warning: true,
-      warning_message: 'No competitor data available. Using baseline price.'
+      warning_message: 'No competitor data available. Using baseline price.',
+      decision_trace: buildDecisionTrace(marketSteps)
     });
     
+    if (warningError) {
+      throw new Error(`Failed to save pricing result: ${warningError.message}`);
+    }
     return;
   }
 
   // Calculate profit-maximizing price with Zone Velocity Model (inflation already applied inside)
   const profitCalc = calculateProfitMaximizingPrice(
     baseline.cost_per_unit,
-    baseline.base_elasticity,
+    elasticity.elasticity,
     baseline.current_price,
     marketStats.average,
     marketStats.lowest,
     marketStats.highest,
     inflationRate,
-    baseline.category // NEW: Pass category for zone multipliers
+    baseline.category, // NEW: Pass category for zone multipliers
+    taxonomy,
+    strategy,
+    guardrails,
+    hoursSinceLastChange,
+    lastAppliedPrice
   );
   
   const inflationAdjustment = 1 + inflationRate;
@@ -698,14 +687,20 @@ async function calculateOptimalPrice(
   
   // Calculate competitor factor for context
   const competitorFactor = marketStats.average / baseline.current_price;
-  const calibratedElasticity = baseline.base_elasticity * (1 + (competitorFactor - 1) * 0.3);
+  // Learned elasticity already reflects how this merchant's customers respond; only the
+  // category default is calibrated against the market
+  const calibratedElasticity = elasticity.source === 'category_default'
+    ? elasticity.elasticity * (1 + (competitorFactor - 1) * 0.3)
+    : elasticity.elasticity;
   
   // Calculate profit projections with the zone-adjusted price
   const currentProfit = (baseline.current_price - baseline.cost_per_unit) * baseline.current_quantity;
   
   // Calculate expected profit with zone-adjusted suggested price
-  const newQuantity = baseline.current_quantity * Math.pow(
-    baseline.current_price / finalSuggestedPrice,
+  const newQuantity = projectDemand(
+    baseline.current_quantity,
+    baseline.current_price,
+    finalSuggestedPrice,
     calibratedElasticity
   );
   const newProfit = (finalSuggestedPrice - baseline.cost_per_unit) * newQuantity;
@@ -717,7 +712,7 @@ async function calculateOptimalPrice(
   let warningMessage = '';
   
   if (profitCalc.isRiskAdjusted) {
-    warningMessage = `Zone ${profitCalc.zoneDetected}: Risk-adjusted pricing applied. Market potential (${profitCalc.marketPotential}x) is lower than break-even requirement (${profitCalc.breakEvenMultiplier.toFixed(1)}x). Midway price used to balance competitiveness and profitability.`;
+    warningMessage = `Zone ${profitCalc.zoneDetected}: Risk-adjusted pricing applied. Market potential (${profitCalc.marketPotential}x) is lower than break-even requirement (${profitCalc.breakEvenMultiplier.toFixed(1)}x). ${strategy.riskTolerance === 0.5 ? 'Midway price' : `A price ${Math.round(strategy.riskTolerance * 100)}% of the way to the market price`} used to balance competitiveness and profitability.`;
   }
   
   console.log('=== Price Calculation Complete ===');
@@ -725,6 +720,9 @@ async function calculateOptimalPrice(
   console.log(`📊 Market adjusted: ${profitCalc.marketAdjusted.toFixed(2)}`);
   console.log(`🎯 Final suggested: ${finalSuggestedPrice.toFixed(2)}`);
   console.log(`📝 Reasoning: ${profitCalc.reasoning}`);
+  if (profitCalc.guardrailsApplied.length > 0) {
+    console.log(`🛡️ Guardrails applied: ${profitCalc.guardrailsApplied.join(', ')}`);
+  }
   if (hasWarning) {
     console.log(`⚠️ Warning: ${warningMessage}`);
   } else {
@@ -732,8 +730,10 @@ async function calculateOptimalPrice(
   }
 
   // Recalculate with final suggested price if it was changed
-  const finalNewQuantity = baseline.current_quantity * Math.pow(
-    baseline.current_price / finalSuggestedPrice,
+  const finalNewQuantity = projectDemand(
+    baseline.current_quantity,
+    baseline.current_price,
+    finalSuggestedPrice,
     calibratedElasticity
   );
   const finalNewProfit = (finalSuggestedPrice - baseline.cost_per_unit) * finalNewQuantity;
@@ -745,8 +745,38 @@ async function calculateOptimalPrice(
   // Calculate expected revenue using the correct formula
   const expectedRevenue = finalSuggestedPrice * finalNewQuantity;
   
+  const projectionSteps = [
+    traceStep(
+      'projection',
+      'demand_elasticity',
+      'Demand elasticity',
+      elasticity.source === 'category_default'
+        ? `${baseline.category} default, adjusted for where your price sits against the market`
+        : elasticity.source === 'product'
+        ? 'Learned from your recorded sales of this product'
+        : `Learned from your recorded ${baseline.category} sales`,
+      [
+        ['baseElasticity', 'Elasticity', elasticity.elasticity, 'number'],
+        ['competitorFactor', 'Market average / your price', competitorFactor, 'multiplier'],
+        ['calibratedElasticity', 'Used for demand', calibratedElasticity, 'number']
+      ]
+    ),
+    traceStep(
+      'projection',
+      'projection',
+      'Projected month',
+      `Demand at ${finalSuggestedPrice.toFixed(2)} from your ${baseline.current_quantity} units a month at ${baseline.current_price.toFixed(2)}`,
+      [
+        ['price', 'Suggested price', finalSuggestedPrice, 'price'],
+        ['quantity', 'Units', finalNewQuantity, 'count'],
+        ['profit', 'Monthly profit', finalNewProfit, 'price'],
+        ['profitChange', 'Profit change', finalProfitIncrease, 'price']
+      ]
+    )
+  ];
+  
   // Insert pricing results with expected_quantity and expected_revenue
-  await supabase.from('pricing_results').insert({
+  const { data: pricingResult, error: resultError } = await supabase.from('pricing_results').insert({
     baseline_id: baseline.id,
     merchant_id: baseline.merchant_id,
     currency: baseline.currency,
@@ -754,7 +784,9 @@ async function calculateOptimalPrice(
     suggested_price: finalSuggestedPrice,
     inflation_rate: inflationRate,
     inflation_adjustment: inflationAdjustment,
-    base_elasticity: baseline.base_elasticity,
+    inflation_snapshot_id: inflation.id,
+    ...elasticityColumns,
+    ...strategyColumns,
     calibrated_elasticity: calibratedElasticity,
     competitor_factor: competitorFactor,
     market_lowest: marketStats.lowest,
@@ -766,19 +798,38 @@ async function calculateOptimalPrice(
     profit_increase_percent: finalProfitIncreasePercent,
     expected_quantity: Math.round(finalNewQuantity),
     expected_revenue: expectedRevenue,
+    unit_basis: unitPricing?.basis ?? null,
+    unit_quantity: unitPricing?.baselineQuantity ?? null,
+    unit_normalized_count: unitPricing?.normalizedCount ?? null,
     has_warning: hasWarning,
-    warning_message: hasWarning ? warningMessage : null
-  });
+    warning_message: hasWarning ? warningMessage : null,
+    guardrails_applied: profitCalc.guardrailsApplied,
+    decision_trace: buildDecisionTrace(marketSteps, profitCalc.trace, projectionSteps)
+  }).select('id').single();
+  
+  // Fail the job so it's retried; a performance row without its result couldn't be decided on
+  if (resultError) {
+    throw new Error(`Failed to save pricing result: ${resultError.message}`);
+  }
   
   // Insert performance tracking (predicted values)
   await supabase.from('pricing_performance').insert({
     baseline_id: baseline.id,
     merchant_id: baseline.merchant_id,
+    // Accepting or modifying this result records the applied price on this row
+    pricing_result_id: pricingResult.id,
     suggested_price: finalSuggestedPrice,
     predicted_sales: Math.round(finalNewQuantity),
+    expected_monthly_profit: finalNewProfit,
     market_average: marketStats.average,
     market_lowest: marketStats.lowest,
-    market_highest: marketStats.highest
+    market_highest: marketStats.highest,
+    // What the prediction assumed, for the calibration report
+    category: baseline.category,
+    zone: profitCalc.zoneDetected,
+    market_potential: profitCalc.marketPotential,
+    market_confidence: marketStats.confidence,
+    baseline_quantity: baseline.current_quantity
   });
   
   console.log('✅ Results and performance tracking saved');
@@ -0,0 +1,242 @@
+// ========================================
+// EXTRACTION FIXTURE TESTS
+// ========================================
+// Runs the extractors against saved pages in _shared/scraping/fixtures, so selector
+// changes can be checked offline:
+//   deno test --allow-read --allow-env supabase/functions/refresh-competitors
+// When a store changes its markup, save the new page over its fixture
+// (debug-scrape returns the file name) and update the expected values below.
+//
+// TODO: the Amazon, Noon, Extra and Jarir fixtures are hand-written from the selectors the
+// extractors use, not captures of the live sites, so they can't catch markup drift. Replace
+// each with a real page fetched through debug-scrape, trimmed to the <head> metadata and the
+// product containers, and re-check the expected values.
+
+import { assert, assertEquals, assertExists } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { DOMParser, HTMLDocument } from 'https://deno.land/x/deno_dom@v0.1.38/deno-dom-wasm.ts';
+import { fixtureProvider } from '../_shared/scraping/fixture.ts';
+import { getMarketplaceAdapter } from './marketplaces/registry.ts';
+import {
+  extractNameFromContainerText,
+  extractPrice,
+  extractPriceFromContainerText,
+  extractProductPageDetails,
+  extractSearchListing,
+  extractUniversalData,
+  filterSearchContainers,
+  SearchListing,
+  trySelectAll
+} from './extraction.ts';
+
+const QUERY = 'Apple iPhone 15 Pro 256GB';
+
+interface ExpectedListing {
+  name: string;
+  price: number | null;
+  url: string | null;
+}
+
+interface SearchSnapshot {
+  marketplace: string;
+  currency: string;
+  listings: ExpectedListing[];
+}
+
+interface ProductPageSnapshot {
+  marketplace: string;
+  url: string;
+  currency: string;
+  title: string;
+  price: number;
+  method: string;
+  // null when the page has no JSON-LD or OpenGraph data
+  universal: { name: string; price: number; currency: string; extractionMethod: string } | null;
+}
+
+const SEARCH_SNAPSHOTS: SearchSnapshot[] = [
+  {
+    marketplace: 'amazon',
+    currency: 'SAR',
+    listings: [
+      { name: 'Apple iPhone 15 Pro (256 GB) - Natural Titanium', price: 4299, url: 'https://www.amazon.sa/Apple-iPhone-15-Pro-256/dp/B0CHX1W1XY' },
+      { name: 'Apple iPhone 15 Pro (256 GB) - Blue Titanium', price: 4149, url: 'https://www.amazon.sa/Apple-iPhone-15-Pro-Blue/dp/B0CHX4PQ2M' },
+      { name: 'Apple iPhone 15 Pro Silicone Case with MagSafe - Black', price: 199, url: 'https://www.amazon.sa/Apple-Silicone-Case-MagSafe-iPhone/dp/B0CJ5Y8Q1T' }
+    ]
+  },
+  {
+    marketplace: 'amazon-us',
+    currency: 'USD',
+    listings: [
+      { name: 'Apple iPhone 15 Pro (256 GB) - Natural Titanium', price: 999, url: 'https://www.amazon.com/Apple-iPhone-15-Pro-256/dp/B0CHX1W1XY' },
+      { name: 'Apple iPhone 15 Pro (256 GB) - Blue Titanium', price: 949, url: 'https://www.amazon.com/Apple-iPhone-15-Pro-Blue/dp/B0CHX4PQ2M' },
+      // $49 is below the USD floor in extractPrice
+      { name: 'Apple iPhone 15 Pro Silicone Case with MagSafe - Black', price: null, url: 'https://www.amazon.com/Apple-Silicone-Case-MagSafe-iPhone/dp/B0CJ5Y8Q1T' }
+    ]
+  },
+  {
+    marketplace: 'walmart',
+    currency: 'USD',
+    listings: [
+      { name: 'Apple iPhone 15 Pro, 256GB, Natural Titanium - Unlocked', price: 999, url: 'https://www.walmart.com/ip/Apple-iPhone-15-Pro-256GB-Natural-Titanium-Unlocked/5033153425' },
+      { name: 'Restored Apple iPhone 15 Pro 256GB Blue Titanium (Refurbished)', price: 749.99, url: 'https://www.walmart.com/ip/Restored-Apple-iPhone-15-Pro-256GB-Blue-Titanium/2114861307' },
+      { name: 'Straight Talk Apple iPhone 15 Pro, 256GB, Black Titanium - Prepaid Smartphone', price: 1029, url: 'https://www.walmart.com/ip/Straight-Talk-Apple-iPhone-15-Pro-256GB/1873422650' }
+    ]
+  },
+  {
+    marketplace: 'ebay',
+    currency: 'USD',
+    listings: [
+      // eBay's placeholder first result; it has no usable price
+      { name: 'Shop on eBay', price: null, url: 'https://ebay.com/itm/123456' },
+      { name: 'Apple iPhone 15 Pro 256GB Natural Titanium Unlocked - Excellent', price: 849.99, url: 'https://www.ebay.com/itm/296154372818?hash=item44f3b6c8d2' },
+      { name: 'NEW Apple iPhone 15 Pro 256GB Blue Titanium Factory Unlocked Sealed', price: 1049, url: 'https://www.ebay.com/itm/305312008791?hash=item4716a3d157' }
+    ]
+  },
+  {
+    marketplace: 'target',
+    currency: 'USD',
+    listings: [
+      { name: 'Apple iPhone 15 Pro 256GB Natural Titanium', price: 1099.99, url: 'https://www.target.com/p/apple-iphone-15-pro/-/A-89985001' },
+      { name: 'Apple iPhone 15 Pro Max 256GB Black Titanium', price: 1199.99, url: 'https://www.target.com/p/apple-iphone-15-pro-max/-/A-89985009' }
+    ]
+  }
+];
+
+const PRODUCT_PAGE_SNAPSHOTS: ProductPageSnapshot[] = [
+  {
+    marketplace: 'noon',
+    url: 'https://www.noon.com/saudi-en/iphone-15-pro-256gb-natural-titanium-5g-with-facetime-middle-east-version/N53432547A/p/',
+    currency: 'SAR',
+    title: 'iPhone 15 Pro 256GB Natural Titanium 5G With FaceTime - Middle East Version',
+    price: 4199,
+    method: 'CSS: [class*="priceNow"]',
+    universal: {
+      name: 'iPhone 15 Pro 256GB Natural Titanium 5G With FaceTime - Middle East Version',
+      price: 4199,
+      currency: 'SAR',
+      extractionMethod: 'JSON-LD @type:Product'
+    }
+  },
+  {
+    marketplace: 'extra',
+    url: 'https://www.extra.com/en-sa/mobiles-tablets/mobiles/smartphone/apple-iphone-15-pro-5g-256gb-natural-titanium/p/100029311',
+    currency: 'SAR',
+    title: 'Apple iPhone 15 Pro 5G 256GB Natural Titanium',
+    price: 4299,
+    method: 'CSS: .c_product-price',
+    universal: null
+  },
+  {
+    marketplace: 'jarir',
+    url: 'https://www.jarir.com/sa-en/apple-iphone-15-pro-smartphone-256gb-natural-titanium-623498.html',
+    currency: 'SAR',
+    title: 'Apple iPhone 15 Pro Smartphone 256GB Natural Titanium',
+    price: 4199,
+    method: 'CSS: .price-box .price',
+    universal: {
+      name: 'Apple iPhone 15 Pro Smartphone 256GB Natural Titanium',
+      price: 4199,
+      currency: 'SAR',
+      extractionMethod: 'OpenGraph meta'
+    }
+  }
+];
+
+async function loadFixture(url: string): Promise<{ html: string; doc: HTMLDocument }> {
+  const response = await fixtureProvider.fetch({ url });
+  assert(response.ok, response.html);
+  const doc = new DOMParser().parseFromString(response.html, 'text/html');
+  assertExists(doc);
+  return { html: response.html, doc };
+}
+
+// ========================================
+// SEARCH RESULT PAGES
+// ========================================
+
+for (const snapshot of SEARCH_SNAPSHOTS) {
+  Deno.test(`search selectors: ${snapshot.marketplace}`, async () => {
+    const adapter = getMarketplaceAdapter(snapshot.marketplace);
+    assertExists(adapter);
+
+    const pageUrl = adapter.search.url(QUERY);
+    const { doc } = await loadFixture(pageUrl);
+    const containers = filterSearchContainers(trySelectAll(doc, adapter.search.selectors.containers));
+
+    const listings = containers
+      .map(container => extractSearchListing(container, adapter, snapshot.currency, QUERY, pageUrl))
+      .filter((listing): listing is SearchListing => listing !== null)
+      .map(listing => ({ name: listing.name, price: listing.price ?? null, url: listing.url ?? null }));
+
+    assertEquals(listings, snapshot.listings);
+  });
+}
+
+// ========================================
+// PRODUCT DETAIL PAGES
+// ========================================
+
+for (const snapshot of PRODUCT_PAGE_SNAPSHOTS) {
+  Deno.test(`product page selectors: ${snapshot.marketplace}`, async () => {
+    const adapter = getMarketplaceAdapter(snapshot.marketplace);
+    assertExists(adapter);
+
+    const { doc } = await loadFixture(snapshot.url);
+    const details = extractProductPageDetails(doc, adapter, snapshot.currency, QUERY);
+
+    assertEquals(details, { title: snapshot.title, price: snapshot.price, method: snapshot.method });
+  });
+
+  Deno.test(`extractUniversalData: ${snapshot.marketplace}`, async () => {
+    const { html } = await loadFixture(snapshot.url);
+    const data = extractUniversalData(html);
+
+    if (!snapshot.universal) {
+      assertEquals(data, null);
+      return;
+    }
+    assertExists(data);
+    assertEquals(
+      { name: data.name, price: data.price, currency: data.currency, extractionMethod: data.extractionMethod },
+      snapshot.universal
+    );
+  });
+}
+
+// ========================================
+// TEXT PARSERS
+// ========================================
+
+Deno.test('extractPrice: reads currency-marked and bare prices', () => {
+  assertEquals(extractPrice('SAR 4,299.00', 'SAR')?.price, 4299);
+  assertEquals(extractPrice('4,299 Incl. VAT', 'SAR')?.price, 4299);
+  assertEquals(extractPrice('$999.99', 'USD')?.price, 999.99);
+});
+
+Deno.test('extractPrice: rejects storage sizes and prices below the floor', () => {
+  assertEquals(extractPrice('256', 'SAR', 'iPhone 15 Pro 256GB'), null);
+  assertEquals(extractPrice('From $49', 'USD'), null);
+});
+
+Deno.test('extractPriceFromContainerText: Extra.com VAT suffix without a currency', () => {
+  assertEquals(
+    extractPriceFromContainerText('iPhone 15 Pro\n4,299 Incl. VAT', 'SAR'),
+    { price: 4299, method: 'VAT suffix (Extra.com SVG fix)' }
+  );
+  assertEquals(extractPriceFromContainerText('New for 2024', 'SAR'), null);
+});
+
+Deno.test('extractPriceFromContainerText: USD symbol', () => {
+  assertEquals(
+    extractPriceFromContainerText('$1,199.99 at Best Buy', 'USD'),
+    { price: 1199.99, method: 'USD symbol' }
+  );
+});
+
+Deno.test('extractNameFromContainerText: skips Google UI text', () => {
+  assertEquals(
+    extractNameFromContainerText('About this result\nApple iPhone 15 Pro 256GB Natural Titanium\nSAR 4,299.00'),
+    'Apple iPhone 15 Pro 256GB Natural Titanium'
+  );
+  assertEquals(extractNameFromContainerText('SAR 4,299.00\n12 stores'), null);
+});
@@ -0,0 +1,536 @@
+// ========================================
+// HTML EXTRACTION
+// ========================================
+// Pure functions that turn fetched HTML into names and prices. Kept out of index.ts
+// so the fixture tests in extraction.test.ts can run them without starting the server.
+
+import type { Element, HTMLDocument } from 'https://deno.land/x/deno_dom@v0.1.38/deno-dom-wasm.ts';
+import { MarketplaceAdapter } from './marketplaces/types.ts';
+
+// ========================================
+// UNIVERSAL JSON-LD EXTRACTION (Priority 1 for product pages)
+// ========================================
+
+export interface UniversalProductData {
+  name?: string;
+  price?: number;
+  currency?: string;
+  availability?: string;
+  extractionMethod: string;
+}
+
+/**
+ * Universal data extractor using JSON-LD and OpenGraph
+ * Works on ANY e-commerce site that follows structured data standards
+ * Priority 1: JSON-LD (most reliable, standardized)
+ * Priority 2: OpenGraph meta tags
+ * Returns null if neither found → triggers fallback to CSS selectors
+ */
+export function extractUniversalData(html: string): UniversalProductData | null {
+  // ========================================
+  // Priority 1: JSON-LD structured data
+  // ========================================
+  const jsonLdMatches = html.match(/<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi);
+  
+  if (jsonLdMatches) {
+    for (const match of jsonLdMatches) {
+      try {
+        const jsonContent = match.replace(/<script[^>]*>|<\/script>/gi, '').trim();
+        const data = JSON.parse(jsonContent);
+        
+        // Handle @type: Product directly
+        if (data['@type'] === 'Product') {
+          const offers = data.offers;
+          const price = offers?.price || offers?.[0]?.price || offers?.lowPrice;
+          const currency = offers?.priceCurrency || offers?.[0]?.priceCurrency || 'SAR';
+          
+          if (data.name && price && !isNaN(parseFloat(price))) {
+            console.log(`   ✅ JSON-LD found: "${data.name?.slice(0, 50)}..." @ ${price} ${currency}`);
+            return {
+              name: data.name,
+              price: parseFloat(price),
+              currency: currency,
+              availability: offers?.availability,
+              extractionMethod: 'JSON-LD @type:Product'
+            };
+          }
+        }
+        
+        // Handle @graph array (common in WordPress/WooCommerce)
+        if (data['@graph'] && Array.isArray(data['@graph'])) {
+          const product = data['@graph'].find((g: any) => g['@type'] === 'Product');
+          if (product) {
+            const offers = product.offers;
+            const price = offers?.price || offers?.[0]?.price || offers?.lowPrice;
+            const currency = offers?.priceCurrency || offers?.[0]?.priceCurrency || 'SAR';
+            
+            if (product.name && price && !isNaN(parseFloat(price))) {
+              console.log(`   ✅ JSON-LD @graph found: "${product.name?.slice(0, 50)}..." @ ${price} ${currency}`);
+              return {
+                name: product.name,
+                price: parseFloat(price),
+                currency: currency,
+                availability: offers?.availability,
+                extractionMethod: 'JSON-LD @graph'
+              };
+            }
+          }
+        }
+        
+        // Handle array of items
+        if (Array.isArray(data)) {
+          const product = data.find((item: any) => item['@type'] === 'Product');
+          if (product) {
+            const offers = product.offers;
+            const price = offers?.price || offers?.[0]?.price || offers?.lowPrice;
+            const currency = offers?.priceCurrency || offers?.[0]?.priceCurrency || 'SAR';
+            
+            if (product.name && price && !isNaN(parseFloat(price))) {
+              console.log(`   ✅ JSON-LD array found: "${product.name?.slice(0, 50)}..." @ ${price} ${currency}`);
+              return {
+                name: product.name,
+                price: parseFloat(price),
+                currency: currency,
+                availability: offers?.availability,
+                extractionMethod: 'JSON-LD array'
+              };
+            }
+          }
+        }
+        
+      } catch (e) {
+        // Continue to next JSON-LD script
+      }
+    }
+  }
+  
+  // ========================================
+  // Priority 2: OpenGraph meta tags
+  // ========================================
+  const ogPriceMatch = html.match(/<meta[^>]*property=["'](?:og:price:amount|product:price:amount)["'][^>]*content=["']([^"']+)["']/i) ||
+                       html.match(/<meta[^>]*content=["']([^"']+)["'][^>]*property=["'](?:og:price:amount|product:price:amount)["']/i);
+  
+  if (ogPriceMatch) {
+    const ogCurrencyMatch = html.match(/<meta[^>]*property=["'](?:og:price:currency|product:price:currency)["'][^>]*content=["']([^"']+)["']/i) ||
+                            html.match(/<meta[^>]*content=["']([^"']+)["'][^>]*property=["'](?:og:price:currency|product:price:currency)["']/i);
+    const ogTitleMatch = html.match(/<meta[^>]*property=["']og:title["'][^>]*content=["']([^"']+)["']/i) ||
+                         html.match(/<meta[^>]*content=["']([^"']+)["'][^>]*property=["']og:title["']/i);
+    
+    const price = parseFloat(ogPriceMatch[1].replace(/,/g, ''));
+    
+    if (!isNaN(price) && price > 0) {
+      console.log(`   ✅ OpenGraph found: "${ogTitleMatch?.[1]?.slice(0, 50) || 'Unknown'}..." @ ${price} ${ogCurrencyMatch?.[1] || 'SAR'}`);
+      return {
+        name: ogTitleMatch?.[1],
+        price: price,
+        currency: ogCurrencyMatch?.[1] || 'SAR',
+        extractionMethod: 'OpenGraph meta'
+      };
+    }
+  }
+  
+  // No structured data found
+  console.log(`   ⚠️ No JSON-LD or OpenGraph data found, falling back to CSS selectors`);
+  return null;
+}
+
+// ========================================
+// SELECTOR HELPERS
+// ========================================
+
+export function trySelectAll(doc: any, selectors: string[]): any[] {
+  for (const selector of selectors) {
+    try {
+      const elements = Array.from(doc.querySelectorAll(selector));
+      if (elements.length > 0) {
+        console.log(`✅ Found ${elements.length} elements with: ${selector}`);
+        return elements;
+      }
+      console.log(`⚠️ No elements with: ${selector}`);
+    } catch (e) {
+      console.log(`❌ Invalid selector: ${selector}`);
+    }
+  }
+  return [];
+}
+
+export function trySelectOne(element: any, selectors: string[]): any | null {
+  for (const selector of selectors) {
+    try {
+      const found = element.querySelector(selector);
+      if (found) return found;
+    } catch (e) {
+      // Try next selector
+    }
+  }
+  return null;
+}
+
+// ========================================
+// PRICE & NAME PARSING
+// ========================================
+
+export function extractPrice(text: string, expectedCurrency: string, productName?: string): { price: number; confidence: number } | null {
+  if (!text) return null;
+  
+  text = text.replace(/from|as low as|starting at|save|off|each|per|month|\/mo/gi, '').trim();
+  
+  // FIX 1: Extract storage sizes from product name to exclude from price extraction
+  const storageSizesToExclude: Set<string> = new Set();
+  const modelNumbersToExclude: Set<string> = new Set();
+  
+  if (productName) {
+    // Extract storage sizes (256GB, 512GB, 1TB, etc.)
+    const storagePattern = /(\d+)\s*(?:GB|TB)/gi;
+    let storageMatch;
+    while ((storageMatch = storagePattern.exec(productName)) !== null) {
+      storageSizesToExclude.add(storageMatch[1]);
+    }
+    
+    // Extract model numbers (e.g., "16" from "iPhone 16", "24" from "S24")
+    const modelPatterns = [
+      /iphone\s*(\d+)/gi,
+      /galaxy\s*[sza]?(\d+)/gi,
+      /pixel\s*(\d+)/gi,
+      /(\d+)\s*(?:pro|max|mini|plus|ultra)/gi,
+    ];
+    
+    for (const pattern of modelPatterns) {
+      let match;
+      while ((match = pattern.exec(productName)) !== null) {
+        modelNumbersToExclude.add(match[1]);
+      }
+    }
+  }
+  
+  const patterns = [
+    // NEW: VAT indicator (common on Extra.com with SVG currency symbols)
+    /(\d{1,3}(?:,\d{3})*\.?\d*)\s*(?:Incl\.?\s*VAT|VAT)/i,
+    // SAR patterns with ﷼ symbol
+    /(?:SAR|SR|ریال|ر\.س\.?|﷼)\s*([0-9,]+\.?[0-9]*)/i,
+    /([0-9,]+\.?[0-9]*)\s*(?:SAR|SR|ریال|ر\.س\.?|﷼)/i,
+    /\$\s*([0-9,]+\.?[0-9]*)/,
+    /([0-9,]+\.?[0-9]*)\s*(?:USD|usd)/,
+    /\b([0-9,]+\.[0-9]{2})\b/,
+    /\b([0-9,]+)\b/
+  ];
+  
+  let bestMatch: { price: number; confidence: number } | null = null;
+  
+  for (let i = 0; i < patterns.length; i++) {
+    const match = text.match(patterns[i]);
+    if (match) {
+      const priceStr = match[1].replace(/,/g, '');
+      const price = parseFloat(priceStr);
+      
+      // Skip if this number is a storage size
+      if (storageSizesToExclude.has(priceStr)) {
+        continue;
+      }
+      
+      // Skip if this number is a model number
+      if (modelNumbersToExclude.has(priceStr)) {
+        continue;
+      }
+      
+      // Skip very small numbers that are likely not prices
+      if (price < 50) {
+        continue;
+      }
+      
+      if (!isNaN(price) && price > 0) {
+        let confidence = 1.0 - (i * 0.1);
+        
+        if (expectedCurrency === 'SAR' && match[0].match(/SAR|SR|ریال|ر\.س|﷼|Incl\.?\s*VAT/i)) {
+          confidence += 0.2;
+        } else if (expectedCurrency === 'USD' && match[0].match(/\$|USD/i)) {
+          confidence += 0.2;
+        }
+        
+        if (!bestMatch || confidence > bestMatch.confidence) {
+          bestMatch = { price, confidence: Math.min(confidence, 1.0) };
+        }
+      }
+    }
+  }
+  
+  return bestMatch;
+}
+
+/**
+ * TEXT-BASED FALLBACK: Extract price from container text using regex patterns
+ * Used when CSS selectors fail due to class name changes
+ * FIX 2: Enhanced for Extra.com which uses SVG for currency symbols
+ * FIX: Rejects year numbers (2018-2030) that are commonly misextracted as prices
+ */
+export function extractPriceFromContainerText(containerText: string, currency: string): { price: number; method: string } | null {
+  if (!containerText) return null;
+  
+  // Currency-specific patterns for Saudi Arabia
+  // FIX 2: Extra.com uses SVG for Saudi Riyal symbol - text appears as "1,710 Incl. VAT" without currency
+  const sarPatterns = [
+    // HIGHEST PRIORITY: Pattern for Extra.com and sites using SVG currency symbols
+    { pattern: /(\d{1,3}(?:,\d{3})*(?:\.\d{2})?)\s*(?:Incl\.?\s*VAT|incl\.?\s*vat)/i, name: 'VAT suffix (Extra.com SVG fix)' },
+    // Standard SAR patterns
+    { pattern: /(\d{1,3}(?:,\d{3})*(?:\.\d{2})?)\s*(?:SAR|SR|ر\.س|ريال|﷼)/i, name: 'SAR suffix' },
+    { pattern: /(?:SAR|SR|ر\.س|ريال|﷼)\s*(\d{1,3}(?:,\d{3})*(?:\.\d{2})?)/i, name: 'SAR prefix' },
+    // Extra.com specific: Number followed by "VAT" somewhere on the line
+    { pattern: /(\d{1,3}(?:,\d{3})*)\s*(?:VAT|vat)/i, name: 'VAT indicator' },
+  ];
+  
+  // USD patterns
+  const usdPatterns = [
+    { pattern: /\$\s*(\d{1,3}(?:,\d{3})*(?:\.\d{2})?)/i, name: 'USD symbol' },
+    { pattern: /(\d{1,3}(?:,\d{3})*(?:\.\d{2})?)\s*(?:USD|dollars?)/i, name: 'USD suffix' },
+  ];
+  
+  // Generic price patterns (last resort)
+  const genericPatterns = [
+    { pattern: /\b(\d{1,3}(?:,\d{3})*\.\d{2})\b/, name: 'decimal price' },
+    { pattern: /\b(\d{4,6})\b/, name: 'large number' }, // 1000-999999 range
+  ];
+  
+  const patterns = currency === 'SAR' 
+    ? [...sarPatterns, ...genericPatterns]
+    : [...usdPatterns, ...genericPatterns];
+  
+  for (const { pattern, name } of patterns) {
+    const match = containerText.match(pattern);
+    if (match && match[1]) {
+      const price = parseFloat(match[1].replace(/,/g, ''));
+      
+      // FIX: Reject year numbers (2018-2030) - common extraction error
+      if (price >= 2018 && price <= 2030) {
+        console.log(`   ⏭️ Skipping year number: ${price}`);
+        continue;
+      }
+      
+      // Validate it's a reasonable price (not storage size like 256, 512)
+      if (!isNaN(price) && price >= 100 && price < 100000) {
+        console.log(`   💰 Price extracted via ${name}: ${price}`);
+        return { price, method: name };
+      }
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * TEXT-BASED FALLBACK: Extract product name from container
+ * Looks for heading-like text or first substantial text block
+ * FIX: Rejects common garbage patterns like "About this result", info dialogs
+ */
+export function extractNameFromContainerText(containerText: string): string | null {
+  if (!containerText) return null;
+  
+  // Garbage patterns to reject - these are NOT product names
+  const garbagePatterns = [
+    /^about\s+this/i,
+    /^learn\s+more/i,
+    /^why\s+this/i,
+    /^sponsored/i,
+    /^ad\s*$/i,
+    /^see\s+more/i,
+    /^show\s+more/i,
+    /^view\s+all/i,
+    /^filter/i,
+    /^sort\s+by/i,
+    /^results?\s+for/i,
+    /^shopping/i,
+    /^compare/i,
+    /^\d+\s+results?/i,
+    /^sign\s+in/i,
+    /^menu/i,
+  ];
+  
+  // Split by newlines and find first substantial line (likely the title)
+  const lines = containerText.split(/[\n\r]+/).map(l => l.trim()).filter(l => l.length > 10 && l.length < 200);
+  
+  // First line that looks like a product name
+  for (const line of lines) {
+    // Skip lines starting with numbers (prices/dates)
+    if (/^\d/.test(line)) continue;
+    // Skip "from store" patterns
+    if (/^from\s/i.test(line)) continue;
+    // Skip currency prefixes
+    if (/^SAR|^SR|^\$/i.test(line)) continue;
+    // Skip garbage patterns
+    if (garbagePatterns.some(pattern => pattern.test(line))) continue;
+    // Skip very short lines or lines that are just numbers
+    if (line.length < 15) continue;
+    // Must contain at least one letter
+    if (!/[a-zA-Z]/.test(line)) continue;
+    
+    return line;
+  }
+  
+  return null;
+}
+
+// ========================================
+// MARKETPLACE SEARCH RESULTS & PRODUCT PAGES
+// ========================================
+
+export interface SearchListing {
+  name: string;
+  priceText?: string;
+  price?: number;
+  url?: string;
+}
+
+export interface ProductPageDetails {
+  title: string;
+  price: number; // 0 when no price could be read
+  method: string;
+}
+
+/**
+ * Keep containers that look like products (a link, some text and a price-like number),
+ * unless fewer than 3 do, in which case the selector match is trusted as is
+ */
+export function filterSearchContainers(containers: Element[]): Element[] {
+  const validContainers = containers.filter(container => {
+    const hasLink = container.querySelector('a[href]');
+    const containerText = container.textContent || '';
+    const hasEnoughText = containerText.length > 20;
+    const hasPricePattern = /\d{3,}/.test(containerText);
+    return hasLink && hasEnoughText && hasPricePattern;
+  });
+  
+  const containersToProcess = validContainers.length >= 3 ? validContainers : containers;
+  console.log(`   📦 Processing ${containersToProcess.length} containers (validated: ${validContainers.length}/${containers.length})`);
+  return containersToProcess;
+}
+
+/**
+ * Read one search result with the marketplace's selectors
+ * @returns null when no product name is found; priceText/price are absent when no price is
+ */
+export function extractSearchListing(
+  container: Element,
+  adapter: Pick<MarketplaceAdapter, 'search' | 'parsePrice'>,
+  currency: string,
+  productName: string,
+  pageUrl: string
+): SearchListing | null {
+  let nameEl = trySelectOne(container, adapter.search.selectors.productName);
+  let name = nameEl?.textContent?.trim();
+  
+  // FALLBACK: If CSS selectors fail
+  if (!name) {
+    nameEl = container.querySelector('h1, h2, h3, h4, a[title], a[href*="product"]');
+    name = nameEl?.textContent?.trim();
+  }
+  
+  if (!name || name.length < 5) {
+    return null;
+  }
+  
+  // Try CSS selectors for price first
+  const priceEl = trySelectOne(container, adapter.search.selectors.price);
+  let priceText: string | undefined = priceEl?.textContent?.trim();
+  
+  // FALLBACK for price
+  if (!priceText) {
+    const containerHtml = container.innerHTML || '';
+    const currencyPattern = currency === 'SAR' 
+      ? /(?:SAR|SR|ریال)\s*([0-9,]+(?:\.[0-9]+)?)|([0-9,]+(?:\.[0-9]+)?)\s*(?:SAR|SR|ریال)/gi
+      : /\$\s*([0-9,]+(?:\.[0-9]+)?)|([0-9,]+(?:\.[0-9]+)?)\s*USD/gi;
+    
+    const priceMatch = containerHtml.match(currencyPattern);
+    if (priceMatch && priceMatch.length > 0) {
+      priceText = priceMatch[0];
+    }
+  }
+  
+  let url: string | undefined;
+  try {
+    const linkEl = container.querySelector('a[href]');
+    if (linkEl) {
+      const href = linkEl.getAttribute('href');
+      if (href) {
+        url = href.startsWith('http') ? href : new URL(href, pageUrl).href;
+      }
+    }
+  } catch (e) {
+    // Ignore URL extraction errors
+  }
+  
+  if (!priceText) {
+    return { name, url };
+  }
+  
+  const extracted = (adapter.parsePrice || extractPrice)(priceText, currency, productName);
+  return {
+    name,
+    priceText,
+    price: extracted && extracted.price > 0 ? extracted.price : undefined,
+    url
+  };
+}
+
+/**
+ * Title and price from a product detail page using CSS selectors
+ * (the JSON-LD path is tried first by the caller). The store's own selectors come first.
+ * @returns null when no title is found
+ */
+export function extractProductPageDetails(
+  doc: HTMLDocument,
+  store: Pick<MarketplaceAdapter, 'productPage' | 'parsePrice'>,
+  currency: string,
+  productName: string
+): ProductPageDetails | null {
+  // Product detail pages have simpler structure - title usually in h1
+  const titleSelectors = [
+    ...(store.productPage?.titleSelectors || []),
+    'h1', '.product-name', '[data-qa="product-name"]', '.product-title', 'h1.page-title'
+  ];
+  let title = '';
+  for (const selector of titleSelectors) {
+    const el = doc.querySelector(selector);
+    if (el?.textContent?.trim()) {
+      title = el.textContent.trim();
+      break;
+    }
+  }
+  
+  if (!title || title.length < 5) {
+    return null;
+  }
+  
+  // Price selectors for product detail pages: the store's own first
+  const priceSelectors = [
+    ...(store.productPage?.priceSelectors || []),
+    // Generic selectors
+    '.product-price',
+    '.price',
+    '.final-price',
+    '.special-price .price',
+    '.priceNow',
+    // Last resort - any element with price in class
+    '[class*="price"]'
+  ];
+  
+  // Try CSS selectors first
+  for (const selector of priceSelectors) {
+    const priceEl = doc.querySelector(selector);
+    if (priceEl?.textContent) {
+      const extracted = (store.parsePrice || extractPrice)(priceEl.textContent, currency, productName);
+      if (extracted && extracted.price > 0) {
+        console.log(`   💰 Found price: ${extracted.price} ${currency} (via ${selector})`);
+        return { title, price: extracted.price, method: `CSS: ${selector}` };
+      }
+    }
+  }
+  
+  // FIX 2: Fallback to text-based extraction for Extra.com SVG currency issue
+  const bodyText = doc.body?.textContent || '';
+  const fallbackPrice = extractPriceFromContainerText(bodyText, currency);
+  if (fallbackPrice && fallbackPrice.price > 0) {
+    console.log(`   💰 Found price via text fallback: ${fallbackPrice.price} ${currency} (${fallbackPrice.method})`);
+    return { title, price: fallbackPrice.price, method: `Text fallback: ${fallbackPrice.method}` };
+  }
+  
+  return { title, price: 0, method: '' };
+}
@@ -3,8 +3,34 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { DOMParser } from 'https://deno.land/x/deno_dom@v0.1.38/deno-dom-wasm.ts';
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { MarketplaceAdapter } from './marketplaces/types.ts';
+import { countryForCurrency, findAdapterByStoreName, findAdapterByUrl, getRegionAdapters } from './marketplaces/registry.ts';
+import { configureMarketplaces, loadMarketplaceConfigs } from './marketplaces/config.ts';
+import { hasScrapeProvider, scrapePage } from '../_shared/scraping/providers.ts';
+import { MatchValidation, needsAiValidation, validateCompetitorMatches } from '../_shared/matching/aiValidation.ts';
+import { isVariantMismatch, ProductAttributes, variantMatchScore } from '../_shared/matching/attributes.ts';
+import { isUnitPricedCategory } from '../_shared/pricing/unitPrice.ts';
+import { loadCategoryTaxonomy } from '../_shared/categories/taxonomy.ts';
+import {
+  CompetitorCuration,
+  curationListingKey,
+  excludedListingKeys,
+  isAiRejected,
+  PINNED_SIMILARITY
+} from '../_shared/pricing/curation.ts';
+import {
+  extractNameFromContainerText,
+  extractPrice,
+  extractPriceFromContainerText,
+  extractProductPageDetails,
+  extractSearchListing,
+  extractUniversalData,
+  filterSearchContainers,
+  trySelectAll,
+  trySelectOne
+} from './extraction.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -16,6 +42,14 @@ const corsHeaders = {
 // ========================================
 const MARKETPLACE_TIMEOUT = 25000; // 25 seconds per marketplace (reduced from 40s)
 
+// ========================================
+// SCRAPE CONCURRENCY & BACKOFF CONFIGURATION
+// ========================================
+const SCRAPINGBEE_MAX_CONCURRENCY = Number(Deno.env.get('SCRAPINGBEE_MAX_CONCURRENCY') || 5); // Concurrent scrapes across all workers
+const SCRAPE_SLOT_TTL_SECONDS = 90; // Slot expires if a scrape crashes without releasing it
+const SCRAPE_SLOT_WAIT_MS = 30000; // Give up on a marketplace if no slot frees up in 30s
+const SCRAPE_SLOT_POLL_MS = 1000;
+
 // ========================================
 // CACHE CONFIGURATION
 // ========================================
@@ -115,18 +149,14 @@ function simplifyTitle(fullName: string): string {
  * Normalize store names from Google results to marketplace keys
  * Known stores merge with direct scraping results, others keep original name
  */
-function normalizeStoreToMarketplace(storeName: string | undefined): string {
+function normalizeStoreToMarketplace(storeName: string | undefined, currency: string): string {
   if (!storeName || storeName === 'Unknown' || storeName === 'Google') {
     return 'Unknown Store';
   }
   
-  const lower = storeName.toLowerCase();
-  
   // Map to our known marketplace keys (merge with direct scraping)
-  if (lower.includes('amazon')) return 'amazon';
-  if (lower.includes('noon')) return 'noon';
-  if (lower.includes('extra') && !lower.includes('extrastore')) return 'extra';
-  if (lower.includes('jarir')) return 'jarir';
+  const adapter = findAdapterByStoreName(storeName, currency);
+  if (adapter) return adapter.key;
   
   // Keep original store name for stores we don't scrape directly
   // e.g., "Pricena" stays "Pricena", "MobileShop" stays "MobileShop"
@@ -157,649 +187,10 @@ function isValidPrice(scrapedPrice: number, baselinePrice: number, costPrice?: n
   return true;
 }
 
-// ========================================
-// MARKETPLACE CONFIGURATIONS
-// ========================================
-
-interface MarketplaceConfig {
-  name: string;
-  searchUrl: string;
-  scrapingBeeOptions: {
-    renderJs: boolean;
-    wait: number;
-    blockResources: boolean;
-    blockAds: boolean;
-    countryCode: string;
-  };
-  selectors: {
-    containers: string[];
-    productName: string[];
-    price: string[];
-  };
-  // FIX 3: Price-based wait_for selectors per marketplace
-  waitForSelector?: string;
-  // FIX 3: Enable stealth proxy for sites that block scrapers
-  useStealthProxy?: boolean;
-  // FIX 1: Enable Google-First discovery for sites that block direct search scraping
-  useGoogleFirstDiscovery?: boolean;
-}
-
-// ========================================
-// UNIVERSAL JSON-LD EXTRACTION (Priority 1 for product pages)
-// ========================================
-
-interface UniversalProductData {
-  name?: string;
-  price?: number;
-  currency?: string;
-  availability?: string;
-  extractionMethod: string;
-}
-
-/**
- * Universal data extractor using JSON-LD and OpenGraph
- * Works on ANY e-commerce site that follows structured data standards
- * Priority 1: JSON-LD (most reliable, standardized)
- * Priority 2: OpenGraph meta tags
- * Returns null if neither found → triggers fallback to CSS selectors
- */
-function extractUniversalData(html: string): UniversalProductData | null {
-  // ========================================
-  // Priority 1: JSON-LD structured data
-  // ========================================
-  const jsonLdMatches = html.match(/<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi);
-  
-  if (jsonLdMatches) {
-    for (const match of jsonLdMatches) {
-      try {
-        const jsonContent = match.replace(/<script[^>]*>|<\/script>/gi, '').trim();
-        const data = JSON.parse(jsonContent);
-        
-        // Handle @type: Product directly
-        if (data['@type'] === 'Product') {
-          const offers = data.offers;
-          const price = offers?.price || offers?.[0]?.price || offers?.lowPrice;
-          const currency = offers?.priceCurrency || offers?.[0]?.priceCurrency || 'SAR';
-          
-          if (data.name && price && !isNaN(parseFloat(price))) {
-            console.log(`   ✅ JSON-LD found: "${data.name?.slice(0, 50)}..." @ ${price} ${currency}`);
-            return {
-              name: data.name,
-              price: parseFloat(price),
-              currency: currency,
-              availability: offers?.availability,
-              extractionMethod: 'JSON-LD @type:Product'
-            };
-          }
-        }
-        
-        // Handle @graph array (common in WordPress/WooCommerce)
-        if (data['@graph'] && Array.isArray(data['@graph'])) {
-          const product = data['@graph'].find((g: any) => g['@type'] === 'Product');
-          if (product) {
-            const offers = product.offers;
-            const price = offers?.price || offers?.[0]?.price || offers?.lowPrice;
-            const currency = offers?.priceCurrency || offers?.[0]?.priceCurrency || 'SAR';
-            
-            if (product.name && price && !isNaN(parseFloat(price))) {
-              console.log(`   ✅ JSON-LD @graph found: "${product.name?.slice(0, 50)}..." @ ${price} ${currency}`);
-              return {
-                name: product.name,
-                price: parseFloat(price),
-                currency: currency,
-                availability: offers?.availability,
-                extractionMethod: 'JSON-LD @graph'
-              };
-            }
-          }
-        }
-        
-        // Handle array of items
-        if (Array.isArray(data)) {
-          const product = data.find((item: any) => item['@type'] === 'Product');
-          if (product) {
-            const offers = product.offers;
-            const price = offers?.price || offers?.[0]?.price || offers?.lowPrice;
-            const currency = offers?.priceCurrency || offers?.[0]?.priceCurrency || 'SAR';
-            
-            if (product.name && price && !isNaN(parseFloat(price))) {
-              console.log(`   ✅ JSON-LD array found: "${product.name?.slice(0, 50)}..." @ ${price} ${currency}`);
-              return {
-                name: product.name,
-                price: parseFloat(price),
-                currency: currency,
-                availability: offers?.availability,
-                extractionMethod: 'JSON-LD array'
-              };
-            }
-          }
-        }
-        
-      } catch (e) {
-        // Continue to next JSON-LD script
-      }
-    }
-  }
-  
-  // ========================================
-  // Priority 2: OpenGraph meta tags
-  // ========================================
-  const ogPriceMatch = html.match(/<meta[^>]*property=["'](?:og:price:amount|product:price:amount)["'][^>]*content=["']([^"']+)["']/i) ||
-                       html.match(/<meta[^>]*content=["']([^"']+)["'][^>]*property=["'](?:og:price:amount|product:price:amount)["']/i);
-  
-  if (ogPriceMatch) {
-    const ogCurrencyMatch = html.match(/<meta[^>]*property=["'](?:og:price:currency|product:price:currency)["'][^>]*content=["']([^"']+)["']/i) ||
-                            html.match(/<meta[^>]*content=["']([^"']+)["'][^>]*property=["'](?:og:price:currency|product:price:currency)["']/i);
-    const ogTitleMatch = html.match(/<meta[^>]*property=["']og:title["'][^>]*content=["']([^"']+)["']/i) ||
-                         html.match(/<meta[^>]*content=["']([^"']+)["'][^>]*property=["']og:title["']/i);
-    
-    const price = parseFloat(ogPriceMatch[1].replace(/,/g, ''));
-    
-    if (!isNaN(price) && price > 0) {
-      console.log(`   ✅ OpenGraph found: "${ogTitleMatch?.[1]?.slice(0, 50) || 'Unknown'}..." @ ${price} ${ogCurrencyMatch?.[1] || 'SAR'}`);
-      return {
-        name: ogTitleMatch?.[1],
-        price: price,
-        currency: ogCurrencyMatch?.[1] || 'SAR',
-        extractionMethod: 'OpenGraph meta'
-      };
-    }
-  }
-  
-  // No structured data found
-  console.log(`   ⚠️ No JSON-LD or OpenGraph data found, falling back to CSS selectors`);
-  return null;
-}
-
-const MARKETPLACE_CONFIGS: Record<string, MarketplaceConfig> = {
-  'google-shopping': {
-    name: 'Google Shopping',
-    searchUrl: 'https://www.google.com/search?tbm=shop&q=',
-    scrapingBeeOptions: {
-      renderJs: true,
-      wait: 7000, // Increased wait time for dynamic content
-      blockResources: false, // Don't block resources for better rendering
-      blockAds: true,
-      countryCode: 'us'
-    },
-    selectors: {
-      // FIX 3: ROBUST structural selectors - prioritize stable data attributes over class names
-      containers: [
-        // Primary structural selectors (most stable - data attributes)
-        '[data-pcu]',                           // Google product card unit
-        'div[data-docid]',                      // Product with document ID
-        'div[jsdata]',                          // Dynamic content containers
-        'div[data-async-context]',              // Async product cards
-        'div[data-ved]',                        // Google tracking data attribute
-        'div[data-idx]',                        // Index-based product containers
-        // Shopping-specific patterns
-        'div.sh-dgr__grid-result',              // Shopping grid items
-        'div.sh-dlr__list-result',              // Shopping list items
-        '.sh-dgr__content',                     // Shopping content container
-        'div[data-sh-pr]',                      // Shopping product container
-        '.sh-pr__product-results-grid > div',   // Direct children of results grid
-        // Semantic HTML patterns (stable)
-        'article[data-docid]',                  // Article with product ID
-        'section[data-idx]',                    // Section with index
-        // Fallback structural patterns
-        'div:has(h3):has(span[aria-label])',    // Has heading and price aria-label
-        'div:has([role="heading"]):has(a[href*="url?q="])', // Has heading and shopping link
-        'div:has(h3):has(b)'                    // Has heading and bold (price)
-      ],
-      productName: [
-        // Semantic/accessibility selectors (stable)
-        '[role="heading"]',
-        'h3',
-        'h4',
-        'a[aria-label]',                        // Title in link aria-label
-        // Data attribute selectors
-        '[data-snhf="0"]',                      // Google product title marker
-        '[data-name]',                          // Name data attribute
-        // Structural patterns
-        'a > div:first-child',                  // First div in link
-        'a[href*="url?q="] > *:first-child',    // First child of shopping link
-        // Class-based fallbacks (may break)
-        '.sh-np__product-title',
-        '[class*="title"]'
-      ],
-      price: [
-        // FIX 3: Currency-aware aria-label selectors (most reliable)
-        'span[aria-label*="SAR"]',
-        'span[aria-label*="ريال"]',
-        'span[aria-label*="SR "]',
-        'span[aria-label*="price"]',
-        'span[aria-label*="$"]',
-        // Data attribute selectors
-        '[data-price]',
-        '[data-value]',
-        // Structural patterns (stable)
-        'span > b',                             // Bold inside span (common for price)
-        'div > b:first-child',                  // First bold in div
-        'b:first-of-type',                      // First bold element
-        // Shopping-specific classes (may change)
-        '.a8Pemb',
-        '.kHxwFf',
-        'span[class*="price"]',
-        // Last resort
-        'b'
-      ]
-    },
-    waitForSelector: 'h3,div[data-docid],[data-pcu],div[jsdata],[role="heading"],div[data-ved]',
-    useStealthProxy: true
-  },
-  'amazon': {
-    name: 'Amazon.sa',
-    searchUrl: 'https://www.amazon.sa/s?k=',
-    scrapingBeeOptions: {
-      renderJs: true,
-      wait: 6000,
-      blockResources: false,
-      blockAds: true,
-      countryCode: 'sa'
-    },
-    selectors: {
-      containers: [
-        '[data-component-type="s-search-result"]',
-        '.s-result-item[data-asin]:not([data-asin=""])',
-        'div[data-asin]:not([data-asin=""])',
-        '.s-search-results .s-result-item'
-      ],
-      productName: [
-        'h2 a span',
-        'h2.a-size-mini span',
-        '.a-size-medium.a-text-normal',
-        'h2 span.a-text-normal',
-        '[data-cy="title-recipe"] h2 span'
-      ],
-      price: [
-        '.a-price-whole',
-        'span.a-price > span.a-offscreen',
-        '.a-price .a-price-whole',
-        'span[data-a-color="price"]',
-        '.a-price-range .a-price .a-offscreen'
-      ]
-    },
-    // FIX 1: Wait for main search container AND stealth for Saudi site
-    waitForSelector: '#search,.s-result-list,.s-main-slot,.a-price',
-    useStealthProxy: true
-  },
-  'noon': {
-    name: 'Noon',
-    searchUrl: 'https://www.noon.com/saudi-en/search?q=',
-    scrapingBeeOptions: {
-      renderJs: true,
-      wait: 7000,
-      blockResources: false,
-      blockAds: true,
-      countryCode: 'sa'
-    },
-    // FIX: Enable Google-First Discovery for Noon (direct search often times out)
-    useGoogleFirstDiscovery: true,
-    useStealthProxy: true,
-    selectors: {
-      containers: [
-        'div[data-qa="product-card"]',
-        'div[class*="productCard"]',
-        'div[class*="ProductCard_"]',
-        '[data-testid="search-product-item"]',
-        'div[data-component="ProductBox"]',
-        'div[data-qa-id="grid-view-item"]',
-        'article[data-component]',
-        '[data-qa="product-tile"]',
-        'div.productContainer',
-        'article[data-qa="product-tile"]',
-        '.grid > div[class*="product"]',
-        'div[class*="ProductBox"]',
-        'div[data-qa="product-item"]',
-        'a[href*="/product/"]',
-        'div:has(a[href*="/product/"]):has([class*="price"])',
-        'article'
-      ],
-      productName: [
-        '[data-qa="product-title"]',
-        'span[class*="productTitle"]',
-        'h2[class*="title"]',
-        '[data-qa="product-name"]',
-        'div[class*="productTitle"]',
-        'h3[class*="productTitle"]',
-        'span[data-qa="product-name"]',
-        '[class*="title"]',
-        '.productContainer h2',
-        'a[href*="/product/"] span',
-        'div > a:first-child',
-        'h2', 'h3', 'h4',
-        '[class*="name"]'
-      ],
-      price: [
-        '[data-qa="product-price"] span',
-        'span[class*="priceNow"]',
-        'span[class*="Price_now"]',
-        'strong[class*="amount"]',
-        '[data-qa="product-price"]',
-        'div[class*="price"] strong',
-        'span[class*="price"]',
-        '[class*="priceNow"]',
-        '[class*="price"] span:first-child',
-        'strong',
-        '.sellingPrice'
-      ]
-    },
-    // FIX 3: Wait for PRICE elements, not just containers
-    waitForSelector: '[data-qa="product-price"],.priceNow,[class*="price"],[class*="Price"]'
-  },
-  'extra': {
-    name: 'Extra',
-    searchUrl: 'https://www.extra.com/en-sa/search?q=',
-    scrapingBeeOptions: {
-      renderJs: true,
-      wait: 8000,
-      blockResources: false,
-      blockAds: true,
-      countryCode: 'sa'
-    },
-    selectors: {
-      containers: [
-        'div[data-qa="product-tile"]',
-        'div.product-tile',
-        'div[class*="ProductTile_"]',
-        '.product-list div[class*="product"]',
-        'div[data-testid="search-result-item"]',
-        'div[data-product-code]',
-        'div.product-listing__item',
-        'div[class*="product-list-item"]',
-        'article.product-item',
-        'div[data-testid="plp-prod-item"]',
-        '.product-grid-item',
-        'div[class*="ProductCard"]',
-        'div[class*="ProductTile"]',
-        'div[data-testid="product-tile"]',
-        'article[class*="product"]',
-        'li[class*="product"]',
-        'div.product-item',
-        'div.product-card',
-        'a[href*="/product/"]',
-        'div:has(a[href]):has([class*="price"])'
-      ],
-      productName: [
-        '[data-qa="product-name"]',
-        'a[data-testid="product-name"]',
-        'div[class*="product-name"] a',
-        '.product-listing__title',
-        '[data-testid="product-title"]',
-        'a[class*="product-title"]',
-        'h3[class*="ProductTitle"]',
-        '.product-card__title',
-        'h3[class*="title"]',
-        'a[class*="title"]',
-        'div[class*="productName"]',
-        'h3 a',
-        '.product-title',
-        '.product-name',
-        'a[href*="/product/"]',
-        'h2 a', 'h3 a',
-        '[class*="title"] a',
-        '[class*="name"]'
-      ],
-      price: [
-        // FIX 2: Extra.com uses SVG for currency - focus on number patterns near VAT text
-        '[data-qa="product-price"]',
-        '.c_product-price',              // Extra's current price class
-        '.product-price__value',         // Price value container
-        'span[data-testid="product-price"]',
-        '.product-listing__price span',
-        'span[class*="price--current"]',
-        '[data-testid="product-price"]',
-        'span[class*="Price"]',
-        '.product-price',
-        'span[class*="final-price"]',
-        'span[class*="price"]',
-        'div[class*="price"] span',
-        'span[class*="amount"]',
-        'strong[class*="price"]',
-        '.price',
-        '.special-price',
-        '.final-price',
-        '[class*="price"]:not([class*="was"])',
-        'strong'
-      ]
-    },
-    // FIX 3: Wait for PRICE elements - add Extra-specific selectors
-    waitForSelector: '.product-price,.c_product-price,.price-box,[class*="Price"],[data-qa="product-price"],.product-price__value',
-    useStealthProxy: true, // Saudi site - enable stealth
-    // FIX 1: Enable Google-First discovery for Extra (search pages are blocked)
-    useGoogleFirstDiscovery: true
-  },
-  'jarir': {
-    name: 'Jarir',
-    searchUrl: 'https://www.jarir.com/sa-en/catalogsearch/result/?q=',
-    scrapingBeeOptions: {
-      renderJs: true,
-      wait: 6000, // Increased wait time
-      blockResources: false,
-      blockAds: true,
-      countryCode: 'sa'
-    },
-    selectors: {
-      containers: [
-        // Magento-specific selectors
-        '.product-items .product-item',
-        '.products.list .product-item',
-        'li.product-item',
-        'div.product-item-info',
-        'div.products-grid .item',
-        'ol.products.list .item',
-        'div[data-product-sku]',
-        'article.product',
-        // Jarir-specific selectors
-        '.product-card',
-        '.product-listing-item',
-        '[data-product-id]',
-        'a[href*="/product/"]',
-        'div:has(a[href]):has(.price)',
-        'div[class*="product"]'
-      ],
-      productName: [
-        '.product-item-info .product-item-link',
-        'a.product-item-link',
-        '.product-item-name a',
-        '.product.name a',
-        'h2.product-name a',
-        'span.product-item-link',
-        'a[class*="product-name"]',
-        '.product-title',
-        '.product-card__title',
-        'a[href*="/product/"]',
-        'h2 a', 'h3 a',
-        'h1' // Product detail page
-      ],
-      price: [
-        // Magento price selectors
-        '.price-box .price',
-        'span[data-price-amount]',
-        '[data-price-type="finalPrice"] .price',
-        '.price-wrapper .price',
-        '.price-final_price .price',
-        'span.price',
-        'span[class*="price-value"]',
-        'div.price-box span.price',
-        'span[data-price-type="finalPrice"]',
-        'span.special-price span.price',
-        '.final-price',
-        '.sale-price',
-        // Jarir-specific selectors
-        '.product-price',
-        '.product-info-price .price',
-        '[class*="price"] span',
-        'strong'
-      ]
-    },
-    // FIX 3: Wait for Magento price elements with more options
-    waitForSelector: '.price-box .price,span[data-price-amount],[data-price-type="finalPrice"],.product-price,.product-info-price',
-    useStealthProxy: true, // Saudi site - enable stealth
-    // FIX 1: Enable Google-First discovery for Jarir (search pages often fail)
-    useGoogleFirstDiscovery: true
-  },
-  'amazon-us': {
-    name: 'Amazon.com',
-    searchUrl: 'https://www.amazon.com/s?k=',
-    scrapingBeeOptions: {
-      renderJs: true,
-      wait: 3000,
-      blockResources: false,
-      blockAds: true,
-      countryCode: 'us'
-    },
-    selectors: {
-      containers: [
-        '[data-component-type="s-search-result"]',
-        '.s-result-item[data-asin]:not([data-asin=""])',
-        'div[data-asin]:not([data-asin=""])',
-        '.s-search-results .s-result-item'
-      ],
-      productName: [
-        'h2 a span',
-        'h2.a-size-mini span',
-        '.a-size-medium.a-text-normal',
-        'h2 span.a-text-normal',
-        '[data-cy="title-recipe"] h2 span'
-      ],
-      price: [
-        '.a-price-whole',
-        'span.a-price > span.a-offscreen',
-        '.a-price .a-price-whole',
-        'span[data-a-color="price"]',
-        '.a-price-range .a-price .a-offscreen'
-      ]
-    }
-  },
-  'walmart': {
-    name: 'Walmart',
-    searchUrl: 'https://www.walmart.com/search?q=',
-    scrapingBeeOptions: {
-      renderJs: true,
-      wait: 3500,
-      blockResources: false,
-      blockAds: true,
-      countryCode: 'us'
-    },
-    selectors: {
-      containers: [
-        'div[data-item-id]',
-        '[data-testid="list-view"]',
-        'div[class*="search-result"]',
-        '[data-testid="item-stack"]',
-        'div[class*="mb0 ph1 pa0-xl"]',
-        'article[class*="search"]'
-      ],
-      productName: [
-        'span[data-automation-id="product-title"]',
-        'a[link-identifier]',
-        'span[data-automation-id="product-name"]'
-      ],
-      price: [
-        'span[itemprop="price"]',
-        'div[data-automation-id="product-price"] span',
-        '[data-automation-id="product-price"]',
-        'span[class*="price"]'
-      ]
-    }
-  },
-  'ebay': {
-    name: 'eBay',
-    searchUrl: 'https://www.ebay.com/sch/i.html?_nkw=',
-    scrapingBeeOptions: {
-      renderJs: true,
-      wait: 3000,
-      blockResources: false,
-      blockAds: true,
-      countryCode: 'us'
-    },
-    selectors: {
-      containers: [
-        'li.s-item',
-        'div.s-item__wrapper',
-        'div.srp-results li',
-        'li[data-view]',
-        'div.s-item'
-      ],
-      productName: [
-        'div.s-item__title',
-        'h3.s-item__title',
-        '.s-item__title span'
-      ],
-      price: [
-        'span.s-item__price',
-        'span.POSITIVE',
-        '.s-item__price',
-        'span[class*="price"]'
-      ]
-    }
-  },
-  'target': {
-    name: 'Target',
-    searchUrl: 'https://www.target.com/s?searchTerm=',
-    scrapingBeeOptions: {
-      renderJs: true,
-      wait: 3500,
-      blockResources: false,
-      blockAds: true,
-      countryCode: 'us'
-    },
-    selectors: {
-      containers: [
-        'div[data-test="@web/site-top-of-funnel/ProductCardWrapper"]',
-        'div[data-test="product-card"]',
-        'article[class*="styles__StyledProductCard"]',
-        'div[class*="ProductCard"]'
-      ],
-      productName: [
-        'a[data-test="product-title"]',
-        '[data-test="product-title"]',
-        'div[data-test="product-title"] a',
-        'h3 a',
-        'a[class*="Link__StyledLink"]'
-      ],
-      price: [
-        'span[data-test="current-price"]',
-        'span[data-test="product-price"]',
-        '[data-test="product-price"] span'
-      ]
-    }
-  }
-};
-
 // ========================================
 // HELPER FUNCTIONS
 // ========================================
 
-function trySelectAll(doc: any, selectors: string[]): any[] {
-  for (const selector of selectors) {
-    try {
-      const elements = Array.from(doc.querySelectorAll(selector));
-      if (elements.length > 0) {
-        console.log(`✅ Found ${elements.length} elements with: ${selector}`);
-        return elements;
-      }
-      console.log(`⚠️ No elements with: ${selector}`);
-    } catch (e) {
-      console.log(`❌ Invalid selector: ${selector}`);
-    }
-  }
-  return [];
-}
-
-function trySelectOne(element: any, selectors: string[]): any | null {
-  for (const selector of selectors) {
-    try {
-      const found = element.querySelector(selector);
-      if (found) return found;
-    } catch (e) {
-      // Try next selector
-    }
-  }
-  return null;
-}
-
 function normalizeProductName(name: string): string {
   return name
     .toLowerCase()
@@ -912,93 +303,6 @@ function calculateSimilarity(baselineProduct: string, competitorProduct: string)
   return Math.max(0, similarity);
 }
 
-function extractPrice(text: string, expectedCurrency: string, productName?: string): { price: number; confidence: number } | null {
-  if (!text) return null;
-  
-  text = text.replace(/from|as low as|starting at|save|off|each|per|month|\/mo/gi, '').trim();
-  
-  // FIX 1: Extract storage sizes from product name to exclude from price extraction
-  const storageSizesToExclude: Set<string> = new Set();
-  const modelNumbersToExclude: Set<string> = new Set();
-  
-  if (productName) {
-    // Extract storage sizes (256GB, 512GB, 1TB, etc.)
-    const storagePattern = /(\d+)\s*(?:GB|TB)/gi;
-    let storageMatch;
-    while ((storageMatch = storagePattern.exec(productName)) !== null) {
-      storageSizesToExclude.add(storageMatch[1]);
-    }
-    
-    // Extract model numbers (e.g., "16" from "iPhone 16", "24" from "S24")
-    const modelPatterns = [
-      /iphone\s*(\d+)/gi,
-      /galaxy\s*[sza]?(\d+)/gi,
-      /pixel\s*(\d+)/gi,
-      /(\d+)\s*(?:pro|max|mini|plus|ultra)/gi,
-    ];
-    
-    for (const pattern of modelPatterns) {
-      let match;
-      while ((match = pattern.exec(productName)) !== null) {
-        modelNumbersToExclude.add(match[1]);
-      }
-    }
-  }
-  
-  const patterns = [
-    // NEW: VAT indicator (common on Extra.com with SVG currency symbols)
-    /(\d{1,3}(?:,\d{3})*\.?\d*)\s*(?:Incl\.?\s*VAT|VAT)/i,
-    // SAR patterns with ﷼ symbol
-    /(?:SAR|SR|ریال|ر\.س\.?|﷼)\s*([0-9,]+\.?[0-9]*)/i,
-    /([0-9,]+\.?[0-9]*)\s*(?:SAR|SR|ریال|ر\.س\.?|﷼)/i,
-    /\$\s*([0-9,]+\.?[0-9]*)/,
-    /([0-9,]+\.?[0-9]*)\s*(?:USD|usd)/,
-    /\b([0-9,]+\.[0-9]{2})\b/,
-    /\b([0-9,]+)\b/
-  ];
-  
-  let bestMatch: { price: number; confidence: number } | null = null;
-  
-  for (let i = 0; i < patterns.length; i++) {
-    const match = text.match(patterns[i]);
-    if (match) {
-      const priceStr = match[1].replace(/,/g, '');
-      const price = parseFloat(priceStr);
-      
-      // Skip if this number is a storage size
-      if (storageSizesToExclude.has(priceStr)) {
-        continue;
-      }
-      
-      // Skip if this number is a model number
-      if (modelNumbersToExclude.has(priceStr)) {
-        continue;
-      }
-      
-      // Skip very small numbers that are likely not prices
-      if (price < 50) {
-        continue;
-      }
-      
-      if (!isNaN(price) && price > 0) {
-        let confidence = 1.0 - (i * 0.1);
-        
-        if (expectedCurrency === 'SAR' && match[0].match(/SAR|SR|ریال|ر\.س|﷼|Incl\.?\s*VAT/i)) {
-          confidence += 0.2;
-        } else if (expectedCurrency === 'USD' && match[0].match(/\$|USD/i)) {
-          confidence += 0.2;
-        }
-        
-        if (!bestMatch || confidence > bestMatch.confidence) {
-          bestMatch = { price, confidence: Math.min(confidence, 1.0) };
-        }
-      }
-    }
-  }
-  
-  return bestMatch;
-}
-
 // ========================================
 // PRODUCT NAME EXTRACTION
 // ========================================
@@ -1049,9 +353,7 @@ function isAccessoryOrReplacement(productName: string): boolean {
     'lens protector', 'camera protector', 'privacy screen',
     'screen guard', 'guard', 'shield',
     'stand', 'mount', 'holder', 'strap', 'skin', 'sticker', 'decal',
-    'pcs', 'pieces', 'pair', 'set of', 'pack of', 
-    '2 pack', '3 pack', '4 pack', '2-pack', '3-pack', '4-pack',
-    '2pcs', '3pcs', '4pcs',
+    // Pack sizes ("3 pack", "pack of 6") are compared by the variant matcher instead
     'قطع غيار', 'قطع', 'غيار', 'بديل', 'حافظة', 'كفر', 'غطاء', 'وسادة', 'كابل'
   ];
   
@@ -1059,115 +361,6 @@ function isAccessoryOrReplacement(productName: string): boolean {
   return accessoryKeywords.some(keyword => lowerName.includes(keyword));
 }
 
-// ========================================
-// MODEL NUMBER VALIDATION FOR ELECTRONICS
-// ========================================
-
-/**
- * Extract model information from product name
- */
-function extractModelInfo(productName: string): { 
-  brand: string; 
-  model: string; 
-  version: number | null 
-} {
-  const lowerName = productName.toLowerCase();
-  
-  // iPhone Air detection FIRST
-  if (lowerName.includes('iphone air')) {
-    return {
-      brand: 'iphone-air',
-      model: 'air',
-      version: null
-    };
-  }
-  
-  // iPhone detection
-  const iphoneMatch = lowerName.match(/iphone\s*(\d+)\s*(pro\s*max|pro|plus|mini)?/i);
-  if (iphoneMatch) {
-    return {
-      brand: 'iphone',
-      model: (iphoneMatch[2] || 'standard').toLowerCase().replace(/\s+/g, ' ').trim(),
-      version: parseInt(iphoneMatch[1])
-    };
-  }
-  
-  // Samsung Galaxy detection
-  const galaxyMatch = lowerName.match(/galaxy\s*([sza])(\d+)\s*(ultra|plus|fe)?/i);
-  if (galaxyMatch) {
-    return {
-      brand: 'galaxy',
-      model: `${galaxyMatch[1]}${galaxyMatch[3] || ''}`.toLowerCase().replace(/\s+/g, ' ').trim(),
-      version: parseInt(galaxyMatch[2])
-    };
-  }
-  
-  return { brand: '', model: '', version: null };
-}
-
-/**
- * Extract storage size from product name
- */
-function extractStorageSize(productName: string): number | null {
-  const storageMatch = productName.match(/(\d+)\s*(?:gb|GB|Gb)/i);
-  return storageMatch ? parseInt(storageMatch[1]) : null;
-}
-
-/**
- * Check if two products have mismatched model numbers
- */
-function isModelMismatch(baselineProduct: string, competitorProduct: string): boolean {
-  const baseline = extractModelInfo(baselineProduct);
-  const competitor = extractModelInfo(competitorProduct);
-  
-  // Check brand first
-  if (baseline.brand && competitor.brand && baseline.brand !== competitor.brand) {
-    return true;
-  }
-  
-  if ((baseline.brand && !competitor.brand) || (!baseline.brand && competitor.brand)) {
-    return false;
-  }
-  
-  // If both are iPhones, version must match
-  if (baseline.brand === 'iphone' && competitor.brand === 'iphone') {
-    if (baseline.version !== null && competitor.version !== null) {
-      const versionMatch = baseline.version === competitor.version;
-      if (!versionMatch) {
-        return true;
-      }
-    }
-    
-    if (baseline.model && competitor.model) {
-      const baselineModel = baseline.model.replace(/\s+/g, '');
-      const competitorModel = competitor.model.replace(/\s+/g, '');
-      if (baselineModel !== competitorModel) {
-        return true;
-      }
-    }
-  }
-  
-  // If both are Galaxy phones, version must match
-  if (baseline.brand === 'galaxy' && competitor.brand === 'galaxy') {
-    if (baseline.version !== null && competitor.version !== null) {
-      const versionMatch = baseline.version === competitor.version;
-      if (!versionMatch) {
-        return true;
-      }
-    }
-    
-    if (baseline.model && competitor.model) {
-      const baselineModel = baseline.model.replace(/\s+/g, '');
-      const competitorModel = competitor.model.replace(/\s+/g, '');
-      if (baselineModel !== competitorModel) {
-        return true;
-      }
-    }
-  }
-  
-  return false;
-}
-
 // ========================================
 // SCRAPING INTERFACES
 // ========================================
@@ -1179,16 +372,42 @@ interface ScrapedProduct {
   priceRatio: number;
   url?: string;
   sourceStore?: string;
+  // AI decision for listings in the uncertain similarity band
+  match?: MatchValidation;
 }
 
 interface ScrapeResult {
   marketplace: string;
   products: ScrapedProduct[];
+  // Listings the AI judged an accessory or a different product: stored for review, never priced
+  rejected?: ScrapedProduct[];
   status: 'success' | 'no_data' | 'timeout' | 'error';
   elapsed: number;
   error?: string;
 }
 
+// ========================================
+// VARIANT MATCHING
+// ========================================
+
+/**
+ * Drop listings for a different variant (size, pack count, storage, generation, model)
+ * and scale the similarity of the rest by their variant match score. In unit-priced
+ * categories other sizes and packs are kept; process-pricing rescales their prices.
+ */
+function filterVariantMismatches(baseline: { product_name: string }, products: ScrapedProduct[], unitPriced: boolean): ScrapedProduct[] {
+  const ignore: (keyof ProductAttributes)[] = unitPriced ? ['size', 'packCount'] : [];
+  return products.filter(product => {
+    const variant = variantMatchScore(product.similarity, baseline.product_name, product.name, ignore);
+    if (variant.score === 0) {
+      console.log(`   ⏭️ Variant mismatch (${variant.mismatches.join(', ')}): "${product.name.slice(0, 40)}..."`);
+      return false;
+    }
+    product.similarity = variant.score;
+    return true;
+  });
+}
+
 /**
  * Filters out prices that are 5x lower than the average
  * @param products Array of scraped products
@@ -1308,10 +527,8 @@ async function scrapeGoogleSERP(
   currency: string,
   baselineFullName: string
 ): Promise<ScrapedProduct[]> {
-  const scrapingbeeApiKey = Deno.env.get('SCRAPINGBEE_API_KEY');
-  
-  if (!scrapingbeeApiKey) {
-    console.error('SCRAPINGBEE_API_KEY not configured');
+  if (!hasScrapeProvider()) {
+    console.error('No scrape provider configured');
     return [];
   }
   
@@ -1321,25 +538,22 @@ async function scrapeGoogleSERP(
   try {
     const googleSearchUrl = `https://www.google.com/search?q=${encodeURIComponent(productName + ' price')}`;
     
-    const sbUrl = new URL('https://app.scrapingbee.com/api/v1/');
-    sbUrl.searchParams.set('api_key', scrapingbeeApiKey);
-    sbUrl.searchParams.set('url', googleSearchUrl);
-    sbUrl.searchParams.set('custom_google', 'true');
-    sbUrl.searchParams.set('stealth_proxy', 'true');
-    sbUrl.searchParams.set('render_js', 'true');
-    sbUrl.searchParams.set('wait', '3000');
-    sbUrl.searchParams.set('country_code', currency === 'SAR' ? 'sa' : 'us');
-    
-    const response = await fetch(sbUrl.toString());
+    const response = await scrapePage({
+      url: googleSearchUrl,
+      google: true,
+      stealthProxy: true,
+      renderJs: true,
+      wait: 3000,
+      countryCode: countryForCurrency(currency)
+    });
     
     if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`❌ SERP error: ${response.status} - ${errorText}`);
+      console.error(`❌ SERP error: ${response.status} - ${response.html}`);
       return [];
     }
     
-    const html = await response.text();
-    console.log(`✅ Received ${html.length} chars from Google SERP`);
+    const html = response.html;
+    console.log(`✅ Received ${html.length} chars from Google SERP via ${response.provider}`);
     
     const parser = new DOMParser();
     const doc = parser.parseFromString(html, 'text/html');
@@ -1436,127 +650,14 @@ async function scrapeGoogleSERP(
   }
 }
 
-/**
- * TEXT-BASED FALLBACK: Extract price from container text using regex patterns
- * Used when CSS selectors fail due to class name changes
- * FIX 2: Enhanced for Extra.com which uses SVG for currency symbols
- * FIX: Rejects year numbers (2018-2030) that are commonly misextracted as prices
- */
-function extractPriceFromContainerText(containerText: string, currency: string): { price: number; method: string } | null {
-  if (!containerText) return null;
-  
-  // Currency-specific patterns for Saudi Arabia
-  // FIX 2: Extra.com uses SVG for Saudi Riyal symbol - text appears as "1,710 Incl. VAT" without currency
-  const sarPatterns = [
-    // HIGHEST PRIORITY: Pattern for Extra.com and sites using SVG currency symbols
-    { pattern: /(\d{1,3}(?:,\d{3})*(?:\.\d{2})?)\s*(?:Incl\.?\s*VAT|incl\.?\s*vat)/i, name: 'VAT suffix (Extra.com SVG fix)' },
-    // Standard SAR patterns
-    { pattern: /(\d{1,3}(?:,\d{3})*(?:\.\d{2})?)\s*(?:SAR|SR|ر\.س|ريال|﷼)/i, name: 'SAR suffix' },
-    { pattern: /(?:SAR|SR|ر\.س|ريال|﷼)\s*(\d{1,3}(?:,\d{3})*(?:\.\d{2})?)/i, name: 'SAR prefix' },
-    // Extra.com specific: Number followed by "VAT" somewhere on the line
-    { pattern: /(\d{1,3}(?:,\d{3})*)\s*(?:VAT|vat)/i, name: 'VAT indicator' },
-  ];
-  
-  // USD patterns
-  const usdPatterns = [
-    { pattern: /\$\s*(\d{1,3}(?:,\d{3})*(?:\.\d{2})?)/i, name: 'USD symbol' },
-    { pattern: /(\d{1,3}(?:,\d{3})*(?:\.\d{2})?)\s*(?:USD|dollars?)/i, name: 'USD suffix' },
-  ];
-  
-  // Generic price patterns (last resort)
-  const genericPatterns = [
-    { pattern: /\b(\d{1,3}(?:,\d{3})*\.\d{2})\b/, name: 'decimal price' },
-    { pattern: /\b(\d{4,6})\b/, name: 'large number' }, // 1000-999999 range
-  ];
-  
-  const patterns = currency === 'SAR' 
-    ? [...sarPatterns, ...genericPatterns]
-    : [...usdPatterns, ...genericPatterns];
-  
-  for (const { pattern, name } of patterns) {
-    const match = containerText.match(pattern);
-    if (match && match[1]) {
-      const price = parseFloat(match[1].replace(/,/g, ''));
-      
-      // FIX: Reject year numbers (2018-2030) - common extraction error
-      if (price >= 2018 && price <= 2030) {
-        console.log(`   ⏭️ Skipping year number: ${price}`);
-        continue;
-      }
-      
-      // Validate it's a reasonable price (not storage size like 256, 512)
-      if (!isNaN(price) && price >= 100 && price < 100000) {
-        console.log(`   💰 Price extracted via ${name}: ${price}`);
-        return { price, method: name };
-      }
-    }
-  }
-  
-  return null;
-}
-
-/**
- * TEXT-BASED FALLBACK: Extract product name from container
- * Looks for heading-like text or first substantial text block
- * FIX: Rejects common garbage patterns like "About this result", info dialogs
- */
-function extractNameFromContainerText(containerText: string): string | null {
-  if (!containerText) return null;
-  
-  // Garbage patterns to reject - these are NOT product names
-  const garbagePatterns = [
-    /^about\s+this/i,
-    /^learn\s+more/i,
-    /^why\s+this/i,
-    /^sponsored/i,
-    /^ad\s*$/i,
-    /^see\s+more/i,
-    /^show\s+more/i,
-    /^view\s+all/i,
-    /^filter/i,
-    /^sort\s+by/i,
-    /^results?\s+for/i,
-    /^shopping/i,
-    /^compare/i,
-    /^\d+\s+results?/i,
-    /^sign\s+in/i,
-    /^menu/i,
-  ];
-  
-  // Split by newlines and find first substantial line (likely the title)
-  const lines = containerText.split(/[\n\r]+/).map(l => l.trim()).filter(l => l.length > 10 && l.length < 200);
-  
-  // First line that looks like a product name
-  for (const line of lines) {
-    // Skip lines starting with numbers (prices/dates)
-    if (/^\d/.test(line)) continue;
-    // Skip "from store" patterns
-    if (/^from\s/i.test(line)) continue;
-    // Skip currency prefixes
-    if (/^SAR|^SR|^\$/i.test(line)) continue;
-    // Skip garbage patterns
-    if (garbagePatterns.some(pattern => pattern.test(line))) continue;
-    // Skip very short lines or lines that are just numbers
-    if (line.length < 15) continue;
-    // Must contain at least one letter
-    if (!/[a-zA-Z]/.test(line)) continue;
-    
-    return line;
-  }
-  
-  return null;
-}
-
 async function scrapeGoogleShopping(
   productName: string,
   baselinePrice: number,
   currency: string,
   baselineFullName: string
 ): Promise<ScrapedProduct[]> {
-  const scrapingbeeApiKey = Deno.env.get('SCRAPINGBEE_API_KEY');
-  
-  if (!scrapingbeeApiKey) {
-    console.error('SCRAPINGBEE_API_KEY not configured');
+  if (!hasScrapeProvider()) {
+    console.error('No scrape provider configured');
     return [];
   }
   
@@ -1570,26 +671,23 @@ async function scrapeGoogleShopping(
   try {
     const shoppingUrl = `https://www.google.com/search?tbm=shop&q=${encodeURIComponent(smartQuery)}`;
     
-    const sbUrl = new URL('https://app.scrapingbee.com/api/v1/');
-    sbUrl.searchParams.set('api_key', scrapingbeeApiKey);
-    sbUrl.searchParams.set('url', shoppingUrl);
-    sbUrl.searchParams.set('custom_google', 'true');
-    sbUrl.searchParams.set('stealth_proxy', 'true');
-    sbUrl.searchParams.set('render_js', 'true');
-    sbUrl.searchParams.set('wait', '6000'); // Increased wait
-    sbUrl.searchParams.set('wait_browser', 'networkidle2'); // Wait for network idle
-    sbUrl.searchParams.set('country_code', currency === 'SAR' ? 'sa' : 'us');
-    
-    const response = await fetch(sbUrl.toString());
+    const response = await scrapePage({
+      url: shoppingUrl,
+      google: true,
+      stealthProxy: true,
+      renderJs: true,
+      wait: 6000, // Increased wait
+      waitBrowser: 'networkidle2', // Wait for network idle
+      countryCode: countryForCurrency(currency)
+    });
     
     if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`❌ Shopping error: ${response.status} - ${errorText}`);
+      console.error(`❌ Shopping error: ${response.status} - ${response.html}`);
       return [];
     }
     
-    const html = await response.text();
-    console.log(`✅ Received ${html.length} chars from Google Shopping`);
+    const html = response.html;
+    console.log(`✅ Received ${html.length} chars from Google Shopping via ${response.provider}`);
     
     const parser = new DOMParser();
     const doc = parser.parseFromString(html, 'text/html');
@@ -1802,17 +900,15 @@ async function scrapeGoogleShopping(
 // ========================================
 
 async function scrapeMarketplacePrices(
-  config: MarketplaceConfig,
+  adapter: MarketplaceAdapter,
   productName: string,
   fullProductName: string,
   baselinePrice: number,
   currency: string,
   costPrice?: number
 ): Promise<ScrapedProduct[]> {
-  const scrapingbeeApiKey = Deno.env.get('SCRAPINGBEE_API_KEY');
-  
-  if (!scrapingbeeApiKey) {
-    console.error('SCRAPINGBEE_API_KEY not configured');
+  if (!hasScrapeProvider(adapter.providers)) {
+    console.error('No scrape provider configured');
     return [];
   }
   
@@ -1840,13 +936,13 @@ async function scrapeMarketplacePrices(
   
   const limitedQueries = searchQueries.slice(0, 2);
   
-  console.log(`\n🐝 Scraping ${config.name} (${limitedQueries.length} queries)`);
+  console.log(`\n🐝 Scraping ${adapter.name} (${limitedQueries.length} queries)`);
   
   let allProducts: ScrapedProduct[] = [];
   
   for (let queryIndex = 0; queryIndex < limitedQueries.length; queryIndex++) {
     const query = limitedQueries[queryIndex];
-    const searchUrl = config.searchUrl + encodeURIComponent(query);
+    const searchUrl = adapter.search.url(query);
     
     if (queryIndex > 0) {
       console.log(`   📝 Trying variation ${queryIndex + 1}: "${query}"`);
@@ -1855,44 +951,41 @@ async function scrapeMarketplacePrices(
     }
     
     try {
-      const sbUrl = new URL('https://app.scrapingbee.com/api/v1/');
-      sbUrl.searchParams.set('api_key', scrapingbeeApiKey);
-      sbUrl.searchParams.set('url', searchUrl);
-      sbUrl.searchParams.set('render_js', String(config.scrapingBeeOptions.renderJs));
-      sbUrl.searchParams.set('wait', String(config.scrapingBeeOptions.wait));
-      sbUrl.searchParams.set('block_resources', String(config.scrapingBeeOptions.blockResources));
-      sbUrl.searchParams.set('block_ads', String(config.scrapingBeeOptions.blockAds));
-      sbUrl.searchParams.set('country_code', config.scrapingBeeOptions.countryCode);
-      sbUrl.searchParams.set('wait_browser', 'load');
-      
       // FIX 3: Add stealth_proxy for Saudi marketplaces
-      if (config.useStealthProxy) {
-        sbUrl.searchParams.set('stealth_proxy', 'true');
-        console.log(`   🥷 Using stealth_proxy for ${config.name}`);
+      if (adapter.search.useStealthProxy) {
+        console.log(`   🥷 Using stealth_proxy for ${adapter.name}`);
       }
       
       // FIX 3: Add price-based wait_for selectors
-      if (config.waitForSelector) {
-        sbUrl.searchParams.set('wait_for', config.waitForSelector);
-        console.log(`   ⏳ Waiting for: ${config.waitForSelector}`);
+      if (adapter.search.waitForSelector) {
+        console.log(`   ⏳ Waiting for: ${adapter.search.waitForSelector}`);
       }
       
-      const response = await fetch(sbUrl.toString());
+      const response = await scrapePage({
+        url: searchUrl,
+        renderJs: adapter.search.renderJs,
+        wait: adapter.search.wait,
+        waitFor: adapter.search.waitForSelector,
+        waitBrowser: 'load',
+        blockResources: adapter.search.blockResources,
+        blockAds: adapter.search.blockAds,
+        stealthProxy: adapter.search.useStealthProxy,
+        countryCode: adapter.search.countryCode || adapter.region.country
+      }, adapter.providers);
       
       // Skip 503/500 gracefully
       if (response.status === 503 || response.status === 500) {
-        console.log(`⏭️ ${config.name} unavailable (HTTP ${response.status}), skipping...`);
+        console.log(`⏭️ ${adapter.name} unavailable (HTTP ${response.status}), skipping...`);
         break;
       }
       
       if (!response.ok) {
-        const errorText = await response.text().catch(() => 'Unknown error');
-        console.error(`❌ HTTP ${response.status}: ${errorText.slice(0, 200)}`);
+        console.error(`❌ HTTP ${response.status}: ${response.html.slice(0, 200)}`);
         continue;
       }
       
-      const html = await response.text();
-      console.log(`✅ Received ${html.length} chars`);
+      const html = response.html;
+      console.log(`✅ Received ${html.length} chars via ${response.provider}`);
       
       const parser = new DOMParser();
       const doc = parser.parseFromString(html, 'text/html');
@@ -1900,17 +993,17 @@ async function scrapeMarketplacePrices(
         break;
       }
       
-      const containers = trySelectAll(doc, config.selectors.containers);
+      const containers = trySelectAll(doc, adapter.search.selectors.containers);
       if (containers.length === 0) {
         const fullBodySnippet = doc.body?.innerHTML?.substring(0, 2000).replace(/\s+/g, ' ') || '';
         const bodyText = doc.body?.textContent?.toLowerCase() || '';
-        console.error(`❌ No containers found for ${config.name}`);
+        console.error(`❌ No containers found for ${adapter.name}`);
         console.log(`   HTML length: ${doc.body?.innerHTML?.length || 0} chars`);
         console.log(`   Has "product" keyword: ${bodyText.includes('product')}`);
         console.log(`   Has "price" keyword: ${bodyText.includes('price')}`);
         
         // AMAZON DEBUG: Add specific logging for Amazon
-        if (config.name.includes('Amazon')) {
+        if (adapter.name.includes('Amazon')) {
           console.log(`   🔍 AMAZON DEBUG:`);
           console.log(`      Has s-result-item: ${fullBodySnippet.includes('s-result-item')}`);
           console.log(`      Has data-asin: ${fullBodySnippet.includes('data-asin')}`);
@@ -1926,71 +1019,37 @@ async function scrapeMarketplacePrices(
       const products: ScrapedProduct[] = [];
       const normalizedBaseline = normalizeProductName(fullProductName);
       
-      // Container validation
-      const validContainers = containers.filter((container: any) => {
-        const hasLink = container.querySelector('a[href]');
-        const containerText = container.textContent || '';
-        const hasEnoughText = containerText.length > 20;
-        const hasPricePattern = /\d{3,}/.test(containerText);
-        return hasLink && hasEnoughText && hasPricePattern;
-      });
-      
-      const containersToProcess = validContainers.length >= 3 ? validContainers : containers;
-      console.log(`   📦 Processing ${containersToProcess.length} containers (validated: ${validContainers.length}/${containers.length})`);
+      const containersToProcess = filterSearchContainers(containers);
       
       for (let i = 0; i < Math.min(containersToProcess.length, 50); i++) {
         const container = containersToProcess[i];
         
-        let nameEl = trySelectOne(container, config.selectors.productName);
-        let name = nameEl?.textContent?.trim();
-        
-        // FALLBACK: If CSS selectors fail
-        if (!name) {
-          nameEl = container.querySelector('h1, h2, h3, h4, a[title], a[href*="product"]');
-          name = nameEl?.textContent?.trim();
-        }
-        
-        if (!name || name.length < 5) {
+        const listing = extractSearchListing(container, adapter, currency, fullProductName, searchUrl);
+        if (!listing) {
           continue;
         }
+        const { name, url: productUrl } = listing;
         
-        // Try CSS selectors for price first
-        let priceEl = trySelectOne(container, config.selectors.price);
-        let priceText = priceEl?.textContent?.trim();
-        
-        // FALLBACK for price
-        if (!priceText) {
-          const containerHtml = container.innerHTML || '';
-          const currencyPattern = currency === 'SAR' 
-            ? /(?:SAR|SR|ریال)\s*([0-9,]+(?:\.[0-9]+)?)|([0-9,]+(?:\.[0-9]+)?)\s*(?:SAR|SR|ریال)/gi
-            : /\$\s*([0-9,]+(?:\.[0-9]+)?)|([0-9,]+(?:\.[0-9]+)?)\s*USD/gi;
-          
-          const priceMatch = containerHtml.match(currencyPattern);
-          if (priceMatch && priceMatch.length > 0) {
-            priceText = priceMatch[0];
-          }
-        }
-        
-        if (!priceText) {
+        if (!listing.priceText) {
           if (i < 5) {
             console.log(`   [${i}] ⚠️ No price found for "${name.slice(0, 30)}...". HTML sample: ${container.innerHTML?.substring(0, 300)}`);
           }
           continue;
         }
         
-        const extracted = extractPrice(priceText, currency, fullProductName);
-        if (!extracted || extracted.price <= 0) {
+        const price = listing.price;
+        if (!price) {
           continue;
         }
         
         // FIX 4: Apply Floor Rule validation
-        if (!isValidPrice(extracted.price, baselinePrice, costPrice)) {
+        if (!isValidPrice(price, baselinePrice, costPrice)) {
           continue;
         }
         
         const normalizedCompetitor = normalizeProductName(name);
         const similarity = calculateSimilarity(normalizedBaseline, normalizedCompetitor);
-        const priceRatio = extracted.price / baselinePrice;
+        const priceRatio = price / baselinePrice;
         
         let adjustedSimilarity = similarity;
         if (priceRatio < 0.2 || priceRatio > 3.0) {
@@ -1999,22 +1058,9 @@ async function scrapeMarketplacePrices(
           adjustedSimilarity = similarity * 0.8;
         }
         
-        let productUrl: string | undefined;
-        try {
-          const linkEl = container.querySelector('a[href]');
-          if (linkEl) {
-            const href = linkEl.getAttribute('href');
-            if (href) {
-              productUrl = href.startsWith('http') ? href : new URL(href, config.searchUrl).href;
-            }
-          }
-        } catch (e) {
-          // Ignore URL extraction errors
-        }
-        
         products.push({
           name,
-          price: extracted.price,
+          price,
           similarity: adjustedSimilarity,
           priceRatio,
           url: productUrl
@@ -2022,7 +1068,7 @@ async function scrapeMarketplacePrices(
         
         if (i < 5) {
           console.log(`   [${i}] "${name.substring(0, 50)}..."`);
-          console.log(`       Similarity: ${(adjustedSimilarity * 100).toFixed(0)}%, Price: ${extracted.price}, Ratio: ${priceRatio.toFixed(2)}x`);
+          console.log(`       Similarity: ${(adjustedSimilarity * 100).toFixed(0)}%, Price: ${price}, Ratio: ${priceRatio.toFixed(2)}x`);
         }
       }
       
@@ -2042,7 +1088,7 @@ async function scrapeMarketplacePrices(
       }
       
     } catch (error: any) {
-      console.error(`❌ Error scraping ${config.name}:`, error.message);
+      console.error(`❌ Error scraping ${adapter.name}:`, error.message);
       continue;
     }
     
@@ -2068,8 +1114,7 @@ async function findProductLinkViaGoogle(
   siteDomain: string,
   productName: string
 ): Promise<string | null> {
-  const scrapingbeeApiKey = Deno.env.get('SCRAPINGBEE_API_KEY');
-  if (!scrapingbeeApiKey) return null;
+  if (!hasScrapeProvider()) return null;
   
   // FIX: Add exclusions to Google Dork query for better results
   const lowerName = productName.toLowerCase();
@@ -2087,20 +1132,18 @@ async function findProductLinkViaGoogle(
   
   const googleUrl = `https://www.google.com/search?q=${encodeURIComponent(query)}`;
   
-  const sbUrl = new URL('https://app.scrapingbee.com/api/v1/');
-  sbUrl.searchParams.set('api_key', scrapingbeeApiKey);
-  sbUrl.searchParams.set('url', googleUrl);
-  sbUrl.searchParams.set('custom_google', 'true');
-  sbUrl.searchParams.set('render_js', 'false'); // Faster - just need links
-  
   try {
-    const response = await fetch(sbUrl.toString());
+    const response = await scrapePage({
+      url: googleUrl,
+      google: true,
+      renderJs: false // Faster - just need links
+    });
     if (!response.ok) {
       console.log(`   ❌ Google Dork failed: HTTP ${response.status}`);
       return null;
     }
     
-    const html = await response.text();
+    const html = response.html;
     const parser = new DOMParser();
     const doc = parser.parseFromString(html, 'text/html');
     if (!doc) return null;
@@ -2130,42 +1173,35 @@ async function findProductLinkViaGoogle(
 
 /**
  * Scrape a direct product detail page (simpler than search results)
+ * The store's own product-page selectors are tried before the generic ones.
  */
 async function scrapeDirectProductPage(
   url: string,
-  siteName: string,
+  store: Pick<MarketplaceAdapter, 'name' | 'productPage' | 'parsePrice' | 'providers'>,
   baselinePrice: number,
   currency: string,
   baselineFullName: string,
   costPrice?: number
 ): Promise<ScrapedProduct | null> {
-  const scrapingbeeApiKey = Deno.env.get('SCRAPINGBEE_API_KEY');
-  if (!scrapingbeeApiKey) return null;
+  if (!hasScrapeProvider(store.providers)) return null;
   
   console.log(`📦 Scraping direct page: ${url.slice(0, 60)}...`);
   
-  const sbUrl = new URL('https://app.scrapingbee.com/api/v1/');
-  sbUrl.searchParams.set('api_key', scrapingbeeApiKey);
-  sbUrl.searchParams.set('url', url);
-  sbUrl.searchParams.set('render_js', 'true');
-  sbUrl.searchParams.set('stealth_proxy', 'true');
-  sbUrl.searchParams.set('wait', '5000');
-  
-  // Site-specific wait_for selectors for product detail pages
-  if (siteName === 'Extra') {
-    sbUrl.searchParams.set('wait_for', '.product-price,.price-box,[data-qa="product-price"],.c_product-price');
-  } else if (siteName === 'Jarir') {
-    sbUrl.searchParams.set('wait_for', '.price-box,.price,[data-price-amount],.product-info-price');
-  }
-  
   try {
-    const response = await fetch(sbUrl.toString());
+    const response = await scrapePage({
+      url,
+      renderJs: true,
+      stealthProxy: true,
+      wait: 5000,
+      // Site-specific wait_for selectors for product detail pages
+      waitFor: store.productPage?.waitForSelector
+    }, store.providers);
     if (!response.ok) {
       console.log(`   ❌ Direct scrape HTTP ${response.status}`);
       return null;
     }
     
-    const html = await response.text();
+    const html = response.html;
     console.log(`   ✅ Received ${html.length} chars from product page`);
     
     // ========================================
@@ -2190,7 +1226,7 @@ async function scrapeDirectProductPage(
           similarity: similarity,
           priceRatio: universalData.price / baselinePrice,
           url: url,
-          sourceStore: siteName
+          sourceStore: store.name
         };
       }
     }
@@ -2204,77 +1240,13 @@ async function scrapeDirectProductPage(
     const doc = parser.parseFromString(html, 'text/html');
     if (!doc) return null;
     
-    // Product detail pages have simpler structure - title usually in h1
-    const titleSelectors = ['h1', '.product-name', '[data-qa="product-name"]', '.product-title', 'h1.page-title'];
-    let title = '';
-    for (const selector of titleSelectors) {
-      const el = doc.querySelector(selector);
-      if (el?.textContent?.trim()) {
-        title = el.textContent.trim();
-        break;
-      }
-    }
-    
-    if (!title || title.length < 5) {
+    const details = extractProductPageDetails(doc, store, currency, baselineFullName);
+    if (!details) {
       console.log(`   ⚠️ Could not find product title`);
       return null;
     }
     
-    // Price selectors for product detail pages
-    // FIX 2: Enhanced selectors for Extra.com which uses SVG for currency
-    const priceSelectors = [
-      // Extra.com specific selectors
-      '.c_product-price',
-      '.product-price__value',
-      '[data-qa="product-price"]',
-      // Jarir/Magento specific selectors
-      '.price-box .price',
-      '[data-price-amount]',
-      '.price-final_price .price',
-      'span[data-price-type="finalPrice"]',
-      '.product-info-price .price',
-      // Noon specific selectors
-      '[class*="priceNow"]',
-      'span[class*="Price_now"]',
-      'strong[class*="amount"]',
-      // Generic selectors
-      '.product-price',
-      '.price',
-      '.final-price',
-      '.special-price .price',
-      '.priceNow',
-      // Last resort - any element with price in class
-      '[class*="price"]'
-    ];
-    
-    let price = 0;
-    let priceMethod = '';
-    
-    // Try CSS selectors first
-    for (const selector of priceSelectors) {
-      const priceEl = doc.querySelector(selector);
-      if (priceEl?.textContent) {
-        const extracted = extractPrice(priceEl.textContent, currency, baselineFullName);
-        if (extracted && extracted.price > 0) {
-          price = extracted.price;
-          priceMethod = `CSS: ${selector}`;
-          console.log(`   💰 Found price: ${price} ${currency} (via ${selector})`);
-          break;
-        }
-      }
-    }
-    
-    // FIX 2: Fallback to text-based extraction for Extra.com SVG currency issue
-    if (price <= 0) {
-      const bodyText = doc.body?.textContent || '';
-      const fallbackPrice = extractPriceFromContainerText(bodyText, currency);
-      if (fallbackPrice && fallbackPrice.price > 0) {
-        price = fallbackPrice.price;
-        priceMethod = `Text fallback: ${fallbackPrice.method}`;
-        console.log(`   💰 Found price via text fallback: ${price} ${currency} (${fallbackPrice.method})`);
-      }
-    }
-    
+    const { title, price } = details;
     if (price <= 0) {
       console.log(`   ⚠️ Could not extract price from page`);
       return null;
@@ -2298,7 +1270,7 @@ async function scrapeDirectProductPage(
       similarity: similarity,
       priceRatio: price / baselinePrice,
       url: url,
-      sourceStore: siteName
+      sourceStore: store.name
     };
   } catch (err: any) {
     console.log(`   ❌ Direct scrape error: ${err.message}`);
@@ -2311,29 +1283,31 @@ async function scrapeDirectProductPage(
 // ========================================
 
 async function scrapeMarketplaceWithTimeout(
-  marketplaceKey: string,
-  config: MarketplaceConfig,
+  adapter: MarketplaceAdapter,
   coreProductName: string,
   baseline: any,
   baselineIsAccessory: boolean,
+  unitPriced: boolean,
   supabase: any
 ): Promise<ScrapeResult> {
   const startTime = Date.now();
+  const marketplaceKey = adapter.key;
   
   console.log(`\n${'='.repeat(60)}`);
   console.log(`📡 [${marketplaceKey}] Starting scrape at ${new Date().toISOString()}`);
-  console.log(`   Config: wait=${config.scrapingBeeOptions.wait}ms, country=${config.scrapingBeeOptions.countryCode}`);
-  console.log(`   URL pattern: ${config.searchUrl}`);
+  console.log(`   Config: wait=${adapter.search.wait}ms, country=${adapter.search.countryCode || adapter.region.country}`);
+  console.log(`   URL pattern: ${adapter.search.url('')}`);
   console.log(`${'='.repeat(60)}`);
   
   try {
     let products: ScrapedProduct[] = [];
+    let rejected: ScrapedProduct[] = [];
     
     // Scrape with timeout
     try {
       const scrapeStartTime = Date.now();
       
-      if (marketplaceKey === 'google-shopping') {
+      if (adapter.discovery === 'google-shopping') {
         console.log(`   🛒 Using Google Shopping scraper...`);
         products = await Promise.race([
           scrapeGoogleShopping(
@@ -2347,10 +1321,10 @@ async function scrapeMarketplaceWithTimeout(
           )
         ]);
       } else {
-        console.log(`   🏪 Using marketplace scraper for ${config.name}...`);
+        console.log(`   🏪 Using marketplace scraper for ${adapter.name}...`);
         products = await Promise.race([
           scrapeMarketplacePrices(
-            config,
+            adapter,
             coreProductName,
             baseline.product_name,
             baseline.current_price,
@@ -2371,10 +1345,10 @@ async function scrapeMarketplaceWithTimeout(
       if (timeoutError.message === 'Timeout') {
         const elapsed = Date.now() - startTime;
         console.log(`   ❌ TIMEOUT after ${elapsed}ms (limit: ${MARKETPLACE_TIMEOUT}ms)`);
-        console.log(`   📊 Diagnosis: ScrapingBee or website too slow`);
+        console.log(`   📊 Diagnosis: Scrape provider or website too slow`);
         
         return {
-          marketplace: config.name,
+          marketplace: adapter.name,
           products: [],
           status: 'timeout',
           elapsed
@@ -2419,64 +1393,16 @@ async function scrapeMarketplaceWithTimeout(
       }
     }
     
-    // Model mismatch filtering for electronics
-    if (baseline.category === 'Electronics & Technology' && products.length > 0) {
-      const beforeModelFilter = products.length;
-      products = products.filter(product => {
-        const isMismatch = isModelMismatch(baseline.product_name, product.name);
-        if (isMismatch) {
-          console.log(`   ⏭️ Model mismatch: "${product.name.slice(0, 40)}..."`);
-        }
-        return !isMismatch;
-      });
-      console.log(`   🔍 Model filter: ${beforeModelFilter} → ${products.length}`);
+    // Variant filtering (model, size, pack count, storage, generation)
+    if (products.length > 0) {
+      const beforeVariantFilter = products.length;
+      products = filterVariantMismatches(baseline, products, unitPriced);
+      console.log(`   🔍 Variant filter: ${beforeVariantFilter} → ${products.length}`);
     }
     
     // AI validation for medium confidence products
     if (products.length > 0) {
-      const mediumConfidenceProducts = products.filter(p => p.similarity >= 0.30 && p.similarity < 0.80);
-      
-      if (mediumConfidenceProducts.length > 0) {
-        console.log(`   🤖 AI validating ${mediumConfidenceProducts.length} medium-confidence products...`);
-        
-        for (let i = 0; i < mediumConfidenceProducts.length; i += 5) {
-          const batch = mediumConfidenceProducts.slice(i, i + 5);
-          
-          await Promise.all(batch.map(async (product) => {
-            try {
-              const { data: validationResult, error: validationError } = await supabase.functions.invoke('validate-competitor', {
-                body: {
-                  your_product_name: baseline.product_name,
-                  competitor_product_name: product.name,
-                  marketplace: marketplaceKey,
-                  baseline_price: baseline.current_price,
-                  competitor_price: product.price,
-                  similarity_score: product.similarity
-                }
-              });
-              
-              if (validationError) {
-                console.log(`      ⚠️ AI error for "${product.name.slice(0, 30)}..."`);
-                return;
-              }
-              
-              const decision = validationResult?.decision?.toLowerCase().replace(/_/g, '');
-              if (decision === 'accessory' || decision === 'differentproduct' || decision === 'different') {
-                console.log(`      🤖 AI rejected: "${product.name.slice(0, 30)}..." → ${validationResult.decision}`);
-                product.similarity = -1;
-              }
-            } catch (e) {
-              console.log(`      ⚠️ AI exception: ${e}`);
-            }
-          }));
-        }
-        
-        const beforeAiFilter = products.length;
-        products = products.filter(p => p.similarity >= 0);
-        if (beforeAiFilter > products.length) {
-          console.log(`   🤖 AI filter: ${beforeAiFilter} → ${products.length}`);
-        }
-      }
+      ({ products, rejected } = await validateUncertainMatches(supabase, baseline, products, () => marketplaceKey));
     }
     
     // Similarity threshold
@@ -2493,8 +1419,9 @@ async function scrapeMarketplaceWithTimeout(
     if (products.length > 0) {
       console.log(`   📊 RESULT: SUCCESS - ${products.length} products in ${elapsed}ms`);
       return {
-        marketplace: config.name,
+        marketplace: adapter.name,
         products,
+        rejected,
         status: 'success',
         elapsed
       };
@@ -2502,8 +1429,9 @@ async function scrapeMarketplaceWithTimeout(
       console.log(`   📊 RESULT: NO DATA - 0 products after filtering in ${elapsed}ms`);
       console.log(`   📊 Diagnosis: Products found but all filtered out OR wrong selectors`);
       return {
-        marketplace: config.name,
+        marketplace: adapter.name,
         products: [],
+        rejected,
         status: 'no_data',
         elapsed
       };
@@ -2514,7 +1442,7 @@ async function scrapeMarketplaceWithTimeout(
     console.error(`   ❌ ERROR after ${elapsed}ms:`, error.message);
     
     return {
-      marketplace: config.name,
+      marketplace: adapter.name,
       products: [],
       status: 'error',
       elapsed,
@@ -2523,12 +1451,322 @@ async function scrapeMarketplaceWithTimeout(
   }
 }
 
+// ========================================
+// AI MATCH VALIDATION
+// ========================================
+
+/**
+ * Send listings in the 30-80% similarity band through AI validation (cached, batched)
+ * and split off the ones judged an accessory or a different product. Both carry the
+ * decision so it can be stored with the competitor product; rejected listings are
+ * stored for the merchant to review but never priced.
+ */
+async function validateUncertainMatches(
+  supabase: SupabaseClient,
+  baseline: { product_name: string; current_price: number; merchant_id: string | null },
+  products: ScrapedProduct[],
+  marketplaceFn: (product: ScrapedProduct) => string
+): Promise<{ products: ScrapedProduct[]; rejected: ScrapedProduct[] }> {
+  const uncertain = products.filter(product => needsAiValidation(product.similarity));
+  if (uncertain.length === 0) return { products, rejected: [] };
+  
+  console.log(`   🤖 AI validating ${uncertain.length} medium-confidence products...`);
+  
+  try {
+    const validations = await validateCompetitorMatches(
+      supabase,
+      {
+        your_product_name: baseline.product_name,
+        baseline_price: baseline.current_price,
+        merchant_id: baseline.merchant_id
+      },
+      uncertain.map(product => ({
+        competitor_product_name: product.name,
+        marketplace: marketplaceFn(product),
+        competitor_price: product.price,
+        similarity_score: product.similarity
+      }))
+    );
+    
+    uncertain.forEach((product, index) => {
+      product.match = validations[index];
+      if (product.match.decision !== 'match') {
+        console.log(`      🤖 AI rejected: "${product.name.slice(0, 30)}..." → ${product.match.decision}`);
+      }
+    });
+  } catch (e) {
+    console.log(`      ⚠️ AI validation error: ${e}`);
+    return { products, rejected: [] };
+  }
+  
+  const validated = products.filter(product => !product.match || product.match.decision === 'match');
+  if (validated.length < products.length) {
+    console.log(`   🤖 AI filter: ${products.length} → ${validated.length}`);
+  }
+  return {
+    products: validated,
+    rejected: products.filter(product => product.match && product.match.decision !== 'match')
+  };
+}
+
+/**
+ * Store AI-rejected listings so the merchant can see why they were left out (and pin
+ * them if the AI was wrong). No observations or aggregates: they don't count as market data.
+ */
+async function storeRejectedProducts(
+  supabase: SupabaseClient,
+  baseline: { id: string; merchant_id: string | null; currency: string },
+  products: ScrapedProduct[],
+  marketplaceFn: (product: ScrapedProduct) => string
+) {
+  if (products.length === 0) return;
+
+  const { error } = await supabase.from('competitor_products').insert(products.map((product, index) => ({
+    baseline_id: baseline.id,
+    merchant_id: baseline.merchant_id,
+    marketplace: marketplaceFn(product),
+    product_name: product.name,
+    price: product.price,
+    similarity_score: product.similarity,
+    price_ratio: product.priceRatio,
+    product_url: product.url,
+    ai_decision: product.match?.decision ?? null,
+    ai_confidence: product.match?.confidence ?? null,
+    ai_reasoning: product.match?.reasoning ?? null,
+    currency: baseline.currency,
+    rank: index + 1,
+    is_cached: false,
+    cached_from_baseline_id: null
+  })));
+
+  if (error) {
+    console.error('   ❌ DB insert error for AI-rejected listings:', error);
+  }
+}
+
+// ========================================
+// SCRAPE SLOTS & MARKETPLACE BACKOFF
+// ========================================
+
+/**
+ * Run a scrape while holding one of the global scrape provider slots.
+ * If the slot table is unavailable the scrape runs unthrottled.
+ */
+async function withScrapeSlot<T>(
+  queueClient: SupabaseClient,
+  holder: string,
+  marketplaceKey: string,
+  scrape: () => Promise<T>
+): Promise<T> {
+  const waitStart = Date.now();
+  let slotId: string | null = null;
+  
+  while (true) {
+    const { data, error } = await queueClient.rpc('acquire_scrape_slot', {
+      _holder: holder,
+      _marketplace: marketplaceKey,
+      _limit: SCRAPINGBEE_MAX_CONCURRENCY,
+      _ttl_seconds: SCRAPE_SLOT_TTL_SECONDS
+    });
+    
+    if (error) {
+      console.log(`   ⚠️ Scrape slot check failed, continuing without a slot: ${error.message}`);
+      break;
+    }
+    
+    if (data) {
+      slotId = data;
+      break;
+    }
+    
+    if (Date.now() - waitStart >= SCRAPE_SLOT_WAIT_MS) {
+      throw new Error(`No scrape slot available after ${SCRAPE_SLOT_WAIT_MS / 1000}s`);
+    }
+    
+    await new Promise(r => setTimeout(r, SCRAPE_SLOT_POLL_MS));
+  }
+  
+  if (slotId) {
+    const waited = Date.now() - waitStart;
+    if (waited > SCRAPE_SLOT_POLL_MS) {
+      console.log(`   🎫 [${marketplaceKey}] Got scrape slot after ${waited}ms`);
+    }
+  }
+  
+  try {
+    return await scrape();
+  } finally {
+    if (slotId) {
+      await queueClient.rpc('release_scrape_slot', { _slot_id: slotId });
+    }
+  }
+}
+
+async function loadMarketplaceBackoffs(queueClient: SupabaseClient, marketplaceKeys: string[]): Promise<Map<string, string>> {
+  const backoffs = new Map<string, string>();
+  
+  const { data, error } = await queueClient
+    .from('marketplace_backoff')
+    .select('marketplace, backoff_until')
+    .in('marketplace', marketplaceKeys)
+    .gt('backoff_until', new Date().toISOString());
+  
+  if (error) {
+    console.log(`   ⚠️ Backoff lookup failed: ${error.message}`);
+    return backoffs;
+  }
+  
+  for (const row of data || []) {
+    backoffs.set(row.marketplace, row.backoff_until);
+  }
+  return backoffs;
+}
+
+async function recordMarketplaceResult(queueClient: SupabaseClient, marketplaceKey: string, result: ScrapeResult) {
+  // no_data means the marketplace answered; only timeouts and errors count against it
+  if (result.status === 'no_data') return;
+  
+  const { error } = await queueClient.rpc('record_marketplace_result', {
+    _marketplace: marketplaceKey,
+    _success: result.status === 'success',
+    _error: result.status === 'success' ? null : (result.error || result.status)
+  });
+  
+  if (error) {
+    console.log(`   ⚠️ Failed to record backoff for ${marketplaceKey}: ${error.message}`);
+  }
+}
+
+// ========================================
+// PRICE HISTORY
+// ========================================
+
+interface ObservedListing {
+  baseline_id: string;
+  merchant_id: string | null;
+  marketplace: string;
+  product_name: string;
+  product_url: string | null;
+  price: number;
+  currency: string;
+  similarity_score: number;
+}
+
+/**
+ * Append freshly scraped listings to competitor_price_observations.
+ * History is best-effort: a failed write never fails the refresh.
+ * @returns True if the listings were recorded
+ */
+async function recordPriceObservations(supabase: SupabaseClient, listings: ObservedListing[], observedAt: string): Promise<boolean> {
+  if (listings.length === 0) return false;
+
+  const { error } = await supabase
+    .from('competitor_price_observations')
+    .insert(listings.map(listing => ({
+      baseline_id: listing.baseline_id,
+      merchant_id: listing.merchant_id,
+      marketplace: listing.marketplace,
+      product_name: listing.product_name,
+      product_url: listing.product_url || null,
+      price: listing.price,
+      currency: listing.currency,
+      similarity_score: listing.similarity_score,
+      observed_at: observedAt
+    })));
+
+  if (error) {
+    console.error(`   ⚠️ Failed to record price history: ${error.message}`);
+    return false;
+  }
+  return true;
+}
+
+// ========================================
+// URLS PASTED BY A REVIEWER
+// ========================================
+
+interface UrlScrapeResult {
+  url: string;
+  marketplace: string;
+  product: ScrapedProduct | null;
+}
+
+/**
+ * Scrape product pages someone found by hand (manual review queue). Known stores use
+ * their adapter's product page selectors; anything else gets the generic ones.
+ * Nothing is saved; the caller decides which results to keep.
+ */
+async function scrapeProductUrls(
+  urls: string[],
+  adapters: MarketplaceAdapter[],
+  baselinePrice: number,
+  currency: string,
+  baselineFullName: string,
+  costPrice?: number
+): Promise<UrlScrapeResult[]> {
+  const results: UrlScrapeResult[] = [];
+  
+  // One at a time: these are few, and each one takes a scrape slot's worth of credits
+  for (const url of urls) {
+    const adapter = findAdapterByUrl(url, adapters);
+    const store = adapter || { name: extractStoreFromUrl(url) };
+    const product = await scrapeDirectProductPage(url, store, baselinePrice, currency, baselineFullName, costPrice);
+    results.push({ url, marketplace: adapter?.key || store.name, product });
+  }
+  
+  return results;
+}
+
+// ========================================
+// MERCHANT CURATION
+// ========================================
+
+interface PinnedCuration extends CompetitorCuration {
+  id: string;
+  product_url: string;
+}
+
+async function loadCompetitorCurations(supabase: SupabaseClient, baselineId: string): Promise<CompetitorCuration[]> {
+  const { data, error } = await supabase
+    .from('competitor_curations')
+    .select('id, action, marketplace, product_name, product_url, listing_key')
+    .eq('baseline_id', baselineId);
+
+  if (error) {
+    console.error(`   ⚠️ Failed to load competitor curations: ${error.message}`);
+    return [];
+  }
+  return data || [];
+}
+
+// Marketplace a scraped product is stored under in competitor_products
+function productMarketplace(marketplaceKey: string, product: ScrapedProduct): string {
+  if (marketplaceKey !== 'google-shopping') return marketplaceKey;
+  return product.sourceStore && product.sourceStore !== 'Unknown' ? product.sourceStore : 'Google';
+}
+
+function dropExcludedProducts(products: ScrapedProduct[], excludedKeys: Set<string>, marketplace: (product: ScrapedProduct) => string): ScrapedProduct[] {
+  if (excludedKeys.size === 0) return products;
+
+  const kept = products.filter(product => !excludedKeys.has(curationListingKey({
+    marketplace: marketplace(product),
+    product_name: product.name,
+    product_url: product.url
+  })));
+  if (kept.length < products.length) {
+    console.log(`   🚫 Skipped ${products.length - kept.length} listing(s) excluded by the merchant`);
+  }
+  return kept;
+}
+
 // ========================================
 // MAIN REQUEST HANDLER
 // ========================================
 
 const RequestSchema = z.object({
-  baseline_id: z.string().uuid('Invalid baseline ID format')
+  baseline_id: z.string().uuid('Invalid baseline ID format'),
+  // Scrape just these product pages instead of running a full refresh
+  urls: z.array(z.string().url('Invalid product URL')).min(1).max(10).optional()
 });
 
 serve(async (req) => {
@@ -2581,6 +1819,9 @@ serve(async (req) => {
       merchantId = user.id;
       console.log(`✓ User authenticated: ${user.email}`);
     }
+    // Slots and backoff state are shared across merchants, so they go through the service role
+    const queueClient = isServiceRoleCall ? supabase : createClient(supabaseUrl, serviceRoleKey);
+    
     const body = await req.json();
     const validation = RequestSchema.safeParse(body);
     
@@ -2591,7 +1832,7 @@ serve(async (req) => {
       );
     }
 
-    const { baseline_id } = validation.data;
+    const { baseline_id, urls } = validation.data;
 
     const { data: baseline, error: baselineError } = await supabase
       .from('product_baselines')
@@ -2616,6 +1857,43 @@ serve(async (req) => {
     
     // Use baseline's merchant_id for service role calls
     const effectiveMerchantId = merchantId || baseline.merchant_id;
+    
+    // Listings the merchant excluded never enter competitor_products; pinned URLs are re-scraped below
+    const curations = await loadCompetitorCurations(supabase, baseline_id);
+    const excludedKeys = excludedListingKeys(curations);
+    const pinnedCurations = curations.filter((curation): curation is PinnedCuration => curation.action === 'pin' && !!curation.product_url);
+
+    if (urls) {
+      console.log(`🔗 Scraping ${urls.length} pasted URL(s) for "${baseline.product_name}"`);
+      
+      const adapters = configureMarketplaces(getRegionAdapters(baseline.currency), await loadMarketplaceConfigs(queueClient));
+      const scraped = await scrapeProductUrls(
+        urls,
+        adapters,
+        baseline.current_price,
+        baseline.currency,
+        baseline.product_name,
+        baseline.cost_per_unit
+      );
+      
+      return new Response(JSON.stringify({
+        success: true,
+        baseline_id,
+        products: scraped
+          .filter(result => result.product)
+          .map(({ url, marketplace, product }) => ({
+            url,
+            marketplace,
+            product_name: product!.name,
+            price: product!.price,
+            similarity_score: product!.similarity,
+            price_ratio: product!.priceRatio
+          })),
+        failed_urls: scraped.filter(result => !result.product).map(result => result.url)
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
 
     console.log('🚀 Refreshing competitor prices');
     console.log(`   Product: "${baseline.product_name}"`);
@@ -2626,6 +1904,9 @@ serve(async (req) => {
     const baselineIsAccessory = isAccessoryOrReplacement(baseline.product_name);
     console.log(`   Type: ${baselineIsAccessory ? 'Accessory' : 'Main Product'}`);
     console.log(`   Filter mode: ${baselineIsAccessory ? 'Keep accessories' : 'Filter accessories'}`);
+
+    // Unit-priced categories keep other sizes and packs for process-pricing to rescale
+    const unitPriced = isUnitPricedCategory(baseline.category, await loadCategoryTaxonomy(supabase));
     
     // Extract core product name for better search results
     const coreProductName = extractCoreProductName(baseline.product_name);
@@ -2662,7 +1943,8 @@ serve(async (req) => {
           const normalizedRecentName = normalizeProductName(recentBaseline.product_name);
           const similarity = calculateSimilarity(normalizedCurrentName, normalizedRecentName);
           
-          if (similarity >= CACHE_MIN_SIMILARITY) {
+          // A 50ml baseline must not reuse the competitors found for the 100ml one
+          if (similarity >= CACHE_MIN_SIMILARITY && !isVariantMismatch(baseline.product_name, recentBaseline.product_name)) {
             console.log(`   ✅ Found similar baseline: "${recentBaseline.product_name.slice(0, 50)}..." (${(similarity * 100).toFixed(0)}% match)`);
             
             // Fetch cached competitor products from this baseline
@@ -2672,7 +1954,7 @@ serve(async (req) => {
               .eq('baseline_id', recentBaseline.id);
             
             if (!cachedError && cached && cached.length > 0) {
-              cachedProducts = cached;
+              cachedProducts = cached.filter(product => !excludedKeys.has(curationListingKey(product)));
               cacheSourceBaselineId = recentBaseline.id;
               console.log(`   📦 Loaded ${cachedProducts.length} cached products from baseline ${recentBaseline.id.slice(0, 8)}...`);
               break; // Use first matching baseline
@@ -2689,7 +1971,14 @@ serve(async (req) => {
       // Continue without cache
     }
 
-    // Delete existing data for this baseline (we'll clone cache + add fresh)
+    // AI-rejected listings are cloned for review but aren't market data
+    const cachedMatchCount = cachedProducts.filter(product => !isAiRejected(product)).length;
+
+    // competitor_products / competitor_prices hold only the latest run (we'll clone cache + add fresh).
+    // Every fresh listing is also appended to competitor_price_observations, so clearing
+    // the snapshot no longer loses price history.
+    const observedAt = new Date().toISOString();
+    let observationsRecorded = false;
     await supabase
       .from('competitor_prices')
       .delete()
@@ -2717,6 +2006,9 @@ serve(async (req) => {
         similarity_score: product.similarity_score,
         price_ratio: product.price_ratio,
         product_url: product.product_url,
+        ai_decision: product.ai_decision,
+        ai_confidence: product.ai_confidence,
+        ai_reasoning: product.ai_reasoning,
         currency: baseline.currency,
         rank: index + 1,
         is_cached: true,
@@ -2738,11 +2030,11 @@ serve(async (req) => {
     // ========================================
     // STEP 3: DECIDE SCRAPING STRATEGY
     // ========================================
-    const shouldFullScrape = cachedProducts.length < CACHE_THRESHOLD;
-    const shouldGoogleOnlyScrape = cachedProducts.length >= CACHE_THRESHOLD;
+    const shouldFullScrape = cachedMatchCount < CACHE_THRESHOLD;
+    const shouldGoogleOnlyScrape = cachedMatchCount >= CACHE_THRESHOLD;
     
     console.log(`\n🎯 Scraping Decision:`);
-    console.log(`   Cached products: ${cachedProducts.length}`);
+    console.log(`   Cached products: ${cachedMatchCount}`);
     console.log(`   Threshold: ${CACHE_THRESHOLD}`);
     
     if (shouldFullScrape) {
@@ -2751,19 +2043,20 @@ serve(async (req) => {
       console.log(`   Strategy: GOOGLE-ONLY GAP-FILL (have enough cached data)`);
     }
 
-    // Select marketplaces based on currency and strategy
-    let marketplaceKeys: string[];
+    // Select marketplaces based on the baseline's region and strategy, with admin overrides applied
+    const marketplaceConfigs = await loadMarketplaceConfigs(queueClient);
+    const regionAdapters = configureMarketplaces(getRegionAdapters(baseline.currency), marketplaceConfigs);
+    let marketplaces: MarketplaceAdapter[];
     if (shouldGoogleOnlyScrape) {
       // Google-only for gap-fill when we have enough cached products
-      marketplaceKeys = ['google-shopping'];
+      marketplaces = regionAdapters.filter(adapter => adapter.discovery === 'google-shopping');
       console.log(`   Marketplaces: google-shopping only`);
     } else {
       // Full scraping when cache is insufficient
-      marketplaceKeys = baseline.currency === 'SAR' 
-        ? ['google-shopping', 'amazon', 'noon', 'extra', 'jarir']
-        : ['google-shopping', 'amazon-us', 'walmart', 'ebay', 'target'];
-      console.log(`   Marketplaces: ${marketplaceKeys.join(', ')}`);
+      marketplaces = regionAdapters;
+      console.log(`   Marketplaces: ${marketplaces.map(adapter => adapter.key).join(', ')}`);
     }
+    const marketplaceKeys = marketplaces.map(adapter => adapter.key);
     
     // Simplified product name for Google-First discovery
     const simplifiedProductName = simplifyTitle(baseline.product_name);
@@ -2774,9 +2067,15 @@ serve(async (req) => {
     console.log(`\n🚀 Starting ${shouldGoogleOnlyScrape ? 'GOOGLE-ONLY' : 'PARALLEL'} scraping (${marketplaceKeys.length} marketplace${marketplaceKeys.length > 1 ? 's' : ''})...`);
     console.log(`   Timeout per marketplace: ${MARKETPLACE_TIMEOUT / 1000}s`);
     // Log which marketplaces use Google-First discovery
-    const googleFirstMarkets = marketplaceKeys.filter(k => MARKETPLACE_CONFIGS[k]?.useGoogleFirstDiscovery);
+    const googleFirstMarkets = marketplaces.filter(adapter => adapter.discovery === 'google-first');
     if (googleFirstMarkets.length > 0) {
-      console.log(`   Using Google-First Discovery for: ${googleFirstMarkets.join(', ')}`);
+      console.log(`   Using Google-First Discovery for: ${googleFirstMarkets.map(adapter => adapter.key).join(', ')}`);
+    }
+    
+    // Marketplaces that keep timing out or erroring are skipped until their backoff expires
+    const activeBackoffs = await loadMarketplaceBackoffs(queueClient, marketplaceKeys);
+    if (activeBackoffs.size > 0) {
+      console.log(`   Backing off: ${[...activeBackoffs.keys()].join(', ')}`);
     }
     
     let scrapeResults: ScrapeResult[] = [];
@@ -2784,106 +2083,131 @@ serve(async (req) => {
     try {
       // Fire all scrapers in parallel - wrapped in fault-tolerant try/catch
       scrapeResults = await Promise.all(
-        marketplaceKeys.map(async (marketplaceKey) => {
-          const config = MARKETPLACE_CONFIGS[marketplaceKey];
+        marketplaces.map(async (adapter) => {
+          const marketplaceKey = adapter.key;
           const startTime = Date.now();
-        
-        // Each scraper wrapped in try/catch - one failure won't stop others
-        try {
-          // FIX 1: Use Google-First Discovery for marketplaces that have it enabled
-          if (config.useGoogleFirstDiscovery) {
-            const siteDomain = marketplaceKey === 'extra' ? 'extra.com' : 
-                              marketplaceKey === 'jarir' ? 'jarir.com' : 
-                              new URL(config.searchUrl).hostname;
+          
+          const backoffUntil = activeBackoffs.get(marketplaceKey);
+          if (backoffUntil) {
+            console.log(`⏸️ [${marketplaceKey}] Skipped - backing off until ${backoffUntil}`);
+            return {
+              marketplace: adapter.name,
+              products: [],
+              status: 'error' as const,
+              elapsed: 0,
+              error: `Backing off until ${backoffUntil}`
+            };
+          }
+          
+          let ranScrape = false;
+          const result: ScrapeResult = await withScrapeSlot(queueClient, `${baseline_id}:${marketplaceKey}`, marketplaceKey, async (): Promise<ScrapeResult> => {
+            ranScrape = true;
             
-            console.log(`\n${'='.repeat(60)}`);
-            console.log(`📡 [${marketplaceKey}] Using Google-First Discovery for ${siteDomain}`);
-            console.log(`${'='.repeat(60)}`);
+            // Each scraper wrapped in try/catch - one failure won't stop others
+            try {
+              // FIX 1: Use Google-First Discovery for marketplaces that have it enabled
+              if (adapter.discovery === 'google-first') {
+                const siteDomain = adapter.region.domain;
             
-            // Step 1: Find product URL via Google
-            const productUrl = await findProductLinkViaGoogle(siteDomain, simplifiedProductName);
+                console.log(`\n${'='.repeat(60)}`);
+                console.log(`📡 [${marketplaceKey}] Using Google-First Discovery for ${siteDomain}`);
+                console.log(`${'='.repeat(60)}`);
             
-            if (!productUrl) {
-              const elapsed = Date.now() - startTime;
-              console.log(`   📊 RESULT: NO_URL - Could not find product on ${siteDomain}`);
-              return {
-                marketplace: config.name,
-                products: [],
-                status: 'no_data' as const,
-                elapsed
-              };
-            }
+                // Step 1: Find product URL via Google
+                const productUrl = await findProductLinkViaGoogle(siteDomain, simplifiedProductName);
+            
+                if (!productUrl) {
+                  const elapsed = Date.now() - startTime;
+                  console.log(`   📊 RESULT: NO_URL - Could not find product on ${siteDomain}`);
+                  return {
+                    marketplace: adapter.name,
+                    products: [],
+                    status: 'no_data' as const,
+                    elapsed
+                  };
+                }
             
-            // Step 2: Scrape that specific product page
-            const product = await scrapeDirectProductPage(
-              productUrl,
-              config.name,
-              baseline.current_price,
-              baseline.currency,
-              baseline.product_name,
-              baseline.cost_per_unit
-            );
+                // Step 2: Scrape that specific product page
+                const product = await scrapeDirectProductPage(
+                  productUrl,
+                  adapter,
+                  baseline.current_price,
+                  baseline.currency,
+                  baseline.product_name,
+                  baseline.cost_per_unit
+                );
             
-            const elapsed = Date.now() - startTime;
+                const elapsed = Date.now() - startTime;
             
-            if (product && product.similarity >= 0.60) {
-              // Apply model mismatch filter for electronics
-              if (baseline.category === 'Electronics & Technology') {
-                if (isModelMismatch(baseline.product_name, product.name)) {
-                  console.log(`   ⏭️ Model mismatch, rejecting`);
+                if (product && product.similarity >= 0.60) {
+                  // Reject a different variant of the product
+                  if (filterVariantMismatches(baseline, [product], unitPriced).length === 0) {
+                    return {
+                      marketplace: adapter.name,
+                      products: [],
+                      status: 'no_data' as const,
+                      elapsed
+                    };
+                  }
+              
+                  console.log(`   📊 RESULT: SUCCESS - 1 product via Google-First in ${elapsed}ms`);
                   return {
-                    marketplace: config.name,
+                    marketplace: adapter.name,
+                    products: [product],
+                    status: 'success' as const,
+                    elapsed
+                  };
+                } else {
+                  console.log(`   📊 RESULT: NO_DATA - Product found but ${product ? `low similarity (${(product.similarity * 100).toFixed(0)}%)` : 'extraction failed'}`);
+                  return {
+                    marketplace: adapter.name,
                     products: [],
                     status: 'no_data' as const,
                     elapsed
                   };
                 }
               }
-              
-              console.log(`   📊 RESULT: SUCCESS - 1 product via Google-First in ${elapsed}ms`);
-              return {
-                marketplace: config.name,
-                products: [product],
-                status: 'success' as const,
-                elapsed
-              };
-            } else {
-              console.log(`   📊 RESULT: NO_DATA - Product found but ${product ? `low similarity (${(product.similarity * 100).toFixed(0)}%)` : 'extraction failed'}`);
+          
+              // Standard scraping for Amazon, Noon, Google Shopping
+              return await scrapeMarketplaceWithTimeout(
+                adapter,
+                coreProductName,
+                baseline,
+                baselineIsAccessory,
+                unitPriced,
+                // AI decisions are cached across merchants
+                queueClient
+              );
+            } catch (err: any) {
+              // Catch ANY unexpected error - never let it escape
+              console.log(`❌ ${adapter.name} crashed: ${err.message}`);
               return {
-                marketplace: config.name,
+                marketplace: adapter.name,
                 products: [],
-                status: 'no_data' as const,
-                elapsed
+                status: 'error' as const,
+                elapsed: Date.now() - startTime,
+                error: err.message
               };
             }
-          }
-          
-          // Standard scraping for Amazon, Noon, Google Shopping
-          return await scrapeMarketplaceWithTimeout(
-            marketplaceKey,
-            config,
-            coreProductName,
-            baseline,
-            baselineIsAccessory,
-            supabase
-          );
-        } catch (err: any) {
-          // Catch ANY unexpected error - never let it escape
-          console.log(`❌ ${config.name} crashed: ${err.message}`);
-          return {
-            marketplace: config.name,
+          }).catch((slotError: Error) => ({
+            marketplace: adapter.name,
             products: [],
-            status: 'error' as const,
+            status: 'timeout' as const,
             elapsed: Date.now() - startTime,
-            error: err.message
-          };
-        }
+            error: slotError.message
+          }));
+          
+          // Waiting for a slot is our own capacity limit, not the marketplace's fault
+          if (ranScrape) {
+            await recordMarketplaceResult(queueClient, marketplaceKey, result);
+          }
+          return result;
       })
     );
     } catch (scrapingError: any) {
       // Fault-tolerant: If entire scraping fails, continue with cached data
       console.log(`⚠️ Scraping block failed: ${scrapingError.message}`);
-      console.log(`   Continuing with ${cachedProducts.length} cached products...`);
+      console.log(`   Continuing with ${cachedMatchCount} cached products...`);
       scrapeResults = [];
     }
 
@@ -2894,11 +2218,18 @@ serve(async (req) => {
     
     const results: any[] = [];
     const failedMarketplaces: string[] = [];
-    let foundValidProducts = cachedProducts.length > 0; // Already have cached products
+    let foundValidProducts = cachedMatchCount > 0; // Already have cached products
     
     for (let i = 0; i < scrapeResults.length; i++) {
       const result = scrapeResults[i];
       const marketplaceKey = marketplaceKeys[i];
+      result.products = dropExcludedProducts(result.products, excludedKeys, product => productMarketplace(marketplaceKey, product));
+      await storeRejectedProducts(
+        supabase,
+        baseline,
+        dropExcludedProducts(result.rejected ?? [], excludedKeys, product => productMarketplace(marketplaceKey, product)),
+        product => productMarketplace(marketplaceKey, product)
+      );
       
       const statusIcon = result.status === 'success' ? '✅' : result.status === 'timeout' ? '⏱️' : '❌';
       console.log(`${statusIcon} ${result.marketplace}: ${result.status} (${result.elapsed}ms)${result.products.length ? ` - ${result.products.length} products` : ''}`);
@@ -2922,14 +2253,15 @@ serve(async (req) => {
         const productRows = filteredProducts.map((product: ScrapedProduct, index: number) => ({
           baseline_id,
           merchant_id: baseline.merchant_id,
-          marketplace: marketplaceKey === 'google-shopping' && product.sourceStore && product.sourceStore !== 'Unknown'
-            ? product.sourceStore
-            : marketplaceKey === 'google-shopping' ? 'Google' : marketplaceKey,
+          marketplace: productMarketplace(marketplaceKey, product),
           product_name: product.name,
           price: product.price,
           similarity_score: product.similarity,
           price_ratio: product.priceRatio,
-          product_url: product.url,
+          product_url: product.url ?? null,
+          ai_decision: product.match?.decision ?? null,
+          ai_confidence: product.match?.confidence ?? null,
+          ai_reasoning: product.match?.reasoning ?? null,
           currency: baseline.currency,
           rank: index + 1,
           is_cached: false, // Fresh scrape
@@ -2943,6 +2275,10 @@ serve(async (req) => {
         if (productsError) {
           console.error(`   ❌ DB insert error for ${result.marketplace}:`, productsError);
         }
+
+        if (await recordPriceObservations(supabase, productRows, observedAt)) {
+          observationsRecorded = true;
+        }
         
         const highSimilarityProducts = result.products.filter((p: ScrapedProduct) => p.similarity >= 0.60);
         const prices = highSimilarityProducts.map((p: ScrapedProduct) => p.price);
@@ -2997,11 +2333,86 @@ serve(async (req) => {
     
     console.log(`${'='.repeat(60)}`);
 
+    // ========================================
+    // STEP 5: RE-SCRAPE PINNED LISTINGS
+    // ========================================
+    if (pinnedCurations.length > 0) {
+      console.log(`\n📌 Re-scraping ${pinnedCurations.length} pinned listing(s)...`);
+      const pinnedUrls = pinnedCurations.map(curation => curation.product_url);
+      
+      try {
+        const scraped = await withScrapeSlot(queueClient, `${baseline_id}:pinned`, 'pinned', () => scrapeProductUrls(
+          pinnedUrls,
+          regionAdapters,
+          baseline.current_price,
+          baseline.currency,
+          baseline.product_name,
+          baseline.cost_per_unit
+        ));
+        
+        const pinnedRows = [];
+        for (const [index, result] of scraped.entries()) {
+          const curation = pinnedCurations[index];
+          if (!result.product) {
+            console.log(`   ⚠️ Pinned listing returned no price: ${curation.product_url.slice(0, 60)}`);
+            continue;
+          }
+          
+          pinnedRows.push({
+            baseline_id,
+            merchant_id: baseline.merchant_id,
+            marketplace: curation.marketplace,
+            product_name: result.product.name,
+            price: result.product.price,
+            similarity_score: PINNED_SIMILARITY,
+            price_ratio: result.product.priceRatio,
+            product_url: curation.product_url,
+            currency: baseline.currency,
+            rank: index + 1,
+            is_cached: false,
+            cached_from_baseline_id: null
+          });
+          
+          await supabase
+            .from('competitor_curations')
+            .update({ last_price: result.product.price, last_scraped_at: observedAt, updated_at: new Date().toISOString() })
+            .eq('id', curation.id);
+        }
+        
+        if (pinnedRows.length > 0) {
+          // The same listing may also have come back from a search above; keep only the pinned copy
+          await supabase
+            .from('competitor_products')
+            .delete()
+            .eq('baseline_id', baseline_id)
+            .in('product_url', pinnedRows.map(row => row.product_url));
+          
+          const { error: pinnedError } = await supabase
+            .from('competitor_products')
+            .insert(pinnedRows);
+          
+          if (pinnedError) {
+            console.error('   ❌ DB insert error for pinned listings:', pinnedError);
+          } else {
+            foundValidProducts = true;
+          }
+          
+          if (await recordPriceObservations(supabase, pinnedRows, observedAt)) {
+            observationsRecorded = true;
+          }
+        }
+        console.log(`   ✅ ${pinnedRows.length}/${pinnedCurations.length} pinned listing(s) refreshed`);
+      } catch (pinnedError: any) {
+        console.log(`   ⚠️ Pinned listing scrape failed: ${pinnedError.message}`);
+      }
+    }
+
     // Count total valid products
     const { data: totalProducts } = await supabase
       .from('competitor_products')
       .select('id', { count: 'exact' })
-      .eq('baseline_id', baseline_id);
+      .eq('baseline_id', baseline_id)
+      .or('ai_decision.is.null,ai_decision.eq.match');
     
     const totalProductCount = totalProducts?.length || 0;
     console.log(`\n📊 Total products found across all marketplaces: ${totalProductCount}`);
@@ -3023,24 +2434,24 @@ serve(async (req) => {
       try {
         let googleProducts: ScrapedProduct[] = [];
         
-        const shoppingProducts = await scrapeGoogleShopping(
+        const shoppingProducts = await withScrapeSlot(queueClient, `${baseline_id}:google-fallback`, 'google-shopping', () => scrapeGoogleShopping(
           coreProductName,
           baseline.current_price,
           baseline.currency,
           baseline.product_name
-        );
+        ));
         
         if (shoppingProducts.length > 0) {
           console.log(`✓ Google Shopping found ${shoppingProducts.length} products`);
           googleProducts = shoppingProducts;
         } else {
           console.log(`⚠️ Google Shopping returned 0, trying regular SERP...`);
-          googleProducts = await scrapeGoogleSERP(
+          googleProducts = await withScrapeSlot(queueClient, `${baseline_id}:google-fallback`, 'google-serp', () => scrapeGoogleSERP(
             coreProductName,
             baseline.current_price,
             baseline.currency,
             baseline.product_name
-          );
+          ));
         }
         
         // Apply accessory filtering
@@ -3055,11 +2466,25 @@ serve(async (req) => {
           }
         }
         
-        // Model mismatch filtering
-        if (baseline.category === 'Electronics & Technology' && googleProducts.length > 0) {
-          const beforeModelFilter = googleProducts.length;
-          googleProducts = googleProducts.filter(product => !isModelMismatch(baseline.product_name, product.name));
-          console.log(`🔍 Google model filtering: ${beforeModelFilter} → ${googleProducts.length} products`);
+        // Variant filtering
+        if (googleProducts.length > 0) {
+          const beforeVariantFilter = googleProducts.length;
+          googleProducts = filterVariantMismatches(baseline, googleProducts, unitPriced);
+          console.log(`🔍 Google variant filtering: ${beforeVariantFilter} → ${googleProducts.length} products`);
+        }
+        
+        // AI validation for medium confidence products
+        const googleStore = (product: ScrapedProduct) =>
+          product.sourceStore && product.sourceStore !== 'Unknown' ? product.sourceStore : 'Unknown Store';
+        if (googleProducts.length > 0) {
+          let rejected: ScrapedProduct[];
+          ({ products: googleProducts, rejected } = await validateUncertainMatches(
+            queueClient,
+            baseline,
+            googleProducts,
+            product => product.sourceStore || 'google-shopping'
+          ));
+          await storeRejectedProducts(supabase, baseline, dropExcludedProducts(rejected, excludedKeys, googleStore), googleStore);
         }
         
         // Similarity threshold
@@ -3071,6 +2496,8 @@ serve(async (req) => {
           }
         }
         
+        googleProducts = dropExcludedProducts(googleProducts, excludedKeys, googleStore);
+        
         // Apply price outlier detection (5x from average)
         if (googleProducts.length >= 2) {
           googleProducts = filterLowestPriceOutliers(googleProducts);
@@ -3081,14 +2508,15 @@ serve(async (req) => {
           const productRows = googleProducts.map((product, index) => ({
             baseline_id,
             merchant_id: baseline.merchant_id,
-            marketplace: product.sourceStore && product.sourceStore !== 'Unknown'
-              ? product.sourceStore
-              : 'Unknown Store',
+            marketplace: googleStore(product),
             product_name: product.name,
             price: product.price,
             similarity_score: product.similarity,
             price_ratio: product.priceRatio,
-            product_url: product.url,
+            product_url: product.url ?? null,
+            ai_decision: product.match?.decision ?? null,
+            ai_confidence: product.match?.confidence ?? null,
+            ai_reasoning: product.match?.reasoning ?? null,
             currency: baseline.currency,
             rank: index + 1,
             is_cached: false, // Fresh scrape from Google fallback
@@ -3096,13 +2524,16 @@ serve(async (req) => {
           }));
           
           await supabase.from('competitor_products').insert(productRows);
-          
+          if (await recordPriceObservations(supabase, productRows, observedAt)) {
+            observationsRecorded = true;
+          }
+
           // Group products by normalized marketplace for aggregation
           const highSimilarityProducts = googleProducts.filter(p => p.similarity >= 0.60);
           const productsByMarketplace: Record<string, typeof highSimilarityProducts> = {};
           
           for (const product of highSimilarityProducts) {
-            const marketplace = normalizeStoreToMarketplace(product.sourceStore);
+            const marketplace = normalizeStoreToMarketplace(product.sourceStore, baseline.currency);
             if (!productsByMarketplace[marketplace]) {
               productsByMarketplace[marketplace] = [];
             }
@@ -3156,11 +2587,31 @@ serve(async (req) => {
       }
     }
 
+    // Check the merchant's alert rules against this run's prices
+    if (observationsRecorded) {
+      const { error: alertError } = await queueClient.functions.invoke('evaluate-price-alerts', {
+        body: { baseline_id, observed_at: observedAt }
+      });
+      
+      if (alertError) {
+        console.error('❌ Price alert evaluation error:', alertError);
+      }
+
+      // Candidate price from the merchant's repricing rules, shown beside the engine's
+      const { error: repricingError } = await queueClient.functions.invoke('evaluate-repricing-rules', {
+        body: { baseline_id, observed_at: observedAt }
+      });
+
+      if (repricingError) {
+        console.error('❌ Repricing rule evaluation error:', repricingError);
+      }
+    }
+
     // Final summary with caching info
     console.log(`\n${'='.repeat(60)}`);
     console.log(`📊 FINAL SUMMARY`);
     console.log(`${'='.repeat(60)}`);
-    console.log(`   Cached products used: ${cachedProducts.length}`);
+    console.log(`   Cached products used: ${cachedMatchCount}`);
     console.log(`   Fresh products scraped: ${scrapeResults.reduce((sum, r) => sum + r.products.length, 0)}`);
     console.log(`   Scraping strategy: ${shouldGoogleOnlyScrape ? 'Google-only gap-fill' : 'Full scraping'}`);
     console.log(`${'='.repeat(60)}`);
@@ -3171,7 +2622,7 @@ serve(async (req) => {
         baseline_id, 
         results,
         cache_info: {
-          cached_products_used: cachedProducts.length,
+          cached_products_used: cachedMatchCount,
           cache_source_baseline_id: cacheSourceBaselineId,
           scraping_strategy: shouldGoogleOnlyScrape ? 'google-only' : 'full'
         }
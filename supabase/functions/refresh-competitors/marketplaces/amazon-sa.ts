@@ -0,0 +1,41 @@
+import { MarketplaceAdapter } from './types.ts';
+
+export const amazonSa: MarketplaceAdapter = {
+  key: 'amazon',
+  name: 'Amazon.sa',
+  region: { country: 'sa', currency: 'SAR', domain: 'amazon.sa' },
+  discovery: 'search',
+  search: {
+    url: (query) => 'https://www.amazon.sa/s?k=' + encodeURIComponent(query),
+    renderJs: true,
+    wait: 6000,
+    blockResources: false,
+    blockAds: true,
+    // FIX 1: Wait for main search container AND stealth for Saudi site
+    waitForSelector: '#search,.s-result-list,.s-main-slot,.a-price',
+    useStealthProxy: true,
+    selectors: {
+      containers: [
+        '[data-component-type="s-search-result"]',
+        '.s-result-item[data-asin]:not([data-asin=""])',
+        'div[data-asin]:not([data-asin=""])',
+        '.s-search-results .s-result-item'
+      ],
+      productName: [
+        'h2 a span',
+        'h2.a-size-mini span',
+        '.a-size-medium.a-text-normal',
+        'h2 span.a-text-normal',
+        '[data-cy="title-recipe"] h2 span'
+      ],
+      price: [
+        '.a-price-whole',
+        'span.a-price > span.a-offscreen',
+        '.a-price .a-price-whole',
+        'span[data-a-color="price"]',
+        '.a-price-range .a-price .a-offscreen'
+      ]
+    }
+  },
+  storeNamePattern: /amazon/i
+};
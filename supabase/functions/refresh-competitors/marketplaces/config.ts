@@ -0,0 +1,101 @@
+// ========================================
+// MARKETPLACE CONFIG OVERRIDES
+// ========================================
+// Admin-editable settings from the marketplace_configs table, applied on top of
+// the adapters at run time. NULL columns keep the adapter's own value.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { ANY_REGION, MarketplaceAdapter } from './types.ts';
+
+export interface MarketplaceConfigRow {
+  key: string;
+  country_code: string;
+  enabled: boolean;
+  google_first: boolean;
+  use_stealth_proxy: boolean;
+  wait_ms: number | null;
+  wait_for_selector: string | null;
+  container_selectors: string[] | null;
+  name_selectors: string[] | null;
+  price_selectors: string[] | null;
+  product_page_wait_for: string | null;
+  product_page_price_selectors: string[] | null;
+  scrape_providers: string[] | null;
+}
+
+/**
+ * Load marketplace configs by key. A failed lookup returns no overrides,
+ * so a scrape still runs with the built-in adapters.
+ */
+export async function loadMarketplaceConfigs(client: SupabaseClient): Promise<Map<string, MarketplaceConfigRow>> {
+  const configs = new Map<string, MarketplaceConfigRow>();
+
+  const { data, error } = await client
+    .from('marketplace_configs')
+    .select('key, country_code, enabled, google_first, use_stealth_proxy, wait_ms, wait_for_selector, container_selectors, name_selectors, price_selectors, product_page_wait_for, product_page_price_selectors, scrape_providers');
+
+  if (error) {
+    console.log(`   ⚠️ Marketplace config lookup failed, using built-in settings: ${error.message}`);
+    return configs;
+  }
+
+  for (const row of (data || []) as MarketplaceConfigRow[]) {
+    configs.set(row.key, row);
+  }
+  return configs;
+}
+
+// An empty list would match or try nothing, so treat it like NULL
+const listOr = (override: string[] | null, fallback: string[]): string[] =>
+  override && override.length > 0 ? override : fallback;
+
+/**
+ * Apply a config row to an adapter
+ * @returns The configured adapter, or null when the marketplace is disabled
+ */
+export function applyMarketplaceConfig(adapter: MarketplaceAdapter, config?: MarketplaceConfigRow): MarketplaceAdapter | null {
+  if (!config) return adapter;
+  if (!config.enabled) return null;
+
+  // Google Shopping has its own scraper; only the enabled flag applies
+  if (adapter.discovery === 'google-shopping') return adapter;
+
+  return {
+    ...adapter,
+    providers: listOr(config.scrape_providers, adapter.providers || []),
+    discovery: config.google_first ? 'google-first' : 'search',
+    search: {
+      ...adapter.search,
+      wait: config.wait_ms ?? adapter.search.wait,
+      waitForSelector: config.wait_for_selector ?? adapter.search.waitForSelector,
+      useStealthProxy: config.use_stealth_proxy,
+      countryCode: config.country_code && config.country_code !== ANY_REGION ? config.country_code : adapter.search.countryCode,
+      selectors: {
+        containers: listOr(config.container_selectors, adapter.search.selectors.containers),
+        productName: listOr(config.name_selectors, adapter.search.selectors.productName),
+        price: listOr(config.price_selectors, adapter.search.selectors.price)
+      }
+    },
+    productPage: {
+      ...adapter.productPage,
+      waitForSelector: config.product_page_wait_for ?? adapter.productPage?.waitForSelector,
+      priceSelectors: listOr(config.product_page_price_selectors, adapter.productPage?.priceSelectors || [])
+    }
+  };
+}
+
+/**
+ * Apply configs to a list of adapters, dropping disabled marketplaces
+ */
+export function configureMarketplaces(adapters: MarketplaceAdapter[], configs: Map<string, MarketplaceConfigRow>): MarketplaceAdapter[] {
+  const configured: MarketplaceAdapter[] = [];
+  for (const adapter of adapters) {
+    const result = applyMarketplaceConfig(adapter, configs.get(adapter.key));
+    if (result) {
+      configured.push(result);
+    } else {
+      console.log(`   ⏭️ ${adapter.name} disabled in marketplace settings`);
+    }
+  }
+  return configured;
+}
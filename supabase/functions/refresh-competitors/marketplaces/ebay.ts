@@ -0,0 +1,36 @@
+import { MarketplaceAdapter } from './types.ts';
+
+export const ebay: MarketplaceAdapter = {
+  key: 'ebay',
+  name: 'eBay',
+  region: { country: 'us', currency: 'USD', domain: 'ebay.com' },
+  discovery: 'search',
+  search: {
+    url: (query) => 'https://www.ebay.com/sch/i.html?_nkw=' + encodeURIComponent(query),
+    renderJs: true,
+    wait: 3000,
+    blockResources: false,
+    blockAds: true,
+    selectors: {
+      containers: [
+        'li.s-item',
+        'div.s-item__wrapper',
+        'div.srp-results li',
+        'li[data-view]',
+        'div.s-item'
+      ],
+      productName: [
+        'div.s-item__title',
+        'h3.s-item__title',
+        '.s-item__title span'
+      ],
+      price: [
+        'span.s-item__price',
+        'span.POSITIVE',
+        '.s-item__price',
+        'span[class*="price"]'
+      ]
+    }
+  },
+  storeNamePattern: /ebay/i
+};
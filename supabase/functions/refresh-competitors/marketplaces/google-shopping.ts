@@ -0,0 +1,80 @@
+import { ANY_REGION, MarketplaceAdapter } from './types.ts';
+
+// Google Shopping is searched for every region; it also discovers stores we don't scrape directly
+export const googleShopping: MarketplaceAdapter = {
+  key: 'google-shopping',
+  name: 'Google Shopping',
+  region: { country: ANY_REGION, currency: ANY_REGION, domain: 'google.com' },
+  discovery: 'google-shopping',
+  search: {
+    url: (query) => 'https://www.google.com/search?tbm=shop&q=' + encodeURIComponent(query),
+    renderJs: true,
+    wait: 7000, // Increased wait time for dynamic content
+    blockResources: false, // Don't block resources for better rendering
+    blockAds: true,
+    waitForSelector: 'h3,div[data-docid],[data-pcu],div[jsdata],[role="heading"],div[data-ved]',
+    useStealthProxy: true,
+    selectors: {
+      // FIX 3: ROBUST structural selectors - prioritize stable data attributes over class names
+      containers: [
+        // Primary structural selectors (most stable - data attributes)
+        '[data-pcu]',                           // Google product card unit
+        'div[data-docid]',                      // Product with document ID
+        'div[jsdata]',                          // Dynamic content containers
+        'div[data-async-context]',              // Async product cards
+        'div[data-ved]',                        // Google tracking data attribute
+        'div[data-idx]',                        // Index-based product containers
+        // Shopping-specific patterns
+        'div.sh-dgr__grid-result',              // Shopping grid items
+        'div.sh-dlr__list-result',              // Shopping list items
+        '.sh-dgr__content',                     // Shopping content container
+        'div[data-sh-pr]',                      // Shopping product container
+        '.sh-pr__product-results-grid > div',   // Direct children of results grid
+        // Semantic HTML patterns (stable)
+        'article[data-docid]',                  // Article with product ID
+        'section[data-idx]',                    // Section with index
+        // Fallback structural patterns
+        'div:has(h3):has(span[aria-label])',    // Has heading and price aria-label
+        'div:has([role="heading"]):has(a[href*="url?q="])', // Has heading and shopping link
+        'div:has(h3):has(b)'                    // Has heading and bold (price)
+      ],
+      productName: [
+        // Semantic/accessibility selectors (stable)
+        '[role="heading"]',
+        'h3',
+        'h4',
+        'a[aria-label]',                        // Title in link aria-label
+        // Data attribute selectors
+        '[data-snhf="0"]',                      // Google product title marker
+        '[data-name]',                          // Name data attribute
+        // Structural patterns
+        'a > div:first-child',                  // First div in link
+        'a[href*="url?q="] > *:first-child',    // First child of shopping link
+        // Class-based fallbacks (may break)
+        '.sh-np__product-title',
+        '[class*="title"]'
+      ],
+      price: [
+        // FIX 3: Currency-aware aria-label selectors (most reliable)
+        'span[aria-label*="SAR"]',
+        'span[aria-label*="ريال"]',
+        'span[aria-label*="SR "]',
+        'span[aria-label*="price"]',
+        'span[aria-label*="$"]',
+        // Data attribute selectors
+        '[data-price]',
+        '[data-value]',
+        // Structural patterns (stable)
+        'span > b',                             // Bold inside span (common for price)
+        'div > b:first-child',                  // First bold in div
+        'b:first-of-type',                      // First bold element
+        // Shopping-specific classes (may change)
+        '.a8Pemb',
+        '.kHxwFf',
+        'span[class*="price"]',
+        // Last resort
+        'b'
+      ]
+    }
+  }
+};
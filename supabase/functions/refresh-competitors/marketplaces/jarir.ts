@@ -0,0 +1,84 @@
+import { MarketplaceAdapter } from './types.ts';
+
+export const jarir: MarketplaceAdapter = {
+  key: 'jarir',
+  name: 'Jarir',
+  region: { country: 'sa', currency: 'SAR', domain: 'jarir.com' },
+  discovery: 'google-first',
+  search: {
+    url: (query) => 'https://www.jarir.com/sa-en/catalogsearch/result/?q=' + encodeURIComponent(query),
+    renderJs: true,
+    wait: 6000, // Increased wait time
+    blockResources: false,
+    blockAds: true,
+    // FIX 3: Wait for Magento price elements with more options
+    waitForSelector: '.price-box .price,span[data-price-amount],[data-price-type="finalPrice"],.product-price,.product-info-price',
+    useStealthProxy: true,
+    selectors: {
+      containers: [
+        // Magento-specific selectors
+        '.product-items .product-item',
+        '.products.list .product-item',
+        'li.product-item',
+        'div.product-item-info',
+        'div.products-grid .item',
+        'ol.products.list .item',
+        'div[data-product-sku]',
+        'article.product',
+        // Jarir-specific selectors
+        '.product-card',
+        '.product-listing-item',
+        '[data-product-id]',
+        'a[href*="/product/"]',
+        'div:has(a[href]):has(.price)',
+        'div[class*="product"]'
+      ],
+      productName: [
+        '.product-item-info .product-item-link',
+        'a.product-item-link',
+        '.product-item-name a',
+        '.product.name a',
+        'h2.product-name a',
+        'span.product-item-link',
+        'a[class*="product-name"]',
+        '.product-title',
+        '.product-card__title',
+        'a[href*="/product/"]',
+        'h2 a', 'h3 a',
+        'h1' // Product detail page
+      ],
+      price: [
+        // Magento price selectors
+        '.price-box .price',
+        'span[data-price-amount]',
+        '[data-price-type="finalPrice"] .price',
+        '.price-wrapper .price',
+        '.price-final_price .price',
+        'span.price',
+        'span[class*="price-value"]',
+        'div.price-box span.price',
+        'span[data-price-type="finalPrice"]',
+        'span.special-price span.price',
+        '.final-price',
+        '.sale-price',
+        // Jarir-specific selectors
+        '.product-price',
+        '.product-info-price .price',
+        '[class*="price"] span',
+        'strong'
+      ]
+    }
+  },
+  productPage: {
+    waitForSelector: '.price-box,.price,[data-price-amount],.product-info-price',
+    // Magento price markup
+    priceSelectors: [
+      '.price-box .price',
+      '[data-price-amount]',
+      '.price-final_price .price',
+      'span[data-price-type="finalPrice"]',
+      '.product-info-price .price'
+    ]
+  },
+  storeNamePattern: /jarir/i
+};
@@ -0,0 +1,74 @@
+import { MarketplaceAdapter } from './types.ts';
+
+export const noon: MarketplaceAdapter = {
+  key: 'noon',
+  name: 'Noon',
+  region: { country: 'sa', currency: 'SAR', domain: 'noon.com' },
+  discovery: 'google-first',
+  search: {
+    url: (query) => 'https://www.noon.com/saudi-en/search?q=' + encodeURIComponent(query),
+    renderJs: true,
+    wait: 7000,
+    blockResources: false,
+    blockAds: true,
+    // FIX 3: Wait for PRICE elements, not just containers
+    waitForSelector: '[data-qa="product-price"],.priceNow,[class*="price"],[class*="Price"]',
+    useStealthProxy: true,
+    selectors: {
+      containers: [
+        'div[data-qa="product-card"]',
+        'div[class*="productCard"]',
+        'div[class*="ProductCard_"]',
+        '[data-testid="search-product-item"]',
+        'div[data-component="ProductBox"]',
+        'div[data-qa-id="grid-view-item"]',
+        'article[data-component]',
+        '[data-qa="product-tile"]',
+        'div.productContainer',
+        'article[data-qa="product-tile"]',
+        '.grid > div[class*="product"]',
+        'div[class*="ProductBox"]',
+        'div[data-qa="product-item"]',
+        'a[href*="/product/"]',
+        'div:has(a[href*="/product/"]):has([class*="price"])',
+        'article'
+      ],
+      productName: [
+        '[data-qa="product-title"]',
+        'span[class*="productTitle"]',
+        'h2[class*="title"]',
+        '[data-qa="product-name"]',
+        'div[class*="productTitle"]',
+        'h3[class*="productTitle"]',
+        'span[data-qa="product-name"]',
+        '[class*="title"]',
+        '.productContainer h2',
+        'a[href*="/product/"] span',
+        'div > a:first-child',
+        'h2', 'h3', 'h4',
+        '[class*="name"]'
+      ],
+      price: [
+        '[data-qa="product-price"] span',
+        'span[class*="priceNow"]',
+        'span[class*="Price_now"]',
+        'strong[class*="amount"]',
+        '[data-qa="product-price"]',
+        'div[class*="price"] strong',
+        'span[class*="price"]',
+        '[class*="priceNow"]',
+        '[class*="price"] span:first-child',
+        'strong',
+        '.sellingPrice'
+      ]
+    }
+  },
+  productPage: {
+    priceSelectors: [
+      '[class*="priceNow"]',
+      'span[class*="Price_now"]',
+      'strong[class*="amount"]'
+    ]
+  },
+  storeNamePattern: /noon/i
+};
@@ -0,0 +1,86 @@
+// ========================================
+// MARKETPLACE REGISTRY
+// ========================================
+// Adapters are listed in scrape order. To add a store, write an adapter module
+// next to this file and add it to ADAPTERS.
+
+import { ANY_REGION, MarketplaceAdapter } from './types.ts';
+import { googleShopping } from './google-shopping.ts';
+import { amazonSa } from './amazon-sa.ts';
+import { noon } from './noon.ts';
+import { extra } from './extra.ts';
+import { jarir } from './jarir.ts';
+import { amazonUs } from './amazon-us.ts';
+import { walmart } from './walmart.ts';
+import { ebay } from './ebay.ts';
+import { target } from './target.ts';
+
+const ADAPTERS: MarketplaceAdapter[] = [
+  googleShopping,
+  amazonSa,
+  noon,
+  extra,
+  jarir,
+  amazonUs,
+  walmart,
+  ebay,
+  target
+];
+
+// Where a baseline's currency is sold when no country is given
+const DEFAULT_COUNTRY_BY_CURRENCY: Record<string, string> = {
+  SAR: 'sa',
+  USD: 'us'
+};
+
+const regionKey = (country: string, currency: string) => `${country}:${currency}`;
+
+const ADAPTERS_BY_KEY = new Map<string, MarketplaceAdapter>(ADAPTERS.map(adapter => [adapter.key, adapter]));
+
+const ADAPTERS_BY_REGION = new Map<string, MarketplaceAdapter[]>();
+for (const adapter of ADAPTERS) {
+  const key = regionKey(adapter.region.country, adapter.region.currency);
+  ADAPTERS_BY_REGION.set(key, [...(ADAPTERS_BY_REGION.get(key) || []), adapter]);
+}
+
+export function countryForCurrency(currency: string): string {
+  return DEFAULT_COUNTRY_BY_CURRENCY[currency] || 'us';
+}
+
+export function getMarketplaceAdapter(key: string): MarketplaceAdapter | undefined {
+  return ADAPTERS_BY_KEY.get(key);
+}
+
+/**
+ * Marketplaces to scrape for a region: global ones (Google Shopping) first,
+ * then the stores registered for that country and currency
+ */
+export function getRegionAdapters(currency: string, country: string = countryForCurrency(currency)): MarketplaceAdapter[] {
+  return [
+    ...(ADAPTERS_BY_REGION.get(regionKey(ANY_REGION, ANY_REGION)) || []),
+    ...(ADAPTERS_BY_REGION.get(regionKey(country, currency)) || [])
+  ];
+}
+
+/**
+ * Match a store name reported by Google Shopping to one of the region's adapters
+ */
+export function findAdapterByStoreName(storeName: string, currency: string): MarketplaceAdapter | undefined {
+  return getRegionAdapters(currency).find(adapter => adapter.storeNamePattern?.test(storeName));
+}
+
+/**
+ * Adapter for a product page URL pasted by a user, matched on the store's domain
+ */
+export function findAdapterByUrl(url: string, adapters: MarketplaceAdapter[] = ADAPTERS): MarketplaceAdapter | undefined {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+  return adapters.find(adapter =>
+    adapter.discovery !== 'google-shopping' &&
+    (hostname === adapter.region.domain || hostname.endsWith(`.${adapter.region.domain}`))
+  );
+}
@@ -0,0 +1,36 @@
+import { MarketplaceAdapter } from './types.ts';
+
+export const target: MarketplaceAdapter = {
+  key: 'target',
+  name: 'Target',
+  region: { country: 'us', currency: 'USD', domain: 'target.com' },
+  discovery: 'search',
+  search: {
+    url: (query) => 'https://www.target.com/s?searchTerm=' + encodeURIComponent(query),
+    renderJs: true,
+    wait: 3500,
+    blockResources: false,
+    blockAds: true,
+    selectors: {
+      containers: [
+        'div[data-test="@web/site-top-of-funnel/ProductCardWrapper"]',
+        'div[data-test="product-card"]',
+        'article[class*="styles__StyledProductCard"]',
+        'div[class*="ProductCard"]'
+      ],
+      productName: [
+        'a[data-test="product-title"]',
+        '[data-test="product-title"]',
+        'div[data-test="product-title"] a',
+        'h3 a',
+        'a[class*="Link__StyledLink"]'
+      ],
+      price: [
+        'span[data-test="current-price"]',
+        'span[data-test="product-price"]',
+        '[data-test="product-price"] span'
+      ]
+    }
+  },
+  storeNamePattern: /target/i
+};
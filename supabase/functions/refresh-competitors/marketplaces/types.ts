@@ -0,0 +1,61 @@
+// ========================================
+// MARKETPLACE ADAPTER INTERFACE
+// ========================================
+
+// Region wildcard for marketplaces searched everywhere (Google Shopping)
+export const ANY_REGION = '*';
+
+export interface MarketplaceRegion {
+  country: string;  // ScrapingBee country_code, e.g. 'sa'
+  currency: string; // Baseline currency this marketplace prices in, e.g. 'SAR'
+  domain: string;   // Used for Google-first site: searches
+}
+
+export interface SearchSelectors {
+  containers: string[];
+  productName: string[];
+  price: string[];
+}
+
+export interface ParsedPrice {
+  price: number;
+  confidence: number;
+}
+
+/**
+ * Everything refresh-competitors needs to know about one store.
+ * Adding a marketplace means writing one adapter module and listing it in registry.ts.
+ */
+export interface MarketplaceAdapter {
+  // Stable key stored in competitor_prices.marketplace and marketplace_backoff
+  key: string;
+  name: string;
+  region: MarketplaceRegion;
+  // 'search' scrapes the results page, 'google-first' finds a product page via Google
+  // (for stores that block search scraping), 'google-shopping' uses the Google Shopping scraper
+  discovery: 'search' | 'google-first' | 'google-shopping';
+  search: {
+    url: (query: string) => string;
+    renderJs: boolean;
+    wait: number;
+    blockResources: boolean;
+    blockAds: boolean;
+    waitForSelector?: string;
+    useStealthProxy?: boolean;
+    // ScrapingBee proxy country when it differs from region.country
+    countryCode?: string;
+    selectors: SearchSelectors;
+  };
+  // Product detail pages; tried before the generic selectors
+  productPage?: {
+    waitForSelector?: string;
+    titleSelectors?: string[];
+    priceSelectors?: string[];
+  };
+  // Scrape providers to try in order (see _shared/scraping); SCRAPE_PROVIDERS when absent
+  providers?: string[];
+  // Matches the store name Google Shopping reports, so those results merge with ours
+  storeNamePattern?: RegExp;
+  // Store-specific price parsing; the shared extractPrice is used when absent
+  parsePrice?: (text: string, currency: string, productName?: string) => ParsedPrice | null;
+}
@@ -0,0 +1,37 @@
+import { MarketplaceAdapter } from './types.ts';
+
+export const walmart: MarketplaceAdapter = {
+  key: 'walmart',
+  name: 'Walmart',
+  region: { country: 'us', currency: 'USD', domain: 'walmart.com' },
+  discovery: 'search',
+  search: {
+    url: (query) => 'https://www.walmart.com/search?q=' + encodeURIComponent(query),
+    renderJs: true,
+    wait: 3500,
+    blockResources: false,
+    blockAds: true,
+    selectors: {
+      containers: [
+        'div[data-item-id]',
+        '[data-testid="list-view"]',
+        'div[class*="search-result"]',
+        '[data-testid="item-stack"]',
+        'div[class*="mb0 ph1 pa0-xl"]',
+        'article[class*="search"]'
+      ],
+      productName: [
+        'span[data-automation-id="product-title"]',
+        'a[link-identifier]',
+        'span[data-automation-id="product-name"]'
+      ],
+      price: [
+        'span[itemprop="price"]',
+        'div[data-automation-id="product-price"] span',
+        '[data-automation-id="product-price"]',
+        'span[class*="price"]'
+      ]
+    }
+  },
+  storeNamePattern: /walmart/i
+};
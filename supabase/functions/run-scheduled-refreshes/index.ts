@@ -0,0 +1,119 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_SCHEDULES_PER_RUN = 50; // Anything beyond this is picked up by the next cron tick
+
+// Invoked by pg_cron every 15 minutes with the service role key. Queues a pricing
+// job (competitor refresh + price recalculation) for every schedule that is due,
+// then wakes a worker, which also picks up retries and jobs whose worker died.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const now = new Date();
+
+    const { data: dueSchedules, error: dueError } = await supabase
+      .from('refresh_schedules')
+      .select('id, baseline_id, interval_hours, product_baselines!inner(deleted_at)')
+      .eq('enabled', true)
+      .is('product_baselines.deleted_at', null)
+      .lte('next_run_at', now.toISOString())
+      .order('next_run_at', { ascending: true })
+      .limit(MAX_SCHEDULES_PER_RUN);
+
+    if (dueError) throw dueError;
+
+    console.log(`⏰ ${dueSchedules?.length || 0} refresh schedules due`);
+
+    let queued = 0;
+    let skipped = 0;
+
+    for (const schedule of dueSchedules || []) {
+      const nextRunAt = new Date(now.getTime() + schedule.interval_hours * 60 * 60 * 1000);
+
+      // Don't stack a second job on a baseline that is still being processed
+      const { data: activeJob } = await supabase
+        .from('processing_status')
+        .select('id')
+        .eq('baseline_id', schedule.baseline_id)
+        .in('status', ['pending', 'processing'])
+        .limit(1)
+        .maybeSingle();
+
+      if (activeJob) {
+        console.log(`⏭️ Baseline ${schedule.baseline_id} already has job ${activeJob.id}, skipping`);
+        skipped++;
+      } else {
+        const { error: queueError } = await supabase.from('processing_status').insert({
+          baseline_id: schedule.baseline_id,
+          job_type: 'process_pricing',
+          triggered_by: 'schedule',
+          status: 'pending',
+          current_step: 'queued'
+        });
+
+        if (queueError) {
+          console.error(`❌ Failed to queue baseline ${schedule.baseline_id}:`, queueError.message);
+          continue;
+        }
+        queued++;
+      }
+
+      await supabase.from('refresh_schedules')
+        .update({
+          last_run_at: now.toISOString(),
+          next_run_at: nextRunAt.toISOString(),
+          updated_at: now.toISOString()
+        })
+        .eq('id', schedule.id);
+    }
+
+    // Wake a process-pricing worker even when nothing new was queued: retries
+    // and jobs left by a dead worker have no other trigger
+    const { error: processError } = await supabase.functions.invoke('process-pricing', {
+      body: { drain: true }
+    });
+
+    if (processError) {
+      console.error('❌ Process-pricing trigger error:', processError);
+    }
+
+    console.log(`✅ Scheduled refresh run: ${queued} queued, ${skipped} skipped`);
+
+    return new Response(
+      JSON.stringify({ success: true, queued, skipped }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('[Internal] Run-scheduled-refreshes error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to run scheduled refreshes' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
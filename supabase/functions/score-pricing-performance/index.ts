@@ -0,0 +1,102 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { scorePerformance } from '../_shared/pricing/calibration.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_RECORDS_PER_RUN = 500; // Anything beyond this is picked up by the next run
+
+// Invoked by pg_cron once a day (service role) and from the admin Performance tab
+// (an admin's session). Scores every pricing_performance row whose actuals were
+// reported (or changed) since the last run.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const authHeader = req.headers.get('Authorization') ?? '';
+    if (authHeader !== `Bearer ${supabaseServiceKey}`) {
+      const { data: { user } } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''));
+      const { data: roleData } = user
+        ? await supabase
+            .from('user_roles')
+            .select('role')
+            .eq('user_id', user.id)
+            .eq('role', 'admin')
+            .maybeSingle()
+        : { data: null };
+
+      if (!roleData) {
+        return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    const { data: pending, error: pendingError } = await supabase
+      .from('pricing_performance')
+      .select('id, predicted_sales, actual_sales, expected_monthly_profit, actual_profit')
+      .not('actual_sales', 'is', null)
+      .is('scored_at', null)
+      .order('created_at', { ascending: true })
+      .limit(MAX_RECORDS_PER_RUN);
+
+    if (pendingError) throw pendingError;
+
+    console.log(`🎯 ${pending?.length || 0} performance records to score`);
+
+    const scoredAt = new Date().toISOString();
+    let scored = 0;
+    let failed = 0;
+
+    for (const record of pending || []) {
+      const scores = scorePerformance({
+        predicted_sales: record.predicted_sales,
+        actual_sales: record.actual_sales,
+        expected_monthly_profit: record.expected_monthly_profit === null ? null : Number(record.expected_monthly_profit),
+        actual_profit: record.actual_profit === null ? null : Number(record.actual_profit)
+      });
+
+      const { error: updateError } = await supabase
+        .from('pricing_performance')
+        .update({ ...scores, scored_at: scoredAt })
+        .eq('id', record.id);
+
+      if (updateError) {
+        console.error(`❌ Failed to score ${record.id}:`, updateError.message);
+        failed++;
+        continue;
+      }
+      scored++;
+    }
+
+    console.log(`✅ Scoring run: ${scored} scored, ${failed} failed`);
+
+    return new Response(
+      JSON.stringify({ success: true, scored, failed }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('[Internal] Score-pricing-performance error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to score pricing performance' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,151 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_BATCH_SIZE = 500;
+
+const ProductSchema = z.object({
+  row: z.number().int().optional(),
+  product_name: z.string().min(1, 'Product name is required'),
+  category: z.string().min(1, 'Category is required'),
+  current_price: z.number().positive('Price must be positive'),
+  current_quantity: z.number().int().positive('Quantity must be positive'),
+  cost_per_unit: z.number().positive('Cost must be positive'),
+  currency: z.enum(['SAR', 'USD']),
+  base_elasticity: z.number(),
+}).refine(p => p.cost_per_unit < p.current_price, {
+  message: 'Cost per unit must be less than current price',
+  path: ['cost_per_unit'],
+});
+
+const RequestSchema = z.object({
+  products: z.array(ProductSchema).min(1, 'At least one product is required').max(MAX_BATCH_SIZE, `Maximum ${MAX_BATCH_SIZE} products per batch`),
+});
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    // Use service role to bypass RLS for both guest and authenticated users
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    // Check if user is authenticated (optional)
+    let merchantId: string | null = null;
+    const authHeader = req.headers.get('Authorization');
+
+    if (authHeader) {
+      const token = authHeader.replace('Bearer ', '');
+      const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+      if (!authError && user) {
+        merchantId = user.id;
+        console.log(`✅ Authenticated batch submission from user: ${user.email}`);
+      }
+    }
+
+    if (!merchantId) {
+      console.log('👤 Guest batch submission - no authentication');
+    }
+
+    // Parse and validate request body
+    const body = await req.json();
+    const validation = RequestSchema.safeParse(body);
+
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid input', details: validation.error.issues }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { products } = validation.data;
+
+    // Insert all product baselines in one statement (rows are returned in insert order)
+    const { data: insertedProducts, error: insertError } = await supabase
+      .from('product_baselines')
+      .insert(products.map(p => ({
+        merchant_id: merchantId, // null for guests, user.id for authenticated
+        product_name: p.product_name,
+        category: p.category,
+        current_price: p.current_price,
+        current_quantity: p.current_quantity,
+        cost_per_unit: p.cost_per_unit,
+        currency: p.currency,
+        base_elasticity: p.base_elasticity,
+      })))
+      .select('id');
+
+    if (insertError) {
+      console.error('Insert error:', insertError);
+      throw insertError;
+    }
+
+    const baselineIds: string[] = insertedProducts.map(p => p.id);
+    console.log(`📦 Batch created: ${baselineIds.length} products (${merchantId ? 'authenticated' : 'guest'})`);
+
+    // Queue one pricing job per baseline
+    const { error: queueError } = await supabase.from('processing_status').insert(baselineIds.map(id => ({
+      baseline_id: id,
+      job_type: 'process_pricing',
+      status: 'pending',
+      current_step: 'queued'
+    })));
+
+    if (queueError) {
+      console.error('Queue error:', queueError);
+      throw queueError;
+    }
+
+    // Wake a process-pricing worker; it drains the queue within the concurrency cap
+    const backgroundTask = (async () => {
+      const { error: processError } = await supabase.functions.invoke('process-pricing', {
+        body: { drain: true }
+      });
+
+      if (processError) {
+        // Jobs stay queued and are picked up by the next worker that runs
+        console.error('❌ Process-pricing trigger error:', processError);
+      }
+    })();
+
+    // Use EdgeRuntime.waitUntil if available
+    const edgeRuntime = (globalThis as { EdgeRuntime?: { waitUntil(promise: Promise<unknown>): void } }).EdgeRuntime;
+    if (edgeRuntime?.waitUntil) {
+      edgeRuntime.waitUntil(backgroundTask);
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        baselines: baselineIds.map((id, index) => ({
+          row: products[index].row ?? index + 1,
+          baseline_id: id,
+        })),
+        is_guest: merchantId === null
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('[Internal] Submit-batch error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to submit products' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
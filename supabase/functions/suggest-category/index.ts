@@ -1,27 +1,13 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { loadCategoryTaxonomy } from '../_shared/categories/taxonomy.ts';
+import { categoryOptions } from '../_shared/pricing/categories.ts';
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-const CATEGORIES = [
-  'Electronics',
-  'Fashion & Apparel',
-  'Home & Garden',
-  'Beauty & Personal Care',
-  'Sports & Outdoors',
-  'Toys & Games',
-  'Books & Media',
-  'Automotive',
-  'Grocery & Food',
-  'Health & Wellness',
-  'Office Supplies',
-  'Pet Supplies',
-  'Jewelry & Watches',
-  'Industrial & Scientific',
-];
-
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -46,12 +32,24 @@ serve(async (req) => {
       );
     }
 
-    const systemPrompt = `You are a product categorization expert. Given a product name, classify it into exactly ONE of these categories:
-${CATEGORIES.join(', ')}
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const taxonomy = await loadCategoryTaxonomy(supabase);
+    const descriptions = new Map(taxonomy.map(category => [category.name, category.description]));
+
+    // One line per category, indented under its parent, e.g. "  - Fragrances: Perfumes and colognes"
+    const categoryList = categoryOptions(taxonomy)
+      .map(option => {
+        const description = descriptions.get(option.name);
+        return `${'  '.repeat(option.depth)}- ${option.name}${description ? `: ${description}` : ''}`;
+      })
+      .join('\n');
+
+    const systemPrompt = `You are a product categorization expert. Given a product name, classify it into exactly ONE of these categories (subcategories are indented under their parent):
+${categoryList}
 
 Rules:
 - Return ONLY the category name, nothing else
-- Choose the most specific and accurate category
+- Choose the most specific and accurate category; prefer a subcategory when one fits
 - If truly uncertain, return "unknown"
 - Be confident - most products clearly fit one category`;
 
@@ -95,15 +93,16 @@ Rules:
     }
 
     const data = await response.json();
-    const suggestedCategory = data.choices?.[0]?.message?.content?.trim() || "unknown";
+    const answer = (data.choices?.[0]?.message?.content?.trim() || "unknown").replace(/^[-\s]+/, '');
 
-    // Validate that the category is in our list
-    const isValid = CATEGORIES.includes(suggestedCategory);
+    // Validate that the category is in the taxonomy (the model sometimes changes the case)
+    const match = categoryOptions(taxonomy).find(option => option.name.toLowerCase() === answer.toLowerCase());
 
     return new Response(
       JSON.stringify({
-        suggested_category: isValid ? suggestedCategory : null,
-        confidence: isValid ? "high" : "low",
+        suggested_category: match ? match.name : null,
+        category_path: match ? match.path : null,
+        confidence: match ? "high" : "low",
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
@@ -0,0 +1,182 @@
+-- Turn processing_status into a per-job queue record
+ALTER TABLE public.processing_status
+  ADD COLUMN job_type text NOT NULL DEFAULT 'process_pricing',
+  ADD COLUMN attempts integer NOT NULL DEFAULT 0,
+  ADD COLUMN max_attempts integer NOT NULL DEFAULT 3,
+  ADD COLUMN run_after timestamp with time zone NOT NULL DEFAULT now(),
+  ADD COLUMN locked_by text,
+  ADD COLUMN locked_at timestamp with time zone,
+  ADD COLUMN started_at timestamp with time zone,
+  ADD COLUMN finished_at timestamp with time zone,
+  ADD COLUMN created_at timestamp with time zone NOT NULL DEFAULT now();
+
+ALTER TABLE public.processing_status
+  ADD CONSTRAINT processing_status_job_type_check
+  CHECK (job_type = ANY (ARRAY['process_pricing'::text, 'refresh_competitors'::text]));
+
+-- Queue lookups: next runnable job and the latest job per baseline
+CREATE INDEX idx_processing_status_queue
+  ON public.processing_status (run_after, created_at)
+  WHERE status = 'pending';
+
+CREATE INDEX idx_processing_status_baseline_updated
+  ON public.processing_status (baseline_id, updated_at DESC);
+
+-- Claim the next runnable job. Jobs whose worker died (function restart or
+-- wall-clock limit) are handed back to the queue once their lock expires.
+CREATE OR REPLACE FUNCTION public.claim_processing_job(
+  _worker_id text,
+  _max_running integer DEFAULT 2,
+  _lock_timeout_seconds integer DEFAULT 600
+) RETURNS SETOF public.processing_status
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  running_count integer;
+BEGIN
+  -- Serialise claimers so the running cap holds across concurrent workers
+  PERFORM pg_advisory_xact_lock(hashtext('claim_processing_job'));
+
+  UPDATE public.processing_status
+  SET status = CASE WHEN attempts >= max_attempts THEN 'failed' ELSE 'pending' END,
+      error_message = 'Worker stopped before the job finished',
+      locked_by = NULL,
+      locked_at = NULL,
+      finished_at = CASE WHEN attempts >= max_attempts THEN now() ELSE NULL END,
+      updated_at = now()
+  WHERE status = 'processing'
+    AND COALESCE(locked_at, updated_at) < now() - make_interval(secs => _lock_timeout_seconds);
+
+  SELECT count(*) INTO running_count
+  FROM public.processing_status
+  WHERE status = 'processing';
+
+  IF running_count >= _max_running THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.processing_status
+  SET status = 'processing',
+      attempts = attempts + 1,
+      locked_by = _worker_id,
+      locked_at = now(),
+      started_at = COALESCE(started_at, now()),
+      updated_at = now()
+  WHERE id = (
+    SELECT id
+    FROM public.processing_status
+    WHERE status = 'pending'
+      AND run_after <= now()
+    ORDER BY run_after, created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+-- Global cap on concurrent ScrapingBee requests
+CREATE TABLE public.scrape_slots (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    holder text NOT NULL,
+    marketplace text NOT NULL,
+    acquired_at timestamp with time zone DEFAULT now() NOT NULL,
+    expires_at timestamp with time zone NOT NULL
+);
+
+ALTER TABLE public.scrape_slots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view scrape slots"
+ON public.scrape_slots FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.acquire_scrape_slot(
+  _holder text,
+  _marketplace text,
+  _limit integer,
+  _ttl_seconds integer DEFAULT 90
+) RETURNS uuid
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  active_count integer;
+  slot_id uuid;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('acquire_scrape_slot'));
+
+  -- Slots left behind by crashed scrapes expire on their own
+  DELETE FROM public.scrape_slots WHERE expires_at < now();
+
+  SELECT count(*) INTO active_count FROM public.scrape_slots;
+  IF active_count >= _limit THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.scrape_slots (holder, marketplace, expires_at)
+  VALUES (_holder, _marketplace, now() + make_interval(secs => _ttl_seconds))
+  RETURNING id INTO slot_id;
+
+  RETURN slot_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.release_scrape_slot(_slot_id uuid) RETURNS void
+    LANGUAGE sql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+  DELETE FROM public.scrape_slots WHERE id = _slot_id
+$$;
+
+-- Per-marketplace exponential backoff after timeouts and errors
+CREATE TABLE public.marketplace_backoff (
+    marketplace text NOT NULL PRIMARY KEY,
+    consecutive_failures integer DEFAULT 0 NOT NULL,
+    backoff_until timestamp with time zone,
+    last_error text,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.marketplace_backoff ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view marketplace backoff"
+ON public.marketplace_backoff FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.record_marketplace_result(
+  _marketplace text,
+  _success boolean,
+  _error text DEFAULT NULL,
+  _base_seconds integer DEFAULT 30,
+  _max_seconds integer DEFAULT 3600
+) RETURNS void
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  IF _success THEN
+    INSERT INTO public.marketplace_backoff (marketplace, consecutive_failures, backoff_until, last_error, updated_at)
+    VALUES (_marketplace, 0, NULL, NULL, now())
+    ON CONFLICT (marketplace) DO UPDATE
+    SET consecutive_failures = 0, backoff_until = NULL, last_error = NULL, updated_at = now();
+  ELSE
+    INSERT INTO public.marketplace_backoff (marketplace, consecutive_failures, backoff_until, last_error, updated_at)
+    VALUES (_marketplace, 1, now() + make_interval(secs => _base_seconds), _error, now())
+    ON CONFLICT (marketplace) DO UPDATE
+    SET consecutive_failures = marketplace_backoff.consecutive_failures + 1,
+        backoff_until = now() + make_interval(secs => LEAST(_max_seconds, _base_seconds * power(2, LEAST(marketplace_backoff.consecutive_failures, 16)))),
+        last_error = _error,
+        updated_at = now();
+  END IF;
+END;
+$$;
+
+-- Queue functions are only called by edge functions with the service role
+REVOKE EXECUTE ON FUNCTION public.claim_processing_job(text, integer, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.acquire_scrape_slot(text, text, integer, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_scrape_slot(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_marketplace_result(text, boolean, text, integer, integer) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,87 @@
+-- Per-baseline automatic competitor refresh schedule
+CREATE TABLE public.refresh_schedules (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    baseline_id uuid NOT NULL UNIQUE REFERENCES public.product_baselines(id) ON DELETE CASCADE,
+    merchant_id uuid NOT NULL,
+    frequency text NOT NULL,
+    interval_hours integer NOT NULL,
+    enabled boolean DEFAULT true NOT NULL,
+    next_run_at timestamp with time zone DEFAULT now() NOT NULL,
+    last_run_at timestamp with time zone,
+    last_success_at timestamp with time zone,
+    last_status text,
+    last_error text,
+    consecutive_failures integer DEFAULT 0 NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT refresh_schedules_frequency_check CHECK ((frequency = ANY (ARRAY['daily'::text, 'weekly'::text, 'custom'::text]))),
+    CONSTRAINT refresh_schedules_interval_check CHECK ((interval_hours >= 1 AND interval_hours <= 720)),
+    CONSTRAINT refresh_schedules_last_status_check CHECK ((last_status = ANY (ARRAY['success'::text, 'failed'::text])))
+);
+
+CREATE INDEX idx_refresh_schedules_due ON public.refresh_schedules (next_run_at) WHERE enabled;
+
+ALTER TABLE public.refresh_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Merchants can view their refresh schedules"
+ON public.refresh_schedules FOR SELECT
+TO authenticated
+USING (auth.uid() = merchant_id);
+
+CREATE POLICY "Merchants can create refresh schedules for their baselines"
+ON public.refresh_schedules FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = merchant_id
+  AND EXISTS (
+    SELECT 1
+    FROM public.product_baselines
+    WHERE product_baselines.id = refresh_schedules.baseline_id
+      AND product_baselines.merchant_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Merchants can update their refresh schedules"
+ON public.refresh_schedules FOR UPDATE
+TO authenticated
+USING (auth.uid() = merchant_id);
+
+CREATE POLICY "Merchants can delete their refresh schedules"
+ON public.refresh_schedules FOR DELETE
+TO authenticated
+USING (auth.uid() = merchant_id);
+
+CREATE POLICY "Admins can view all refresh schedules"
+ON public.refresh_schedules FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Record what started each job so scheduled runs can report back to their schedule
+ALTER TABLE public.processing_status
+  ADD COLUMN triggered_by text NOT NULL DEFAULT 'manual';
+
+ALTER TABLE public.processing_status
+  ADD CONSTRAINT processing_status_triggered_by_check
+  CHECK (triggered_by = ANY (ARRAY['manual'::text, 'schedule'::text]));
+
+-- Run the scheduler every 15 minutes. run-scheduled-refreshes only accepts the
+-- service role key; the project URL and key come from Vault, stored once per project:
+--   SELECT vault.create_secret('https://<project ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'run-scheduled-refreshes',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/run-scheduled-refreshes',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
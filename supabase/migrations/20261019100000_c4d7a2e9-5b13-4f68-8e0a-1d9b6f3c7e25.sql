@@ -0,0 +1,60 @@
+-- Append-only history of every competitor listing price we have scraped.
+-- competitor_products / competitor_prices only hold the latest run; this table keeps all of them.
+CREATE TABLE public.competitor_price_observations (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    baseline_id uuid NOT NULL REFERENCES public.product_baselines(id) ON DELETE CASCADE,
+    merchant_id uuid,
+    marketplace text NOT NULL,
+    product_url text,
+    product_name text NOT NULL,
+    -- A listing is its URL on a marketplace; fall back to the title when the scraper found no URL
+    listing_key text GENERATED ALWAYS AS (marketplace || '|' || COALESCE(product_url, lower(product_name))) STORED,
+    price numeric NOT NULL,
+    currency text NOT NULL,
+    similarity_score numeric,
+    -- Every observation from one refresh run shares the run's start time
+    observed_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT competitor_price_observations_price_check CHECK ((price > 0))
+);
+
+CREATE INDEX idx_price_observations_baseline_time ON public.competitor_price_observations (baseline_id, observed_at);
+CREATE INDEX idx_price_observations_listing ON public.competitor_price_observations (baseline_id, listing_key, observed_at);
+
+ALTER TABLE public.competitor_price_observations ENABLE ROW LEVEL SECURITY;
+
+-- No UPDATE or DELETE policies: observations are never rewritten
+CREATE POLICY "Users can view price history for their or shared baselines"
+ON public.competitor_price_observations FOR SELECT
+TO authenticated
+USING (
+  auth.uid() = merchant_id
+  OR EXISTS (
+    SELECT 1
+    FROM public.baseline_shares
+    WHERE baseline_shares.baseline_id = competitor_price_observations.baseline_id
+      AND baseline_shares.shared_with_user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can record price history for their baselines"
+ON public.competitor_price_observations FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = merchant_id);
+
+CREATE POLICY "Admins can view all price history"
+ON public.competitor_price_observations FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Allow anon to view guest price history"
+ON public.competitor_price_observations FOR SELECT
+TO anon
+USING (merchant_id IS NULL);
+
+-- Seed the history with the listings we still have from each baseline's latest run
+INSERT INTO public.competitor_price_observations
+    (baseline_id, merchant_id, marketplace, product_url, product_name, price, currency, similarity_score, observed_at)
+SELECT baseline_id, merchant_id, marketplace, product_url, product_name, price, currency, similarity_score, COALESCE(created_at, now())
+FROM public.competitor_products
+WHERE COALESCE(is_cached, false) = false
+  AND price > 0;
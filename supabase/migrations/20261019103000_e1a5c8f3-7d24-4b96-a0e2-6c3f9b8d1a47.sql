@@ -0,0 +1,94 @@
+-- Merchant-defined alert rules, evaluated after every competitor refresh
+CREATE TABLE public.price_alert_rules (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    baseline_id uuid NOT NULL REFERENCES public.product_baselines(id) ON DELETE CASCADE,
+    merchant_id uuid NOT NULL,
+    rule_type text NOT NULL,
+    -- Price for competitor_below, percent for market_average_change, unused for above_market_highest
+    threshold numeric,
+    enabled boolean DEFAULT true NOT NULL,
+    email_enabled boolean DEFAULT true NOT NULL,
+    last_triggered_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT price_alert_rules_type_check CHECK ((rule_type = ANY (ARRAY['competitor_below'::text, 'market_average_change'::text, 'above_market_highest'::text]))),
+    CONSTRAINT price_alert_rules_threshold_check CHECK ((rule_type = 'above_market_highest' OR (threshold IS NOT NULL AND threshold > 0)))
+);
+
+CREATE INDEX idx_price_alert_rules_baseline ON public.price_alert_rules (baseline_id) WHERE enabled;
+
+ALTER TABLE public.price_alert_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Merchants can view their alert rules"
+ON public.price_alert_rules FOR SELECT
+TO authenticated
+USING (auth.uid() = merchant_id);
+
+CREATE POLICY "Merchants can create alert rules for their baselines"
+ON public.price_alert_rules FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = merchant_id
+  AND EXISTS (
+    SELECT 1
+    FROM public.product_baselines
+    WHERE product_baselines.id = price_alert_rules.baseline_id
+      AND product_baselines.merchant_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Merchants can update their alert rules"
+ON public.price_alert_rules FOR UPDATE
+TO authenticated
+USING (auth.uid() = merchant_id);
+
+CREATE POLICY "Merchants can delete their alert rules"
+ON public.price_alert_rules FOR DELETE
+TO authenticated
+USING (auth.uid() = merchant_id);
+
+CREATE POLICY "Admins can view all alert rules"
+ON public.price_alert_rules FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Alerts raised by a rule; written by the evaluate-price-alerts function
+CREATE TABLE public.price_alerts (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    rule_id uuid NOT NULL REFERENCES public.price_alert_rules(id) ON DELETE CASCADE,
+    baseline_id uuid NOT NULL REFERENCES public.product_baselines(id) ON DELETE CASCADE,
+    merchant_id uuid NOT NULL,
+    rule_type text NOT NULL,
+    message text NOT NULL,
+    -- Listings that changed since the previous refresh: [{listing_key, marketplace, product_name, product_url, previous_price, current_price, change_percent, change}]
+    digest jsonb DEFAULT '[]'::jsonb NOT NULL,
+    observed_at timestamp with time zone NOT NULL,
+    email_status text DEFAULT 'pending' NOT NULL,
+    emailed_at timestamp with time zone,
+    email_error text,
+    acknowledged_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT price_alerts_email_status_check CHECK ((email_status = ANY (ARRAY['pending'::text, 'sent'::text, 'failed'::text, 'skipped'::text])))
+);
+
+CREATE INDEX idx_price_alerts_merchant_open ON public.price_alerts (merchant_id, created_at DESC) WHERE acknowledged_at IS NULL;
+-- One alert per rule per refresh run, so a retried evaluation can't double-notify
+CREATE UNIQUE INDEX idx_price_alerts_rule_run ON public.price_alerts (rule_id, observed_at);
+
+ALTER TABLE public.price_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Merchants can view their alerts"
+ON public.price_alerts FOR SELECT
+TO authenticated
+USING (auth.uid() = merchant_id);
+
+-- Merchants only dismiss alerts (acknowledged_at); everything else is written by the service role
+CREATE POLICY "Merchants can acknowledge their alerts"
+ON public.price_alerts FOR UPDATE
+TO authenticated
+USING (auth.uid() = merchant_id);
+
+CREATE POLICY "Admins can view all alerts"
+ON public.price_alerts FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
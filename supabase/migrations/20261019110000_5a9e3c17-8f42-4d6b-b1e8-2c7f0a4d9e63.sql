@@ -0,0 +1,377 @@
+-- Scraping settings for each marketplace adapter in refresh-competitors.
+-- The adapters in code remain the defaults: a NULL column (or a missing row) falls back to them,
+-- so admins can fix selectors without a redeploy. Keys must match an adapter key.
+CREATE TABLE public.marketplace_configs (
+    key text NOT NULL PRIMARY KEY,
+    name text NOT NULL,
+    -- ScrapingBee proxy country_code; '*' for Google Shopping, which follows the baseline's region
+    country_code text NOT NULL,
+    currency text NOT NULL,
+    sort_order integer DEFAULT 0 NOT NULL,
+    enabled boolean DEFAULT true NOT NULL,
+    -- Find a product page via a Google site: search instead of scraping the store's search results
+    google_first boolean DEFAULT false NOT NULL,
+    use_stealth_proxy boolean DEFAULT false NOT NULL,
+    wait_ms integer,
+    wait_for_selector text,
+    container_selectors text[],
+    name_selectors text[],
+    price_selectors text[],
+    product_page_wait_for text,
+    product_page_price_selectors text[],
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_by uuid,
+    CONSTRAINT marketplace_configs_wait_check CHECK ((wait_ms IS NULL OR (wait_ms >= 0 AND wait_ms <= 20000)))
+);
+
+ALTER TABLE public.marketplace_configs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view marketplace configs"
+ON public.marketplace_configs FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update marketplace configs"
+ON public.marketplace_configs FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Seeded from the adapters as they ship today. Google Shopping has its own scraper,
+-- so only its enabled flag applies.
+INSERT INTO public.marketplace_configs (
+  key, name, country_code, currency, sort_order,
+  enabled, google_first, use_stealth_proxy, wait_ms, wait_for_selector,
+  container_selectors,
+  name_selectors,
+  price_selectors,
+  product_page_wait_for,
+  product_page_price_selectors
+) VALUES
+(
+  'google-shopping', 'Google Shopping', '*', '*', 10,
+  true, false, true, NULL, NULL,
+  NULL,
+  NULL,
+  NULL,
+  NULL,
+  NULL
+),
+(
+  'amazon', 'Amazon.sa', 'sa', 'SAR', 20,
+  true, false, true, 6000, '#search,.s-result-list,.s-main-slot,.a-price',
+  ARRAY[
+    '[data-component-type="s-search-result"]',
+    '.s-result-item[data-asin]:not([data-asin=""])',
+    'div[data-asin]:not([data-asin=""])',
+    '.s-search-results .s-result-item'
+  ],
+  ARRAY[
+    'h2 a span',
+    'h2.a-size-mini span',
+    '.a-size-medium.a-text-normal',
+    'h2 span.a-text-normal',
+    '[data-cy="title-recipe"] h2 span'
+  ],
+  ARRAY[
+    '.a-price-whole',
+    'span.a-price > span.a-offscreen',
+    '.a-price .a-price-whole',
+    'span[data-a-color="price"]',
+    '.a-price-range .a-price .a-offscreen'
+  ],
+  NULL,
+  NULL
+),
+(
+  'noon', 'Noon', 'sa', 'SAR', 30,
+  true, true, true, 7000, '[data-qa="product-price"],.priceNow,[class*="price"],[class*="Price"]',
+  ARRAY[
+    'div[data-qa="product-card"]',
+    'div[class*="productCard"]',
+    'div[class*="ProductCard_"]',
+    '[data-testid="search-product-item"]',
+    'div[data-component="ProductBox"]',
+    'div[data-qa-id="grid-view-item"]',
+    'article[data-component]',
+    '[data-qa="product-tile"]',
+    'div.productContainer',
+    'article[data-qa="product-tile"]',
+    '.grid > div[class*="product"]',
+    'div[class*="ProductBox"]',
+    'div[data-qa="product-item"]',
+    'a[href*="/product/"]',
+    'div:has(a[href*="/product/"]):has([class*="price"])',
+    'article'
+  ],
+  ARRAY[
+    '[data-qa="product-title"]',
+    'span[class*="productTitle"]',
+    'h2[class*="title"]',
+    '[data-qa="product-name"]',
+    'div[class*="productTitle"]',
+    'h3[class*="productTitle"]',
+    'span[data-qa="product-name"]',
+    '[class*="title"]',
+    '.productContainer h2',
+    'a[href*="/product/"] span',
+    'div > a:first-child',
+    'h2',
+    'h3',
+    'h4',
+    '[class*="name"]'
+  ],
+  ARRAY[
+    '[data-qa="product-price"] span',
+    'span[class*="priceNow"]',
+    'span[class*="Price_now"]',
+    'strong[class*="amount"]',
+    '[data-qa="product-price"]',
+    'div[class*="price"] strong',
+    'span[class*="price"]',
+    '[class*="priceNow"]',
+    '[class*="price"] span:first-child',
+    'strong',
+    '.sellingPrice'
+  ],
+  NULL,
+  ARRAY[
+    '[class*="priceNow"]',
+    'span[class*="Price_now"]',
+    'strong[class*="amount"]'
+  ]
+),
+(
+  'extra', 'Extra', 'sa', 'SAR', 40,
+  true, true, true, 8000, '.product-price,.c_product-price,.price-box,[class*="Price"],[data-qa="product-price"],.product-price__value',
+  ARRAY[
+    'div[data-qa="product-tile"]',
+    'div.product-tile',
+    'div[class*="ProductTile_"]',
+    '.product-list div[class*="product"]',
+    'div[data-testid="search-result-item"]',
+    'div[data-product-code]',
+    'div.product-listing__item',
+    'div[class*="product-list-item"]',
+    'article.product-item',
+    'div[data-testid="plp-prod-item"]',
+    '.product-grid-item',
+    'div[class*="ProductCard"]',
+    'div[class*="ProductTile"]',
+    'div[data-testid="product-tile"]',
+    'article[class*="product"]',
+    'li[class*="product"]',
+    'div.product-item',
+    'div.product-card',
+    'a[href*="/product/"]',
+    'div:has(a[href]):has([class*="price"])'
+  ],
+  ARRAY[
+    '[data-qa="product-name"]',
+    'a[data-testid="product-name"]',
+    'div[class*="product-name"] a',
+    '.product-listing__title',
+    '[data-testid="product-title"]',
+    'a[class*="product-title"]',
+    'h3[class*="ProductTitle"]',
+    '.product-card__title',
+    'h3[class*="title"]',
+    'a[class*="title"]',
+    'div[class*="productName"]',
+    'h3 a',
+    '.product-title',
+    '.product-name',
+    'a[href*="/product/"]',
+    'h2 a',
+    'h3 a',
+    '[class*="title"] a',
+    '[class*="name"]'
+  ],
+  ARRAY[
+    '[data-qa="product-price"]',
+    '.c_product-price',
+    '.product-price__value',
+    'span[data-testid="product-price"]',
+    '.product-listing__price span',
+    'span[class*="price--current"]',
+    '[data-testid="product-price"]',
+    'span[class*="Price"]',
+    '.product-price',
+    'span[class*="final-price"]',
+    'span[class*="price"]',
+    'div[class*="price"] span',
+    'span[class*="amount"]',
+    'strong[class*="price"]',
+    '.price',
+    '.special-price',
+    '.final-price',
+    '[class*="price"]:not([class*="was"])',
+    'strong'
+  ],
+  '.product-price,.price-box,[data-qa="product-price"],.c_product-price',
+  ARRAY[
+    '.c_product-price',
+    '.product-price__value',
+    '[data-qa="product-price"]'
+  ]
+),
+(
+  'jarir', 'Jarir', 'sa', 'SAR', 50,
+  true, true, true, 6000, '.price-box .price,span[data-price-amount],[data-price-type="finalPrice"],.product-price,.product-info-price',
+  ARRAY[
+    '.product-items .product-item',
+    '.products.list .product-item',
+    'li.product-item',
+    'div.product-item-info',
+    'div.products-grid .item',
+    'ol.products.list .item',
+    'div[data-product-sku]',
+    'article.product',
+    '.product-card',
+    '.product-listing-item',
+    '[data-product-id]',
+    'a[href*="/product/"]',
+    'div:has(a[href]):has(.price)',
+    'div[class*="product"]'
+  ],
+  ARRAY[
+    '.product-item-info .product-item-link',
+    'a.product-item-link',
+    '.product-item-name a',
+    '.product.name a',
+    'h2.product-name a',
+    'span.product-item-link',
+    'a[class*="product-name"]',
+    '.product-title',
+    '.product-card__title',
+    'a[href*="/product/"]',
+    'h2 a',
+    'h3 a',
+    'h1'
+  ],
+  ARRAY[
+    '.price-box .price',
+    'span[data-price-amount]',
+    '[data-price-type="finalPrice"] .price',
+    '.price-wrapper .price',
+    '.price-final_price .price',
+    'span.price',
+    'span[class*="price-value"]',
+    'div.price-box span.price',
+    'span[data-price-type="finalPrice"]',
+    'span.special-price span.price',
+    '.final-price',
+    '.sale-price',
+    '.product-price',
+    '.product-info-price .price',
+    '[class*="price"] span',
+    'strong'
+  ],
+  '.price-box,.price,[data-price-amount],.product-info-price',
+  ARRAY[
+    '.price-box .price',
+    '[data-price-amount]',
+    '.price-final_price .price',
+    'span[data-price-type="finalPrice"]',
+    '.product-info-price .price'
+  ]
+),
+(
+  'amazon-us', 'Amazon.com', 'us', 'USD', 60,
+  true, false, false, 3000, NULL,
+  ARRAY[
+    '[data-component-type="s-search-result"]',
+    '.s-result-item[data-asin]:not([data-asin=""])',
+    'div[data-asin]:not([data-asin=""])',
+    '.s-search-results .s-result-item'
+  ],
+  ARRAY[
+    'h2 a span',
+    'h2.a-size-mini span',
+    '.a-size-medium.a-text-normal',
+    'h2 span.a-text-normal',
+    '[data-cy="title-recipe"] h2 span'
+  ],
+  ARRAY[
+    '.a-price-whole',
+    'span.a-price > span.a-offscreen',
+    '.a-price .a-price-whole',
+    'span[data-a-color="price"]',
+    '.a-price-range .a-price .a-offscreen'
+  ],
+  NULL,
+  NULL
+),
+(
+  'walmart', 'Walmart', 'us', 'USD', 70,
+  true, false, false, 3500, NULL,
+  ARRAY[
+    'div[data-item-id]',
+    '[data-testid="list-view"]',
+    'div[class*="search-result"]',
+    '[data-testid="item-stack"]',
+    'div[class*="mb0 ph1 pa0-xl"]',
+    'article[class*="search"]'
+  ],
+  ARRAY[
+    'span[data-automation-id="product-title"]',
+    'a[link-identifier]',
+    'span[data-automation-id="product-name"]'
+  ],
+  ARRAY[
+    'span[itemprop="price"]',
+    'div[data-automation-id="product-price"] span',
+    '[data-automation-id="product-price"]',
+    'span[class*="price"]'
+  ],
+  NULL,
+  NULL
+),
+(
+  'ebay', 'eBay', 'us', 'USD', 80,
+  true, false, false, 3000, NULL,
+  ARRAY[
+    'li.s-item',
+    'div.s-item__wrapper',
+    'div.srp-results li',
+    'li[data-view]',
+    'div.s-item'
+  ],
+  ARRAY[
+    'div.s-item__title',
+    'h3.s-item__title',
+    '.s-item__title span'
+  ],
+  ARRAY[
+    'span.s-item__price',
+    'span.POSITIVE',
+    '.s-item__price',
+    'span[class*="price"]'
+  ],
+  NULL,
+  NULL
+),
+(
+  'target', 'Target', 'us', 'USD', 90,
+  true, false, false, 3500, NULL,
+  ARRAY[
+    'div[data-test="@web/site-top-of-funnel/ProductCardWrapper"]',
+    'div[data-test="product-card"]',
+    'article[class*="styles__StyledProductCard"]',
+    'div[class*="ProductCard"]'
+  ],
+  ARRAY[
+    'a[data-test="product-title"]',
+    '[data-test="product-title"]',
+    'div[data-test="product-title"] a',
+    'h3 a',
+    'a[class*="Link__StyledLink"]'
+  ],
+  ARRAY[
+    'span[data-test="current-price"]',
+    'span[data-test="product-price"]',
+    '[data-test="product-price"] span'
+  ],
+  NULL,
+  NULL
+);
@@ -0,0 +1,5 @@
+-- Per-marketplace scrape provider order (e.g. {zenrows,scrapingbee}); NULL uses SCRAPE_PROVIDERS
+ALTER TABLE public.marketplace_configs
+  ADD COLUMN scrape_providers text[],
+  ADD CONSTRAINT marketplace_configs_providers_check
+    CHECK ((scrape_providers IS NULL OR scrape_providers <@ ARRAY['scrapingbee'::text, 'zenrows'::text, 'fixture'::text]));
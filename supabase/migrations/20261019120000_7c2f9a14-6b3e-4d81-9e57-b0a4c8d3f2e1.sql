@@ -0,0 +1,60 @@
+-- Merchant corrections to competitor matching, kept per baseline across refreshes.
+-- 'exclude' drops a listing from every refresh and pricing run;
+-- 'pin' re-scrapes the listing's URL on every refresh and always counts it as a match.
+CREATE TABLE public.competitor_curations (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    baseline_id uuid NOT NULL REFERENCES public.product_baselines(id) ON DELETE CASCADE,
+    merchant_id uuid NOT NULL,
+    action text NOT NULL,
+    marketplace text NOT NULL,
+    product_name text NOT NULL,
+    product_url text,
+    -- Same rule as curationListingKey in supabase/functions/_shared/pricing/curation.ts
+    listing_key text GENERATED ALWAYS AS (COALESCE(product_url, lower(marketplace) || '|' || lower(product_name))) STORED,
+    -- Last price a refresh found for a pinned listing
+    last_price numeric,
+    last_scraped_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT competitor_curations_action_check CHECK ((action = ANY (ARRAY['pin'::text, 'exclude'::text]))),
+    -- Pinned listings are re-scraped, so they need a URL
+    CONSTRAINT competitor_curations_pin_url_check CHECK ((action <> 'pin' OR product_url IS NOT NULL)),
+    CONSTRAINT competitor_curations_listing_unique UNIQUE (baseline_id, listing_key)
+);
+
+CREATE INDEX idx_competitor_curations_baseline ON public.competitor_curations (baseline_id);
+
+ALTER TABLE public.competitor_curations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Merchants can view their competitor curations"
+ON public.competitor_curations FOR SELECT
+TO authenticated
+USING (auth.uid() = merchant_id);
+
+CREATE POLICY "Merchants can curate competitors for their baselines"
+ON public.competitor_curations FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = merchant_id
+  AND EXISTS (
+    SELECT 1
+    FROM public.product_baselines
+    WHERE product_baselines.id = competitor_curations.baseline_id
+      AND product_baselines.merchant_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Merchants can update their competitor curations"
+ON public.competitor_curations FOR UPDATE
+TO authenticated
+USING (auth.uid() = merchant_id);
+
+CREATE POLICY "Merchants can delete their competitor curations"
+ON public.competitor_curations FOR DELETE
+TO authenticated
+USING (auth.uid() = merchant_id);
+
+CREATE POLICY "Admins can view all competitor curations"
+ON public.competitor_curations FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,8 @@
+-- AI match validation for competitor listings in the uncertain similarity band.
+-- NULL when the listing was not sent for validation (high similarity, pinned or added by hand).
+ALTER TABLE public.competitor_products
+  ADD COLUMN ai_decision text,
+  ADD COLUMN ai_confidence numeric,
+  ADD COLUMN ai_reasoning text,
+  ADD CONSTRAINT competitor_products_ai_decision_check
+    CHECK ((ai_decision IS NULL OR ai_decision = ANY (ARRAY['match'::text, 'accessory'::text, 'different_product'::text])));
@@ -0,0 +1,9 @@
+-- Unit-price normalization for size-variable categories (Health & Beauty, Food & Beverages,
+-- Groceries). Market stats for these are computed on competitor prices rescaled to the
+-- baseline's size; these columns record the basis so the results page can show it.
+ALTER TABLE public.pricing_results
+  ADD COLUMN unit_basis text,
+  ADD COLUMN unit_quantity numeric,
+  ADD COLUMN unit_normalized_count integer,
+  ADD CONSTRAINT pricing_results_unit_basis_check
+    CHECK ((unit_basis IS NULL OR unit_basis = ANY (ARRAY['ml'::text, 'g'::text, 'unit'::text])));
@@ -0,0 +1,65 @@
+-- CPI rates by currency and period, maintained by admins (edit, CSV import) or synced
+-- from a statistics provider. Pricing runs use the latest row for the baseline's currency
+-- that is effective on the run date, and record its id on pricing_results.
+--
+-- Rows are append-only: a changed rate is saved as a new row, so every pricing result keeps
+-- pointing at the rate it was priced with.
+ALTER TABLE public.inflation_snapshots
+  ADD COLUMN currency text,
+  -- First day of the period the rate covers, e.g. 2025-01-01 for the 2025 annual rate
+  ADD COLUMN period date,
+  -- Runs on or after this date use the row; lets admins stage a rate before it applies
+  ADD COLUMN effective_from date DEFAULT CURRENT_DATE NOT NULL,
+  -- 'manual', 'csv', 'legacy' or the name of the provider that synced it (see _shared/inflation)
+  ADD COLUMN provider text DEFAULT 'manual' NOT NULL,
+  -- When and by whom the row was written; rows are never edited afterwards
+  ADD COLUMN updated_at timestamp with time zone DEFAULT now() NOT NULL,
+  ADD COLUMN updated_by uuid;
+
+-- Existing rows are per-run copies of the rates process-pricing used to hard-code. Their source
+-- names the currency; the global estimate gets XXX (ISO 4217 "no currency"), which no run looks up.
+UPDATE public.inflation_snapshots
+SET currency = CASE
+      WHEN source LIKE 'SAMA%' THEN 'SAR'
+      WHEN source LIKE 'US Bureau of Labor Statistics%' THEN 'USD'
+      ELSE 'XXX'
+    END,
+    period = date_trunc('year', COALESCE(fetched_at, now()))::date,
+    effective_from = COALESCE(fetched_at, now())::date,
+    provider = 'legacy',
+    updated_at = COALESCE(fetched_at, now());
+
+ALTER TABLE public.inflation_snapshots
+  ALTER COLUMN currency SET NOT NULL,
+  ALTER COLUMN period SET NOT NULL,
+  ADD CONSTRAINT inflation_snapshots_currency_check CHECK ((currency ~ '^[A-Z]{3}$')),
+  -- Annual rate as a fraction; -0.5 to 1 keeps a mistyped percentage (2.3 instead of 0.023) out
+  ADD CONSTRAINT inflation_snapshots_rate_check CHECK ((inflation_rate > -0.5 AND inflation_rate < 1));
+
+CREATE INDEX idx_inflation_snapshots_effective ON public.inflation_snapshots (currency, effective_from DESC, period DESC, updated_at DESC);
+
+CREATE OR REPLACE FUNCTION public.reject_inflation_snapshot_update() RETURNS trigger
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  RAISE EXCEPTION 'Inflation snapshots are append-only; save the new rate as a new row';
+END;
+$$;
+
+CREATE TRIGGER reject_inflation_snapshot_update
+BEFORE UPDATE ON public.inflation_snapshots
+FOR EACH ROW EXECUTE FUNCTION public.reject_inflation_snapshot_update();
+
+CREATE POLICY "Admins can delete inflation snapshots"
+ON public.inflation_snapshots FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+INSERT INTO public.inflation_snapshots (currency, period, effective_from, inflation_rate, source, provider)
+VALUES
+  ('SAR', '2025-01-01', '2025-01-01', 0.023, 'SAMA (Saudi Central Bank) - Latest CPI Data', 'manual'),
+  ('USD', '2025-01-01', '2025-01-01', 0.031, 'US Bureau of Labor Statistics - Latest CPI', 'manual');
+
+ALTER TABLE public.pricing_results
+  ADD COLUMN inflation_snapshot_id uuid REFERENCES public.inflation_snapshots(id) ON DELETE SET NULL;
@@ -0,0 +1,101 @@
+-- One hierarchical category taxonomy for uploads, suggest-category, base elasticity and
+-- the engine's zone multipliers. Top-level names are the categories the old check
+-- constraint allowed, so existing baselines stay valid; children refine them.
+-- A NULL setting on a child inherits the parent's (resolveCategory in
+-- supabase/functions/_shared/pricing/categories.ts, which also holds this seed).
+CREATE TABLE public.categories (
+    slug text NOT NULL PRIMARY KEY,
+    name text NOT NULL UNIQUE,
+    parent_slug text REFERENCES public.categories(slug) ON DELETE RESTRICT,
+    elasticity numeric,
+    zone_a_multiplier numeric,
+    zone_b_multiplier numeric,
+    -- Competitor prices are normalized to the baseline's size and pack (unit-price)
+    unit_priced boolean,
+    -- Hint for the classifier in suggest-category
+    description text,
+    sort_order integer DEFAULT 0 NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT categories_elasticity_check CHECK ((elasticity IS NULL OR elasticity < 0)),
+    CONSTRAINT categories_zone_multipliers_check CHECK ((zone_a_multiplier IS NULL OR zone_a_multiplier >= 1) AND (zone_b_multiplier IS NULL OR zone_b_multiplier >= 1)),
+    -- Top-level categories have nothing to inherit from
+    CONSTRAINT categories_root_settings_check CHECK ((
+      parent_slug IS NOT NULL
+      OR (elasticity IS NOT NULL AND zone_a_multiplier IS NOT NULL AND zone_b_multiplier IS NOT NULL AND unit_priced IS NOT NULL)
+    ))
+);
+
+CREATE INDEX idx_categories_parent ON public.categories (parent_slug);
+
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+-- The upload form is open to guests, so the taxonomy is readable without signing in
+CREATE POLICY "Anyone can view categories"
+ON public.categories FOR SELECT
+TO anon, authenticated
+USING (true);
+
+CREATE POLICY "Admins can create categories"
+ON public.categories FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update categories"
+ON public.categories FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete categories"
+ON public.categories FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Zone multipliers match what the engine's old name matching gave each category, except
+-- Groceries (Staples): "groceries" never matched its 'grocery' check, so it priced as
+-- medium elasticity instead of with the other food categories.
+INSERT INTO public.categories (slug, name, parent_slug, elasticity, zone_a_multiplier, zone_b_multiplier, unit_priced, description, sort_order)
+VALUES
+  ('electronics', 'Electronics & Technology', NULL, -1.5, 3.5, 2.2, false, 'Consumer electronics, gadgets and appliances', 10),
+  ('electronics-phones', 'Mobile Phones & Tablets', 'electronics', NULL, NULL, NULL, NULL, 'Smartphones, tablets and their accessories', 11),
+  ('electronics-computers', 'Computers & Laptops', 'electronics', NULL, NULL, NULL, NULL, 'Laptops, desktops, monitors, storage and peripherals', 12),
+  ('electronics-audio', 'Audio & Headphones', 'electronics', NULL, NULL, NULL, NULL, 'Headphones, earbuds and speakers', 13),
+  ('electronics-tv', 'TVs & Home Theater', 'electronics', NULL, NULL, NULL, NULL, NULL, 14),
+  ('electronics-gaming', 'Video Games & Consoles', 'electronics', NULL, NULL, NULL, NULL, NULL, 15),
+  ('electronics-appliances', 'Home Appliances', 'electronics', NULL, NULL, NULL, NULL, 'Kitchen and household appliances', 16),
+  ('fashion', 'Fashion & Apparel', NULL, -1.2, 2.5, 1.8, false, NULL, 20),
+  ('fashion-clothing', 'Clothing', 'fashion', NULL, NULL, NULL, NULL, NULL, 21),
+  ('fashion-shoes', 'Shoes', 'fashion', NULL, NULL, NULL, NULL, NULL, 22),
+  ('fashion-accessories', 'Bags & Accessories', 'fashion', NULL, NULL, NULL, NULL, NULL, 23),
+  ('luxury', 'Luxury Goods', NULL, -0.4, 2.5, 1.8, false, 'Designer and premium-brand goods', 30),
+  ('luxury-jewelry', 'Jewelry & Watches', 'luxury', NULL, NULL, NULL, NULL, NULL, 31),
+  ('food', 'Food & Beverages', NULL, -0.8, 1.8, 1.3, true, NULL, 40),
+  ('food-snacks', 'Snacks & Confectionery', 'food', NULL, NULL, NULL, NULL, NULL, 41),
+  ('food-beverages', 'Beverages', 'food', NULL, NULL, NULL, NULL, 'Soft drinks, juices, coffee and tea', 42),
+  ('health-beauty', 'Health & Beauty', NULL, -0.6, 1.8, 1.3, true, NULL, 50),
+  ('health-beauty-fragrances', 'Fragrances', 'health-beauty', NULL, NULL, NULL, NULL, 'Perfumes and colognes', 51),
+  ('health-beauty-skincare', 'Skincare', 'health-beauty', NULL, NULL, NULL, NULL, NULL, 52),
+  ('health-beauty-makeup', 'Makeup', 'health-beauty', NULL, NULL, NULL, NULL, NULL, 53),
+  ('health-beauty-personal-care', 'Personal Care', 'health-beauty', NULL, NULL, NULL, NULL, 'Hair care, oral care, shaving and hygiene', 54),
+  ('health-beauty-baby', 'Baby Care', 'health-beauty', NULL, NULL, NULL, NULL, 'Diapers, wipes and baby toiletries', 55),
+  ('home', 'Home & Furniture', NULL, -1.3, 2.5, 1.8, false, NULL, 60),
+  ('home-furniture', 'Furniture', 'home', NULL, NULL, NULL, NULL, NULL, 61),
+  ('home-kitchen', 'Kitchen & Dining', 'home', NULL, NULL, NULL, NULL, 'Cookware, tableware and kitchen tools', 62),
+  ('home-decor', 'Home Decor', 'home', NULL, NULL, NULL, NULL, NULL, 63),
+  ('home-garden', 'Garden & Outdoor Living', 'home', NULL, NULL, NULL, NULL, NULL, 64),
+  ('sports', 'Sports & Outdoors', NULL, -1.4, 2.5, 1.8, false, NULL, 70),
+  ('sports-fitness', 'Fitness Equipment', 'sports', NULL, NULL, NULL, NULL, NULL, 71),
+  ('sports-outdoor', 'Camping & Outdoor Gear', 'sports', NULL, NULL, NULL, NULL, NULL, 72),
+  ('toys', 'Toys & Games', NULL, -1.6, 2.5, 1.8, false, NULL, 80),
+  ('books-media', 'Books & Media', NULL, -1.7, 2.5, 1.8, false, NULL, 90),
+  ('automotive', 'Automotive Parts', NULL, -0.9, 2.5, 1.8, false, 'Car parts, accessories and care products', 100),
+  ('pharmaceuticals', 'Pharmaceuticals', NULL, -0.3, 2.5, 1.8, false, 'Medicines, vitamins and supplements', 110),
+  ('groceries', 'Groceries (Staples)', NULL, -0.5, 1.8, 1.3, true, 'Rice, flour, oil, sugar and other pantry staples', 120),
+  ('office', 'Office Supplies', NULL, -1.1, 2.5, 1.8, false, NULL, 130),
+  ('pets', 'Pet Supplies', NULL, -0.7, 2.5, 1.8, false, NULL, 140);
+
+-- Baselines may now use any category in the taxonomy; renames carry over
+ALTER TABLE public.product_baselines
+  DROP CONSTRAINT product_baselines_category_check,
+  ADD CONSTRAINT product_baselines_category_fkey
+    FOREIGN KEY (category) REFERENCES public.categories(name) ON UPDATE CASCADE;
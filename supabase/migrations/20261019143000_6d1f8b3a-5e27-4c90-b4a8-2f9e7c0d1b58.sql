@@ -0,0 +1,61 @@
+-- Prices merchants actually charged and the units they sold at that price over a period.
+-- Elasticity is learned from these per product and per category
+-- (supabase/functions/_shared/pricing/elasticity.ts) and replaces the category default
+-- in process-pricing once the estimate is precise enough.
+CREATE TABLE public.sales_observations (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    baseline_id uuid NOT NULL REFERENCES public.product_baselines(id) ON DELETE CASCADE,
+    merchant_id uuid NOT NULL,
+    -- The suggestion this period's price responded to, when there was one
+    pricing_performance_id uuid REFERENCES public.pricing_performance(id) ON DELETE SET NULL,
+    price numeric NOT NULL,
+    units_sold integer NOT NULL,
+    period_start date NOT NULL,
+    period_end date NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT sales_observations_price_check CHECK ((price > 0)),
+    CONSTRAINT sales_observations_units_check CHECK ((units_sold >= 0)),
+    CONSTRAINT sales_observations_period_check CHECK ((period_end >= period_start))
+);
+
+CREATE INDEX idx_sales_observations_baseline ON public.sales_observations (baseline_id, period_start);
+CREATE INDEX idx_sales_observations_merchant ON public.sales_observations (merchant_id);
+
+ALTER TABLE public.sales_observations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Merchants can view their sales observations"
+ON public.sales_observations FOR SELECT
+TO authenticated
+USING (auth.uid() = merchant_id);
+
+CREATE POLICY "Merchants can record sales for their baselines"
+ON public.sales_observations FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = merchant_id
+  AND EXISTS (
+    SELECT 1
+    FROM public.product_baselines
+    WHERE product_baselines.id = sales_observations.baseline_id
+      AND product_baselines.merchant_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Merchants can delete their sales observations"
+ON public.sales_observations FOR DELETE
+TO authenticated
+USING (auth.uid() = merchant_id);
+
+CREATE POLICY "Admins can view all sales observations"
+ON public.sales_observations FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Which elasticity a pricing run used. base_elasticity holds the value itself.
+ALTER TABLE public.pricing_results
+  ADD COLUMN elasticity_source text DEFAULT 'category_default' NOT NULL,
+  ADD COLUMN elasticity_ci_low numeric(10,4),
+  ADD COLUMN elasticity_ci_high numeric(10,4),
+  ADD COLUMN elasticity_observations integer,
+  ADD CONSTRAINT pricing_results_elasticity_source_check
+    CHECK ((elasticity_source = ANY (ARRAY['product'::text, 'category'::text, 'category_default'::text])));
@@ -0,0 +1,46 @@
+-- What each prediction assumed, so score-pricing-performance can score it against the
+-- sales merchants report and the admin calibration report can group it by zone,
+-- category and market-data confidence (supabase/functions/_shared/pricing/calibration.ts).
+ALTER TABLE public.pricing_performance
+    ADD COLUMN category text,
+    ADD COLUMN zone text,
+    -- Volume multiplier the zone assumed (getZoneMultipliers; 1 in zone C)
+    ADD COLUMN market_potential numeric(6,2),
+    ADD COLUMN market_confidence text,
+    -- Monthly units sold before the suggestion
+    ADD COLUMN baseline_quantity integer,
+    ADD COLUMN expected_monthly_profit numeric,
+    -- Cleared whenever the actuals change; the scoring job picks up rows where it is NULL
+    ADD COLUMN scored_at timestamp with time zone,
+    ADD CONSTRAINT pricing_performance_zone_check CHECK ((zone IS NULL OR zone IN ('A', 'B', 'C')));
+
+COMMENT ON COLUMN public.pricing_performance.sales_accuracy_score IS 'Relative error of predicted_sales against actual_sales: 0 is exact, capped at 1';
+COMMENT ON COLUMN public.pricing_performance.profit_accuracy_score IS 'Relative error of expected_monthly_profit against actual_profit: 0 is exact, capped at 1';
+
+-- Older rows: the category and quantity are still on the baseline; the zone and
+-- expected profit weren't recorded, so those rows only get a sales score
+UPDATE public.pricing_performance pp
+SET category = pb.category,
+    baseline_quantity = pb.current_quantity
+FROM public.product_baselines pb
+WHERE pb.id = pp.baseline_id;
+
+CREATE INDEX idx_pricing_performance_unscored ON public.pricing_performance (created_at)
+WHERE actual_sales IS NOT NULL AND scored_at IS NULL;
+
+-- score-pricing-performance only accepts the service role key (or an admin's
+-- session); the URL and key come from Vault, like run-scheduled-refreshes
+SELECT cron.schedule(
+  'score-pricing-performance',
+  '30 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/score-pricing-performance',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
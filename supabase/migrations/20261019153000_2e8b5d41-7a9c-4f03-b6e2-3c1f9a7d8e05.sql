@@ -0,0 +1,79 @@
+-- Named pricing strategy profiles: the floor margin, ceiling, market position, elasticity
+-- blend, risk tolerance and zone settings calculateProfitMaximizingPrice used to hard-code
+-- (supabase/functions/_shared/pricing/strategy.ts, which also holds this seed).
+-- Built-in profiles have no merchant; merchants add their own.
+CREATE TABLE public.pricing_strategies (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    merchant_id uuid,
+    key text NOT NULL,
+    name text NOT NULL,
+    description text,
+    floor_margin numeric(6,4) NOT NULL,
+    ceiling_ratio numeric(6,4) NOT NULL,
+    market_position numeric(6,4) DEFAULT 0 NOT NULL,
+    blend_weight numeric(6,4) NOT NULL,
+    risk_tolerance numeric(6,4) NOT NULL,
+    zone_multiplier_scale numeric(6,4) DEFAULT 1 NOT NULL,
+    zone_a_band numeric(6,4) DEFAULT 0.05 NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    -- Same ranges as STRATEGY_LIMITS
+    CONSTRAINT pricing_strategies_floor_margin_check CHECK ((floor_margin >= 0 AND floor_margin <= 2)),
+    CONSTRAINT pricing_strategies_ceiling_ratio_check CHECK ((ceiling_ratio >= 0.5 AND ceiling_ratio <= 1.5)),
+    CONSTRAINT pricing_strategies_market_position_check CHECK ((market_position >= 0 AND market_position <= 1)),
+    CONSTRAINT pricing_strategies_blend_weight_check CHECK ((blend_weight >= 0 AND blend_weight <= 1)),
+    CONSTRAINT pricing_strategies_risk_tolerance_check CHECK ((risk_tolerance >= 0 AND risk_tolerance <= 1)),
+    CONSTRAINT pricing_strategies_zone_scale_check CHECK ((zone_multiplier_scale >= 0.25 AND zone_multiplier_scale <= 3)),
+    CONSTRAINT pricing_strategies_zone_a_band_check CHECK ((zone_a_band >= 0 AND zone_a_band <= 0.5))
+);
+
+CREATE UNIQUE INDEX idx_pricing_strategies_built_in_key ON public.pricing_strategies (key) WHERE merchant_id IS NULL;
+CREATE UNIQUE INDEX idx_pricing_strategies_merchant_key ON public.pricing_strategies (merchant_id, key) WHERE merchant_id IS NOT NULL;
+
+ALTER TABLE public.pricing_strategies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Merchants can view built-in and their own strategies"
+ON public.pricing_strategies FOR SELECT
+TO authenticated
+USING (merchant_id IS NULL OR auth.uid() = merchant_id);
+
+CREATE POLICY "Merchants can create their own strategies"
+ON public.pricing_strategies FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = merchant_id);
+
+CREATE POLICY "Merchants can update their own strategies"
+ON public.pricing_strategies FOR UPDATE
+TO authenticated
+USING (auth.uid() = merchant_id);
+
+CREATE POLICY "Merchants can delete their own strategies"
+ON public.pricing_strategies FOR DELETE
+TO authenticated
+USING (auth.uid() = merchant_id);
+
+CREATE POLICY "Admins can manage built-in strategies"
+ON public.pricing_strategies FOR ALL
+TO authenticated
+USING (merchant_id IS NULL AND public.has_role(auth.uid(), 'admin'))
+WITH CHECK (merchant_id IS NULL AND public.has_role(auth.uid(), 'admin'));
+
+-- 'balanced' reproduces the engine's original fixed settings
+INSERT INTO public.pricing_strategies (key, name, description, floor_margin, ceiling_ratio, market_position, blend_weight, risk_tolerance, zone_multiplier_scale, zone_a_band)
+VALUES
+  ('balanced', 'Balanced', 'Market average, nudged toward the elasticity optimum; midway when the volume case is weak', 0.15, 0.95, 0, 0.4, 0.5, 1, 0.05),
+  ('aggressive_market_share', 'Aggressive Market Share', 'Thinner margins and stronger pull toward the lowest competitors to win volume', 0.08, 0.9, 0, 0.7, 0.8, 1.2, 0.1),
+  ('margin_protection', 'Margin Protection', 'Higher margin floor and cautious moves; only cuts price when the volume clearly pays for it', 0.25, 0.95, 0.1, 0.15, 0.25, 0.8, 0.05),
+  ('premium', 'Premium', 'Prices above the market average for brands that don''t compete on price', 0.3, 1, 0.5, 0, 0.5, 1, 0.05);
+
+-- Per product, falling back to the merchant's account default, then 'balanced'
+ALTER TABLE public.product_baselines
+    ADD COLUMN strategy_id uuid REFERENCES public.pricing_strategies(id) ON DELETE SET NULL;
+
+ALTER TABLE public.profiles
+    ADD COLUMN default_strategy_id uuid REFERENCES public.pricing_strategies(id) ON DELETE SET NULL;
+
+-- The profile behind each price; the name is kept in case the profile is later deleted
+ALTER TABLE public.pricing_results
+    ADD COLUMN strategy_id uuid REFERENCES public.pricing_strategies(id) ON DELETE SET NULL,
+    ADD COLUMN strategy_name text;
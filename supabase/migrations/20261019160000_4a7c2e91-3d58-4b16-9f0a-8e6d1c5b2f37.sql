@@ -0,0 +1,9 @@
+-- Step-by-step record of how each price was reached: market data filtering, the
+-- engine's bounds, blend, zone and break-even checks, and the final projection.
+-- Built by process-pricing (supabase/functions/_shared/pricing/trace.ts) and shown
+-- in the "Why this price?" panel. Null for results calculated before this migration.
+ALTER TABLE public.pricing_results
+  ADD COLUMN decision_trace jsonb;
+
+COMMENT ON COLUMN public.pricing_results.decision_trace IS
+  'Decision trace: {version, steps: [{stage, key, title, detail, figures: [{key, label, value, format}]}]}';
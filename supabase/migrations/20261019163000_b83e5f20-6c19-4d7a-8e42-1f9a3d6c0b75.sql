@@ -0,0 +1,147 @@
+-- Recommendation lifecycle: each pricing result starts pending and the merchant
+-- accepts, modifies (applies their own price) or rejects it. Decisions go through
+-- decide_pricing_result, which updates the result, records the applied price on
+-- its pricing_performance row and appends to the pricing_decisions audit trail.
+ALTER TABLE public.pricing_results
+  ADD COLUMN status text DEFAULT 'pending' NOT NULL,
+  ADD COLUMN applied_price numeric(10,2),
+  ADD COLUMN decided_at timestamp with time zone,
+  ADD CONSTRAINT pricing_results_status_check
+    CHECK ((status = ANY (ARRAY['pending'::text, 'applied'::text, 'rejected'::text])));
+
+CREATE INDEX idx_pricing_results_baseline_created ON public.pricing_results (baseline_id, created_at DESC);
+
+-- The pricing run a performance row predicts for; older rows are matched by time
+ALTER TABLE public.pricing_performance
+  ADD COLUMN pricing_result_id uuid REFERENCES public.pricing_results(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_pricing_performance_result ON public.pricing_performance (pricing_result_id);
+
+CREATE TABLE public.pricing_decisions (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    pricing_result_id uuid NOT NULL REFERENCES public.pricing_results(id) ON DELETE CASCADE,
+    baseline_id uuid NOT NULL REFERENCES public.product_baselines(id) ON DELETE CASCADE,
+    merchant_id uuid NOT NULL,
+    -- Who made the decision
+    decided_by uuid NOT NULL,
+    action text NOT NULL,
+    previous_status text NOT NULL,
+    suggested_price numeric(10,2) NOT NULL,
+    -- Price put live; null for rejections
+    applied_price numeric(10,2),
+    reason text,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT pricing_decisions_action_check
+      CHECK ((action = ANY (ARRAY['accepted'::text, 'modified'::text, 'rejected'::text]))),
+    CONSTRAINT pricing_decisions_reason_length CHECK ((char_length(reason) <= 500))
+);
+
+CREATE INDEX idx_pricing_decisions_result ON public.pricing_decisions (pricing_result_id, created_at DESC);
+CREATE INDEX idx_pricing_decisions_merchant ON public.pricing_decisions (merchant_id, created_at DESC);
+
+ALTER TABLE public.pricing_decisions ENABLE ROW LEVEL SECURITY;
+
+-- Written only by decide_pricing_result, so the trail can't be edited
+CREATE POLICY "Merchants can view their pricing decisions"
+ON public.pricing_decisions FOR SELECT
+TO authenticated
+USING (auth.uid() = merchant_id);
+
+CREATE POLICY "Admins can view all pricing decisions"
+ON public.pricing_decisions FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.decide_pricing_result(
+  _result_id uuid,
+  _action text,
+  _applied_price numeric DEFAULT NULL,
+  _reason text DEFAULT NULL
+) RETURNS uuid
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  _uid uuid := auth.uid();
+  _result public.pricing_results%ROWTYPE;
+  _merchant_id uuid;
+  _price numeric;
+  _performance_id uuid;
+  _decision_id uuid;
+BEGIN
+  IF _uid IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  SELECT * INTO _result FROM public.pricing_results WHERE id = _result_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pricing result not found';
+  END IF;
+
+  SELECT merchant_id INTO _merchant_id FROM public.product_baselines WHERE id = _result.baseline_id;
+  IF _merchant_id IS DISTINCT FROM _uid THEN
+    RAISE EXCEPTION 'Only the product owner can decide on its recommendations';
+  END IF;
+
+  IF _action = 'accepted' THEN
+    _price := _result.suggested_price;
+  ELSIF _action = 'modified' THEN
+    IF _applied_price IS NULL OR _applied_price <= 0 THEN
+      RAISE EXCEPTION 'A modified recommendation needs a price above zero';
+    END IF;
+    _price := round(_applied_price, 2);
+  ELSIF _action = 'rejected' THEN
+    _price := NULL;
+  ELSE
+    RAISE EXCEPTION 'Unknown action: %', _action;
+  END IF;
+
+  UPDATE public.pricing_results
+  SET status = CASE WHEN _action = 'rejected' THEN 'rejected' ELSE 'applied' END,
+      applied_price = _price,
+      decided_at = now()
+  WHERE id = _result_id;
+
+  SELECT id INTO _performance_id
+  FROM public.pricing_performance
+  WHERE pricing_result_id = _result_id;
+
+  IF _performance_id IS NULL THEN
+    SELECT id INTO _performance_id
+    FROM public.pricing_performance
+    WHERE baseline_id = _result.baseline_id
+      AND pricing_result_id IS NULL
+      AND created_at >= _result.created_at
+    ORDER BY created_at ASC
+    LIMIT 1;
+  END IF;
+
+  -- A new applied price needs new actual sales before it can be scored again
+  IF _performance_id IS NOT NULL THEN
+    UPDATE public.pricing_performance
+    SET applied_price = _price,
+        applied_at = CASE WHEN _price IS NULL THEN NULL ELSE now() END,
+        scored_at = NULL,
+        updated_at = now()
+    WHERE id = _performance_id;
+  END IF;
+
+  INSERT INTO public.pricing_decisions (
+    pricing_result_id, baseline_id, merchant_id, decided_by, action, previous_status,
+    suggested_price, applied_price, reason
+  )
+  VALUES (
+    _result_id, _result.baseline_id, _merchant_id, _uid, _action, _result.status,
+    _result.suggested_price, _price, NULLIF(btrim(_reason), '')
+  )
+  RETURNING id INTO _decision_id;
+
+  RETURN _decision_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.decide_pricing_result(uuid, text, numeric, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.decide_pricing_result(uuid, text, numeric, text) TO authenticated;
+
+COMMENT ON COLUMN public.pricing_results.status IS
+  'pending until the merchant decides; applied (accepted or modified) or rejected. History in pricing_decisions';
@@ -0,0 +1,83 @@
+-- Merchant guardrails on suggested prices, per product or per category (matched
+-- by category name, inherited down the taxonomy). Applied by the pricing engine
+-- after the strategy's bounds; see supabase/functions/_shared/pricing/guardrails.ts.
+-- Absolute prices are product-only because a category mixes currencies.
+CREATE TABLE public.price_guardrails (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    merchant_id uuid NOT NULL,
+    baseline_id uuid REFERENCES public.product_baselines(id) ON DELETE CASCADE,
+    category text,
+    -- Largest move per run as a share of the current price
+    max_change_percent numeric(6,4),
+    min_price numeric(10,2),
+    max_price numeric(10,2),
+    -- Minimum margin over cost
+    min_margin numeric(6,4),
+    -- Hours after an applied price change during which the price is held
+    cooldown_hours integer,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT price_guardrails_scope_check
+      CHECK (((baseline_id IS NULL) <> (category IS NULL))),
+    CONSTRAINT price_guardrails_category_prices_check
+      CHECK ((category IS NULL OR (min_price IS NULL AND max_price IS NULL))),
+    CONSTRAINT price_guardrails_max_change_check
+      CHECK ((max_change_percent IS NULL OR (max_change_percent >= 0.005 AND max_change_percent <= 1))),
+    CONSTRAINT price_guardrails_min_price_check CHECK ((min_price IS NULL OR min_price > 0)),
+    CONSTRAINT price_guardrails_max_price_check CHECK ((max_price IS NULL OR max_price > 0)),
+    CONSTRAINT price_guardrails_price_range_check
+      CHECK ((min_price IS NULL OR max_price IS NULL OR min_price <= max_price)),
+    CONSTRAINT price_guardrails_min_margin_check
+      CHECK ((min_margin IS NULL OR (min_margin >= 0 AND min_margin <= 5))),
+    CONSTRAINT price_guardrails_cooldown_check
+      CHECK ((cooldown_hours IS NULL OR (cooldown_hours >= 1 AND cooldown_hours <= 8760)))
+);
+
+CREATE UNIQUE INDEX price_guardrails_baseline_key ON public.price_guardrails (baseline_id) WHERE baseline_id IS NOT NULL;
+CREATE UNIQUE INDEX price_guardrails_category_key ON public.price_guardrails (merchant_id, category) WHERE category IS NOT NULL;
+CREATE INDEX idx_price_guardrails_merchant ON public.price_guardrails (merchant_id);
+
+ALTER TABLE public.price_guardrails ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Merchants can view their guardrails"
+ON public.price_guardrails FOR SELECT
+TO authenticated
+USING (auth.uid() = merchant_id);
+
+CREATE POLICY "Merchants can create guardrails for their products and categories"
+ON public.price_guardrails FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = merchant_id
+  AND (
+    baseline_id IS NULL
+    OR EXISTS (
+      SELECT 1
+      FROM public.product_baselines
+      WHERE product_baselines.id = price_guardrails.baseline_id
+        AND product_baselines.merchant_id = auth.uid()
+    )
+  )
+);
+
+CREATE POLICY "Merchants can update their guardrails"
+ON public.price_guardrails FOR UPDATE
+TO authenticated
+USING (auth.uid() = merchant_id)
+WITH CHECK (auth.uid() = merchant_id);
+
+CREATE POLICY "Merchants can delete their guardrails"
+ON public.price_guardrails FOR DELETE
+TO authenticated
+USING (auth.uid() = merchant_id);
+
+CREATE POLICY "Admins can view all guardrails"
+ON public.price_guardrails FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+ALTER TABLE public.pricing_results
+  ADD COLUMN guardrails_applied text[] DEFAULT '{}'::text[] NOT NULL;
+
+COMMENT ON COLUMN public.pricing_results.guardrails_applied IS
+  'Guardrails that changed the engine''s price, in the order applied: cooldown, max_change, min_margin, min_price, max_price';
@@ -0,0 +1,105 @@
+-- Rule-based repricing: merchant rules per product or per category (matched by
+-- category name, inherited down the taxonomy), evaluated by the
+-- evaluate-repricing-rules function after each competitor refresh.
+-- See supabase/functions/_shared/pricing/repricing.ts.
+CREATE TABLE public.repricing_rules (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    merchant_id uuid NOT NULL,
+    baseline_id uuid REFERENCES public.product_baselines(id) ON DELETE CASCADE,
+    category text,
+    name text NOT NULL,
+    rule_type text NOT NULL,
+    -- Marketplace names to compare against; empty means every marketplace
+    marketplaces text[] DEFAULT '{}'::text[] NOT NULL,
+    -- Applied to the reference price: -0.01 is 1% below it
+    offset_percent numeric(6,4) DEFAULT 0 NOT NULL,
+    -- Lower numbers win when rules conflict
+    priority integer DEFAULT 100 NOT NULL,
+    enabled boolean DEFAULT true NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT repricing_rules_scope_check
+      CHECK (((baseline_id IS NULL) <> (category IS NULL))),
+    CONSTRAINT repricing_rules_type_check
+      CHECK ((rule_type = ANY (ARRAY['beat_lowest'::text, 'match_average'::text, 'stay_below_highest'::text, 'never_undercut'::text]))),
+    CONSTRAINT repricing_rules_name_length CHECK ((char_length(btrim(name)) BETWEEN 1 AND 80)),
+    CONSTRAINT repricing_rules_offset_check CHECK ((offset_percent >= -0.9 AND offset_percent <= 1)),
+    CONSTRAINT repricing_rules_priority_check CHECK ((priority >= 1 AND priority <= 1000))
+);
+
+CREATE INDEX idx_repricing_rules_merchant ON public.repricing_rules (merchant_id);
+CREATE INDEX idx_repricing_rules_baseline ON public.repricing_rules (baseline_id) WHERE baseline_id IS NOT NULL;
+
+ALTER TABLE public.repricing_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Merchants can view their repricing rules"
+ON public.repricing_rules FOR SELECT
+TO authenticated
+USING (auth.uid() = merchant_id);
+
+CREATE POLICY "Merchants can create repricing rules for their products and categories"
+ON public.repricing_rules FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = merchant_id
+  AND (
+    baseline_id IS NULL
+    OR EXISTS (
+      SELECT 1
+      FROM public.product_baselines
+      WHERE product_baselines.id = repricing_rules.baseline_id
+        AND product_baselines.merchant_id = auth.uid()
+    )
+  )
+);
+
+CREATE POLICY "Merchants can update their repricing rules"
+ON public.repricing_rules FOR UPDATE
+TO authenticated
+USING (auth.uid() = merchant_id)
+WITH CHECK (auth.uid() = merchant_id);
+
+CREATE POLICY "Merchants can delete their repricing rules"
+ON public.repricing_rules FOR DELETE
+TO authenticated
+USING (auth.uid() = merchant_id);
+
+CREATE POLICY "Admins can view all repricing rules"
+ON public.repricing_rules FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- One candidate price per product per refresh run; written by evaluate-repricing-rules
+CREATE TABLE public.repricing_candidates (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    baseline_id uuid NOT NULL REFERENCES public.product_baselines(id) ON DELETE CASCADE,
+    merchant_id uuid NOT NULL,
+    observed_at timestamp with time zone NOT NULL,
+    -- After the merchant's guardrails; null when no rule had market data
+    candidate_price numeric(10,2),
+    -- Price the rules produced before guardrails
+    rules_price numeric(10,2),
+    currency text NOT NULL,
+    -- The rule that decided the price
+    rule_id uuid REFERENCES public.repricing_rules(id) ON DELETE SET NULL,
+    rule_name text,
+    -- Every applicable rule in priority order: [{rule_id, name, rule_type, priority, reference, price, listings, outcome}]
+    evaluations jsonb DEFAULT '[]'::jsonb NOT NULL,
+    guardrails_applied text[] DEFAULT '{}'::text[] NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- A retried evaluation replaces the run's candidate
+CREATE UNIQUE INDEX idx_repricing_candidates_run ON public.repricing_candidates (baseline_id, observed_at);
+
+ALTER TABLE public.repricing_candidates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Merchants can view their repricing candidates"
+ON public.repricing_candidates FOR SELECT
+TO authenticated
+USING (auth.uid() = merchant_id);
+
+CREATE POLICY "Admins can view all repricing candidates"
+ON public.repricing_candidates FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
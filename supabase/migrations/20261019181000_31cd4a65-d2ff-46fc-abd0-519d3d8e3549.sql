@@ -0,0 +1,17 @@
+-- The UPDATE policy checked only the row being changed, so an update could re-point
+-- baseline_id at another merchant's product. Check the new row like the INSERT policy.
+DROP POLICY IF EXISTS "Merchants can update their competitor curations" ON public.competitor_curations;
+
+CREATE POLICY "Merchants can update their competitor curations"
+ON public.competitor_curations FOR UPDATE
+TO authenticated
+USING (auth.uid() = merchant_id)
+WITH CHECK (
+  auth.uid() = merchant_id
+  AND EXISTS (
+    SELECT 1
+    FROM public.product_baselines
+    WHERE product_baselines.id = competitor_curations.baseline_id
+      AND product_baselines.merchant_id = auth.uid()
+  )
+);
@@ -0,0 +1,30 @@
+-- Merchants may update their pricing results, which let them set status,
+-- applied_price and decided_at directly and skip decide_pricing_result and its
+-- audit trail. Only that function (SECURITY DEFINER, so it runs as its owner)
+-- and the service role may change them; client inserts must start pending.
+CREATE OR REPLACE FUNCTION public.protect_pricing_result_decision() RETURNS trigger
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending' OR NEW.applied_price IS NOT NULL OR NEW.decided_at IS NOT NULL THEN
+      RAISE EXCEPTION 'New pricing results must be pending';
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status
+     OR NEW.applied_price IS DISTINCT FROM OLD.applied_price
+     OR NEW.decided_at IS DISTINCT FROM OLD.decided_at THEN
+    RAISE EXCEPTION 'Recommendations are decided through decide_pricing_result';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_pricing_result_decision
+BEFORE INSERT OR UPDATE ON public.pricing_results
+FOR EACH ROW EXECUTE FUNCTION public.protect_pricing_result_decision();
@@ -0,0 +1,8 @@
+-- Price-only jobs price the stored competitor data without refreshing it first,
+-- so prices an admin added from the review queue aren't replaced before pricing
+ALTER TABLE public.processing_status
+  DROP CONSTRAINT processing_status_job_type_check;
+
+ALTER TABLE public.processing_status
+  ADD CONSTRAINT processing_status_job_type_check
+  CHECK (job_type = ANY (ARRAY['process_pricing'::text, 'refresh_competitors'::text, 'price_only'::text]));
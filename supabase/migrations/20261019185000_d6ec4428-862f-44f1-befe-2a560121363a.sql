@@ -0,0 +1,4 @@
+-- The INSERT policy never checked that the caller owns baseline_id, so anyone signed
+-- in could add observations to another merchant's price history. Every observation
+-- is written by refresh-competitors or the admin function with the service role.
+DROP POLICY IF EXISTS "Users can record price history for their baselines" ON public.competitor_price_observations;
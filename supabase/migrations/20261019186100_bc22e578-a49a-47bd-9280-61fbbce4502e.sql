@@ -0,0 +1,17 @@
+-- The UPDATE policy checked only the row being changed, so an update could re-point
+-- baseline_id at another merchant's product. Check the new row like the INSERT policy.
+DROP POLICY IF EXISTS "Merchants can update their alert rules" ON public.price_alert_rules;
+
+CREATE POLICY "Merchants can update their alert rules"
+ON public.price_alert_rules FOR UPDATE
+TO authenticated
+USING (auth.uid() = merchant_id)
+WITH CHECK (
+  auth.uid() = merchant_id
+  AND EXISTS (
+    SELECT 1
+    FROM public.product_baselines
+    WHERE product_baselines.id = price_alert_rules.baseline_id
+      AND product_baselines.merchant_id = auth.uid()
+  )
+);
@@ -0,0 +1,20 @@
+-- The UPDATE policy checked only merchant_id, so an update could re-point baseline_id
+-- at another merchant's product. Check the new row like the INSERT policy.
+DROP POLICY IF EXISTS "Merchants can update their guardrails" ON public.price_guardrails;
+
+CREATE POLICY "Merchants can update their guardrails"
+ON public.price_guardrails FOR UPDATE
+TO authenticated
+USING (auth.uid() = merchant_id)
+WITH CHECK (
+  auth.uid() = merchant_id
+  AND (
+    baseline_id IS NULL
+    OR EXISTS (
+      SELECT 1
+      FROM public.product_baselines
+      WHERE product_baselines.id = price_guardrails.baseline_id
+        AND product_baselines.merchant_id = auth.uid()
+    )
+  )
+);
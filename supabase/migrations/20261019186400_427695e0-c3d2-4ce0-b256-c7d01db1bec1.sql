@@ -0,0 +1,8 @@
+-- Spell out the new-row check on strategy updates, as the other merchant tables do
+DROP POLICY IF EXISTS "Merchants can update their own strategies" ON public.pricing_strategies;
+
+CREATE POLICY "Merchants can update their own strategies"
+ON public.pricing_strategies FOR UPDATE
+TO authenticated
+USING (auth.uid() = merchant_id)
+WITH CHECK (auth.uid() = merchant_id);
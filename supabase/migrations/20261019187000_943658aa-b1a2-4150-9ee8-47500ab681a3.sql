@@ -0,0 +1,109 @@
+-- Accepting a result recorded the applied price only when it already had a
+-- pricing_performance row, which warning results and older results never do.
+-- decide_pricing_result now creates the row for them.
+CREATE OR REPLACE FUNCTION public.decide_pricing_result(
+  _result_id uuid,
+  _action text,
+  _applied_price numeric DEFAULT NULL,
+  _reason text DEFAULT NULL
+) RETURNS uuid
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  _uid uuid := auth.uid();
+  _result public.pricing_results%ROWTYPE;
+  _merchant_id uuid;
+  _baseline public.product_baselines%ROWTYPE;
+  _price numeric;
+  _performance_id uuid;
+  _decision_id uuid;
+BEGIN
+  IF _uid IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  SELECT * INTO _result FROM public.pricing_results WHERE id = _result_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pricing result not found';
+  END IF;
+
+  SELECT * INTO _baseline FROM public.product_baselines WHERE id = _result.baseline_id;
+  _merchant_id := _baseline.merchant_id;
+  IF _merchant_id IS DISTINCT FROM _uid THEN
+    RAISE EXCEPTION 'Only the product owner can decide on its recommendations';
+  END IF;
+
+  IF _action = 'accepted' THEN
+    _price := _result.suggested_price;
+  ELSIF _action = 'modified' THEN
+    IF _applied_price IS NULL OR _applied_price <= 0 THEN
+      RAISE EXCEPTION 'A modified recommendation needs a price above zero';
+    END IF;
+    _price := round(_applied_price, 2);
+  ELSIF _action = 'rejected' THEN
+    _price := NULL;
+  ELSE
+    RAISE EXCEPTION 'Unknown action: %', _action;
+  END IF;
+
+  UPDATE public.pricing_results
+  SET status = CASE WHEN _action = 'rejected' THEN 'rejected' ELSE 'applied' END,
+      applied_price = _price,
+      decided_at = now()
+  WHERE id = _result_id;
+
+  SELECT id INTO _performance_id
+  FROM public.pricing_performance
+  WHERE pricing_result_id = _result_id;
+
+  IF _performance_id IS NULL THEN
+    SELECT id INTO _performance_id
+    FROM public.pricing_performance
+    WHERE baseline_id = _result.baseline_id
+      AND pricing_result_id IS NULL
+      AND created_at >= _result.created_at
+    ORDER BY created_at ASC
+    LIMIT 1;
+  END IF;
+
+  -- Warning results and results from before pricing_result_id have no row to record
+  -- the applied price on; start one from the result's own prediction
+  IF _performance_id IS NULL AND _price IS NOT NULL THEN
+    INSERT INTO public.pricing_performance (
+      baseline_id, merchant_id, pricing_result_id, suggested_price, predicted_sales,
+      expected_monthly_profit, market_average, market_lowest, market_highest,
+      category, baseline_quantity
+    )
+    VALUES (
+      _result.baseline_id, _merchant_id, _result_id, _result.suggested_price,
+      COALESCE(_result.expected_quantity, _baseline.current_quantity),
+      _result.expected_monthly_profit, _result.market_average, _result.market_lowest, _result.market_highest,
+      _baseline.category, _baseline.current_quantity
+    )
+    RETURNING id INTO _performance_id;
+  END IF;
+
+  -- A new applied price needs new actual sales before it can be scored again
+  IF _performance_id IS NOT NULL THEN
+    UPDATE public.pricing_performance
+    SET applied_price = _price,
+        applied_at = CASE WHEN _price IS NULL THEN NULL ELSE now() END,
+        scored_at = NULL,
+        updated_at = now()
+    WHERE id = _performance_id;
+  END IF;
+
+  INSERT INTO public.pricing_decisions (
+    pricing_result_id, baseline_id, merchant_id, decided_by, action, previous_status,
+    suggested_price, applied_price, reason
+  )
+  VALUES (
+    _result_id, _result.baseline_id, _merchant_id, _uid, _action, _result.status,
+    _result.suggested_price, _price, NULLIF(btrim(_reason), '')
+  )
+  RETURNING id INTO _decision_id;
+
+  RETURN _decision_id;
+END;
+$$;
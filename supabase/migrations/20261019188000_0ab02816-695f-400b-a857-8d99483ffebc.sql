@@ -0,0 +1,19 @@
+-- "Merchants can acknowledge their alerts" let merchants update every column of an
+-- alert. Only acknowledged_at may change outside the service role.
+CREATE OR REPLACE FUNCTION public.protect_price_alert() RETURNS trigger
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon')
+     AND (to_jsonb(NEW) - 'acknowledged_at') IS DISTINCT FROM (to_jsonb(OLD) - 'acknowledged_at') THEN
+    RAISE EXCEPTION 'Alerts can only be acknowledged';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_price_alert
+BEFORE UPDATE ON public.price_alerts
+FOR EACH ROW EXECUTE FUNCTION public.protect_price_alert();